@@ -1,4 +1,5 @@
 export * from './execution-prompt';
 export * from './perception-prompt';
 export * from './planning-prompt';
+export * from './sql-repair-prompt';
 export * from './message-templates'; 
\ No newline at end of file
@@ -12,7 +12,8 @@ export const MESSAGE_TEMPLATES = {
 
   // Error messages
   error: {
-    openAIKeyRequired: 'OPENAI_API_KEY environment variable is required',
+    apiKeyRequired: '{variable} environment variable is required for the {provider} LLM provider',
+    unknownLLMProvider: 'Unknown LLM provider "{provider}". Available providers: {providers}',
     unexpectedLLMResponse: 'Unexpected LLM response format - not a string',
     promptCreationError: 'Error creating prompt template:',
     errorMessage: 'Error message: {message}'
@@ -20,7 +21,7 @@ export const MESSAGE_TEMPLATES = {
 
   // Info messages
   info: {
-    initializingModel: 'Initializing OpenAI model: {model}, temperature: {temperature}',
+    initializingModel: 'Initializing {provider} model for {stage}: {model}, temperature: {temperature}',
     queryAnalyzed: 'Query analyzed with intent: {intent}, confidence: {confidence}',
     enhancedServices: 'Enhanced required services: {services}'
   }
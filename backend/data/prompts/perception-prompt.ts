@@ -3,6 +3,8 @@ Analyze the user query and determine its intent, confidence, and required databa
 
 DATABASE_DESCRIPTIONS_PLACEHOLDER
 
+QUERY_EXAMPLES_PLACEHOLDER
+
 IMPORTANT SERVICE INFORMATION:
 - 'pam' service is THE MAIN DATABASE for user information - it contains the primary "User" table with ALL registered users.
 - ALWAYS USE "pam" service for any queries about user counts, user lists, or user information.
@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logError, logInfo, logWarn } from './logger';
+import { DatabaseService, ErrorType, Principal } from './types';
+import { createTypedError } from './utils';
+
+/**
+ * Права роли
+ */
+export interface RoleDefinition {
+  services: string[]; // Доступные сервисы ('*' - все)
+  tables?: string[]; // Если задано: только эти таблицы в перечисленных сервисах (service.Table, допускается *)
+  deniedTables?: string[]; // Таблицы, закрытые для роли даже в доступных сервисах
+  permissions?: string[]; // Разрешения на служебные API (например, audit - чтение журнала аудита)
+}
+
+/**
+ * Пользователь API
+ */
+export interface UserDefinition {
+  roles: string[];
+  apiKeyHashes?: string[]; // SHA-256 (hex) выданных пользователю API ключей
+}
+
+/**
+ * Описание политики доступа в файле data/access-control.json
+ */
+export interface AccessControlDefinition {
+  roles: Record<string, RoleDefinition>;
+  users?: Record<string, UserDefinition>;
+}
+
+/**
+ * Итог проверки SQL запроса к сервису
+ */
+export interface AccessCheckResult {
+  allowed: boolean;
+  deniedTables: string[];
+  reason?: string;
+}
+
+/**
+ * Фильтр схемы для промптов LLM: оставляет только то, что пользователь может читать
+ */
+export type SchemaFilter = (service: string, table?: string) => boolean;
+
+/**
+ * Ссылка на таблицу service.Table
+ */
+interface TableRef {
+  service: string;
+  table: string;
+}
+
+/**
+ * Права роли в разобранном виде
+ */
+interface RolePermissions {
+  services: string[];
+  tables: TableRef[];
+  deniedTables: TableRef[];
+  permissions: string[];
+}
+
+/**
+ * Сравнивает имена таблиц без учета регистра и кавычек
+ */
+const normalizeName = (name: string): string => name.replace(/"/g, '').toLowerCase();
+
+/**
+ * Проверяет часть ссылки с учетом *
+ */
+const matchesPart = (pattern: string, value: string): boolean =>
+  pattern === '*' || normalizeName(pattern) === normalizeName(value);
+
+/**
+ * Разбирает ссылку service.Table (части могут быть *)
+ * @param reference - строка ссылки
+ */
+const parseTablePattern = (reference: string): TableRef => {
+  const parts = reference.trim().split('.');
+
+  if (parts.length !== 2 || parts.some(part => !part)) {
+    throw new Error(`Invalid table reference "${reference}", expected service.Table`);
+  }
+
+  const [service, table] = parts;
+  return { service, table };
+};
+
+/**
+ * Хеш API ключа в том виде, в котором он хранится в политике
+ * @param apiKey - API ключ
+ */
+export const hashApiKey = (apiKey: string): string =>
+  crypto.createHash('sha256').update(apiKey).digest('hex');
+
+/**
+ * Политика доступа: пользователи, их роли и доступные ролям сервисы и таблицы.
+ * Одни и те же правила сужают схему в промптах восприятия и планирования,
+ * отсеивают шаги плана и проверяются исполнителем перед каждым SQL запросом.
+ * Запрос без пользователя (внутренние вызовы и скрипты) не ограничивается
+ */
+class AccessControl {
+  private roles: Record<string, RolePermissions> = {};
+  private users: Record<string, UserDefinition> = {};
+  private loaded: boolean = false;
+
+  /**
+   * Загрузить политику из файла
+   * @param filePath - путь к файлу политики
+   */
+  public async loadFromFile(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      logWarn(`Access control policy not found at ${filePath}, authenticated users have no access`);
+      return;
+    }
+
+    try {
+      const data = await fs.promises.readFile(filePath, 'utf-8');
+      this.setPolicy(JSON.parse(data) as AccessControlDefinition);
+
+      logInfo(
+        `Loaded access control policy from ${filePath}: ${Object.keys(this.roles).length} roles, ` +
+          `${Object.keys(this.users).length} users`,
+      );
+    } catch (error) {
+      logError(`Failed to load access control policy from ${filePath}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Заменить политику
+   * @param definition - описание политики
+   */
+  public setPolicy(definition: AccessControlDefinition): void {
+    this.roles = Object.fromEntries(
+      Object.entries(definition.roles || {}).map(([role, permissions]) => [
+        role,
+        {
+          services: permissions.services || [],
+          tables: (permissions.tables || []).map(parseTablePattern),
+          deniedTables: (permissions.deniedTables || []).map(parseTablePattern),
+          permissions: permissions.permissions || [],
+        },
+      ]),
+    );
+    this.users = definition.users || {};
+    this.loaded = true;
+  }
+
+  /**
+   * Проверить, загружена ли политика
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Найти пользователя по API ключу (сравнение хешей за постоянное время)
+   * @param apiKey - предъявленный API ключ
+   */
+  public findUserByApiKey(apiKey: string): Principal | undefined {
+    const presented = Buffer.from(hashApiKey(apiKey), 'hex');
+
+    for (const [id, user] of Object.entries(this.users)) {
+      const matches = (user.apiKeyHashes || []).some(hash => {
+        const stored = Buffer.from(hash, 'hex');
+        return stored.length === presented.length && crypto.timingSafeEqual(stored, presented);
+      });
+
+      if (matches) {
+        return { id, roles: user.roles || [], method: 'api-key' };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Роли пользователя из политики (для JWT без собственных ролей)
+   * @param userId - идентификатор пользователя
+   */
+  public getUserRoles(userId: string): string[] {
+    return this.users[userId]?.roles || [];
+  }
+
+  /**
+   * Проверить, доступен ли сервис пользователю
+   * @param principal - пользователь (без пользователя доступ не ограничен)
+   * @param service - сервис
+   */
+  public isServiceAllowed(principal: Principal | undefined, service: string): boolean {
+    if (!principal) {
+      return true;
+    }
+
+    return this.getPermissions(principal).some(permissions =>
+      permissions.services.some(allowed => matchesPart(allowed, service)),
+    );
+  }
+
+  /**
+   * Проверить, доступна ли таблица пользователю.
+   * Таблица доступна, если ее разрешает хотя бы одна роль пользователя
+   * @param principal - пользователь (без пользователя доступ не ограничен)
+   * @param service - сервис
+   * @param table - имя таблицы
+   */
+  public isTableAllowed(principal: Principal | undefined, service: string, table: string): boolean {
+    if (!principal) {
+      return true;
+    }
+
+    return this.getPermissions(principal).some(permissions => {
+      const matches = (ref: TableRef): boolean =>
+        matchesPart(ref.service, service) && matchesPart(ref.table, table);
+
+      if (!permissions.services.some(allowed => matchesPart(allowed, service))) {
+        return false;
+      }
+      if (permissions.deniedTables.some(matches)) {
+        return false;
+      }
+
+      // Список таблиц роли ограничивает только те сервисы, для которых он задан
+      const serviceTables = permissions.tables.filter(ref => matchesPart(ref.service, service));
+      return serviceTables.length === 0 || serviceTables.some(matches);
+    });
+  }
+
+  /**
+   * Проверить, есть ли у пользователя разрешение хотя бы в одной из ролей
+   * @param principal - пользователь
+   * @param permission - разрешение (например, audit)
+   */
+  public hasPermission(principal: Principal | undefined, permission: string): boolean {
+    if (!principal) {
+      return true;
+    }
+
+    return this.getPermissions(principal).some(permissions =>
+      permissions.permissions.some(allowed => allowed === '*' || allowed === permission),
+    );
+  }
+
+  /**
+   * Проверить, может ли пользователь изменять объект другого пользователя (отчет, расписание):
+   * владельцу это разрешено всегда, остальным - только с разрешением admin
+   * @param principal - пользователь
+   * @param ownerId - ID владельца объекта (undefined, если объект создан без аутентификации)
+   */
+  public canManage(principal: Principal | undefined, ownerId: string | undefined): boolean {
+    if (!principal) {
+      return true;
+    }
+
+    return principal.id === ownerId || this.hasPermission(principal, 'admin');
+  }
+
+  /**
+   * Разделить сервисы на доступные и запрещенные
+   * @param principal - пользователь
+   * @param services - сервисы
+   */
+  public partitionServices(
+    principal: Principal | undefined,
+    services: DatabaseService[],
+  ): { allowed: DatabaseService[]; denied: DatabaseService[] } {
+    const allowed = services.filter(service => this.isServiceAllowed(principal, service));
+    const denied = services.filter(service => !allowed.includes(service));
+    return { allowed, denied };
+  }
+
+  /**
+   * Проверить запрос к сервису по списку прочитанных им таблиц
+   * @param principal - пользователь
+   * @param service - сервис
+   * @param tables - таблицы из SQL запроса
+   */
+  public checkQuery(
+    principal: Principal | undefined,
+    service: string,
+    tables: string[],
+  ): AccessCheckResult {
+    if (!this.isServiceAllowed(principal, service)) {
+      return {
+        allowed: false,
+        deniedTables: [],
+        reason: `User ${principal?.id} may not query service ${service}`,
+      };
+    }
+
+    const deniedTables = tables.filter(table => !this.isTableAllowed(principal, service, table));
+    if (deniedTables.length > 0) {
+      return {
+        allowed: false,
+        deniedTables,
+        reason: `User ${principal?.id} may not read ${deniedTables.map(table => `${service}.${table}`).join(', ')}`,
+      };
+    }
+
+    return { allowed: true, deniedTables: [] };
+  }
+
+  /**
+   * Выбросить ошибку ACCESS_DENIED, если запрос к сервису не разрешен
+   * @param principal - пользователь
+   * @param service - сервис
+   * @param tables - таблицы из SQL запроса
+   */
+  public assertQueryAllowed(
+    principal: Principal | undefined,
+    service: string,
+    tables: string[],
+  ): void {
+    const result = this.checkQuery(principal, service, tables);
+
+    if (!result.allowed) {
+      throw createTypedError(ErrorType.ACCESS_DENIED, `Access denied: ${result.reason}`);
+    }
+  }
+
+  /**
+   * Фильтр схемы для промптов; undefined, если пользователь не ограничен
+   * @param principal - пользователь
+   */
+  public createSchemaFilter(principal: Principal | undefined): SchemaFilter | undefined {
+    if (!principal) {
+      return undefined;
+    }
+
+    return (service, table) =>
+      table === undefined
+        ? this.isServiceAllowed(principal, service)
+        : this.isTableAllowed(principal, service, table);
+  }
+
+  /**
+   * Текст ограничений доступа для промптов LLM; пустая строка, если сервисы пользователя не ограничены
+   * @param principal - пользователь
+   */
+  public getRestrictionsForLLM(principal: Principal | undefined): string {
+    if (!principal) {
+      return '';
+    }
+
+    const services = Array.from(
+      new Set(this.getPermissions(principal).flatMap(permissions => permissions.services)),
+    );
+    if (services.includes('*')) {
+      return '';
+    }
+
+    return (
+      '\nACCESS RESTRICTIONS:\n' +
+      `The user may only query these services: ${services.length > 0 ? services.join(', ') : 'none'}. ` +
+      'Never choose any other service, even if it would answer the question better.\n'
+    );
+  }
+
+  /**
+   * Права ролей пользователя; неизвестные роли прав не дают
+   */
+  private getPermissions(principal: Principal): RolePermissions[] {
+    return principal.roles
+      .map(role => this.roles[role])
+      .filter((permissions): permissions is RolePermissions => Boolean(permissions));
+  }
+}
+
+export const accessControl = new AccessControl();
@@ -0,0 +1,87 @@
+import { ConversationContext, QueryResponse } from './types';
+
+/**
+ * Maximum number of previous turns included in LLM prompts
+ */
+const MAX_CONTEXT_TURNS = parseInt(process.env.CONVERSATION_CONTEXT_TURNS || '5', 10);
+
+/**
+ * Checks whether a conversation context has previous turns
+ * @param context - Conversation context
+ * @returns Whether the current query is a follow-up
+ */
+export const hasConversationHistory = (context?: ConversationContext | null): boolean => {
+  return !!context && context.turns.length > 0;
+};
+
+/**
+ * Builds a short text summary of a query response for storing in conversation history
+ * @param response - Query response
+ * @returns Summary with row counts per result set and the explanation
+ */
+export const summarizeQueryResponse = (response: QueryResponse): string => {
+  const rowCounts = Object.entries(response.data || {})
+    .map(([key, rows]) => {
+      const truncated = response.rowCounts?.[key]?.truncated ? ' (truncated by row limit)' : '';
+      return `${key}: ${Array.isArray(rows) ? rows.length : 0} rows${truncated}`;
+    })
+    .join(', ');
+
+  const parts = [
+    rowCounts ? `Results: ${rowCounts}` : 'No results',
+    response.errors ? `Errors: ${Object.keys(response.errors).join(', ')}` : '',
+    `Explanation: ${response.explanation}`,
+  ];
+
+  return parts.filter(Boolean).join('\n');
+};
+
+/**
+ * Formats previous turns of a conversation for perception and planning prompts
+ * @param context - Conversation context
+ * @param includePlans - Whether to include the SQL of previous plans
+ * @returns Prompt section with the conversation history (empty string if there is none)
+ */
+export const formatConversationForLLM = (
+  context: ConversationContext | null | undefined,
+  includePlans: boolean = false,
+): string => {
+  if (!context || !hasConversationHistory(context)) {
+    return '';
+  }
+
+  const turns = context.turns.slice(-MAX_CONTEXT_TURNS);
+
+  const formattedTurns = turns.map((turn, index) => {
+    let result = `--- Previous query ${index + 1} ---\n`;
+    result += `User query: ${turn.query}\n`;
+    result += `Intent: ${turn.perception.intent}\n`;
+    result += `Services: ${JSON.stringify(turn.perception.requiredServices)}\n`;
+
+    if (turn.perception.entities) {
+      result += `Entities: ${JSON.stringify(turn.perception.entities)}\n`;
+    }
+
+    if (includePlans && turn.plan) {
+      result += 'Plan steps:\n';
+      for (const step of turn.plan.steps) {
+        result += `- [${step.service}] ${step.description}\n`;
+        if (step.sqlQuery) {
+          result += `  SQL: ${step.sqlQuery}\n`;
+        }
+      }
+    }
+
+    if (turn.resultSummary) {
+      result += `${turn.resultSummary}\n`;
+    }
+
+    return result;
+  });
+
+  return `CONVERSATION HISTORY (oldest first):
+${formattedTurns.join('\n')}
+The current query may be a follow-up to the conversation above (for example "now only for last week" or "break that down by currency").
+If it is, resolve references like "that", "them" or "same" using the history and refine the previous query instead of starting from zero.
+`;
+};
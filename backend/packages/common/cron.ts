@@ -0,0 +1,203 @@
+/**
+ * Разобранное cron-выражение: допустимые значения каждого поля (время в UTC)
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, 0 - воскресенье
+  anyDayOfMonth: boolean; // Поле начинается с *: день месяца не ограничивает выбор дня недели
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Поле cron-выражения: допустимый диапазон и имена значений
+ */
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+/**
+ * Границы и имена полей выражения «минута час день месяц день_недели»
+ */
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+/**
+ * Сокращения для частых расписаний
+ */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * Следующее время ищется не дальше этого срока (29 февраля на понедельник бывает раз в 28 лет)
+ */
+const MAX_SEARCH_YEARS = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Разбирает значение поля: число или имя (JAN, MON)
+ */
+const parseValue = (value: string, field: CronField): number => {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = nameIndex >= 0 ? nameIndex + field.min : Number(value);
+
+  if (
+    !/^\w+$/.test(value) ||
+    !Number.isInteger(number) ||
+    number < field.min ||
+    number > field.max
+  ) {
+    throw new Error(`Invalid ${field.name} value "${value}"`);
+  }
+  return number;
+};
+
+/**
+ * Разбирает поле выражения: звездочку, значения, диапазоны a-b, шаги через косую черту
+ * (каждые n значений поля или диапазона) и списки через запятую
+ */
+const parseField = (source: string, field: CronField): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // a/n означает «с a до конца с шагом n»
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Разбирает cron-выражение из пяти полей (минута, час, день месяца, месяц, день недели)
+ * или сокращение (@daily, @hourly, ...). Время расписания - UTC
+ * @param expression - cron-выражение
+ * @throws Error с описанием ошибки в выражении
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`,
+    );
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      parseField(field, FIELDS[index]),
+    );
+
+    // 7 - тоже воскресенье
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return {
+      expression: trimmed,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: fields[2].startsWith('*'),
+      anyDayOfWeek: fields[4].startsWith('*'),
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Проверяет день. Как в cron, если ограничены и день месяца, и день недели,
+ * подходит день, совпавший с любым из них
+ */
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * Находит ближайшее время запуска строго после заданного
+ * @param schedule - разобранное расписание или cron-выражение
+ * @param after - время, после которого ищется запуск
+ * @throws Error, если выражение никогда не срабатывает (например, 30 февраля)
+ */
+export const getNextCronTime = (schedule: CronSchedule | string, after: Date): Date => {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const date = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  // Неподходящие месяцы, дни и часы пропускаются целиком
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${cron.expression}" never matches`);
+};
@@ -3,4 +3,5 @@ export * from './utils';
 export * from './llm';
 export * from './logger';
 export * from './prisma';
-export * from './knowledge';
\ No newline at end of file
+export * from './knowledge';
+export * from './conversation';
\ No newline at end of file
@@ -3,8 +3,10 @@
  */
 import path from 'path';
 import { logError, logInfo, logWarn } from './logger';
-import { databaseKnowledge } from './knowledge';
+import { crossServiceKeys, databaseKnowledge } from './knowledge';
 import { resultStore } from './result-store';
+import { piiPolicy } from './pii-policy';
+import { accessControl } from './access-control';
 
 /**
  * Инициализирует основные компоненты системы
@@ -17,6 +19,30 @@ export const initialize = async (): Promise<void> => {
     const dbDescriptionsPath = path.join(process.cwd(), 'data', 'database-descriptions.json');
     await databaseKnowledge.loadFromFile(dbDescriptionsPath);
     
+    // Дополняем описания структурой из схем Prisma, чтобы расхождения со схемой не ломали валидацию
+    if (process.env.SCHEMA_AUTO_DISCOVERY !== 'false') {
+      try {
+        await databaseKnowledge.updateFromPrisma({
+          introspect: process.env.SCHEMA_INTROSPECTION === 'true',
+        });
+      } catch (error) {
+        logError(`Failed to generate database knowledge from Prisma schemas: ${(error as Error).message}`);
+      }
+    }
+    
+    // Загружаем реестр ключей, связывающих данные разных сервисов
+    const crossServiceKeysPath = path.join(process.cwd(), 'data', 'cross-service-keys.json');
+    await crossServiceKeys.loadFromFile(crossServiceKeysPath);
+    crossServiceKeys.validateAgainstKnowledge();
+    
+    // Загружаем политику защиты персональных данных в результатах запросов
+    const piiPolicyPath = path.join(process.cwd(), 'data', 'pii-policy.json');
+    await piiPolicy.loadFromFile(piiPolicyPath);
+    
+    // Загружаем пользователей, роли и доступные ролям сервисы и таблицы
+    const accessControlPath = path.join(process.cwd(), 'data', 'access-control.json');
+    await accessControl.loadFromFile(accessControlPath);
+    
     // Тестируем подключение к Redis
     try {
       // Проверяем, подключен ли уже Redis
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { logError, logInfo } from './logger';
+
+/**
+ * Как хранилище читает и пишет свои данные
+ */
+export interface JsonFileFormat<T> {
+  name: string; // Что хранится в файле, для журнала (например, "saved reports")
+  parse: (content: unknown) => T; // Данные из разобранного содержимого файла
+  empty: () => T; // Данные, пока файла нет
+  serialize: (data: T) => unknown; // Содержимое файла
+  count: (data: T) => number; // Число записей, для журнала
+}
+
+/**
+ * Данные в JSON-файле: файл читается один раз, после изменений записывается целиком.
+ * Запись идет во временный файл, который затем заменяет основной, поэтому сбой не оставит файл
+ * недописанным; записи выполняются по очереди, и неудачная запись не останавливает следующие
+ */
+export class JsonFile<T> {
+  private data: T | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - путь к файлу
+   * @param format - чтение и запись данных
+   */
+  constructor(
+    readonly filePath: string,
+    private readonly format: JsonFileFormat<T>,
+  ) {}
+
+  /**
+   * Данные файла; пустые данные, если файла еще нет
+   */
+  async load(): Promise<T> {
+    if (this.data) {
+      return this.data;
+    }
+
+    try {
+      this.data = this.format.parse(JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')));
+      logInfo(`Loaded ${this.format.count(this.data)} ${this.format.name} from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logError(
+          `Failed to load ${this.format.name} from ${this.filePath}: ${(error as Error).message}`,
+        );
+        throw error;
+      }
+      this.data = this.format.empty();
+    }
+
+    return this.data;
+  }
+
+  /**
+   * Перечитать файл при следующем обращении
+   */
+  invalidate(): void {
+    this.data = null;
+  }
+
+  /**
+   * Записать текущие данные в файл
+   */
+  async save(): Promise<void> {
+    const content = JSON.stringify(
+      this.format.serialize(this.data || this.format.empty()),
+      null,
+      2,
+    );
+
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content, 'utf-8');
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+
+    await write;
+  }
+}
@@ -0,0 +1,315 @@
+import fs from 'fs';
+import { logError, logInfo, logWarn } from '../logger';
+import { databaseKnowledge } from './database-knowledge';
+
+/**
+ * Ссылка на ключевую колонку таблицы конкретного сервиса (service.Table.column)
+ */
+export interface CrossServiceKeyRef {
+  service: string;
+  table: string;
+  column: string;
+}
+
+/**
+ * Сущность, идентификатор которой хранится в нескольких сервисах
+ * (например, игрок: pam.User.id ≡ wallet.Transaction.userId ≡ bets-history.CasinoBet.userId)
+ */
+export interface CrossServiceEntity {
+  name: string;
+  description: string;
+  canonical: CrossServiceKeyRef; // Основная запись сущности
+  keys: CrossServiceKeyRef[]; // Все эквивалентные ключи, включая основной
+}
+
+/**
+ * Связь между таблицами двух сервисов через общую сущность
+ */
+export interface CrossServiceLink {
+  entity: string;
+  source: CrossServiceKeyRef;
+  target: CrossServiceKeyRef;
+}
+
+/**
+ * Описание сущности в файле реестра (ключи в формате service.Table.column)
+ */
+export interface CrossServiceEntityDefinition {
+  name: string;
+  description?: string;
+  canonical: string;
+  keys: string[];
+}
+
+/**
+ * Разбирает ссылку на ключ в формате service.Table.column
+ * @param reference - строка ссылки
+ */
+export const parseKeyReference = (reference: string): CrossServiceKeyRef => {
+  const parts = reference.trim().split('.');
+
+  if (parts.length !== 3 || parts.some(part => !part)) {
+    throw new Error(
+      `Invalid cross-service key reference "${reference}", expected service.Table.column`,
+    );
+  }
+
+  const [service, table, column] = parts;
+  return { service, table, column };
+};
+
+/**
+ * Форматирует ссылку на ключ обратно в строку service.Table.column
+ * @param key - ссылка на ключ
+ */
+export const formatKeyReference = (key: CrossServiceKeyRef): string =>
+  `${key.service}.${key.table}.${key.column}`;
+
+/**
+ * Сравнивает имена без учета регистра и кавычек
+ */
+const sameName = (a: string, b: string): boolean =>
+  a.replace(/"/g, '').toLowerCase() === b.replace(/"/g, '').toLowerCase();
+
+/**
+ * Реестр ключей, связывающих данные разных сервисов.
+ * Базы сервисов физически разделены, поэтому связи между ними не видны в схемах Prisma
+ * и описываются декларативно в data/cross-service-keys.json
+ */
+class CrossServiceKeyRegistry {
+  private entities: CrossServiceEntity[] = [];
+  private loaded: boolean = false;
+  private registryFilePath: string = '';
+
+  /**
+   * Загрузить реестр из файла
+   * @param filePath - путь к файлу реестра
+   */
+  public async loadFromFile(filePath: string): Promise<void> {
+    this.registryFilePath = filePath;
+
+    if (!fs.existsSync(filePath)) {
+      logWarn(`Cross-service key registry not found at ${filePath}`);
+      return;
+    }
+
+    try {
+      const data = await fs.promises.readFile(filePath, 'utf-8');
+      const { entities } = JSON.parse(data) as { entities: CrossServiceEntityDefinition[] };
+
+      this.setEntities(entities || []);
+
+      logInfo(
+        `Loaded cross-service key registry from ${filePath}: ${this.entities.length} entities`,
+      );
+    } catch (error) {
+      logError(`Failed to load cross-service key registry from ${filePath}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Перечитать файл реестра
+   */
+  public async reload(): Promise<void> {
+    if (!this.registryFilePath) {
+      logWarn('Cannot reload cross-service key registry: file path is not set');
+      return;
+    }
+
+    await this.loadFromFile(this.registryFilePath);
+  }
+
+  /**
+   * Заменить сущности реестра
+   * @param definitions - описания сущностей
+   */
+  public setEntities(definitions: CrossServiceEntityDefinition[]): void {
+    this.entities = definitions.map(definition => {
+      const canonical = parseKeyReference(definition.canonical);
+      const keys = definition.keys.map(parseKeyReference);
+
+      // Основной ключ всегда входит в список эквивалентных ключей
+      if (!keys.some(key => this.isSameKey(key, canonical))) {
+        keys.unshift(canonical);
+      }
+
+      return {
+        name: definition.name,
+        description: definition.description || '',
+        canonical,
+        keys,
+      };
+    });
+
+    this.loaded = true;
+  }
+
+  /**
+   * Получить все сущности реестра
+   */
+  public getEntities(): CrossServiceEntity[] {
+    return this.entities;
+  }
+
+  /**
+   * Проверить, загружен ли реестр
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Найти сущность, к которой относится колонка таблицы
+   * @param service - сервис
+   * @param table - имя таблицы
+   * @param column - имя колонки
+   */
+  public findEntity(
+    service: string,
+    table: string,
+    column: string,
+  ): CrossServiceEntity | undefined {
+    return this.entities.find(entity =>
+      entity.keys.some(key => this.matches(key, service, table) && sameName(key.column, column)),
+    );
+  }
+
+  /**
+   * Получить ключевые колонки таблицы вместе с их сущностями
+   * @param service - сервис
+   * @param table - имя таблицы
+   */
+  public getKeysForTable(
+    service: string,
+    table: string,
+  ): Array<{ entity: CrossServiceEntity; key: CrossServiceKeyRef }> {
+    const result: Array<{ entity: CrossServiceEntity; key: CrossServiceKeyRef }> = [];
+
+    for (const entity of this.entities) {
+      for (const key of entity.keys) {
+        if (this.matches(key, service, table)) {
+          result.push({ entity, key });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Найти сервисы, в которых есть таблица с ключевой колонкой
+   * (например, для таблицы Transaction и колонки userId - wallet и payment-gateway)
+   * @param table - имя таблицы
+   * @param column - имя колонки (если не указано, подходит любая ключевая колонка таблицы)
+   */
+  public findKeysByTable(table: string, column?: string): CrossServiceKeyRef[] {
+    const result: CrossServiceKeyRef[] = [];
+
+    for (const entity of this.entities) {
+      for (const key of entity.keys) {
+        if (sameName(key.table, table) && (!column || sameName(key.column, column))) {
+          result.push(key);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Найти связь между таблицами двух сервисов через общую сущность
+   * @param source - исходная таблица
+   * @param target - целевая таблица
+   */
+  public findLink(
+    source: { service: string; table: string },
+    target: { service: string; table: string },
+  ): CrossServiceLink | undefined {
+    for (const entity of this.entities) {
+      const sourceKey = entity.keys.find(key => this.matches(key, source.service, source.table));
+      const targetKey = entity.keys.find(key => this.matches(key, target.service, target.table));
+
+      if (sourceKey && targetKey) {
+        return { entity: entity.name, source: sourceKey, target: targetKey };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Проверить ключи реестра по текущим знаниям о базах данных
+   * @returns список ключей, которые не найдены в описаниях
+   */
+  public validateAgainstKnowledge(): string[] {
+    if (!databaseKnowledge.isLoaded()) {
+      return [];
+    }
+
+    const problems: string[] = [];
+
+    for (const entity of this.entities) {
+      for (const key of entity.keys) {
+        const table = databaseKnowledge.getTableDescription(key.service, key.table);
+
+        if (!table) {
+          problems.push(`${formatKeyReference(key)}: table not found`);
+        } else if (!table.columns.some(column => column.name === key.column)) {
+          problems.push(`${formatKeyReference(key)}: column not found`);
+        }
+      }
+    }
+
+    problems.forEach(problem => logWarn(`Cross-service key registry: ${problem}`));
+    return problems;
+  }
+
+  /**
+   * Получить текстовое описание связей между сервисами для контекста модели LLM
+   */
+  public getDescriptionForLLM(): string {
+    if (this.entities.length === 0) {
+      return '';
+    }
+
+    let result = 'CROSS-SERVICE KEYS:\n';
+    result +=
+      'Each service has its own database, so a single SQL query can never read tables of another service ' +
+      '(no cross-database JOINs or subqueries). The columns below hold the same identifier in different services:\n\n';
+
+    this.entities.forEach(entity => {
+      result += `## ${entity.name}${entity.description ? `: ${entity.description}` : ''}\n`;
+      result += `Canonical key: ${formatKeyReference(entity.canonical)}\n`;
+      result += `${entity.keys.map(formatKeyReference).join(' ≡ ')}\n\n`;
+    });
+
+    result +=
+      'To combine data from several services, create one step per service. ' +
+      'A later step may filter by values returned from an earlier step with a named placeholder ' +
+      'that matches the column returned by the earlier step, ' +
+      'e.g. step 1 (wallet): SELECT "userId" FROM "Transaction" ...; step 2 (pam): SELECT * FROM "User" WHERE "id" IN (:userId). ' +
+      '"= :column" takes the value from the first row, "IN (:column)" and "= ANY(:column)" take the values of all rows; ' +
+      'values are passed as bind parameters, so never quote placeholders or write them as $1, ? or @column. ' +
+      'Always return the key column in steps whose results must be combined with other services.\n';
+
+    return result;
+  }
+
+  /**
+   * Проверить, относится ли ключ к указанной таблице
+   */
+  private matches(key: CrossServiceKeyRef, service: string, table: string): boolean {
+    return key.service === service && sameName(key.table, table);
+  }
+
+  /**
+   * Сравнить две ссылки на ключ
+   */
+  private isSameKey(a: CrossServiceKeyRef, b: CrossServiceKeyRef): boolean {
+    return this.matches(a, b.service, b.table) && sameName(a.column, b.column);
+  }
+}
+
+// Экспортируем синглтон
+export const crossServiceKeys = new CrossServiceKeyRegistry();
@@ -1,5 +1,15 @@
 import fs from 'fs';
+import path from 'path';
+import { DatabaseService } from '../types';
 import { logError, logInfo, logWarn } from '../logger';
+import { SchemaFilter } from '../access-control';
+import {
+  applyIntrospection,
+  DEFAULT_SCHEMA_DIR,
+  generateFromPrismaSchemas,
+  introspectDatabase,
+  mergeDatabaseDescriptions,
+} from './schema-generator';
 
 /**
  * Структура описания таблицы базы данных
@@ -19,6 +29,8 @@ export interface TableDescription {
       table: string;
       column: string;
     };
+    defaultValue?: string;
+    enumValues?: string[];
   }[];
   relations?: {
     type: 'oneToOne' | 'oneToMany' | 'manyToOne' | 'manyToMany';
@@ -27,6 +39,11 @@ export interface TableDescription {
     targetColumn: string;
     description: string;
   }[];
+  indexes?: {
+    name?: string;
+    columns: string[];
+    isUnique: boolean;
+  }[];
   examples?: {
     description: string;
     query: string;
@@ -41,12 +58,71 @@ export interface DatabaseDescription {
   service: string;
   description: string;
   tables: TableDescription[];
+  enums?: {
+    name: string;
+    values: string[];
+  }[];
   commonQueries?: {
     description: string;
     query: string;
   }[];
 }
 
+/**
+ * Текстовое описание таблицы для контекста модели LLM
+ * @param table - описание таблицы
+ * @param columns - показываемые колонки (по умолчанию все); вместо остальных пишется их число
+ * @param includeExamples - добавлять ли примеры запросов
+ */
+export const formatTableForLLM = (
+  table: TableDescription,
+  columns: TableDescription['columns'] = table.columns,
+  includeExamples: boolean = true
+): string => {
+  let result = `### Table: ${table.name}\n`;
+  if (table.description) {
+    result += `${table.description}\n`;
+  }
+  result += '\n';
+  
+  result += "Columns:\n";
+  columns.forEach(col => {
+    const flags = [
+      col.isPrimaryKey ? 'PK' : '',
+      col.isUnique ? 'UNIQUE' : '',
+      col.isNullable ? 'NULL' : 'NOT NULL',
+      col.isForeignKey ? 'FK' : ''
+    ].filter(Boolean).join(', ');
+    
+    const values = col.enumValues ? ` [${col.enumValues.join(', ')}]` : '';
+    const references = col.references ? ` -> ${col.references.table}.${col.references.column}` : '';
+    const description = col.description ? `: ${col.description}` : '';
+    
+    result += `- ${col.name} (${col.type}${flags ? ` ${flags}` : ''})${values}${references}${description}\n`;
+  });
+  
+  if (columns.length < table.columns.length) {
+    result += `- ... ${table.columns.length - columns.length} more columns\n`;
+  }
+  
+  if (includeExamples && table.examples && table.examples.length > 0) {
+    result += "\nExample queries:\n";
+    table.examples.forEach(ex => {
+      result += `- ${ex.description}: \`${ex.query}\`\n`;
+    });
+  }
+  
+  return `${result}\n`;
+};
+
+/**
+ * Параметры генерации описаний по схемам Prisma
+ */
+export interface PrismaDiscoveryOptions {
+  schemaDir?: string;     // Директория со схемами prisma/services
+  introspect?: boolean;   // Дополнительно читать information_schema живых баз
+}
+
 /**
  * Хранилище знаний о базах данных
  */
@@ -55,6 +131,8 @@ class DatabaseKnowledge {
   private tableMap: Map<string, TableDescription> = new Map();
   private loaded: boolean = false;
   private knowledgeFilePath: string = '';
+  private handWrittenDescriptions: DatabaseDescription[] = [];
+  private discoveryOptions: PrismaDiscoveryOptions | null = null;
 
   /**
    * Загрузить описания баз данных из файла
@@ -72,21 +150,10 @@ class DatabaseKnowledge {
       const data = await fs.promises.readFile(filePath, 'utf-8');
       const descriptions = JSON.parse(data) as DatabaseDescription[];
       
-      // Очистить существующие описания
-      this.descriptions.clear();
-      this.tableMap.clear();
-      
-      // Заполнить хранилище 
-      descriptions.forEach(desc => {
-        this.descriptions.set(desc.service, desc);
-        
-        // Создать карту таблиц для быстрого доступа
-        desc.tables.forEach(table => {
-          this.tableMap.set(`${desc.service}.${table.name}`, table);
-        });
-      });
+      // Описания из файла служат основой для слияния со сгенерированными
+      this.handWrittenDescriptions = descriptions;
+      this.setDescriptions(descriptions);
       
-      this.loaded = true;
       logInfo(`Loaded database knowledge from ${filePath}: ${descriptions.length} databases, ${this.tableMap.size} tables`);
     } catch (error) {
       logError(`Failed to load database knowledge from ${filePath}: ${error}`);
@@ -95,12 +162,54 @@ class DatabaseKnowledge {
   }
   
   /**
-   * Обновить описания баз данных на основе данных Prisma
-   * Эту функцию можно расширить в будущем для автоматического анализа схем
+   * Обновить описания баз данных на основе схем Prisma (и, опционально, information_schema).
+   * Описания и примеры, загруженные из файла, накладываются поверх сгенерированной структуры
+   * @param options - параметры генерации
+   */
+  public async updateFromPrisma(options: PrismaDiscoveryOptions = {}): Promise<void> {
+    const schemaDir = options.schemaDir || DEFAULT_SCHEMA_DIR;
+    let generated = await generateFromPrismaSchemas(schemaDir);
+    
+    if (generated.length === 0) {
+      logWarn(`No Prisma schemas found in ${schemaDir}, keeping current database knowledge`);
+      return;
+    }
+    
+    if (options.introspect) {
+      const introspected: DatabaseDescription[] = [];
+      
+      for (const description of generated) {
+        const result = await introspectDatabase(description.service as DatabaseService);
+        introspected.push(result ? applyIntrospection(description, result) : description);
+      }
+      
+      generated = introspected;
+    }
+    
+    const merged = mergeDatabaseDescriptions(generated, this.handWrittenDescriptions);
+    this.setDescriptions(merged);
+    this.discoveryOptions = options;
+    
+    logInfo(`Database knowledge updated from Prisma schemas: ${merged.length} databases, ${this.tableMap.size} tables`);
+  }
+  
+  /**
+   * Сохранить текущие описания баз данных в файл
+   * @param filePath - путь к файлу (по умолчанию - файл, из которого были загружены описания)
    */
-  public async updateFromPrisma(): Promise<void> {
-    // TODO: Реализовать автоматическое обновление описаний на основе интроспекции Prisma
-    logInfo('Automatic database schema discovery is not implemented yet');
+  public async saveToFile(filePath: string = this.knowledgeFilePath): Promise<void> {
+    if (!filePath) {
+      throw new Error('Cannot save database knowledge: file path is not set');
+    }
+    
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(
+      filePath,
+      `${JSON.stringify(Array.from(this.descriptions.values()), null, 2)}\n`,
+      'utf-8'
+    );
+    
+    logInfo(`Saved database knowledge to ${filePath}: ${this.descriptions.size} databases`);
   }
   
   /**
@@ -134,16 +243,17 @@ class DatabaseKnowledge {
   
   /**
    * Получить текстовое описание баз данных для контекста модели LLM
+   * @param filter - оставляет только доступные пользователю сервисы и таблицы
    */
-  public getDatabaseDescriptionsForLLM(): string {
+  public getDatabaseDescriptionsForLLM(filter?: SchemaFilter): string {
     if (!this.loaded) {
       return 'Database descriptions are not loaded yet.';
     }
     
     let result = 'AVAILABLE DATABASE SERVICES:\n\n';
     
-    this.descriptions.forEach(db => {
-      result += `- "${db.service}": ${db.description}\n`;
+    this.getVisibleDatabases(filter).forEach(db => {
+      result += `- "${db.service}"${db.description ? `: ${db.description}` : ''}\n`;
       result += `  Tables: ${db.tables.map(t => t.name).join(', ')}\n\n`;
     });
     
@@ -152,41 +262,20 @@ class DatabaseKnowledge {
   
   /**
    * Получить подробное текстовое описание баз данных для контекста модели LLM
+   * @param filter - оставляет только доступные пользователю сервисы и таблицы
    */
-  public getDetailedDatabaseDescriptionsForLLM(): string {
+  public getDetailedDatabaseDescriptionsForLLM(filter?: SchemaFilter): string {
     if (!this.loaded) {
       return 'Database descriptions are not loaded yet.';
     }
     
     let result = 'AVAILABLE DATABASE SERVICES AND TABLES:\n\n';
     
-    this.descriptions.forEach(db => {
-      result += `## "${db.service}": ${db.description}\n\n`;
+    this.getVisibleDatabases(filter).forEach(db => {
+      result += `## "${db.service}"${db.description ? `: ${db.description}` : ''}\n\n`;
       
       db.tables.forEach(table => {
-        result += `### Table: ${table.name}\n`;
-        result += `${table.description}\n\n`;
-        
-        result += "Columns:\n";
-        table.columns.forEach(col => {
-          const flags = [
-            col.isPrimaryKey ? 'PK' : '',
-            col.isUnique ? 'UNIQUE' : '',
-            col.isNullable ? 'NULL' : 'NOT NULL',
-            col.isForeignKey ? 'FK' : ''
-          ].filter(Boolean).join(', ');
-          
-          result += `- ${col.name} (${col.type}${flags ? ` ${flags}` : ''}): ${col.description}\n`;
-        });
-        
-        if (table.examples && table.examples.length > 0) {
-          result += "\nExample queries:\n";
-          table.examples.forEach(ex => {
-            result += `- ${ex.description}: \`${ex.query}\`\n`;
-          });
-        }
-        
-        result += '\n';
+        result += formatTableForLLM(table);
       });
       
       result += '\n';
@@ -195,6 +284,21 @@ class DatabaseKnowledge {
     return result;
   }
 
+  /**
+   * Описания баз данных, оставленные фильтром (без фильтра - все)
+   */
+  private getVisibleDatabases(filter?: SchemaFilter): DatabaseDescription[] {
+    const databases = Array.from(this.descriptions.values());
+    
+    if (!filter) {
+      return databases;
+    }
+    
+    return databases
+      .filter(db => filter(db.service))
+      .map(db => ({ ...db, tables: db.tables.filter(table => filter(db.service, table.name)) }));
+  }
+
   /**
    * Проверить, загружены ли описания баз данных
    */
@@ -203,15 +307,42 @@ class DatabaseKnowledge {
   }
   
   /**
-   * Перезагрузить описания баз данных
+   * Перезагрузить описания баз данных без перезапуска сервера:
+   * перечитать файл и, если описания генерировались по схемам Prisma, сгенерировать их заново
    */
   public async reload(): Promise<void> {
-    if (!this.knowledgeFilePath) {
+    if (!this.knowledgeFilePath && !this.discoveryOptions) {
       logWarn('Cannot reload database knowledge: file path is not set');
       return;
     }
     
-    await this.loadFromFile(this.knowledgeFilePath);
+    if (this.knowledgeFilePath) {
+      await this.loadFromFile(this.knowledgeFilePath);
+    }
+    
+    if (this.discoveryOptions) {
+      await this.updateFromPrisma(this.discoveryOptions);
+    }
+  }
+  
+  /**
+   * Заменить описания баз данных и перестроить карту таблиц
+   * @param descriptions - новые описания
+   */
+  private setDescriptions(descriptions: DatabaseDescription[]): void {
+    this.descriptions.clear();
+    this.tableMap.clear();
+    
+    descriptions.forEach(desc => {
+      this.descriptions.set(desc.service, desc);
+      
+      // Создать карту таблиц для быстрого доступа
+      desc.tables.forEach(table => {
+        this.tableMap.set(`${desc.service}.${table.name}`, table);
+      });
+    });
+    
+    this.loaded = true;
   }
 }
 
@@ -1 +1,5 @@
-export * from './database-knowledge';
\ No newline at end of file
+export * from './database-knowledge';
+export * from './schema-generator';
+export * from './cross-service-keys';
+export * from './schema-retrieval';
+export * from './query-examples';
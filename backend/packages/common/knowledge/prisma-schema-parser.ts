@@ -0,0 +1,274 @@
+/**
+ * Атрибут поля или модели Prisma (например, @id, @default(now()), @@index([userId]))
+ */
+export interface PrismaAttribute {
+  name: string;
+  args: string;
+}
+
+/**
+ * Поле модели Prisma
+ */
+export interface PrismaField {
+  name: string;
+  type: string;
+  isList: boolean;
+  isOptional: boolean;
+  attributes: PrismaAttribute[];
+  documentation?: string;
+}
+
+/**
+ * Модель (таблица) Prisma
+ */
+export interface PrismaModel {
+  name: string;
+  fields: PrismaField[];
+  attributes: PrismaAttribute[];
+  documentation?: string;
+  isView: boolean;
+}
+
+/**
+ * Перечисление Prisma
+ */
+export interface PrismaEnum {
+  name: string;
+  values: string[];
+  documentation?: string;
+}
+
+/**
+ * Разобранная схема Prisma
+ */
+export interface PrismaSchema {
+  models: PrismaModel[];
+  enums: PrismaEnum[];
+}
+
+/**
+ * Удаляет обычные комментарии (//), оставляя документирующие (///) и строки в кавычках
+ * @param line - строка схемы
+ */
+const stripComment = (line: string): string => {
+  let inString = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"' && line[i - 1] !== '\\') {
+      inString = !inString;
+    } else if (!inString && char === '/' && line[i + 1] === '/') {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+};
+
+/**
+ * Разбирает строку атрибутов поля или модели с учетом вложенных скобок
+ * @param source - часть строки, начинающаяся с первого символа @
+ */
+export const parseAttributes = (source: string): PrismaAttribute[] => {
+  const attributes: PrismaAttribute[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    if (source[i] !== '@') {
+      i++;
+      continue;
+    }
+
+    const nameMatch = source.slice(i).match(/^@@?[A-Za-z_][\w.]*/);
+    if (!nameMatch) {
+      i++;
+      continue;
+    }
+
+    const name = nameMatch[0];
+    i += name.length;
+
+    let args = '';
+    if (source[i] === '(') {
+      let depth = 0;
+      let inString = false;
+      const start = i;
+
+      for (; i < source.length; i++) {
+        const char = source[i];
+        if (char === '"' && source[i - 1] !== '\\') {
+          inString = !inString;
+        } else if (!inString && char === '(') {
+          depth++;
+        } else if (!inString && char === ')') {
+          depth--;
+          if (depth === 0) {
+            i++;
+            break;
+          }
+        }
+      }
+
+      args = source.slice(start + 1, i - 1).trim();
+    }
+
+    attributes.push({ name, args });
+  }
+
+  return attributes;
+};
+
+/**
+ * Разбирает строку поля модели
+ * @param line - строка без комментариев
+ * @param documentation - накопленный документирующий комментарий
+ */
+const parseField = (line: string, documentation: string[]): PrismaField | null => {
+  const match = line.match(/^([A-Za-z_]\w*)\s+([A-Za-z_][\w.]*(?:\([^)]*\))?)(\[\])?(\?)?\s*(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, name, type, list, optional, rest] = match;
+
+  return {
+    name,
+    type,
+    isList: !!list,
+    isOptional: !!optional,
+    attributes: parseAttributes(rest),
+    documentation: documentation.length > 0 ? documentation.join(' ') : undefined,
+  };
+};
+
+/**
+ * Разбирает текст схемы Prisma в модели и перечисления
+ * @param content - содержимое .prisma файла
+ */
+export const parsePrismaSchema = (content: string): PrismaSchema => {
+  const schema: PrismaSchema = { models: [], enums: [] };
+  const lines = content.split(/\r?\n/);
+
+  let currentModel: PrismaModel | null = null;
+  let currentEnum: PrismaEnum | null = null;
+  let skipBlock = false;
+  let documentation: string[] = [];
+
+  for (const rawLine of lines) {
+    const trimmed = rawLine.trim();
+
+    if (trimmed.startsWith('///')) {
+      documentation.push(trimmed.slice(3).trim());
+      continue;
+    }
+
+    const line = stripComment(trimmed).trim();
+    if (!line) {
+      continue;
+    }
+
+    // Начало блока
+    const blockMatch = line.match(/^(model|view|enum|type|generator|datasource)\s+(\w+)\s*\{$/);
+    if (blockMatch && !currentModel && !currentEnum && !skipBlock) {
+      const [, kind, name] = blockMatch;
+      const blockDocumentation = documentation.length > 0 ? documentation.join(' ') : undefined;
+
+      if (kind === 'model' || kind === 'view') {
+        currentModel = {
+          name,
+          fields: [],
+          attributes: [],
+          documentation: blockDocumentation,
+          isView: kind === 'view',
+        };
+      } else if (kind === 'enum') {
+        currentEnum = { name, values: [], documentation: blockDocumentation };
+      } else {
+        skipBlock = true;
+      }
+
+      documentation = [];
+      continue;
+    }
+
+    // Конец блока
+    if (line === '}') {
+      if (currentModel) {
+        schema.models.push(currentModel);
+      }
+      if (currentEnum) {
+        schema.enums.push(currentEnum);
+      }
+      currentModel = null;
+      currentEnum = null;
+      skipBlock = false;
+      documentation = [];
+      continue;
+    }
+
+    if (currentModel) {
+      if (line.startsWith('@@')) {
+        currentModel.attributes.push(...parseAttributes(line));
+      } else {
+        const field = parseField(line, documentation);
+        if (field) {
+          currentModel.fields.push(field);
+        }
+      }
+    } else if (currentEnum) {
+      const valueMatch = line.match(/^([A-Za-z_]\w*)/);
+      if (valueMatch && !line.startsWith('@@')) {
+        currentEnum.values.push(valueMatch[1]);
+      }
+    }
+
+    documentation = [];
+  }
+
+  return schema;
+};
+
+/**
+ * Находит атрибут по имени
+ * @param attributes - список атрибутов
+ * @param name - имя атрибута вместе с @ или @@
+ */
+export const findAttribute = (
+  attributes: PrismaAttribute[],
+  name: string,
+): PrismaAttribute | undefined => attributes.find(attribute => attribute.name === name);
+
+/**
+ * Извлекает строковое значение аргумента атрибута (map: "name" или первый позиционный "name")
+ * @param args - аргументы атрибута
+ * @param key - имя именованного аргумента
+ */
+export const getStringArgument = (args: string, key?: string): string | undefined => {
+  const namedMatch = key ? args.match(new RegExp(`\\b${key}\\s*:\\s*"([^"]*)"`)) : null;
+  if (namedMatch) {
+    return namedMatch[1];
+  }
+
+  const positionalMatch = args.match(/^\s*"([^"]*)"/);
+  return positionalMatch ? positionalMatch[1] : undefined;
+};
+
+/**
+ * Извлекает список полей из аргумента атрибута ([a, b] или fields: [a, b])
+ * @param args - аргументы атрибута
+ * @param key - имя именованного аргумента
+ */
+export const getListArgument = (args: string, key?: string): string[] => {
+  const pattern = key ? new RegExp(`\\b${key}\\s*:\\s*\\[([^\\]]*)\\]`) : /^\s*\[([^\]]*)\]/;
+  const match = args.match(pattern);
+
+  if (!match) {
+    return [];
+  }
+
+  return match[1]
+    .split(',')
+    .map(item => item.trim().replace(/\(.*\)$/, ''))
+    .filter(Boolean);
+};
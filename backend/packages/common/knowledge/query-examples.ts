@@ -0,0 +1,472 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SchemaFilter } from '../access-control';
+import { JsonFile, JsonFileFormat } from '../json-file';
+import { EmbeddingModel, getEmbeddingModel } from '../llm';
+import { logDebug, logInfo, logWarn } from '../logger';
+import { ErrorType, Principal, QueryPlan } from '../types';
+import { createTypedError } from '../utils';
+import { Bm25Index, cosineSimilarity, flattenEntities, tokenize } from './schema-retrieval';
+
+/**
+ * Файл библиотеки примеров по умолчанию (QUERY_EXAMPLES_FILE)
+ */
+const DEFAULT_QUERY_EXAMPLES_FILE =
+  process.env.QUERY_EXAMPLES_FILE || path.join(process.cwd(), 'data', 'query-examples.json');
+
+/**
+ * Сколько примеров попадает в промпты (QUERY_EXAMPLES_LIMIT)
+ */
+export const DEFAULT_QUERY_EXAMPLES_LIMIT = parseInt(process.env.QUERY_EXAMPLES_LIMIT || '3', 10);
+
+/**
+ * Статус примера: в промпты попадают только одобренные
+ */
+export type QueryExampleStatus = 'draft' | 'approved';
+
+/**
+ * Содержимое версии примера: вопрос и проверенный план с SQL шагов
+ */
+export interface QueryExampleVersion {
+  version: number;
+  question: string;
+  plan: QueryPlan;
+  notes?: string; // Пояснение для модели: почему запрос построен именно так
+  status: QueryExampleStatus;
+  updatedBy?: string;
+  updatedAt: number;
+  approvedBy?: string;
+  approvedAt?: number;
+}
+
+/**
+ * Проверенный пример вопроса, плана и SQL.
+ * Поля текущей версии лежат в самом примере, предыдущие версии - в history
+ */
+export interface QueryExample extends QueryExampleVersion {
+  id: string;
+  sourceQueryId?: string; // Запуск конвейера, из которого пример перенесен в библиотеку
+  createdBy?: string;
+  createdAt: number;
+  history: QueryExampleVersion[]; // Предыдущие версии, от старых к новым
+}
+
+/**
+ * Тело запроса на создание или изменение примера
+ */
+export interface QueryExampleInput {
+  question?: string;
+  plan?: QueryPlan;
+  notes?: string;
+  sourceQueryId?: string;
+  approve?: boolean; // Сразу одобрить пример
+}
+
+/**
+ * Вопрос, для которого подбираются примеры
+ */
+export interface QueryExampleSearch {
+  question: string;
+  entities?: Record<string, unknown> | null; // Сущности, извлеченные восприятием
+  history?: string[]; // Предыдущие вопросы диалога
+  filter?: SchemaFilter; // Примеры с недоступными сервисами или таблицами не показываются
+  includeDrafts?: boolean; // Искать и среди неодобренных (для API библиотеки, не для промптов)
+}
+
+/**
+ * Пример с оценкой близости к вопросу
+ */
+export interface RankedQueryExample {
+  example: QueryExample;
+  score: number;
+}
+
+/**
+ * Вклад предыдущих вопросов диалога в поиск примеров и вес вопроса примера относительно описаний шагов
+ */
+const HISTORY_WEIGHT = 0.5;
+const QUESTION_WEIGHT = 2;
+
+/**
+ * Выбрасывает ошибку проверки примера
+ */
+const invalid = (message: string): never => {
+  throw createTypedError(ErrorType.INVALID_QUERY, message);
+};
+
+/**
+ * Проверяет вопрос и план примера
+ * @param example - версия примера
+ * @throws INVALID_QUERY с описанием первой найденной проблемы
+ */
+export const validateQueryExample = (example: QueryExampleVersion): void => {
+  if (!example.question?.trim()) {
+    invalid('Example question is required');
+  }
+  if (!example.plan?.steps?.length) {
+    invalid('Example plan has no steps');
+  }
+
+  example.plan.steps.forEach((step, index) => {
+    if (!step.service) {
+      invalid(`Step ${index + 1} of the example plan has no service`);
+    }
+    if (!step.sqlQuery?.trim()) {
+      invalid(`Step ${index + 1} of the example plan has no SQL`);
+    }
+  });
+};
+
+/**
+ * Таблицы, которые читает SQL шага (FROM и JOIN)
+ */
+const extractTableNames = (sql: string): string[] =>
+  Array.from(sql.matchAll(/\b(?:FROM|JOIN)\s+(?:"?\w+"?\.)?"?(\w+)"?/gi), match => match[1]);
+
+/**
+ * Проверяет, что пользователь может читать все сервисы и таблицы примера
+ * @param example - пример
+ * @param filter - фильтр доступа пользователя
+ */
+export const isQueryExampleAllowed = (example: QueryExample, filter?: SchemaFilter): boolean =>
+  !filter ||
+  example.plan.steps.every(
+    step =>
+      filter(step.service) &&
+      extractTableNames(step.sqlQuery || '').every(table => filter(step.service, table)),
+  );
+
+/**
+ * Термы примера: вопрос и описания шагов плана
+ */
+const getExampleTerms = (example: QueryExample): string[] => [
+  ...Array.from({ length: QUESTION_WEIGHT }, () => tokenize(example.question)).flat(),
+  ...example.plan.steps.flatMap(step => tokenize(step.description || '')),
+];
+
+/**
+ * Поля версии примера, которые сохраняются в истории
+ */
+const toVersion = (example: QueryExample): QueryExampleVersion => ({
+  version: example.version,
+  question: example.question,
+  plan: example.plan,
+  notes: example.notes,
+  status: example.status,
+  updatedBy: example.updatedBy,
+  updatedAt: example.updatedAt,
+  approvedBy: example.approvedBy,
+  approvedAt: example.approvedAt,
+});
+
+/**
+ * Форматирует примеры для промпта
+ * @param examples - отобранные примеры
+ * @param includePlan - показывать шаги плана (для планирования) или только сервисы и SQL (для восприятия)
+ * @returns Раздел промпта или пустая строка, если примеров нет
+ */
+export const formatQueryExamplesForLLM = (examples: QueryExample[], includePlan = true): string => {
+  if (examples.length === 0) {
+    return '';
+  }
+
+  const blocks = examples.map((example, index) => {
+    let text = `### Example ${index + 1}\nQuestion: ${example.question}\n`;
+    if (example.notes) {
+      text += `Notes: ${example.notes}\n`;
+    }
+
+    if (includePlan) {
+      example.plan.steps.forEach((step, stepIndex) => {
+        text += `Step ${stepIndex + 1} (${step.service}): ${step.description}\nSQL: ${step.sqlQuery}\n`;
+      });
+      if (example.plan.localSql) {
+        text += `Local SQL: ${example.plan.localSql}\n`;
+      }
+    } else {
+      text += `Required services: ${JSON.stringify(example.plan.requiredServices)}\n`;
+      text += `SQL: ${example.plan.steps.map(step => step.sqlQuery).join(';\n')}\n`;
+    }
+
+    return text;
+  });
+
+  return `VERIFIED EXAMPLES OF SIMILAR QUESTIONS (answers checked by analysts; follow their tables, joins and filters when they fit the question):\n\n${blocks.join('\n')}`;
+};
+
+/**
+ * Файл библиотеки: { examples } или просто массив примеров
+ */
+const QUERY_EXAMPLES_FORMAT: JsonFileFormat<Map<string, QueryExample>> = {
+  name: 'query examples',
+  parse: data => {
+    const content = data as { examples?: QueryExample[] } | QueryExample[];
+    const examples = Array.isArray(content) ? content : content.examples || [];
+    return new Map(examples.map(example => [example.id, example]));
+  },
+  empty: () => new Map(),
+  serialize: examples => ({ examples: Array.from(examples.values()) }),
+  count: examples => examples.size,
+};
+
+/**
+ * Библиотека проверенных примеров: вопрос, план и SQL, которые аналитики проверили и одобрили.
+ * Примеры хранятся в одном JSON-файле с историей версий; одобренные примеры, близкие к вопросу,
+ * подставляются в промпты восприятия и планирования
+ */
+export class QueryExampleLibrary {
+  private readonly file: JsonFile<Map<string, QueryExample>>;
+  // Эмбеддинги вопросов примеров: пересчитываются только для новых и измененных
+  private questionEmbeddings = new Map<string, number[]>();
+
+  constructor(
+    filePath: string = DEFAULT_QUERY_EXAMPLES_FILE,
+    private readonly getEmbeddings: () => EmbeddingModel | undefined = getEmbeddingModel,
+  ) {
+    this.file = new JsonFile(filePath, QUERY_EXAMPLES_FORMAT);
+  }
+
+  /**
+   * Список примеров, новые изменения первыми
+   * @param status - только примеры с этим статусом
+   * @param filter - только примеры, доступные пользователю
+   */
+  async list(status?: QueryExampleStatus, filter?: SchemaFilter): Promise<QueryExample[]> {
+    return Array.from((await this.file.load()).values())
+      .filter(example => !status || example.status === status)
+      .filter(example => isQueryExampleAllowed(example, filter))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Получить пример
+   * @param id - идентификатор примера
+   */
+  async get(id: string): Promise<QueryExample | undefined> {
+    return (await this.file.load()).get(id);
+  }
+
+  /**
+   * Добавить пример
+   * @param input - вопрос, план и пояснение
+   * @param principal - автор; с approve пример сразу одобряется от его имени
+   * @throws INVALID_QUERY, если пример не проходит проверку
+   */
+  async create(input: QueryExampleInput, principal?: Principal): Promise<QueryExample> {
+    const now = Date.now();
+    const example: QueryExample = {
+      id: uuidv4(),
+      version: 1,
+      question: input.question?.trim() || '',
+      plan: input.plan as QueryPlan,
+      notes: input.notes,
+      status: 'draft',
+      sourceQueryId: input.sourceQueryId,
+      createdBy: principal?.id,
+      createdAt: now,
+      updatedBy: principal?.id,
+      updatedAt: now,
+      history: [],
+    };
+    if (input.approve) {
+      Object.assign(example, { status: 'approved', approvedBy: principal?.id, approvedAt: now });
+    }
+    validateQueryExample(example);
+
+    const examples = await this.file.load();
+    examples.set(example.id, example);
+    await this.file.save();
+
+    logInfo(`Added query example ${example.id} "${example.question}"`);
+    return example;
+  }
+
+  /**
+   * Изменить пример: текущая версия уходит в историю, новая версия требует повторного одобрения,
+   * если в запросе нет approve
+   * @param id - идентификатор примера
+   * @param input - измененные поля; пропущенные сохраняют значения
+   * @param principal - автор изменения
+   * @returns Новая версия примера или undefined, если примера нет
+   */
+  async update(
+    id: string,
+    input: QueryExampleInput,
+    principal?: Principal,
+  ): Promise<QueryExample | undefined> {
+    const examples = await this.file.load();
+    const existing = examples.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const example: QueryExample = {
+      ...existing,
+      version: existing.version + 1,
+      question: input.question !== undefined ? input.question.trim() : existing.question,
+      plan: input.plan || existing.plan,
+      notes: input.notes !== undefined ? input.notes : existing.notes,
+      status: input.approve ? 'approved' : 'draft',
+      updatedBy: principal?.id,
+      updatedAt: now,
+      approvedBy: input.approve ? principal?.id : undefined,
+      approvedAt: input.approve ? now : undefined,
+      history: [...existing.history, toVersion(existing)],
+    };
+    validateQueryExample(example);
+
+    examples.set(id, example);
+    await this.file.save();
+
+    logInfo(`Updated query example ${id} to version ${example.version}`);
+    return example;
+  }
+
+  /**
+   * Одобрить текущую версию примера: с этого момента он попадает в промпты
+   * @param id - идентификатор примера
+   * @param principal - кто проверил пример
+   * @returns Одобренный пример или undefined, если примера нет
+   */
+  async approve(id: string, principal?: Principal): Promise<QueryExample | undefined> {
+    const examples = await this.file.load();
+    const existing = examples.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const example: QueryExample = {
+      ...existing,
+      status: 'approved',
+      approvedBy: principal?.id,
+      approvedAt: Date.now(),
+    };
+    examples.set(id, example);
+    await this.file.save();
+
+    logInfo(`Approved version ${example.version} of query example ${id}`);
+    return example;
+  }
+
+  /**
+   * Удалить пример
+   * @param id - идентификатор примера
+   * @returns Был ли пример
+   */
+  async delete(id: string): Promise<boolean> {
+    const examples = await this.file.load();
+    const deleted = examples.delete(id);
+
+    if (deleted) {
+      await this.file.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * Найти примеры, близкие к вопросу: BM25 по вопросам и описаниям шагов и, если задана модель
+   * эмбеддингов, косинусная близость вопросов
+   * @param query - вопрос, сущности и фильтр доступа
+   * @param limit - сколько примеров вернуть
+   * @returns Примеры по убыванию оценки
+   */
+  async search(
+    query: QueryExampleSearch,
+    limit: number = DEFAULT_QUERY_EXAMPLES_LIMIT,
+  ): Promise<RankedQueryExample[]> {
+    const examples = await this.list(query.includeDrafts ? undefined : 'approved', query.filter);
+    if (examples.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const terms = new Map<string, number>();
+    const addTerms = (text: string, weight: number): void =>
+      tokenize(text).forEach(term => terms.set(term, Math.max(terms.get(term) || 0, weight)));
+    addTerms(query.question, 1);
+    flattenEntities(query.entities).forEach(text => addTerms(text, 1));
+    (query.history || []).forEach(text => addTerms(text, HISTORY_WEIGHT));
+
+    const lexical = new Bm25Index(examples.map(getExampleTerms)).score(terms);
+    const maxLexical = Math.max(...lexical, 0);
+    const semantic = await this.scoreByEmbeddings(query, examples);
+
+    const ranked = examples
+      .map((example, index) => {
+        const lexicalScore = maxLexical > 0 ? lexical[index] / maxLexical : 0;
+        return {
+          example,
+          score: semantic ? (lexicalScore + Math.max(semantic[index], 0)) / 2 : lexicalScore,
+        };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    logDebug(
+      `Query example search selected ${ranked.length} of ${examples.length} examples: ${ranked
+        .map(entry => `${entry.example.id} (${entry.score.toFixed(2)})`)
+        .join(', ')}`,
+    );
+    return ranked;
+  }
+
+  /**
+   * Раздел промпта с одобренными примерами, близкими к вопросу; ошибки библиотеки не прерывают запрос
+   * @param query - вопрос, сущности и фильтр доступа
+   * @param includePlan - показывать шаги плана (для планирования) или только сервисы и SQL (для восприятия)
+   * @returns Раздел промпта или пустая строка
+   */
+  async getPromptSection(query: QueryExampleSearch, includePlan = true): Promise<string> {
+    try {
+      const ranked = await this.search({ ...query, includeDrafts: false });
+      return formatQueryExamplesForLLM(
+        ranked.map(entry => entry.example),
+        includePlan,
+      );
+    } catch (error) {
+      logWarn(`Query examples are not available: ${(error as Error).message}`);
+      return '';
+    }
+  }
+
+  /**
+   * Перечитать файл библиотеки (после правки вручную)
+   */
+  async reload(): Promise<number> {
+    this.file.invalidate();
+    return (await this.file.load()).size;
+  }
+
+  /**
+   * Оценки близости вопросов примеров к вопросу; undefined, если модель не задана или недоступна
+   */
+  private async scoreByEmbeddings(
+    query: QueryExampleSearch,
+    examples: QueryExample[],
+  ): Promise<number[] | undefined> {
+    const model = this.getEmbeddings();
+    if (!model) {
+      return undefined;
+    }
+
+    try {
+      const texts = examples.map(example => example.question);
+      const missing = [...new Set(texts.filter(text => !this.questionEmbeddings.has(text)))];
+      if (missing.length > 0) {
+        const vectors = await model.embedDocuments(missing);
+        missing.forEach((text, index) => this.questionEmbeddings.set(text, vectors[index]));
+      }
+
+      const vector = await model.embedQuery(query.question);
+      return texts.map(text => cosineSimilarity(vector, this.questionEmbeddings.get(text) || []));
+    } catch (error) {
+      // Без эмбеддингов примеры ранжируются только по BM25
+      logWarn(`Query example embeddings failed: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+}
+
+// Экспортируем синглтон
+export const queryExampleLibrary = new QueryExampleLibrary();
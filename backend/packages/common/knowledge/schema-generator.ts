@@ -0,0 +1,617 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseService } from '../types';
+import { logInfo, logWarn } from '../logger';
+import { DatabaseDescription, TableDescription } from './database-knowledge';
+import {
+  findAttribute,
+  getListArgument,
+  getStringArgument,
+  parsePrismaSchema,
+  PrismaField,
+  PrismaModel,
+  PrismaSchema,
+} from './prisma-schema-parser';
+
+type ColumnDescription = TableDescription['columns'][number];
+type RelationDescription = NonNullable<TableDescription['relations']>[number];
+
+/**
+ * Директория со схемами Prisma сервисов по умолчанию
+ */
+export const DEFAULT_SCHEMA_DIR = path.join(process.cwd(), 'prisma', 'services');
+
+/**
+ * Соответствие скалярных типов Prisma типам PostgreSQL
+ */
+const SCALAR_TYPES: Record<string, string> = {
+  String: 'text',
+  Int: 'integer',
+  BigInt: 'bigint',
+  Float: 'double precision',
+  Decimal: 'numeric',
+  Boolean: 'boolean',
+  DateTime: 'timestamp(3)',
+  Json: 'jsonb',
+  Bytes: 'bytea',
+};
+
+/**
+ * Соответствие нативных типов (@db.*) типам PostgreSQL
+ */
+const NATIVE_TYPES: Record<string, string> = {
+  Text: 'text',
+  VarChar: 'varchar',
+  Char: 'char',
+  Uuid: 'uuid',
+  Citext: 'citext',
+  SmallInt: 'smallint',
+  Integer: 'integer',
+  BigInt: 'bigint',
+  Decimal: 'numeric',
+  Money: 'money',
+  Real: 'real',
+  DoublePrecision: 'double precision',
+  Boolean: 'boolean',
+  Date: 'date',
+  Time: 'time',
+  Timetz: 'timetz',
+  Timestamp: 'timestamp',
+  Timestamptz: 'timestamptz',
+  Json: 'json',
+  JsonB: 'jsonb',
+  ByteA: 'bytea',
+  Inet: 'inet',
+  Xml: 'xml',
+  Bit: 'bit',
+  VarBit: 'varbit',
+  Oid: 'oid',
+};
+
+/**
+ * Колонка из information_schema.columns
+ */
+export interface IntrospectedColumn {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  udt_name: string;
+  is_nullable: string;
+  column_default: string | null;
+}
+
+/**
+ * Ограничение из information_schema.table_constraints
+ */
+export interface IntrospectedConstraint {
+  table_name: string;
+  column_name: string;
+  constraint_name: string;
+  constraint_type: 'PRIMARY KEY' | 'UNIQUE' | 'FOREIGN KEY';
+  foreign_table_name: string | null;
+  foreign_column_name: string | null;
+}
+
+/**
+ * Результат интроспекции живой базы данных
+ */
+export interface IntrospectionResult {
+  columns: IntrospectedColumn[];
+  constraints: IntrospectedConstraint[];
+}
+
+/**
+ * Имя таблицы в базе данных (с учетом @@map)
+ * @param model - модель Prisma
+ */
+const getTableName = (model: PrismaModel): string => {
+  const mapAttribute = findAttribute(model.attributes, '@@map');
+  return (mapAttribute && getStringArgument(mapAttribute.args, 'name')) || model.name;
+};
+
+/**
+ * Имя колонки в базе данных (с учетом @map)
+ * @param model - модель Prisma
+ * @param fieldName - имя поля Prisma
+ */
+const getColumnName = (model: PrismaModel, fieldName: string): string => {
+  const field = model.fields.find(f => f.name === fieldName);
+  const mapAttribute = field && findAttribute(field.attributes, '@map');
+  return (mapAttribute && getStringArgument(mapAttribute.args, 'name')) || fieldName;
+};
+
+/**
+ * Определяет тип колонки PostgreSQL для поля Prisma
+ * @param field - поле Prisma
+ */
+const resolveColumnType = (field: PrismaField): string => {
+  const nativeAttribute = field.attributes.find(attribute => attribute.name.startsWith('@db.'));
+  let type: string;
+
+  if (nativeAttribute) {
+    const nativeName = nativeAttribute.name.slice('@db.'.length);
+    const baseType = NATIVE_TYPES[nativeName] || nativeName.toLowerCase();
+    type = nativeAttribute.args
+      ? `${baseType}(${nativeAttribute.args.replace(/\s+/g, '')})`
+      : baseType;
+  } else if (field.type.startsWith('Unsupported(')) {
+    type = getStringArgument(field.type.slice('Unsupported('.length, -1)) || 'unknown';
+  } else {
+    type = SCALAR_TYPES[field.type] || field.type;
+  }
+
+  return field.isList ? `${type}[]` : type;
+};
+
+/**
+ * Строит описание одной таблицы по модели Prisma
+ * @param model - модель Prisma
+ * @param schema - вся схема сервиса (для разрешения связей)
+ */
+const buildTableDescription = (model: PrismaModel, schema: PrismaSchema): TableDescription => {
+  const modelsByName = new Map(schema.models.map(m => [m.name, m]));
+  const enumsByName = new Map(schema.enums.map(e => [e.name, e]));
+
+  const compositeId = findAttribute(model.attributes, '@@id');
+  const compositeIdFields = compositeId ? getListArgument(compositeId.args, 'fields') : [];
+  const primaryKeyFields =
+    compositeIdFields.length > 0
+      ? compositeIdFields
+      : compositeId
+        ? getListArgument(compositeId.args)
+        : [];
+
+  const singleUniqueFields = new Set(
+    model.attributes
+      .filter(attribute => attribute.name === '@@unique')
+      .map(attribute => {
+        const fields = getListArgument(attribute.args, 'fields');
+        return fields.length > 0 ? fields : getListArgument(attribute.args);
+      })
+      .filter(fields => fields.length === 1)
+      .map(fields => fields[0]),
+  );
+
+  const columns: ColumnDescription[] = [];
+  const relations: RelationDescription[] = [];
+  const columnsByField = new Map<string, ColumnDescription>();
+
+  // Скалярные поля и перечисления становятся колонками
+  for (const field of model.fields) {
+    if (modelsByName.has(field.type)) {
+      continue;
+    }
+
+    const defaultAttribute = findAttribute(field.attributes, '@default');
+    const enumDefinition = enumsByName.get(field.type);
+
+    const column: ColumnDescription = {
+      name: getColumnName(model, field.name),
+      type: resolveColumnType(field),
+      description: field.documentation || '',
+      isPrimaryKey:
+        !!findAttribute(field.attributes, '@id') || primaryKeyFields.includes(field.name),
+      isUnique: !!findAttribute(field.attributes, '@unique') || singleUniqueFields.has(field.name),
+      isNullable: field.isOptional,
+    };
+
+    if (defaultAttribute) {
+      column.defaultValue = defaultAttribute.args;
+    }
+    if (enumDefinition) {
+      column.enumValues = enumDefinition.values;
+    }
+
+    columns.push(column);
+    columnsByField.set(field.name, column);
+  }
+
+  // Поля-связи становятся внешними ключами и описаниями связей
+  for (const field of model.fields) {
+    const targetModel = modelsByName.get(field.type);
+    if (!targetModel) {
+      continue;
+    }
+
+    const targetTable = getTableName(targetModel);
+    const relationAttribute = findAttribute(field.attributes, '@relation');
+    const fkFields = relationAttribute ? getListArgument(relationAttribute.args, 'fields') : [];
+    const referencedFields = relationAttribute
+      ? getListArgument(relationAttribute.args, 'references')
+      : [];
+
+    if (fkFields.length > 0) {
+      // Сторона связи, которая хранит внешний ключ
+      fkFields.forEach((fkField, index) => {
+        const column = columnsByField.get(fkField);
+        const referencedColumn = getColumnName(targetModel, referencedFields[index] || 'id');
+
+        if (column) {
+          column.isForeignKey = true;
+          column.references = { table: targetTable, column: referencedColumn };
+        }
+
+        relations.push({
+          type: column && (column.isUnique || column.isPrimaryKey) ? 'oneToOne' : 'manyToOne',
+          table: targetTable,
+          sourceColumn: getColumnName(model, fkField),
+          targetColumn: referencedColumn,
+          description: field.documentation || '',
+        });
+      });
+      continue;
+    }
+
+    // Обратная сторона связи: ищем поле с внешним ключом в целевой модели
+    const backReference = targetModel.fields.find(targetField => {
+      const attribute = findAttribute(targetField.attributes, '@relation');
+      return (
+        targetField.type === model.name &&
+        !!attribute &&
+        getListArgument(attribute.args, 'fields').length > 0
+      );
+    });
+
+    if (!backReference) {
+      continue;
+    }
+
+    const backAttribute = findAttribute(backReference.attributes, '@relation')!;
+    const backFkFields = getListArgument(backAttribute.args, 'fields');
+    const backReferencedFields = getListArgument(backAttribute.args, 'references');
+
+    backFkFields.forEach((fkField, index) => {
+      relations.push({
+        type: field.isList ? 'oneToMany' : 'oneToOne',
+        table: targetTable,
+        sourceColumn: getColumnName(model, backReferencedFields[index] || 'id'),
+        targetColumn: getColumnName(targetModel, fkField),
+        description: field.documentation || '',
+      });
+    });
+  }
+
+  // Индексы и составные уникальные ограничения
+  const indexes = model.attributes
+    .filter(attribute => attribute.name === '@@index' || attribute.name === '@@unique')
+    .map(attribute => {
+      const namedFields = getListArgument(attribute.args, 'fields');
+      const fields = namedFields.length > 0 ? namedFields : getListArgument(attribute.args);
+      const name =
+        getStringArgument(attribute.args, 'map') || getStringArgument(attribute.args, 'name');
+
+      return {
+        ...(name ? { name } : {}),
+        columns: fields.map(fieldName => getColumnName(model, fieldName)),
+        isUnique: attribute.name === '@@unique',
+      };
+    });
+
+  const table: TableDescription = {
+    name: getTableName(model),
+    description: model.documentation || '',
+    columns,
+  };
+
+  if (relations.length > 0) {
+    table.relations = relations;
+  }
+  if (indexes.length > 0) {
+    table.indexes = indexes;
+  }
+
+  return table;
+};
+
+/**
+ * Строит описание базы данных сервиса по разобранной схеме Prisma
+ * @param service - идентификатор сервиса
+ * @param schema - разобранная схема Prisma
+ */
+export const buildDatabaseDescription = (
+  service: string,
+  schema: PrismaSchema,
+): DatabaseDescription => {
+  const description: DatabaseDescription = {
+    name: service,
+    service,
+    description: '',
+    tables: schema.models.map(model => buildTableDescription(model, schema)),
+  };
+
+  if (schema.enums.length > 0) {
+    description.enums = schema.enums.map(e => ({ name: e.name, values: e.values }));
+  }
+
+  return description;
+};
+
+/**
+ * Генерирует описания баз данных по всем схемам prisma/services/*.prisma
+ * @param schemaDir - директория со схемами сервисов
+ */
+export const generateFromPrismaSchemas = async (
+  schemaDir: string = DEFAULT_SCHEMA_DIR,
+): Promise<DatabaseDescription[]> => {
+  if (!fs.existsSync(schemaDir)) {
+    logWarn(`Prisma schema directory not found at ${schemaDir}`);
+    return [];
+  }
+
+  const schemaFiles = (await fs.promises.readdir(schemaDir))
+    .filter(file => file.endsWith('.prisma'))
+    .sort();
+
+  const descriptions: DatabaseDescription[] = [];
+
+  for (const file of schemaFiles) {
+    const service = path.basename(file, '.prisma');
+    const content = await fs.promises.readFile(path.join(schemaDir, file), 'utf-8');
+    const description = buildDatabaseDescription(service, parsePrismaSchema(content));
+
+    logInfo(`Generated schema knowledge for ${service}: ${description.tables.length} tables`);
+    descriptions.push(description);
+  }
+
+  return descriptions;
+};
+
+/**
+ * Читает структуру живой базы данных сервиса из information_schema через пул соединений
+ * @param service - идентификатор сервиса
+ * @returns Колонки и ограничения или null, если база недоступна
+ */
+export const introspectDatabase = async (
+  service: DatabaseService,
+): Promise<IntrospectionResult | null> => {
+  try {
+    // Пул загружается лениво: генерация по схемам не должна требовать сгенерированного Prisma клиента
+    const { getConnectionPool } = await import('../prisma-pool');
+    const pool = getConnectionPool();
+    const connected = await pool.connect(service);
+
+    if (!connected) {
+      logWarn(`Skipping introspection for ${service}: database is not reachable`);
+      return null;
+    }
+
+    const client = pool.getClient(service);
+
+    const columns = (await client.$queryRawUnsafe(`
+      SELECT table_name, column_name, data_type, udt_name, is_nullable, column_default
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+      ORDER BY table_name, ordinal_position
+    `)) as IntrospectedColumn[];
+
+    const constraints = (await client.$queryRawUnsafe(`
+      SELECT tc.table_name, kcu.column_name, tc.constraint_name, tc.constraint_type,
+        ccu.table_name AS foreign_table_name, ccu.column_name AS foreign_column_name
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON tc.constraint_name = kcu.constraint_name AND tc.table_schema = kcu.table_schema
+      LEFT JOIN information_schema.constraint_column_usage ccu
+        ON tc.constraint_type = 'FOREIGN KEY'
+        AND ccu.constraint_name = tc.constraint_name AND ccu.table_schema = tc.table_schema
+      WHERE tc.table_schema = 'public'
+        AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')
+    `)) as IntrospectedConstraint[];
+
+    logInfo(
+      `Introspected ${service}: ${columns.length} columns, ${constraints.length} constraints`,
+    );
+    return { columns, constraints };
+  } catch (error) {
+    logWarn(`Failed to introspect ${service}: ${(error as Error).message}`);
+    return null;
+  }
+};
+
+/**
+ * Тип колонки из information_schema в нотации PostgreSQL
+ * @param column - колонка из information_schema.columns
+ */
+const getIntrospectedType = (column: IntrospectedColumn): string => {
+  if (column.data_type === 'USER-DEFINED') {
+    return column.udt_name;
+  }
+  if (column.data_type === 'ARRAY') {
+    return `${column.udt_name.replace(/^_/, '')}[]`;
+  }
+  return column.data_type;
+};
+
+/**
+ * Накладывает структуру живой базы данных на описание из схемы Prisma.
+ * Живая база считается источником истины: таблицы и колонки, которых в ней нет, удаляются,
+ * новые добавляются, а описания и перечисления из схемы сохраняются
+ * @param description - описание базы данных из схемы Prisma
+ * @param introspection - результат интроспекции
+ */
+export const applyIntrospection = (
+  description: DatabaseDescription,
+  introspection: IntrospectionResult,
+): DatabaseDescription => {
+  const liveTables = new Map<string, IntrospectedColumn[]>();
+  for (const column of introspection.columns) {
+    const tableColumns = liveTables.get(column.table_name) || [];
+    tableColumns.push(column);
+    liveTables.set(column.table_name, tableColumns);
+  }
+
+  if (liveTables.size === 0) {
+    return description;
+  }
+
+  const constraintSizes = new Map<string, number>();
+  for (const constraint of introspection.constraints) {
+    const key = `${constraint.table_name}.${constraint.constraint_name}`;
+    constraintSizes.set(key, (constraintSizes.get(key) || 0) + 1);
+  }
+
+  const removedTables = description.tables
+    .filter(table => !liveTables.has(table.name))
+    .map(table => table.name);
+  if (removedTables.length > 0) {
+    logWarn(`Tables missing in live ${description.service} database: ${removedTables.join(', ')}`);
+  }
+
+  const tables: TableDescription[] = [];
+
+  for (const [tableName, liveColumns] of liveTables) {
+    const schemaTable = description.tables.find(table => table.name === tableName);
+    const tableConstraints = introspection.constraints.filter(c => c.table_name === tableName);
+
+    const columns = liveColumns.map(liveColumn => {
+      const schemaColumn = schemaTable?.columns.find(c => c.name === liveColumn.column_name);
+      const columnConstraints = tableConstraints.filter(
+        c => c.column_name === liveColumn.column_name,
+      );
+      const foreignKey = columnConstraints.find(c => c.constraint_type === 'FOREIGN KEY');
+      const isSingleColumnUnique = columnConstraints.some(
+        c =>
+          c.constraint_type === 'UNIQUE' &&
+          constraintSizes.get(`${tableName}.${c.constraint_name}`) === 1,
+      );
+
+      const column: ColumnDescription = {
+        ...(schemaColumn || { description: '' }),
+        name: liveColumn.column_name,
+        type: getIntrospectedType(liveColumn),
+        isNullable: liveColumn.is_nullable === 'YES',
+        isPrimaryKey:
+          columnConstraints.some(c => c.constraint_type === 'PRIMARY KEY') ||
+          !!schemaColumn?.isPrimaryKey,
+        isUnique: isSingleColumnUnique || !!schemaColumn?.isUnique,
+      };
+
+      if (foreignKey && foreignKey.foreign_table_name && foreignKey.foreign_column_name) {
+        column.isForeignKey = true;
+        column.references = {
+          table: foreignKey.foreign_table_name,
+          column: foreignKey.foreign_column_name,
+        };
+      }
+      if (liveColumn.column_default !== null && column.defaultValue === undefined) {
+        column.defaultValue = liveColumn.column_default;
+      }
+
+      return column;
+    });
+
+    tables.push({
+      ...(schemaTable || { description: '' }),
+      name: tableName,
+      columns,
+    });
+  }
+
+  return { ...description, tables };
+};
+
+/**
+ * Объединяет сгенерированные описания с написанными вручную.
+ * Структура (таблицы, колонки, типы, ключи) берется из сгенерированных описаний,
+ * а тексты описаний, примеры и типовые запросы - из ручных, если они заданы
+ * @param generated - описания, сгенерированные по схемам
+ * @param handWritten - описания, написанные вручную
+ */
+export const mergeDatabaseDescriptions = (
+  generated: DatabaseDescription[],
+  handWritten: DatabaseDescription[],
+): DatabaseDescription[] => {
+  const handWrittenByService = new Map(handWritten.map(db => [db.service, db]));
+
+  const merged = generated.map(generatedDb => {
+    const manualDb = handWrittenByService.get(generatedDb.service);
+    if (!manualDb) {
+      return generatedDb;
+    }
+
+    const tables = generatedDb.tables.map(generatedTable => {
+      const manualTable = manualDb.tables.find(
+        table => table.name.toLowerCase() === generatedTable.name.toLowerCase(),
+      );
+      if (!manualTable) {
+        return generatedTable;
+      }
+
+      const columns = generatedTable.columns.map(generatedColumn => {
+        const manualColumn = manualTable.columns.find(
+          column => column.name.toLowerCase() === generatedColumn.name.toLowerCase(),
+        );
+        return {
+          ...generatedColumn,
+          description: manualColumn?.description || generatedColumn.description,
+        };
+      });
+
+      const relations = [...(generatedTable.relations || [])].map(relation => {
+        const manualRelation = manualTable.relations?.find(
+          r =>
+            r.table === relation.table &&
+            r.sourceColumn === relation.sourceColumn &&
+            r.targetColumn === relation.targetColumn,
+        );
+        return { ...relation, description: manualRelation?.description || relation.description };
+      });
+
+      // Связи, описанные вручную (например, логические связи без внешнего ключа)
+      for (const manualRelation of manualTable.relations || []) {
+        const exists = relations.some(
+          r =>
+            r.table === manualRelation.table &&
+            r.sourceColumn === manualRelation.sourceColumn &&
+            r.targetColumn === manualRelation.targetColumn,
+        );
+        if (!exists) {
+          relations.push(manualRelation);
+        }
+      }
+
+      const table: TableDescription = {
+        ...generatedTable,
+        description: manualTable.description || generatedTable.description,
+        columns,
+      };
+
+      if (relations.length > 0) {
+        table.relations = relations;
+      }
+      if (manualTable.examples && manualTable.examples.length > 0) {
+        table.examples = manualTable.examples;
+      }
+
+      return table;
+    });
+
+    const droppedTables = manualDb.tables
+      .filter(
+        manualTable =>
+          !generatedDb.tables.some(t => t.name.toLowerCase() === manualTable.name.toLowerCase()),
+      )
+      .map(table => table.name);
+    if (droppedTables.length > 0) {
+      logWarn(
+        `Hand-written descriptions of ${generatedDb.service} reference unknown tables: ${droppedTables.join(', ')}`,
+      );
+    }
+
+    return {
+      ...generatedDb,
+      name: manualDb.name || generatedDb.name,
+      description: manualDb.description || generatedDb.description,
+      tables,
+      ...(manualDb.commonQueries ? { commonQueries: manualDb.commonQueries } : {}),
+    };
+  });
+
+  // Сервисы, описанные только вручную, сохраняем как есть
+  for (const manualDb of handWritten) {
+    if (!generated.some(db => db.service === manualDb.service)) {
+      merged.push(manualDb);
+    }
+  }
+
+  return merged;
+};
@@ -0,0 +1,483 @@
+import { SchemaFilter } from '../access-control';
+import { EmbeddingModel, getEmbeddingModel } from '../llm';
+import { logDebug, logWarn } from '../logger';
+import { estimateTokens } from '../utils';
+import { crossServiceKeys } from './cross-service-keys';
+import { databaseKnowledge, formatTableForLLM, TableDescription } from './database-knowledge';
+
+/**
+ * Настройки отбора схемы для промпта
+ */
+export interface SchemaRetrievalOptions {
+  tokenBudget: number; // Сколько токенов может занять раздел со схемой
+  maxTables: number; // Сколько таблиц отбирается по совпадению с вопросом (без добавленных по связям)
+}
+
+/**
+ * Настройки по умолчанию (SCHEMA_PROMPT_TOKEN_BUDGET, SCHEMA_RETRIEVAL_MAX_TABLES)
+ */
+export const DEFAULT_SCHEMA_RETRIEVAL_OPTIONS: SchemaRetrievalOptions = {
+  tokenBudget: parseInt(process.env.SCHEMA_PROMPT_TOKEN_BUDGET || '4000', 10),
+  maxTables: parseInt(process.env.SCHEMA_RETRIEVAL_MAX_TABLES || '12', 10),
+};
+
+/**
+ * Вопрос, для которого отбираются таблицы
+ */
+export interface SchemaRetrievalQuery {
+  question: string;
+  entities?: Record<string, unknown> | null; // Сущности, извлеченные восприятием
+  services?: string[]; // Сервисы, которые назвало восприятие
+  history?: string[]; // Предыдущие вопросы диалога: уточнение "а по странам?" без них не понять
+  filter?: SchemaFilter; // Оставляет только доступные пользователю сервисы и таблицы
+}
+
+/**
+ * Таблица с оценкой близости к вопросу
+ */
+export interface RankedTable {
+  service: string;
+  table: TableDescription;
+  score: number;
+  matchedColumns: string[]; // Колонки, названия или описания которых совпали с вопросом
+  reason: 'match' | 'relation' | 'cross-service-key'; // Отобрана по вопросу или добавлена для соединения
+}
+
+/**
+ * Веса полей описания таблицы в индексе (у описаний вес 1): имя таблицы важнее имен колонок
+ */
+const FIELD_WEIGHTS = { table: 3, column: 2 };
+
+/**
+ * Вклад предыдущих вопросов диалога и бонус сервисам, которые назвало восприятие
+ */
+const HISTORY_WEIGHT = 0.5;
+const SERVICE_BOOST = 0.2;
+
+/**
+ * Доля оценки, которую получают таблицы, добавленные по связям и межсервисным ключам
+ */
+const RELATION_SCORE = 0.5;
+const CROSS_SERVICE_SCORE = 0.3;
+
+/**
+ * Параметры BM25
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Частые слова вопросов, которые не помогают выбрать таблицу
+ */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'of',
+  'for',
+  'by',
+  'in',
+  'on',
+  'at',
+  'to',
+  'and',
+  'or',
+  'with',
+  'from',
+  'per',
+  'is',
+  'are',
+  'was',
+  'were',
+  'be',
+  'how',
+  'many',
+  'much',
+  'what',
+  'which',
+  'who',
+  'show',
+  'list',
+  'get',
+  'give',
+  'me',
+  'all',
+  'last',
+  'this',
+  'that',
+  'id',
+]);
+
+/**
+ * Разбивает текст на термы: camelCase и snake_case делятся на слова, окончание множественного
+ * числа отбрасывается (deposits и Deposit дают один терм)
+ * @param text - вопрос или описание
+ * @returns Термы в нижнем регистре
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(term =>
+      term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term,
+    );
+
+/**
+ * Собирает текст из значений сущностей восприятия (строки, числа, вложенные массивы и объекты)
+ */
+export const flattenEntities = (value: unknown): string[] => {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenEntities);
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, nested]) => [
+      key,
+      ...flattenEntities(nested),
+    ]);
+  }
+  return [String(value)];
+};
+
+/**
+ * Термы документа таблицы с учетом весов полей
+ */
+const getTableTerms = (service: string, table: TableDescription): string[] => {
+  const repeat = (terms: string[], times: number): string[] =>
+    Array.from({ length: times }, () => terms).flat();
+
+  return [
+    ...repeat(tokenize(table.name), FIELD_WEIGHTS.table),
+    ...tokenize(service),
+    ...tokenize(table.description || ''),
+    ...table.columns.flatMap(column => [
+      ...repeat(tokenize(column.name), FIELD_WEIGHTS.column),
+      ...tokenize(column.description || ''),
+      ...(column.enumValues || []).flatMap(tokenize),
+    ]),
+  ];
+};
+
+/**
+ * Текст таблицы для эмбеддинга: имя, описание и колонки
+ */
+const getTableText = (service: string, table: TableDescription): string =>
+  `${service}.${table.name}: ${table.description || ''}\nColumns: ${table.columns
+    .map(column => (column.description ? `${column.name} (${column.description})` : column.name))
+    .join(', ')}`;
+
+/**
+ * Индекс BM25 по документам: таблицам схемы, вопросам примеров
+ */
+export class Bm25Index {
+  private readonly frequencies: Array<Map<string, number>>;
+  private readonly lengths: number[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: string[][]) {
+    this.frequencies = documents.map(terms => {
+      const counts = new Map<string, number>();
+      terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+      counts.forEach((_, term) =>
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1),
+      );
+      return counts;
+    });
+    this.lengths = documents.map(terms => terms.length);
+    this.averageLength =
+      this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(documents.length, 1);
+  }
+
+  /**
+   * Оценки всех документов для взвешенных термов запроса
+   */
+  score(query: Map<string, number>): number[] {
+    const count = this.frequencies.length;
+
+    return this.frequencies.map((frequencies, index) => {
+      let score = 0;
+      query.forEach((weight, term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          return;
+        }
+        const documents = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+        const norm =
+          frequency +
+          BM25_K1 * (1 - BM25_B + (BM25_B * this.lengths[index]) / (this.averageLength || 1));
+        score += weight * idf * ((frequency * (BM25_K1 + 1)) / norm);
+      });
+      return score;
+    });
+  }
+}
+
+/**
+ * Косинусная близость двух эмбеддингов
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Отбор таблиц схемы для промпта: таблицы ранжируются по близости к вопросу и сущностям
+ * (BM25 и, если задана модель эмбеддингов, косинусная близость), к ним добавляются таблицы,
+ * нужные для соединений, и из них собирается раздел промпта в пределах бюджета токенов
+ */
+export class SchemaRetriever {
+  // Эмбеддинги таблиц по тексту описания: при перезагрузке знаний пересчитываются только измененные
+  private tableEmbeddings = new Map<string, number[]>();
+
+  constructor(
+    private readonly getEmbeddings: () => EmbeddingModel | undefined = getEmbeddingModel,
+  ) {}
+
+  /**
+   * Ранжирует доступные таблицы по близости к вопросу
+   * @param query - вопрос, сущности и фильтр доступа
+   * @param maxTables - сколько таблиц отбирается по совпадению
+   * @returns Таблицы по убыванию оценки, включая добавленные для соединений
+   */
+  async rankTables(
+    query: SchemaRetrievalQuery,
+    maxTables: number = DEFAULT_SCHEMA_RETRIEVAL_OPTIONS.maxTables,
+  ): Promise<RankedTable[]> {
+    const { filter } = query;
+    const tables = databaseKnowledge
+      .getAllDatabases()
+      .filter(database => !filter || filter(database.service))
+      .flatMap(database =>
+        database.tables
+          .filter(table => !filter || filter(database.service, table.name))
+          .map(table => ({ service: database.service, table })),
+      );
+    if (tables.length === 0) {
+      return [];
+    }
+
+    const terms = new Map<string, number>();
+    const addTerms = (text: string, weight: number): void =>
+      tokenize(text).forEach(term => terms.set(term, Math.max(terms.get(term) || 0, weight)));
+    addTerms(query.question, 1);
+    flattenEntities(query.entities).forEach(text => addTerms(text, 1));
+    (query.history || []).forEach(text => addTerms(text, HISTORY_WEIGHT));
+
+    const lexical = new Bm25Index(
+      tables.map(({ service, table }) => getTableTerms(service, table)),
+    ).score(terms);
+    const maxLexical = Math.max(...lexical, 0);
+    const semantic = await this.scoreByEmbeddings(query, tables);
+
+    const services = new Set(query.services || []);
+    const scored = tables.map(({ service, table }, index) => {
+      const lexicalScore = maxLexical > 0 ? lexical[index] / maxLexical : 0;
+      const score =
+        (semantic ? (lexicalScore + Math.max(semantic[index], 0)) / 2 : lexicalScore) +
+        (services.has(service) ? SERVICE_BOOST : 0);
+      return {
+        service,
+        table,
+        score,
+        matchedColumns: table.columns
+          .filter(column =>
+            tokenize(`${column.name} ${column.description || ''}`).some(term => terms.has(term)),
+          )
+          .map(column => column.name),
+        reason: 'match' as const,
+      };
+    });
+
+    const selected = new Map<string, RankedTable>();
+    scored
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxTables)
+      .forEach(entry => selected.set(`${entry.service}.${entry.table.name}`, entry));
+
+    this.expandSelection(selected, tables);
+
+    const ranked = [...selected.values()].sort((a, b) => b.score - a.score);
+    logDebug(
+      `Schema retrieval selected ${ranked.length} of ${tables.length} tables: ${ranked
+        .map(entry => `${entry.service}.${entry.table.name} (${entry.score.toFixed(2)})`)
+        .join(', ')}`,
+    );
+    return ranked;
+  }
+
+  /**
+   * Собирает раздел промпта с описаниями таблиц, наиболее близких к вопросу. Если описания
+   * всех таблиц укладываются в бюджет, возвращаются все. Таблицы, не поместившиеся целиком,
+   * сокращаются до ключевых и совпавших колонок; остальные перечисляются только по именам
+   * @param query - вопрос, сущности и фильтр доступа
+   * @param options - бюджет токенов и число отбираемых таблиц
+   * @returns Текст раздела для промпта планирования
+   */
+  async buildPromptSection(
+    query: SchemaRetrievalQuery,
+    options: Partial<SchemaRetrievalOptions> = {},
+  ): Promise<string> {
+    const { tokenBudget, maxTables } = { ...DEFAULT_SCHEMA_RETRIEVAL_OPTIONS, ...options };
+    const full = databaseKnowledge.getDetailedDatabaseDescriptionsForLLM(query.filter);
+    if (estimateTokens(full) <= tokenBudget) {
+      return full;
+    }
+
+    const ranked = await this.rankTables(query, maxTables);
+    const header =
+      'AVAILABLE DATABASE SERVICES AND TABLES (the tables most relevant to the question are described in full):\n\n';
+    const described = new Map<string, string[]>();
+    const describedTables = new Set<string>();
+    let used =
+      estimateTokens(header) + estimateTokens(this.listOtherTables(query.filter, new Set()));
+
+    for (const entry of ranked) {
+      const keyColumns = entry.table.columns.filter(
+        column =>
+          column.isPrimaryKey ||
+          column.isForeignKey ||
+          entry.matchedColumns.includes(column.name) ||
+          crossServiceKeys.findEntity(entry.service, entry.table.name, column.name),
+      );
+      const text = [
+        formatTableForLLM(entry.table),
+        formatTableForLLM(entry.table, keyColumns, false),
+      ].find(candidate => used + estimateTokens(candidate) <= tokenBudget);
+
+      if (!text) {
+        continue;
+      }
+      used += estimateTokens(text);
+      described.set(entry.service, [...(described.get(entry.service) || []), text]);
+      describedTables.add(`${entry.service}.${entry.table.name}`);
+    }
+
+    let result = header;
+    described.forEach((texts, service) => {
+      const database = databaseKnowledge.getDatabaseDescription(service);
+      result += `## "${service}"${database?.description ? `: ${database.description}` : ''}\n\n`;
+      result += `${texts.join('')}\n`;
+    });
+
+    return result + this.listOtherTables(query.filter, describedTables);
+  }
+
+  /**
+   * Добавляет таблицы, без которых отобранные нельзя соединить: связанные внутри сервиса
+   * и основные таблицы межсервисных сущностей (через них соединяются таблицы разных сервисов)
+   */
+  private expandSelection(
+    selected: Map<string, RankedTable>,
+    tables: Array<{ service: string; table: TableDescription }>,
+  ): void {
+    const find = (service: string, name: string): TableDescription | undefined =>
+      tables.find(
+        entry => entry.service === service && entry.table.name.toLowerCase() === name.toLowerCase(),
+      )?.table;
+    const add = (
+      service: string,
+      name: string,
+      score: number,
+      reason: RankedTable['reason'],
+    ): void => {
+      const table = find(service, name);
+      const key = `${service}.${table?.name}`;
+      const existing = selected.get(key);
+      if (table && (!existing || (existing.reason !== 'match' && existing.score < score))) {
+        selected.set(key, { service, table, score, matchedColumns: [], reason });
+      }
+    };
+
+    const seeds = [...selected.values()];
+
+    seeds.forEach(({ service, table, score }) => {
+      (table.relations || []).forEach(relation =>
+        add(service, relation.table, score * RELATION_SCORE, 'relation'),
+      );
+      table.columns.forEach(column => {
+        if (column.references) {
+          add(service, column.references.table, score * RELATION_SCORE, 'relation');
+        }
+      });
+
+      crossServiceKeys.getKeysForTable(service, table.name).forEach(({ entity }) => {
+        add(
+          entity.canonical.service,
+          entity.canonical.table,
+          score * CROSS_SERVICE_SCORE,
+          'cross-service-key',
+        );
+      });
+    });
+  }
+
+  /**
+   * Оценки близости таблиц к вопросу по эмбеддингам; undefined, если модель не задана или недоступна
+   */
+  private async scoreByEmbeddings(
+    query: SchemaRetrievalQuery,
+    tables: Array<{ service: string; table: TableDescription }>,
+  ): Promise<number[] | undefined> {
+    const model = this.getEmbeddings();
+    if (!model) {
+      return undefined;
+    }
+
+    try {
+      const texts = tables.map(({ service, table }) => getTableText(service, table));
+      const missing = [...new Set(texts.filter(text => !this.tableEmbeddings.has(text)))];
+      if (missing.length > 0) {
+        const vectors = await model.embedDocuments(missing);
+        missing.forEach((text, index) => this.tableEmbeddings.set(text, vectors[index]));
+      }
+
+      const question = [query.question, ...flattenEntities(query.entities)].join('\n');
+      const vector = await model.embedQuery(question);
+      return texts.map(text => cosineSimilarity(vector, this.tableEmbeddings.get(text) || []));
+    } catch (error) {
+      // Без эмбеддингов таблицы ранжируются только по BM25
+      logWarn(`Schema retrieval embeddings failed: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Перечисляет по сервисам таблицы, описания которых не попали в раздел
+   */
+  private listOtherTables(filter: SchemaFilter | undefined, described: Set<string>): string {
+    const lines = databaseKnowledge
+      .getAllDatabases()
+      .filter(database => !filter || filter(database.service))
+      .map(database => ({
+        service: database.service,
+        names: database.tables
+          .filter(table => !filter || filter(database.service, table.name))
+          .filter(table => !described.has(`${database.service}.${table.name}`))
+          .map(table => table.name),
+      }))
+      .filter(({ names }) => names.length > 0)
+      .map(({ service, names }) => `- "${service}": ${names.join(', ')}`);
+
+    return lines.length > 0
+      ? `OTHER TABLES (columns not shown; use them only if the tables above cannot answer the question):\n${lines.join('\n')}\n`
+      : '';
+  }
+}
+
+// Экспортируем синглтон
+export const schemaRetriever = new SchemaRetriever();
@@ -0,0 +1,157 @@
+/**
+ * Pipeline stages that call an LLM. Each stage can use its own provider and model
+ */
+export type LlmStage =
+  | 'perception'
+  | 'planning'
+  | 'conflict-resolution'
+  | 'execution'
+  | 'sql-repair';
+
+/**
+ * Model settings of one stage
+ */
+export interface LlmModelConfig {
+  stage: LlmStage;
+  provider: string; // Name of a registered provider: openai, local, anthropic, groq, ...
+  model: string;
+  temperature: number;
+  baseUrl?: string; // Endpoint of an OpenAI-compatible server; the provider default otherwise
+  apiKey?: string;
+  apiKeyVariable?: string; // Environment variable the key is read from, for error messages
+  fixturesFile: string; // Canned responses of the fixture provider
+  recordFixtures: boolean; // Append the responses of the provider to fixturesFile
+}
+
+/**
+ * Defaults of a provider
+ */
+export interface LlmProviderPreset {
+  baseUrl?: string;
+  apiKeyVariable?: string; // Environment variable with the provider key
+  requiresApiKey: boolean;
+  defaultModel: string;
+}
+
+/**
+ * Known providers. Hosted providers other than OpenAI are reached through their
+ * OpenAI-compatible endpoints, so they only differ in the URL, the key and the model names
+ */
+export const LLM_PROVIDER_PRESETS: Record<string, LlmProviderPreset> = {
+  openai: { apiKeyVariable: 'OPENAI_API_KEY', requiresApiKey: true, defaultModel: 'gpt-4o-mini' },
+  // llama.cpp server, Ollama, vLLM, LM Studio and other local OpenAI-compatible servers
+  local: {
+    baseUrl: 'http://localhost:8080/v1',
+    requiresApiKey: false,
+    defaultModel: 'local-model',
+  },
+  anthropic: {
+    baseUrl: 'https://api.anthropic.com/v1/',
+    apiKeyVariable: 'ANTHROPIC_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'claude-3-5-haiku-latest',
+  },
+  groq: {
+    baseUrl: 'https://api.groq.com/openai/v1',
+    apiKeyVariable: 'GROQ_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'llama-3.3-70b-versatile',
+  },
+  mistral: {
+    baseUrl: 'https://api.mistral.ai/v1',
+    apiKeyVariable: 'MISTRAL_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'mistral-small-latest',
+  },
+  openrouter: {
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKeyVariable: 'OPENROUTER_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'openai/gpt-4o-mini',
+  },
+  together: {
+    baseUrl: 'https://api.together.xyz/v1',
+    apiKeyVariable: 'TOGETHER_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
+  },
+  // Canned responses from LLM_FIXTURES_FILE, for tests and offline runs
+  fixture: { requiresApiKey: false, defaultModel: 'fixture' },
+  deepseek: {
+    baseUrl: 'https://api.deepseek.com/v1',
+    apiKeyVariable: 'DEEPSEEK_API_KEY',
+    requiresApiKey: true,
+    defaultModel: 'deepseek-chat',
+  },
+};
+
+/**
+ * Prefix of the environment variables of a stage: LLM_PERCEPTION_MODEL, LLM_CONFLICT_RESOLUTION_PROVIDER, ...
+ */
+const getStagePrefix = (stage: LlmStage): string =>
+  `LLM_${stage.toUpperCase().replace(/-/g, '_')}_`;
+
+/**
+ * Settings that older configurations kept in other variables
+ */
+const LEGACY_STAGE_MODELS: Partial<Record<LlmStage, string>> = {
+  'conflict-resolution': 'CONFLICT_LLM_MODEL',
+};
+
+/**
+ * Reads a stage setting: the stage variable first, then the common LLM_* variable
+ */
+const readSetting = (env: NodeJS.ProcessEnv, stage: LlmStage, name: string): string | undefined =>
+  env[`${getStagePrefix(stage)}${name}`] || env[`LLM_${name}`] || undefined;
+
+/**
+ * Model settings of a stage. This is the one place the LLM configuration is read from:
+ * - LLM_PROVIDER, LLM_MODEL, LLM_TEMPERATURE, LLM_BASE_URL, LLM_API_KEY apply to every stage;
+ * - LLM_<STAGE>_PROVIDER, LLM_<STAGE>_MODEL, ... override them for one stage,
+ *   e.g. a cheap LLM_PERCEPTION_MODEL and a stronger LLM_PLANNING_MODEL;
+ * - LLM_FIXTURES_FILE is read by the fixture provider, and LLM_RECORD_FIXTURES=true appends
+ *   the responses of any other provider to it for later replay;
+ * - OPENAI_MODEL_NAME, OPENAI_TEMPERATURE and CONFLICT_LLM_MODEL are still honoured
+ * @param stage - Pipeline stage
+ * @param env - Environment to read, process.env by default
+ * @returns Settings of the stage model
+ */
+export const getLlmConfig = (
+  stage: LlmStage,
+  env: NodeJS.ProcessEnv = process.env,
+): LlmModelConfig => {
+  const provider = (readSetting(env, stage, 'PROVIDER') || 'openai').toLowerCase();
+  const preset = LLM_PROVIDER_PRESETS[provider];
+  const legacyModel = LEGACY_STAGE_MODELS[stage];
+  const isOpenAI = provider === 'openai';
+
+  const model =
+    env[`${getStagePrefix(stage)}MODEL`] ||
+    (legacyModel && env[legacyModel]) ||
+    env.LLM_MODEL ||
+    (isOpenAI ? env.OPENAI_MODEL_NAME : undefined) ||
+    preset?.defaultModel ||
+    'gpt-4o-mini';
+
+  const temperature = parseFloat(
+    readSetting(env, stage, 'TEMPERATURE') || (isOpenAI && env.OPENAI_TEMPERATURE) || '0.1',
+  );
+
+  const apiKeyVariable = env[`${getStagePrefix(stage)}API_KEY`]
+    ? `${getStagePrefix(stage)}API_KEY`
+    : env.LLM_API_KEY
+      ? 'LLM_API_KEY'
+      : preset?.apiKeyVariable;
+
+  return {
+    stage,
+    provider,
+    model,
+    temperature: Number.isFinite(temperature) ? temperature : 0.1,
+    baseUrl: readSetting(env, stage, 'BASE_URL') || preset?.baseUrl,
+    apiKey: apiKeyVariable ? env[apiKeyVariable] : undefined,
+    apiKeyVariable,
+    fixturesFile: readSetting(env, stage, 'FIXTURES_FILE') || './data/llm-fixtures.json',
+    recordFixtures: readSetting(env, stage, 'RECORD_FIXTURES') === 'true',
+  };
+};
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import path from 'path';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { JsonFile, JsonFileFormat } from './json-file';
+import { logDebug, logError } from './logger';
+import { ChatModel } from './llm';
+import { LlmModelConfig, LlmStage } from './llm-config';
+import { ErrorType } from './types';
+import { createTypedError } from './utils';
+
+/**
+ * Canned LLM response
+ */
+export interface LlmFixture {
+  stage?: LlmStage; // Any stage when omitted
+  match?: string; // Text the user messages must contain, or a /regular expression/ with flags
+  promptHash?: string; // Hash of the exact prompt; written when responses are recorded
+  response: string | Record<string, unknown>; // Objects are returned as JSON
+  description?: string;
+}
+
+/**
+ * Message of a chat model input as LangChain and the pipeline stages pass it
+ */
+interface PromptMessage {
+  role?: string;
+  content?: unknown;
+  _getType?: () => string;
+}
+
+/**
+ * Chat model input as plain messages: system prompts are kept apart, because they repeat
+ * the same database descriptions for every query and would match any fixture
+ */
+export const getPromptMessages = (
+  input: BaseLanguageModelInput,
+): Array<{ role: string; content: string }> => {
+  const messages: unknown[] =
+    typeof input === 'string'
+      ? [{ role: 'user', content: input }]
+      : Array.isArray(input)
+        ? input
+        : 'toChatMessages' in input
+          ? input.toChatMessages()
+          : [];
+
+  return messages.map(message => {
+    if (typeof message === 'string') {
+      return { role: 'user', content: message };
+    }
+    if (Array.isArray(message)) {
+      return { role: String(message[0]), content: String(message[1]) };
+    }
+    const { role, content, _getType } = message as PromptMessage;
+    const type = role || (typeof _getType === 'function' ? _getType.call(message) : 'user');
+    return {
+      role: type === 'human' ? 'user' : type === 'ai' ? 'assistant' : type,
+      content: typeof content === 'string' ? content : JSON.stringify(content),
+    };
+  });
+};
+
+/**
+ * Text of the messages other than system prompts
+ */
+const getUserText = (input: BaseLanguageModelInput): string =>
+  getPromptMessages(input)
+    .filter(message => message.role !== 'system')
+    .map(message => message.content)
+    .join('\n');
+
+/**
+ * Hash of the exact prompt of a stage
+ */
+export const hashPrompt = (stage: LlmStage, input: BaseLanguageModelInput): string =>
+  crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ stage, messages: getPromptMessages(input) }))
+    .digest('hex');
+
+/**
+ * Checks the match condition of a fixture against the user messages
+ */
+const matchesText = (match: string, text: string): boolean => {
+  const regex = /^\/(.+)\/([a-z]*)$/s.exec(match);
+  return regex ? new RegExp(regex[1], regex[2]).test(text) : text.includes(match);
+};
+
+/**
+ * Fixture file: { fixtures } or a bare array of fixtures
+ */
+const FIXTURES_FORMAT: JsonFileFormat<LlmFixture[]> = {
+  name: 'LLM fixtures',
+  parse: data => {
+    const content = data as { fixtures?: LlmFixture[] } | LlmFixture[];
+    return Array.isArray(content) ? content : content.fixtures || [];
+  },
+  empty: () => [],
+  serialize: fixtures => ({ fixtures }),
+  count: fixtures => fixtures.length,
+};
+
+/**
+ * Fixture file: canned responses are matched by stage and prompt, recorded responses are appended
+ */
+export class LlmFixtureStore {
+  private readonly file: JsonFile<LlmFixture[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath, FIXTURES_FORMAT);
+  }
+
+  /**
+   * Find the response to a prompt: a recorded response of the exact prompt first, then the first
+   * fixture of the stage whose match the user messages satisfy, then a fixture of the stage without match
+   * @param stage Pipeline stage
+   * @param input Chat model input
+   * @returns The fixture, or undefined if none matches
+   */
+  async find(stage: LlmStage, input: BaseLanguageModelInput): Promise<LlmFixture | undefined> {
+    const fixtures = (await this.file.load()).filter(
+      fixture => !fixture.stage || fixture.stage === stage,
+    );
+    const promptHash = hashPrompt(stage, input);
+    const userText = getUserText(input);
+
+    return (
+      fixtures.find(fixture => fixture.promptHash === promptHash) ||
+      fixtures.find(
+        fixture => !fixture.promptHash && fixture.match && matchesText(fixture.match, userText),
+      ) ||
+      fixtures.find(fixture => !fixture.promptHash && !fixture.match)
+    );
+  }
+
+  /**
+   * Append a recorded response; a response to the same prompt replaces the previous one
+   * @param fixture Recorded response with the hash of its prompt
+   */
+  async record(fixture: LlmFixture): Promise<void> {
+    const fixtures = await this.file.load();
+    const index = fixtures.findIndex(existing => existing.promptHash === fixture.promptHash);
+    if (index >= 0) {
+      fixtures[index] = fixture;
+    } else {
+      fixtures.push(fixture);
+    }
+    await this.file.save();
+  }
+}
+
+// Fixture stores by file path, shared by the stages that replay and record
+const fixtureStores = new Map<string, LlmFixtureStore>();
+
+/**
+ * Get the fixture store of a file
+ */
+export const getLlmFixtureStore = (filePath: string): LlmFixtureStore => {
+  const resolved = path.resolve(filePath);
+  let store = fixtureStores.get(resolved);
+  if (!store) {
+    store = new LlmFixtureStore(resolved);
+    fixtureStores.set(resolved, store);
+  }
+  return store;
+};
+
+/**
+ * Model that answers from the fixture file instead of calling an LLM, so the pipeline runs
+ * without network and gives the same answers every time
+ * @param config Stage settings; fixturesFile is the file to read
+ * @returns Chat model
+ */
+export const createFixtureModel = (config: LlmModelConfig): ChatModel => ({
+  invoke: async (input: BaseLanguageModelInput): Promise<{ content: string }> => {
+    const fixture = await getLlmFixtureStore(config.fixturesFile).find(config.stage, input);
+
+    if (!fixture) {
+      throw createTypedError(
+        ErrorType.PROCESSING_ERROR,
+        `No LLM fixture in ${config.fixturesFile} matches the ${config.stage} prompt: ${getUserText(input).slice(0, 200)}`,
+      );
+    }
+
+    logDebug(
+      `Answering ${config.stage} prompt from fixture ${fixture.description || fixture.match || fixture.promptHash || 'default'}`,
+    );
+    return {
+      content:
+        typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response),
+    };
+  },
+});
+
+/**
+ * Wraps a model so that its responses are appended to the fixture file for later replay
+ * @param model Model of the configured provider
+ * @param config Stage settings; fixturesFile is the file to write
+ * @returns Chat model with the same responses
+ */
+export const recordFixtures = (model: ChatModel, config: LlmModelConfig): ChatModel => ({
+  invoke: async (
+    input: BaseLanguageModelInput,
+    options?: { signal?: AbortSignal },
+  ): Promise<{ content: unknown }> => {
+    const response = await model.invoke(input, options);
+
+    if (typeof response.content === 'string') {
+      let recorded: LlmFixture['response'] = response.content;
+      try {
+        // JSON responses are stored as objects, so the file stays readable and editable
+        const parsed = JSON.parse(response.content);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          recorded = parsed;
+        }
+      } catch {
+        // Ответ не JSON - сохраняется как есть
+      }
+
+      await getLlmFixtureStore(config.fixturesFile)
+        .record({
+          stage: config.stage,
+          promptHash: hashPrompt(config.stage, input),
+          description: getUserText(input).slice(0, 120),
+          response: recorded,
+        })
+        .catch(error => logError(`Failed to record LLM fixture: ${(error as Error).message}`));
+    }
+
+    return response;
+  },
+});
@@ -1,34 +1,137 @@
-import { ChatOpenAI } from '@langchain/openai';
+import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
 import { ChatPromptTemplate, SystemMessagePromptTemplate, HumanMessagePromptTemplate } from '@langchain/core/prompts';
 import { StructuredOutputParser } from 'langchain/output_parsers';
 import { z } from 'zod';
 import { logDebug, logError, logInfo } from './logger';
+import { getLlmConfig, LLM_PROVIDER_PRESETS, LlmModelConfig, LlmStage } from './llm-config';
+import { createFixtureModel, recordFixtures } from './llm-fixtures';
 import { MESSAGE_TEMPLATES } from '../../data/prompts';
 
 /**
- * Creates and returns the OpenAI chat model instance
- * @returns Configured ChatOpenAI instance
+ * Chat model used by the pipeline stages. LangChain chat models satisfy it as they are
  */
-export const getOpenAIModel = (): ChatOpenAI => {
-  const apiKey = process.env.OPENAI_API_KEY;
-  const modelName = process.env.OPENAI_MODEL_NAME || 'gpt-4o-mini';
-  const temperature = parseFloat(process.env.OPENAI_TEMPERATURE || '0.1');
-  
-  if (!apiKey) {
-    const errorMsg = MESSAGE_TEMPLATES.error.openAIKeyRequired;
+export interface ChatModel {
+  invoke(
+    input: BaseLanguageModelInput,
+    options?: { signal?: AbortSignal }
+  ): Promise<{ content: unknown }>;
+}
+
+/**
+ * Creates the chat model of a stage from its settings
+ */
+export type LlmProvider = (config: LlmModelConfig) => ChatModel;
+
+// Registered providers by name
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * Registers a provider, or replaces a registered one, under a name usable in LLM_PROVIDER
+ * @param name - Provider name
+ * @param provider - Factory of the chat model
+ */
+export const registerLlmProvider = (name: string, provider: LlmProvider): void => {
+  providers.set(name.toLowerCase(), provider);
+};
+
+/**
+ * OpenAI and every server that speaks its chat completions API
+ */
+const createOpenAICompatibleModel: LlmProvider = config =>
+  new ChatOpenAI({
+    // Local servers ignore the key, but the client refuses to start without one
+    apiKey: config.apiKey || 'not-needed',
+    model: config.model,
+    temperature: config.temperature,
+    configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+  });
+
+Object.keys(LLM_PROVIDER_PRESETS).forEach(name => registerLlmProvider(name, createOpenAICompatibleModel));
+registerLlmProvider('fixture', createFixtureModel);
+
+/**
+ * Embedding model used to find schema tables by meaning. LangChain embeddings satisfy it as they are
+ */
+export interface EmbeddingModel {
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Creates the embedding model named in LLM_EMBEDDINGS_MODEL. It is served by the endpoint and the key
+ * of the planning stage, so the provider must support the OpenAI embeddings API
+ * @returns Embedding model, or undefined when embeddings are not configured
+ */
+export const getEmbeddingModel = (): EmbeddingModel | undefined => {
+  const model = process.env.LLM_EMBEDDINGS_MODEL;
+  const config = getLlmConfig('planning');
+
+  if (!model || config.provider === 'fixture') {
+    return undefined;
+  }
+
+  return new OpenAIEmbeddings({
+    apiKey: config.apiKey || 'not-needed',
+    model,
+    configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+  });
+};
+
+/**
+ * Keys copied from .env.example without being filled in
+ */
+const isPlaceholderKey = (apiKey: string): boolean =>
+  apiKey.startsWith('sk-your') || apiKey.startsWith('your_');
+
+/**
+ * Checks that the provider of a stage is registered and has the API key it needs
+ * @param stage - Pipeline stage
+ * @returns true if getChatModel can create the model of the stage
+ */
+export const isLlmConfigured = (stage: LlmStage): boolean => {
+  const config = getLlmConfig(stage);
+  const requiresApiKey = LLM_PROVIDER_PRESETS[config.provider]?.requiresApiKey ?? false;
+
+  return providers.has(config.provider) &&
+    (!requiresApiKey || (!!config.apiKey && !isPlaceholderKey(config.apiKey)));
+};
+
+/**
+ * Creates and returns the chat model of a pipeline stage
+ * @param stage - Pipeline stage; its provider and model are set in llm-config
+ * @returns Configured chat model
+ */
+export const getChatModel = (stage: LlmStage): ChatModel => {
+  const config = getLlmConfig(stage);
+  const provider = providers.get(config.provider);
+
+  if (!provider) {
+    const errorMsg = MESSAGE_TEMPLATES.error.unknownLLMProvider
+      .replace('{provider}', config.provider)
+      .replace('{providers}', [...providers.keys()].join(', '));
     logError(errorMsg);
     throw new Error(errorMsg);
   }
-  
+
+  if (LLM_PROVIDER_PRESETS[config.provider]?.requiresApiKey && !config.apiKey) {
+    const errorMsg = MESSAGE_TEMPLATES.error.apiKeyRequired
+      .replace('{variable}', config.apiKeyVariable || 'LLM_API_KEY')
+      .replace('{provider}', config.provider);
+    logError(errorMsg);
+    throw new Error(errorMsg);
+  }
+
   logInfo(MESSAGE_TEMPLATES.info.initializingModel
-    .replace('{model}', modelName)
-    .replace('{temperature}', temperature.toString()));
-  
-  return new ChatOpenAI({
-    openAIApiKey: apiKey,
-    modelName,
-    temperature,
-  });
+    .replace('{stage}', stage)
+    .replace('{provider}', config.provider)
+    .replace('{model}', config.model)
+    .replace('{temperature}', config.temperature.toString()));
+
+  const model = provider(config);
+  return config.recordFixtures && config.provider !== 'fixture'
+    ? recordFixtures(model, config)
+    : model;
 };
 
 /**
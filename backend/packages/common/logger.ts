@@ -3,6 +3,7 @@
  */
 import fs from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 
 enum LogLevel {
   ERROR = 0,
@@ -116,6 +117,66 @@ const writeToLogFile = (message: string, level: LogLevel, extra?: any): void =>
   }
 };
 
+/**
+ * Контекст выполнения запроса, к которому относятся сообщения лога
+ */
+export interface LogContext {
+  queryId: string;
+}
+
+/**
+ * Сообщение лога, выполненное в контексте запроса
+ */
+export interface LogRecord {
+  queryId: string;
+  level: 'error' | 'warning' | 'info' | 'debug';
+  message: string;
+  timestamp: number;
+}
+
+export type LogListener = (record: LogRecord) => void;
+
+const logContextStorage = new AsyncLocalStorage<LogContext>();
+const logListeners = new Set<LogListener>();
+
+/**
+ * Выполняет функцию в контексте запроса: все сообщения лога, записанные
+ * внутри нее (включая асинхронные продолжения), получают queryId
+ * @param context - контекст запроса
+ * @param fn - выполняемая функция
+ */
+export const runWithLogContext = <T>(context: LogContext, fn: () => T): T =>
+  logContextStorage.run(context, fn);
+
+/**
+ * Подписка на сообщения лога, записанные в контексте запроса
+ * @param listener - обработчик сообщений
+ * @returns функция отписки
+ */
+export const addLogListener = (listener: LogListener): (() => void) => {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+};
+
+/**
+ * Передает сообщение подписчикам, если оно записано в контексте запроса
+ */
+const notifyLogListeners = (level: LogRecord['level'], message: string): void => {
+  const context = logContextStorage.getStore();
+  if (!context || logListeners.size === 0) return;
+  
+  const record: LogRecord = { queryId: context.queryId, level, message, timestamp: Date.now() };
+  logListeners.forEach(listener => {
+    try {
+      listener(record);
+    } catch (error) {
+      console.error('Ошибка обработчика лога:', error);
+    }
+  });
+};
+
 /**
  * Логирование сообщения с определенным уровнем
  * @param message - Сообщение для логирования
@@ -179,6 +240,8 @@ const log = (message: string, level: LogLevel, extra?: any): void => {
  * @param error - Объект ошибки (опционально)
  */
 export const logError = (message: string, error?: any): void => {
+  notifyLogListeners('error', message);
+  
   if (!isRussianLoggingEnabled()) {
     console.error(`[ERROR] ${message}`, error || '');
     writeToLogFile(message, LogLevel.ERROR, error);
@@ -194,6 +257,8 @@ export const logError = (message: string, error?: any): void => {
  * @param extra - Дополнительные данные (опционально)
  */
 export const logWarn = (message: string, extra?: any): void => {
+  notifyLogListeners('warning', message);
+  
   if (!isRussianLoggingEnabled()) {
     console.warn(`[WARN] ${message}`, extra || '');
     writeToLogFile(message, LogLevel.WARN, extra);
@@ -209,6 +274,8 @@ export const logWarn = (message: string, extra?: any): void => {
  * @param extra - Дополнительные данные (опционально)
  */
 export const logInfo = (message: string, extra?: any): void => {
+  notifyLogListeners('info', message);
+  
   if (!isRussianLoggingEnabled()) {
     console.log(`[INFO] ${message}`, extra || '');
     writeToLogFile(message, LogLevel.INFO, extra);
@@ -224,6 +291,8 @@ export const logInfo = (message: string, extra?: any): void => {
  * @param extra - Дополнительные данные (опционально)
  */
 export const logDebug = (message: string, extra?: any): void => {
+  notifyLogListeners('debug', message);
+  
   if (!isRussianLoggingEnabled()) {
     console.log(`[DEBUG] ${message}`, extra || '');
     writeToLogFile(message, LogLevel.DEBUG, extra);
@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logError, logInfo, logWarn } from './logger';
+import { resolveQueryLineage } from './sql-lineage';
+
+/**
+ * Действие политики над колонкой:
+ * forbidden - колонка удаляется из результата,
+ * masked - значение маскируется (j***@mail.com),
+ * hashed - значение заменяется стабильным хешем, по которому можно группировать и соединять
+ */
+export type PiiAction = 'forbidden' | 'masked' | 'hashed';
+
+/**
+ * Правило политики для колонки; в ссылке service.Table.column допускается * вместо любой части
+ */
+export interface PiiRule {
+  service: string;
+  table: string;
+  column: string;
+  action: PiiAction;
+}
+
+/**
+ * Описание политики в файле data/pii-policy.json
+ */
+export interface PiiPolicyDefinition {
+  rules: Array<{ column: string; action: PiiAction }>;
+  privilegedRoles?: Record<string, string[]>; // Роль -> колонки, которые она видит без маскирования
+}
+
+/**
+ * Итог применения политики к результату запроса
+ */
+export interface PiiEnforcementResult {
+  rows: Record<string, unknown>[];
+  removedColumns: string[];
+  maskedColumns: string[];
+  hashedColumns: string[];
+}
+
+/**
+ * Строгость действий: если к колонке подходят несколько правил, применяется самое строгое
+ */
+const ACTION_PRIORITY: Record<PiiAction, number> = { hashed: 1, masked: 2, forbidden: 3 };
+
+/**
+ * Выбирает более строгое из двух действий
+ */
+const stricter = (a?: PiiAction, b?: PiiAction): PiiAction | undefined => {
+  if (!a || !b) {
+    return a || b;
+  }
+  return ACTION_PRIORITY[b] > ACTION_PRIORITY[a] ? b : a;
+};
+
+/**
+ * Сравнивает имена без учета регистра, кавычек и подчеркиваний (birth_date ≡ birthdate)
+ */
+const normalizeName = (name: string): string => name.replace(/["_]/g, '').toLowerCase();
+
+/**
+ * Проверяет часть ссылки с учетом *
+ */
+const matchesPart = (pattern: string, value: string): boolean =>
+  pattern === '*' || normalizeName(pattern) === normalizeName(value);
+
+/**
+ * Разбирает ссылку service.Table.column (части могут быть *)
+ * @param reference - строка ссылки
+ */
+const parseColumnPattern = (reference: string): Omit<PiiRule, 'action'> => {
+  const parts = reference.trim().split('.');
+
+  if (parts.length !== 3 || parts.some(part => !part)) {
+    throw new Error(`Invalid PII column reference "${reference}", expected service.Table.column`);
+  }
+
+  const [service, table, column] = parts;
+  return { service, table, column };
+};
+
+/**
+ * Маскирует значение, оставляя минимум для узнавания (первый символ, домен почты, последние цифры)
+ * @param value - исходное значение
+ */
+export const maskValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  const emailMatch = /^([^@\s])[^@\s]*(@[^@\s]+)$/.exec(text);
+  if (emailMatch) {
+    return `${emailMatch[1]}***${emailMatch[2]}`;
+  }
+
+  if (/^\+?[\d\s()-]{7,}$/.test(text)) {
+    const digits = text.replace(/\D/g, '');
+    return `${'*'.repeat(Math.max(digits.length - 2, 0))}${digits.slice(-2)}`;
+  }
+
+  return text.length <= 1 ? '*' : `${text[0]}${'*'.repeat(Math.min(text.length - 1, 8))}`;
+};
+
+/**
+ * Заменяет значение стабильным хешем (одинаковые значения дают одинаковый хеш)
+ * @param value - исходное значение
+ */
+export const hashValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  const salt = process.env.PII_HASH_SALT || '';
+
+  return `sha256:${crypto.createHash('sha256').update(`${salt}${text}`).digest('hex').slice(0, 16)}`;
+};
+
+/**
+ * Политика защиты персональных данных.
+ * Применяется к результату каждого SQL запроса сразу после выполнения, поэтому
+ * персональные данные не попадают ни в промпт LLM, ни в EventStore, ни в логи, ни в HTTP ответ
+ */
+class PiiPolicy {
+  private rules: PiiRule[] = [];
+  private privilegedRoles: Record<string, Array<Omit<PiiRule, 'action'>>> = {};
+  private loaded: boolean = false;
+
+  /**
+   * Загрузить политику из файла
+   * @param filePath - путь к файлу политики
+   */
+  public async loadFromFile(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      logWarn(`PII policy not found at ${filePath}, query results are not masked`);
+      return;
+    }
+
+    try {
+      const data = await fs.promises.readFile(filePath, 'utf-8');
+      this.setPolicy(JSON.parse(data) as PiiPolicyDefinition);
+
+      logInfo(
+        `Loaded PII policy from ${filePath}: ${this.rules.length} rules, ` +
+          `${Object.keys(this.privilegedRoles).length} privileged roles`,
+      );
+      // Без соли хеш известного значения (email, номер документа) легко подобрать перебором
+      if (!process.env.PII_HASH_SALT && this.rules.some(rule => rule.action === 'hashed')) {
+        logWarn(
+          `PII policy ${filePath} hashes columns, but PII_HASH_SALT is not set: hashed values are unsalted`,
+        );
+      }
+    } catch (error) {
+      logError(`Failed to load PII policy from ${filePath}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Заменить правила политики
+   * @param definition - описание политики
+   */
+  public setPolicy(definition: PiiPolicyDefinition): void {
+    this.rules = (definition.rules || []).map(rule => {
+      if (!ACTION_PRIORITY[rule.action]) {
+        throw new Error(`Invalid PII action "${rule.action}" for ${rule.column}`);
+      }
+      return { ...parseColumnPattern(rule.column), action: rule.action };
+    });
+
+    this.privilegedRoles = Object.fromEntries(
+      Object.entries(definition.privilegedRoles || {}).map(([role, columns]) => [
+        role,
+        columns.map(parseColumnPattern),
+      ]),
+    );
+
+    this.loaded = true;
+  }
+
+  /**
+   * Проверить, загружена ли политика
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Получить правила политики
+   */
+  public getRules(): PiiRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Определить действие для колонки таблицы с учетом ролей.
+   * Привилегированные роли снимают маскирование и хеширование, но не запрет
+   * @param service - сервис
+   * @param table - имя таблицы
+   * @param column - имя колонки
+   * @param roles - роли пользователя
+   */
+  public getAction(
+    service: string,
+    table: string,
+    column: string,
+    roles: string[] = [],
+  ): PiiAction | undefined {
+    const action = this.rules
+      .filter(
+        rule =>
+          matchesPart(rule.service, service) &&
+          matchesPart(rule.table, table) &&
+          matchesPart(rule.column, column),
+      )
+      .reduce<
+        PiiAction | undefined
+      >((strictest, rule) => stricter(strictest, rule.action), undefined);
+
+    if (action && action !== 'forbidden' && this.isAllowed(service, table, column, roles)) {
+      return undefined;
+    }
+
+    return action;
+  }
+
+  /**
+   * Применить политику к результату SQL запроса сервиса.
+   * Колонки результата прослеживаются по дереву запроса до колонок таблиц, из которых они
+   * получены (через псевдонимы, подзапросы и CTE); колонка, полученная из строки таблицы целиком
+   * (row_to_json(u)), защищается самым строгим правилом этой таблицы
+   * @param service - сервис
+   * @param sql - выполненный SQL запрос
+   * @param rows - строки результата
+   * @param roles - роли пользователя
+   */
+  public enforce(
+    service: string,
+    sql: string,
+    rows: Record<string, unknown>[],
+    roles: string[] = [],
+  ): PiiEnforcementResult {
+    const result: PiiEnforcementResult = {
+      rows,
+      removedColumns: [],
+      maskedColumns: [],
+      hashedColumns: [],
+    };
+
+    if (rows.length === 0 || this.rules.length === 0) {
+      return result;
+    }
+
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const actions = this.resolveColumnActions(service, sql, columns, roles);
+
+    if (actions.size === 0) {
+      return result;
+    }
+
+    for (const [column, action] of actions.entries()) {
+      if (action === 'forbidden') result.removedColumns.push(column);
+      if (action === 'masked') result.maskedColumns.push(column);
+      if (action === 'hashed') result.hashedColumns.push(column);
+    }
+
+    result.rows = rows.map(row => {
+      const protectedRow: Record<string, unknown> = {};
+
+      for (const [column, value] of Object.entries(row)) {
+        const action = actions.get(column);
+
+        if (action === 'forbidden') continue;
+        if (action === 'masked') protectedRow[column] = maskValue(value);
+        else if (action === 'hashed') protectedRow[column] = hashValue(value);
+        else protectedRow[column] = value;
+      }
+
+      return protectedRow;
+    });
+
+    return result;
+  }
+
+  /**
+   * Определяет действия для колонок результата. Если запрос не удалось разобрать,
+   * к каждой колонке применяется самое строгое правило сервиса
+   */
+  private resolveColumnActions(
+    service: string,
+    sql: string,
+    columns: string[],
+    roles: string[],
+  ): Map<string, PiiAction> {
+    const lineage = resolveQueryLineage(sql);
+    const actions = new Map<string, PiiAction>();
+
+    for (const column of columns) {
+      const sources = lineage ? lineage.getColumnSources(column) : [{ table: '*', column: '*' }];
+      const action = sources
+        .map(source => this.getActionForSource(service, source.table, source.column, roles))
+        .reduce<PiiAction | undefined>(stricter, undefined);
+
+      if (action) {
+        actions.set(column, action);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Действие для источника колонки; '*' вместо таблицы или колонки означает любую
+   * (колонка, полученная из строки таблицы целиком, защищается самым строгим правилом таблицы)
+   */
+  private getActionForSource(
+    service: string,
+    table: string,
+    column: string,
+    roles: string[],
+  ): PiiAction | undefined {
+    if (table !== '*' && column !== '*') {
+      return this.getAction(service, table, column, roles);
+    }
+
+    return this.rules
+      .filter(
+        rule =>
+          matchesPart(rule.service, service) &&
+          (table === '*' || matchesPart(rule.table, table)) &&
+          (column === '*' || matchesPart(rule.column, column)),
+      )
+      .map(rule =>
+        this.getAction(
+          service,
+          table === '*' ? rule.table : table,
+          column === '*' ? rule.column : column,
+          roles,
+        ),
+      )
+      .reduce<PiiAction | undefined>(stricter, undefined);
+  }
+
+  /**
+   * Проверяет, разрешена ли колонка хотя бы одной из ролей
+   */
+  private isAllowed(service: string, table: string, column: string, roles: string[]): boolean {
+    return roles.some(role =>
+      (this.privilegedRoles[role] || []).some(
+        allowed =>
+          matchesPart(allowed.service, service) &&
+          matchesPart(allowed.table, table) &&
+          matchesPart(allowed.column, column),
+      ),
+    );
+  }
+}
+
+export const piiPolicy = new PiiPolicy();
@@ -22,8 +22,14 @@ export interface QueryResultStoreInterface {
   
   /**
    * Объединяет результаты двух запросов по указанному полю
+   * (rightJoinField - поле второго набора, если оно называется иначе, например id и userId)
    */
-  joinResults(key1: string, key2: string, joinField: string): Promise<Record<string, unknown>[]>;
+  joinResults(
+    key1: string,
+    key2: string,
+    joinField: string,
+    rightJoinField?: string
+  ): Promise<Record<string, unknown>[]>;
   
   /**
    * Очищает все временные данные запроса
@@ -121,7 +127,12 @@ export class MemoryQueryResultStore implements QueryResultStoreInterface {
   /**
    * Объединяет результаты двух запросов по указанному полю
    */
-  async joinResults(key1: string, key2: string, joinField: string): Promise<Record<string, unknown>[]> {
+  async joinResults(
+    key1: string,
+    key2: string,
+    joinField: string,
+    rightJoinField: string = joinField
+  ): Promise<Record<string, unknown>[]> {
     const results1 = await this.get(key1);
     const results2 = await this.get(key2);
     
@@ -132,7 +143,7 @@ export class MemoryQueryResultStore implements QueryResultStoreInterface {
     // Создаем индекс для быстрого поиска по полю соединения
     const index: Record<string, Record<string, unknown>> = {};
     for (const row of results2) {
-      const value = row[joinField];
+      const value = row[rightJoinField];
       if (value !== undefined && value !== null) {
         const valueStr = String(value);
         index[valueStr] = row;
@@ -360,7 +371,12 @@ export class RedisQueryResultStore implements QueryResultStoreInterface {
   /**
    * Объединяет результаты двух запросов по указанному полю
    */
-  async joinResults(key1: string, key2: string, joinField: string): Promise<Record<string, unknown>[]> {
+  async joinResults(
+    key1: string,
+    key2: string,
+    joinField: string,
+    rightJoinField: string = joinField
+  ): Promise<Record<string, unknown>[]> {
     const results1 = await this.get(key1);
     const results2 = await this.get(key2);
     
@@ -371,7 +387,7 @@ export class RedisQueryResultStore implements QueryResultStoreInterface {
     // Создаем индекс для быстрого поиска по полю соединения
     const index: Record<string, Record<string, unknown>> = {};
     for (const row of results2) {
-      const value = row[joinField];
+      const value = row[rightJoinField];
       if (value !== undefined && value !== null) {
         const valueStr = String(value);
         index[valueStr] = row;
@@ -582,13 +598,18 @@ export class FallbackQueryResultStore implements QueryResultStoreInterface {
   /**
    * Объединяет результаты из активного хранилища
    */
-  async joinResults(key1: string, key2: string, joinField: string): Promise<Record<string, unknown>[]> {
+  async joinResults(
+    key1: string,
+    key2: string,
+    joinField: string,
+    rightJoinField?: string
+  ): Promise<Record<string, unknown>[]> {
     try {
-      return await this.getActiveStore().joinResults(key1, key2, joinField);
+      return await this.getActiveStore().joinResults(key1, key2, joinField, rightJoinField);
     } catch (error) {
       if (this.isRedisActive) {
         this.switchToMemory();
-        return await this.memoryStore.joinResults(key1, key2, joinField);
+        return await this.memoryStore.joinResults(key1, key2, joinField, rightJoinField);
       }
       return [];
     }
@@ -0,0 +1,365 @@
+import { ExprRef, From, parse, SelectStatement, Statement } from 'pgsql-ast-parser';
+
+/**
+ * Колонка таблицы, из которой получено значение колонки результата.
+ * '*' вместо таблицы - любая таблица, вместо колонки - вся строка таблицы
+ */
+export interface ColumnSource {
+  table: string;
+  column: string;
+}
+
+/**
+ * Происхождение колонок результата запроса
+ */
+export interface QueryLineage {
+  /**
+   * Колонки таблиц, из которых вычислена колонка результата; для колонки, которую не удалось
+   * сопоставить со списком SELECT, возвращаются источники всех колонок результата
+   */
+  getColumnSources(column: string): ColumnSource[];
+}
+
+/**
+ * Отношение в FROM: таблица, подзапрос, CTE или функция
+ */
+interface Relation {
+  lookup(column: string): ColumnSource[] | undefined; // undefined - у отношения нет такой колонки
+  wholeRow(): ColumnSource[]; // Источники всех колонок (ссылка на строку целиком: row_to_json(u))
+  positional?: Array<{ name: string; sources: ColumnSource[] }>; // Колонки по порядку, если известны
+}
+
+/**
+ * Колонка списка SELECT: именованное выражение или * по отношению
+ */
+type OutputColumn = { name: string; sources: ColumnSource[] } | { star: Relation };
+
+/**
+ * Область видимости FROM с учетом внешних запросов (для коррелированных подзапросов)
+ */
+interface Scope {
+  entries: Array<{ alias: string; relation: Relation }>;
+  parent?: Scope;
+}
+
+const ANY_SOURCE: ColumnSource = { table: '*', column: '*' };
+
+const STATEMENT_TYPES = new Set([
+  'select',
+  'union',
+  'union all',
+  'values',
+  'with',
+  'with recursive',
+]);
+
+const lower = (name: string): string => name.toLowerCase();
+
+/**
+ * Таблица: у нее может быть любая колонка
+ */
+const tableRelation = (table: string): Relation => ({
+  lookup: column => [{ table, column }],
+  wholeRow: () => [{ table, column: '*' }],
+});
+
+/**
+ * Отношение, колонки которого нельзя различить: любая колонка получена из всех источников
+ */
+const opaqueRelation = (sources: ColumnSource[]): Relation => ({
+  lookup: () => sources,
+  wholeRow: () => sources,
+});
+
+/**
+ * Результат SELECT
+ */
+const derivedRelation = (columns: OutputColumn[]): Relation => ({
+  lookup: (column): ColumnSource[] | undefined => {
+    let found: ColumnSource[] | undefined;
+    for (const output of columns) {
+      const sources =
+        'star' in output
+          ? output.star.lookup(column)
+          : lower(output.name) === lower(column)
+            ? output.sources
+            : undefined;
+      if (sources) {
+        found = [...(found || []), ...sources];
+      }
+    }
+    return found;
+  },
+  wholeRow: () =>
+    columns.flatMap(output => ('star' in output ? output.star.wholeRow() : output.sources)),
+  positional: columns.every(output => !('star' in output))
+    ? (columns as Array<{ name: string; sources: ColumnSource[] }>)
+    : undefined,
+});
+
+/**
+ * Переименование колонок отношения (alias(a, b) и WITH RECURSIVE t(a, b))
+ */
+const renameRelation = (relation: Relation, names?: Array<{ name: string }> | null): Relation =>
+  names?.length
+    ? derivedRelation(
+        names.map(({ name }, index) => ({
+          name,
+          sources: relation.positional?.[index]?.sources || relation.wholeRow(),
+        })),
+      )
+    : relation;
+
+/**
+ * UNION: колонки берут имена из левой части, источники - из обеих
+ */
+const unionRelation = (left: Relation, right: Relation): Relation => {
+  if (left.positional && right.positional?.length === left.positional.length) {
+    return derivedRelation(
+      left.positional.map((output, index) => ({
+        name: output.name,
+        sources: [...output.sources, ...(right.positional?.[index].sources || [])],
+      })),
+    );
+  }
+
+  return {
+    lookup: (column): ColumnSource[] | undefined => {
+      const sources = left.lookup(column);
+      return sources && [...sources, ...right.wholeRow()];
+    },
+    wholeRow: () => [...left.wholeRow(), ...right.wholeRow()],
+  };
+};
+
+/**
+ * Имя колонки результата без псевдонима, как его дает PostgreSQL
+ */
+const getDefaultName = (expr: unknown): string => {
+  const node = expr as {
+    type?: string;
+    name?: string;
+    function?: { name: string };
+    operand?: unknown;
+  };
+  if (node.type === 'ref') return node.name as string;
+  if (node.type === 'call') return (node.function as { name: string }).name;
+  if (node.type === 'cast') return getDefaultName(node.operand);
+  return '?column?';
+};
+
+/**
+ * Источники ссылки на колонку или строку. Имя без таблицы ищется во всех отношениях FROM,
+ * включая внешние запросы: колонку коррелированного подзапроса нельзя отнести к одному из них
+ */
+const getRefSources = (ref: ExprRef, scope?: Scope): ColumnSource[] => {
+  const levels: Scope[] = [];
+  for (let level = scope; level; level = level.parent) {
+    levels.push(level);
+  }
+
+  if (ref.table) {
+    const alias = lower(ref.table.name);
+    for (const level of levels) {
+      const entry = level.entries.find(candidate => candidate.alias === alias);
+      if (entry) {
+        return ref.name === '*'
+          ? entry.relation.wholeRow()
+          : entry.relation.lookup(ref.name) || entry.relation.wholeRow();
+      }
+    }
+    return [{ table: '*', column: ref.name }];
+  }
+
+  if (ref.name === '*') {
+    return levels.length > 0
+      ? levels[0].entries.flatMap(entry => entry.relation.wholeRow())
+      : [ANY_SOURCE];
+  }
+
+  const sources = levels.flatMap(level =>
+    level.entries.flatMap(entry => [
+      // Имя отношения без колонки - ссылка на строку целиком
+      ...(entry.alias === lower(ref.name) ? entry.relation.wholeRow() : []),
+      ...(entry.relation.lookup(ref.name) || []),
+    ]),
+  );
+  return sources.length > 0 ? sources : [{ table: '*', column: ref.name }];
+};
+
+/**
+ * Источники выражения: все колонки и строки, на которые оно ссылается.
+ * COUNT возвращает только число строк, поэтому его аргументы не учитываются
+ */
+const getExpressionSources = (
+  expr: unknown,
+  ctes: Map<string, Relation>,
+  scope?: Scope,
+): ColumnSource[] => {
+  const sources: ColumnSource[] = [];
+
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    const { type } = node as { type?: string };
+    if (type === 'ref') {
+      sources.push(...getRefSources(node as ExprRef, scope));
+      return;
+    }
+    if (type && STATEMENT_TYPES.has(type)) {
+      sources.push(...resolveStatement(node as SelectStatement, ctes, scope).wholeRow());
+      return;
+    }
+    if (
+      type === 'call' &&
+      lower((node as { function: { name: string } }).function.name) === 'count'
+    ) {
+      return;
+    }
+    Object.values(node).forEach(visit);
+  };
+
+  visit(expr);
+  return sources;
+};
+
+/**
+ * Отношение элемента FROM и имя, по которому на него ссылаются
+ */
+const resolveFrom = (
+  from: From,
+  ctes: Map<string, Relation>,
+  scope: Scope,
+): { alias: string; relation: Relation } => {
+  if (from.type === 'table') {
+    const { name } = from;
+    const cte = name.schema ? undefined : ctes.get(lower(name.name));
+    return {
+      alias: lower(name.alias || name.name),
+      relation: renameRelation(cte || tableRelation(name.name), name.columnNames),
+    };
+  }
+
+  if (from.type === 'statement') {
+    return {
+      alias: lower(from.alias),
+      relation: renameRelation(resolveStatement(from.statement, ctes, scope), from.columnNames),
+    };
+  }
+
+  // Функция в FROM (json_to_recordset, unnest): колонки получены из ее аргументов
+  return {
+    alias: lower(from.alias?.name || from.function.name),
+    relation: opaqueRelation(getExpressionSources(from.args, ctes, scope)),
+  };
+};
+
+/**
+ * Происхождение колонок результата запроса
+ * @param statement - запрос
+ * @param ctes - CTE, видимые в запросе
+ * @param outer - область видимости внешнего запроса
+ */
+const resolveStatement = (
+  statement: SelectStatement | Statement,
+  ctes: Map<string, Relation>,
+  outer?: Scope,
+): Relation => {
+  switch (statement.type) {
+    case 'select': {
+      const scope: Scope = { entries: [], parent: outer };
+      // Элементы FROM добавляются по порядку: LATERAL-подзапрос видит предыдущие
+      (statement.from || []).forEach(from => scope.entries.push(resolveFrom(from, ctes, scope)));
+
+      const columns: OutputColumn[] = (statement.columns || []).flatMap(
+        ({ expr, alias }): OutputColumn[] => {
+          if (expr.type === 'ref' && expr.name === '*') {
+            if (!expr.table) {
+              return scope.entries.map(entry => ({ star: entry.relation }));
+            }
+            const entry = scope.entries.find(
+              candidate => candidate.alias === lower((expr.table as { name: string }).name),
+            );
+            return [{ star: entry ? entry.relation : opaqueRelation([ANY_SOURCE]) }];
+          }
+          return [
+            {
+              name: alias?.name || getDefaultName(expr),
+              sources: getExpressionSources(expr, ctes, scope),
+            },
+          ];
+        },
+      );
+      return derivedRelation(columns);
+    }
+
+    case 'union':
+    case 'union all':
+      return unionRelation(
+        resolveStatement(statement.left, ctes, outer),
+        resolveStatement(statement.right, ctes, outer),
+      );
+
+    case 'values':
+      return derivedRelation(
+        (statement.values[0] || []).map((_, index) => ({
+          name: `column${index + 1}`,
+          sources: statement.values.flatMap(row => getExpressionSources(row[index], ctes, outer)),
+        })),
+      );
+
+    case 'with': {
+      // CTE видно в основном запросе и в следующих CTE, но не в собственном теле
+      const scoped = new Map(ctes);
+      statement.bind.forEach(binding =>
+        scoped.set(lower(binding.alias.name), resolveStatement(binding.statement, scoped, outer)),
+      );
+      return resolveStatement(statement.in, scoped, outer);
+    }
+
+    case 'with recursive': {
+      // Рекурсивная часть читает собственный результат: источники уточняются за несколько проходов
+      const scoped = new Map(ctes);
+      const alias = lower(statement.alias.name);
+      scoped.set(alias, opaqueRelation([]));
+      for (let pass = 0; pass <= statement.columnNames.length; pass++) {
+        scoped.set(
+          alias,
+          renameRelation(resolveStatement(statement.bind, scoped, outer), statement.columnNames),
+        );
+      }
+      return resolveStatement(statement.in, scoped, outer);
+    }
+
+    default:
+      return opaqueRelation([ANY_SOURCE]);
+  }
+};
+
+/**
+ * Определяет, из каких колонок таблиц получена каждая колонка результата запроса
+ * @param sql - SQL запрос
+ * @returns Происхождение колонок или undefined, если запрос не удалось разобрать
+ */
+export const resolveQueryLineage = (sql: string): QueryLineage | undefined => {
+  let statements: Statement[];
+  try {
+    statements = parse(sql);
+  } catch {
+    return undefined;
+  }
+  if (statements.length !== 1) {
+    return undefined;
+  }
+
+  const relation = resolveStatement(statements[0], new Map());
+  return {
+    getColumnSources: column => relation.lookup(column) || relation.wholeRow(),
+  };
+};
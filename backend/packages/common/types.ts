@@ -18,6 +18,55 @@ export interface QueryResponse {
     data: Record<string, unknown>;
   };
   errors?: Record<string, string>;
+  errorTypes?: Record<string, ErrorType>;
+  truncated?: boolean; // Some result was cut by the row limits
+  rowCounts?: Record<string, ResultRowCount>; // Row counts of the results in data, by the same keys
+  profiles?: Record<string, ResultProfile>; // Column summaries of the results in data, by the same keys
+}
+
+/**
+ * Kind of values in a result column
+ */
+export type ColumnValueType = 'number' | 'string' | 'boolean' | 'date' | 'json' | 'mixed' | 'empty';
+
+/**
+ * Value of a column profile: BigInt and decimals become strings, dates ISO strings
+ */
+export type ProfileValue = string | number | boolean;
+
+/**
+ * Summary of one result column
+ */
+export interface ColumnProfile {
+  name: string;
+  type: ColumnValueType;
+  nullPercent: number; // Share of rows where the column is null or missing, 0-100
+  distinctCount: number; // Distinct non-null values
+  min?: number; // Numeric columns
+  max?: number;
+  mean?: number;
+  timeRange?: { from: string; to: string }; // Date columns, ISO strings
+  topValues?: Array<{ value: ProfileValue; count: number }>; // Most frequent values, most frequent first
+}
+
+/**
+ * Summary of a result: column profiles and a sample of rows spread over the whole result
+ */
+export interface ResultProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+  omittedColumns?: number; // Columns left out to fit the token budget
+  sample: Record<string, unknown>[]; // All rows when the result is small
+}
+
+/**
+ * How many rows a result has and whether the row limits cut it
+ */
+export interface ResultRowCount {
+  rowCount: number; // Rows returned
+  truncated: boolean; // The query matched more rows than were returned
+  totalRows?: number; // Rows the query matched; unknown when it cannot be estimated
+  totalRowsEstimated?: boolean; // totalRows is the planner estimate, not an exact count
 }
 
 /**
@@ -38,13 +87,51 @@ export type DatabaseService =
   'payment-gateway' | 
   'traffic';
 
+/**
+ * Authenticated caller of the API
+ */
+export interface Principal {
+  id: string; // User id from the API key entry or the JWT "sub" claim
+  roles: string[];
+  method: 'api-key' | 'jwt' | 'anonymous';
+}
+
 /**
  * SQL query with metadata
  */
 export interface SqlQuery {
   service: DatabaseService;
   query: string;
-  params?: Record<string, unknown>;
+  params?: unknown[]; // Bind parameters for $1, $2, ... placeholders
+  signal?: AbortSignal; // Cancels the running statement with pg_cancel_backend when aborted
+  trace?: SqlExecutionTrace; // Filled in with what was actually executed, also when the query fails
+  principal?: Principal; // Who runs the query; checked against the access policy, roles also unlock PII
+  maxRows?: number; // At most this many rows are fetched; a LIMIT is added or reduced when possible
+  onRepairAttempt?: (attempt: SqlRepairAttempt) => void | Promise<void>; // Told about each attempt to correct a failing query
+}
+
+/**
+ * What the database layer actually executed for a query
+ */
+export interface SqlExecutionTrace {
+  sql: string; // Final SQL text after automatic fixes
+  fixes: string[]; // Descriptions of the automatic fixes applied to the query text
+  durationMs: number; // Time spent running the statement
+  rowCount?: ResultRowCount; // Rows returned and whether maxRows cut the result
+  repairs?: SqlRepairAttempt[]; // Attempts to correct the query after the database rejected it
+}
+
+/**
+ * One attempt to correct a query the database rejected
+ */
+export interface SqlRepairAttempt {
+  attempt: number; // 1-based; the heuristic fallback comes after the LLM attempts
+  method: 'llm' | 'heuristic';
+  error: string; // Database error the attempt tried to fix
+  sql?: string; // Corrected query; missing when no correction was produced
+  explanation?: string; // What was changed
+  succeeded: boolean;
+  failure?: string; // Why the corrected query, or the request for it, failed
 }
 
 /**
@@ -66,6 +153,15 @@ export interface QueryPlan {
     sqlQuery?: string;
   }>;
   requiredServices: DatabaseService[];
+  /**
+   * Optional SQL that combines the step results after they are fetched.
+   * Runs in the embedded SQLite engine where step N is available as table "step_N"
+   */
+  localSql?: string;
+  /**
+   * Steps removed from the plan because the user may not read their service or tables
+   */
+  deniedSteps?: Array<{ service: DatabaseService; description: string; reason: string }>;
 }
 
 /**
@@ -76,6 +172,9 @@ export enum ErrorType {
   SCHEMA_MISMATCH = 'schema_mismatch',
   DATABASE_ERROR = 'database_error',
   PROCESSING_ERROR = 'processing_error',
+  UNSAFE_QUERY = 'unsafe_query',
+  CANCELLED = 'cancelled',
+  ACCESS_DENIED = 'access_denied',
 }
 
 /**
@@ -87,4 +186,25 @@ export interface PerceptionResult {
   entities: Record<string, unknown> | null;
   requiredServices: DatabaseService[];
   sqlQuery?: string | null;
-} 
\ No newline at end of file
+  deniedServices?: DatabaseService[]; // Services the query needs but the user may not read
+}
+
+/**
+ * A single turn of a multi-turn conversation
+ */
+export interface ConversationTurn {
+  queryId: string;
+  query: string;
+  perception: PerceptionResult;
+  plan?: QueryPlan;
+  resultSummary?: string;
+  timestamp: number;
+}
+
+/**
+ * Previous turns of a conversation passed to perception and planning
+ */
+export interface ConversationContext {
+  conversationId: string;
+  turns: ConversationTurn[];
+}
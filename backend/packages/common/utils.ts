@@ -21,6 +21,35 @@ export const createTypedError = (type: ErrorType, message: string): Error & { ty
   return error;
 };
 
+/**
+ * Creates the error thrown when a query is cancelled or runs past its deadline
+ * @param signal - Aborted signal of the query
+ * @returns Error of type CANCELLED carrying the abort reason
+ */
+export const createCancellationError = (signal: AbortSignal): Error & { type: ErrorType } => {
+  const reason =
+    signal.reason instanceof Error ? signal.reason.message : String(signal.reason ?? 'aborted');
+  return createTypedError(ErrorType.CANCELLED, `Query was cancelled: ${reason}`);
+};
+
+/**
+ * Throws a cancellation error if the signal has been aborted
+ * @param signal - Abort signal of the query, if any
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createCancellationError(signal);
+  }
+};
+
+/**
+ * Checks whether an error was caused by query cancellation
+ * @param error - Caught error
+ */
+export const isCancellationError = (error: unknown): boolean => {
+  return (error as { type?: ErrorType } | null)?.type === ErrorType.CANCELLED;
+};
+
 /**
  * Formats a date to YYYY-MM-DD format for SQL queries
  * @param date - Date to format
@@ -63,7 +92,41 @@ export const safeJsonStringify = (data: any): string => {
 };
 
 /**
- * Transforms any object with BigInt values to have string representations instead
+ * Rough token count of a prompt text: about four characters per token
+ * @param text - Text sent to the LLM
+ * @returns Estimated number of tokens
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Decimal number object (Prisma.Decimal / decimal.js) returned for numeric columns
+ */
+export interface DecimalLike {
+  d: number[];
+  e: number;
+  s: number;
+  toFixed(): string;
+}
+
+/**
+ * Checks whether a value is a decimal number object
+ * @param value - Any value
+ * @returns Whether the value is a decimal number
+ */
+export const isDecimalLike = (value: unknown): value is DecimalLike => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as { d?: unknown; e?: unknown; s?: unknown; toFixed?: unknown };
+  return (
+    Array.isArray(candidate.d) &&
+    typeof candidate.e === 'number' &&
+    typeof candidate.s === 'number' &&
+    typeof candidate.toFixed === 'function'
+  );
+};
+
+/**
+ * Transforms any object with BigInt values to have string representations instead.
+ * Decimal numbers become exact strings; dates and binary values are kept as they are
  * @param data - Data object or array that may contain BigInt values
  * @returns Same structure with BigInt values converted to strings
  */
@@ -80,6 +143,14 @@ export const serializeBigInt = (data: any): any => {
     return data.map(serializeBigInt);
   }
   
+  if (data instanceof Date || data instanceof Uint8Array) {
+    return data;
+  }
+  
+  if (isDecimalLike(data)) {
+    return data.toString();
+  }
+  
   if (typeof data === 'object') {
     const result: Record<string, any> = {};
     for (const key in data) {
@@ -93,6 +164,52 @@ export const serializeBigInt = (data: any): any => {
   return data;
 };
 
+/**
+ * Collects the columns of a result in the order they first appear; rows may have different keys
+ * @param data - Array of objects
+ * @returns Column names
+ */
+export const collectColumns = (data: Record<string, unknown>[]): string[] => {
+  const columns = new Set<string>();
+  for (const row of data) {
+    Object.keys(row).forEach(column => columns.add(column));
+  }
+  return Array.from(columns);
+};
+
+/**
+ * Converts a value to a CSV cell (RFC 4180): dates as ISO strings, decimals and BigInt exactly,
+ * arrays and objects as JSON; cells with commas, quotes or line breaks are quoted
+ * @param value - Cell value
+ * @returns CSV cell text
+ */
+export const toCsvCell = (value: unknown): string => {
+  let text: string;
+
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (value instanceof Date) {
+    text = Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  } else if (typeof value === 'bigint' || isDecimalLike(value)) {
+    text = value.toString();
+  } else if (value instanceof Uint8Array) {
+    text = Buffer.from(value).toString('base64');
+  } else if (typeof value === 'object') {
+    text = safeJsonStringify(serializeBigInt(value));
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats one CSV line
+ * @param values - Cell values
+ * @returns CSV line without the line break
+ */
+export const formatCsvRow = (values: unknown[]): string => values.map(toCsvCell).join(',');
+
 /**
  * Converts an array of objects to CSV format
  * @param data - Array of objects
@@ -100,16 +217,9 @@ export const serializeBigInt = (data: any): any => {
  */
 export const objectsToCsv = (data: Record<string, unknown>[]): string => {
   if (data.length === 0) return '';
-  
-  const headers = Object.keys(data[0]);
-  const rows = data.map(obj => 
-    headers.map(header => {
-      const value = obj[header];
-      return typeof value === 'bigint' 
-        ? `"${value.toString()}"` 
-        : JSON.stringify(value ?? '');
-    }).join(',')
-  );
-  
-  return [headers.join(','), ...rows].join('\n');
-}; 
\ No newline at end of file
+
+  const headers = collectColumns(data);
+  const rows = data.map(obj => formatCsvRow(headers.map(header => obj[header])));
+
+  return [formatCsvRow(headers), ...rows].join('\n');
+};
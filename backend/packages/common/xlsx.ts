@@ -0,0 +1,329 @@
+import zlib from 'zlib';
+
+/**
+ * Значение ячейки листа: числа и даты записываются как числа Excel, остальное - как текст
+ */
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Сколько строк листа сжимается за один раз
+ */
+const ROWS_PER_CHUNK = 500;
+
+/**
+ * Excel не показывает текст ячейки длиннее этого
+ */
+const MAX_CELL_LENGTH = 32767;
+
+/**
+ * Миллисекунд в сутках и номер дня 1970-01-01 в календаре Excel
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH_DAYS = 25569;
+
+/**
+ * Служебные файлы книги из одного листа; стиль 1 - дата и время
+ */
+const STATIC_ENTRIES: Array<[string, string]> = [
+  [
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>',
+  ],
+  [
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>',
+  ],
+  [
+    'xl/styles.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+      '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+      '</styleSheet>',
+  ],
+];
+
+/**
+ * Таблица CRC-32 (полином 0xEDB88320), которым zip проверяет содержимое файлов
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const updateCrc32 = (crc: number, data: Buffer): number => {
+  let value = crc ^ 0xffffffff;
+  for (const byte of data) {
+    value = CRC_TABLE[(value ^ byte) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Экранирует текст для XML; управляющие символы, недопустимые в XML, удаляются
+ */
+const escapeXml = (text: string): string =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Буквенное имя столбца: 0 -> A, 26 -> AA
+ */
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * XML одной ячейки; пустые значения не записываются
+ */
+const formatCell = (value: XlsxCellValue, reference: string): string => {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time)
+      ? ''
+      : `<c r="${reference}" s="1"><v>${time / DAY_MS + EXCEL_EPOCH_DAYS}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value)
+      ? `<c r="${reference}"><v>${value}</v></c>`
+      : formatCell(String(value), reference);
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = escapeXml(value.slice(0, MAX_CELL_LENGTH));
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const formatRow = (values: XlsxCellValue[], rowNumber: number): string =>
+  `<row r="${rowNumber}">${values
+    .map((value, index) => formatCell(value, `${getColumnName(index)}${rowNumber}`))
+    .join('')}</row>`;
+
+/**
+ * Содержимое листа порциями: заголовок, строки и закрывающие теги
+ */
+async function* generateSheet(
+  columns: string[],
+  rows: Iterable<XlsxCellValue[]> | AsyncIterable<XlsxCellValue[]>,
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    formatRow(columns, 1);
+
+  let rowNumber = 1;
+  let chunk: string[] = [];
+  for await (const row of rows) {
+    chunk.push(formatRow(row, ++rowNumber));
+    if (chunk.length >= ROWS_PER_CHUNK) {
+      yield chunk.join('');
+      chunk = [];
+    }
+  }
+
+  yield `${chunk.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Запись центрального каталога zip об одном файле
+ */
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Флаги записи: размеры и CRC идут после данных (бит 3), имя в UTF-8 (бит 11)
+ */
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const ZIP_DEFLATE = 8;
+
+/**
+ * Время и дата файла в формате MS-DOS
+ */
+const getDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/**
+ * Сжимает файл по мере поступления содержимого и возвращает его zip-запись порциями.
+ * Размеры заранее неизвестны, поэтому записываются в дескриптор после данных
+ */
+async function* zipEntry(
+  name: string,
+  content: AsyncIterable<string> | Iterable<string>,
+  offset: number,
+  dosTime: [number, number],
+  entries: ZipEntry[],
+): AsyncGenerator<Buffer> {
+  const entry: ZipEntry = { name: Buffer.from(name), crc: 0, compressedSize: 0, size: 0, offset };
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_FLAGS, 6);
+  header.writeUInt16LE(ZIP_DEFLATE, 8);
+  header.writeUInt16LE(dosTime[0], 10);
+  header.writeUInt16LE(dosTime[1], 12);
+  header.writeUInt16LE(entry.name.length, 26);
+  yield Buffer.concat([header, entry.name]);
+
+  const deflate = zlib.createDeflateRaw();
+  const compressed: Buffer[] = [];
+  deflate.on('data', (data: Buffer) => compressed.push(data));
+  const finished = new Promise<void>((resolve, reject) => {
+    deflate.on('end', resolve);
+    deflate.on('error', reject);
+  });
+
+  // Сжатые данные отдаются после каждой порции, чтобы не держать весь файл в памяти
+  const drain = function* (): Generator<Buffer> {
+    for (const data of compressed.splice(0)) {
+      entry.compressedSize += data.length;
+      yield data;
+    }
+  };
+
+  for await (const text of content) {
+    const data = Buffer.from(text, 'utf-8');
+    entry.crc = updateCrc32(entry.crc, data);
+    entry.size += data.length;
+    await new Promise<void>((resolve, reject) =>
+      deflate.write(data, error => (error ? reject(error) : resolve())),
+    );
+    yield* drain();
+  }
+  deflate.end();
+  await finished;
+  yield* drain();
+
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+  descriptor.writeUInt32LE(entry.compressedSize, 8);
+  descriptor.writeUInt32LE(entry.size, 12);
+  yield descriptor;
+
+  entries.push(entry);
+}
+
+/**
+ * Центральный каталог и его окончание
+ */
+const buildCentralDirectory = (
+  entries: ZipEntry[],
+  offset: number,
+  dosTime: [number, number],
+): Buffer => {
+  const records = entries.map(entry => {
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(ZIP_VERSION, 4);
+    record.writeUInt16LE(ZIP_VERSION, 6);
+    record.writeUInt16LE(ZIP_FLAGS, 8);
+    record.writeUInt16LE(ZIP_DEFLATE, 10);
+    record.writeUInt16LE(dosTime[0], 12);
+    record.writeUInt16LE(dosTime[1], 14);
+    record.writeUInt32LE(entry.crc, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(entry.name.length, 28);
+    record.writeUInt32LE(entry.offset, 42);
+    return Buffer.concat([record, entry.name]);
+  });
+  const directory = Buffer.concat(records);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([directory, end]);
+};
+
+/**
+ * Формирует книгу Excel (XLSX) из одного листа, не собирая ее целиком в памяти:
+ * строки читаются и сжимаются порциями по мере того, как получатель забирает данные.
+ * Без zip64 размер книги ограничен 4 ГБ
+ * @param columns - заголовки столбцов
+ * @param rows - значения строк в порядке столбцов
+ * @param sheetName - имя листа
+ * @returns порции файла
+ */
+export async function* generateXlsx(
+  columns: string[],
+  rows: Iterable<XlsxCellValue[]> | AsyncIterable<XlsxCellValue[]>,
+  sheetName: string = 'Result',
+): AsyncGenerator<Buffer> {
+  const dosTime = getDosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  // В имени листа Excel запрещены символы []:*?/\ и длина больше 31
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Result';
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  const files: Array<[string, AsyncIterable<string> | Iterable<string>]> = [
+    ...STATIC_ENTRIES.map(([name, content]): [string, Iterable<string>] => [name, [content]]),
+    ['xl/workbook.xml', [workbook]],
+    ['xl/worksheets/sheet1.xml', generateSheet(columns, rows)],
+  ];
+
+  for (const [name, content] of files) {
+    for await (const chunk of zipEntry(name, content, offset, dosTime, entries)) {
+      offset += chunk.length;
+      yield chunk;
+    }
+  }
+
+  yield buildCentralDirectory(entries, offset, dosTime);
+}
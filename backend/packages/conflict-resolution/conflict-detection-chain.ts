@@ -1,5 +1,5 @@
 import { ChatPromptTemplate, SystemMessagePromptTemplate, HumanMessagePromptTemplate } from '@langchain/core/prompts';
-import { getOpenAIModel } from '@common/llm';
+import { getChatModel } from '@common/llm';
 import { databaseKnowledge } from '@common/knowledge';
 import { logDebug, logInfo, logWarn } from '@common/logger';
 import { QueryPlan } from '@common/types';
@@ -100,7 +100,7 @@ export class ConflictDetectionChain {
     query: string,
     conflicts: TableConflict[]
   ): Promise<QueryPlan> {
-    const model = getOpenAIModel();
+    const model = getChatModel('conflict-resolution');
 
     logInfo('Attempting to resolve conflicts using LLM');
 
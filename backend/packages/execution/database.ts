@@ -1,8 +1,42 @@
-import { DatabaseService, ErrorType, SqlQuery } from '@common/types';
+import { DatabaseService, ErrorType, Principal, ResultRowCount, SqlExecutionTrace, SqlQuery, SqlRepairAttempt } from '@common/types';
 import { getPrismaClient } from '@common/prisma';
-import { createTypedError, serializeBigInt } from '@common/utils';
+import {
+  createCancellationError,
+  createTypedError,
+  isCancellationError,
+  serializeBigInt,
+  throwIfAborted
+} from '@common/utils';
 import { logDebug, logError, logInfo, logWarn } from '@common/logger';
 import { databaseKnowledge } from '@common/knowledge';
+import { piiPolicy } from '@common/pii-policy';
+import { accessControl } from '@common/access-control';
+import { assertReadOnlySql, extractTableReferences } from './sql-safety';
+import { applyRowLimit, parseExplainRowEstimate } from './row-limits';
+import { repairSql, reportRepairAttempt } from './sql-repair';
+import { applySchemaHeuristics, HeuristicFix } from './sql-heuristics';
+
+const STATEMENT_TIMEOUT_MS = parseInt(process.env.SQL_STATEMENT_TIMEOUT_MS || '30000', 10);
+
+/**
+ * Строка результата запроса
+ */
+type QueryRow = Record<string, unknown>;
+
+/**
+ * Соединение, на котором выполняется SQL: транзакция или клиент Prisma
+ */
+interface SqlExecutor {
+  $queryRawUnsafe<T = unknown>(query: string, ...values: unknown[]): Promise<T>;
+  $executeRawUnsafe(query: string, ...values: unknown[]): Promise<number>;
+}
+
+/**
+ * Клиент Prisma сервиса в том объеме, в котором он нужен для выполнения запросов
+ */
+interface DatabaseClient extends SqlExecutor {
+  $transaction<T>(fn: (tx: SqlExecutor) => Promise<T>, options?: { timeout?: number }): Promise<T>;
+}
 
 const connectionStatus: Record<string, boolean> = {};
 const databaseClients: Record<string, any> = {};
@@ -99,10 +133,18 @@ export const listSchemas = async (service: DatabaseService): Promise<string[]> =
   }
 };
 
-export const executeSqlQuery = async ({ service, query }: SqlQuery): Promise<any[]> => {
+export const executeSqlQuery = async ({ service, query, params = [], signal, trace, principal, maxRows, onRepairAttempt }: SqlQuery): Promise<any[]> => {
   try {
+    throwIfAborted(signal);
+    
     logInfo(`Executing SQL query on ${service} database:`);
     logInfo(`Query: ${query}`);
+    if (params.length > 0) {
+      logDebug(`Bind parameters: ${params.length}`);
+    }
+    
+    assertReadOnlySql(query, service);
+    assertQueryAccess(service, query, principal);
     
     if (!connectionStatus[service]) {
       logWarn(`Database ${service} is not connected. Connecting now...`);
@@ -119,11 +161,24 @@ export const executeSqlQuery = async ({ service, query }: SqlQuery): Promise<any
       );
     }
     
-    const result = await executeAndValidateQuery(service, query, prismaClient);
+    const result = await executeAndValidateQuery(service, query, prismaClient, params, signal, trace, principal, maxRows, onRepairAttempt);
     const duration = result.duration;
     
     logInfo(`Query executed successfully in ${duration}ms`);
     
+    // The PII policy is applied before rows are logged or leave the database layer
+    if (Array.isArray(result.data)) {
+      const protection = piiPolicy.enforce(service, result.query, result.data, principal?.roles);
+      result.data = protection.rows;
+      
+      if (protection.removedColumns.length > 0) {
+        logWarn(`PII policy removed forbidden columns: ${protection.removedColumns.join(', ')}`);
+      }
+      if (protection.maskedColumns.length > 0 || protection.hashedColumns.length > 0) {
+        logInfo(`PII policy masked columns: ${protection.maskedColumns.join(', ') || 'none'}; hashed columns: ${protection.hashedColumns.join(', ') || 'none'}`);
+      }
+    }
+    
     if (Array.isArray(result.data) && result.data.length === 0) {
       logInfo(`Result rows: ${result.data.length}`);
       logWarn(`Query returned empty result set. This might indicate:
@@ -151,38 +206,28 @@ export const executeSqlQuery = async ({ service, query }: SqlQuery): Promise<any
   }
 };
 
-async function executeAndValidateQuery(service: DatabaseService, query: string, prismaClient: any): Promise<{data: any[], duration: number}> {
+async function executeAndValidateQuery(service: DatabaseService, query: string, prismaClient: DatabaseClient, params: unknown[] = [], signal?: AbortSignal, trace?: SqlExecutionTrace, principal?: Principal, maxRows?: number, onRepairAttempt?: (attempt: SqlRepairAttempt) => void | Promise<void>): Promise<{data: QueryRow[], duration: number, query: string}> {
   try {
     databaseClients[service] = prismaClient;
     databaseConnections[service] = true;
     
-    const validatedQuery = await validateQueryTables(service, query);
-    
-    if (validatedQuery !== query) {
-      logInfo(`Query was modified to fix table references:`);
-      logInfo(`Original: ${query}`);
-      logInfo(`Fixed: ${validatedQuery}`);
-      query = validatedQuery;
-    }
-    
-    const fixedQuery = await fixColumnAndTableCase(service, query);
-    
-    if (fixedQuery !== query) {
-      logInfo(`Query was modified to fix case sensitivity issues:`);
-      logInfo(`Original: ${query}`);
-      logInfo(`Fixed: ${fixedQuery}`);
-      query = fixedQuery;
-    }
-    
+    if (trace) trace.sql = query;
     const startTime = Date.now();
-    const result = await prismaClient.$queryRawUnsafe(query);
+    const result = await runLimitedQuery(service, query, prismaClient, params, signal, principal, maxRows, trace);
     const duration = Date.now() - startTime;
+    if (trace) trace.durationMs = duration;
     
     return {
-      data: result,
-      duration
+      data: result.rows,
+      duration,
+      query: result.sql
     };
   } catch (error) {
+    const errorType = (error as { type?: ErrorType }).type;
+    if (errorType === ErrorType.UNSAFE_QUERY || errorType === ErrorType.ACCESS_DENIED || isCancellationError(error)) {
+      throw error;
+    }
+    
     const errorMsg = (error as Error).message;
     logError(`SQL Error in query: ${query}`);
     logError(`SQL Error details: ${errorMsg}`);
@@ -196,32 +241,81 @@ async function executeAndValidateQuery(service: DatabaseService, query: string,
       logError(`SQL syntax error detected. Please review the query syntax.`);
     }
     
-    if ((errorMsg.includes('relation') && errorMsg.includes('does not exist'))) {
-      logWarn(`Original query failed: ${errorMsg}. Attempting to discover tables...`);
+    // Сначала запрос исправляет LLM по ошибке базы и описаниям таблиц; эвристики - последнее средство
+    let attemptCount = 0;
+    const repaired = await repairSql({
+      service,
+      sql: query,
+      error: errorMsg,
+      principal,
+      signal,
+      trace,
+      onAttempt: attempt => {
+        attemptCount = attempt.attempt;
+        return onRepairAttempt?.(attempt);
+      },
+      execute: async sql => {
+        // Исправления и число строк неудачных попыток не должны попасть в трассу
+        const attemptTrace: SqlExecutionTrace = { sql, fixes: [], durationMs: 0 };
+        const startTime = Date.now();
+        const result = await runLimitedQuery(service, sql, prismaClient, params, signal, principal, maxRows, attemptTrace);
+        return { ...result, trace: attemptTrace, duration: Date.now() - startTime };
+      }
+    });
+    
+    if (repaired) {
+      if (trace) {
+        trace.sql = repaired.result.sql;
+        trace.fixes.push(`Repaired by LLM: ${repaired.attempt.explanation}`, ...repaired.result.trace.fixes);
+        trace.durationMs = repaired.result.duration;
+        trace.rowCount = repaired.result.trace.rowCount;
+      }
       
-      const tableMatch = errorMsg.match(/relation "([^"]+)" does not exist/);
+      return {
+        data: repaired.result.rows,
+        duration: repaired.result.duration,
+        query: repaired.result.sql
+      };
+    }
+    
+    // Эвристики: исправление имен таблиц и колонок по схеме и information_schema
+    const heuristic = await applyHeuristicFixes(service, query, errorMsg, prismaClient);
+    if (heuristic) {
+      const attempt: SqlRepairAttempt = {
+        attempt: attemptCount + 1,
+        method: 'heuristic',
+        error: errorMsg,
+        sql: heuristic.sql,
+        explanation: heuristic.fixes.join('; '),
+        succeeded: false
+      };
       
-      if (tableMatch) {
-        const problematicTable = tableMatch[1];
-        logInfo(`Query appears to target ${problematicTable} table. Checking table existence...`);
+      try {
+        logInfo(`Executing heuristically fixed query: ${heuristic.sql}`);
+        const startTime = Date.now();
+        const heuristicResult = await runLimitedQuery(service, heuristic.sql, prismaClient, params, signal, principal, maxRows, trace);
+        const duration = Date.now() - startTime;
         
-        try {
-          const alternativeQuery = await tryFixTableReference(service, problematicTable, query, prismaClient);
-          
-          if (alternativeQuery) {
-            logInfo(`Executing alternative query: ${alternativeQuery}`);
-            const startTime = Date.now();
-            const alternativeResult = await prismaClient.$queryRawUnsafe(alternativeQuery);
-            const duration = Date.now() - startTime;
-            
-            return {
-              data: alternativeResult,
-              duration
-            };
-          }
-        } catch (altError) {
-          logWarn(`Alternative query failed: ${(altError as Error).message}`);
+        if (trace) {
+          trace.sql = heuristicResult.sql;
+          trace.fixes.push(...heuristic.fixes);
+          trace.durationMs = duration;
         }
+        attempt.succeeded = true;
+        await reportRepairAttempt(attempt, trace, onRepairAttempt);
+        
+        return {
+          data: heuristicResult.rows,
+          duration,
+          query: heuristicResult.sql
+        };
+      } catch (heuristicError) {
+        if (isCancellationError(heuristicError)) {
+          throw heuristicError;
+        }
+        attempt.failure = (heuristicError as Error).message;
+        await reportRepairAttempt(attempt, trace, onRepairAttempt);
+        logWarn(`Heuristically fixed query failed: ${attempt.failure}`);
       }
     }
     
@@ -232,6 +326,166 @@ async function executeAndValidateQuery(service: DatabaseService, query: string,
   }
 }
 
+/**
+ * Эвристические исправления запроса, завершившегося ошибкой: ссылки на таблицы других сервисов,
+ * регистр имен, кавычки вокруг колонок и замена отсутствующей таблицы похожей.
+ * Применяются последними, когда цикл исправления через LLM не помог
+ * @returns Исправленный запрос или null, если эвристики ничего не изменили
+ */
+async function applyHeuristicFixes(service: DatabaseService, query: string, errorMsg: string, prismaClient: DatabaseClient): Promise<HeuristicFix | null> {
+  const fixes: string[] = [];
+  let sql = query;
+  const apply = (fixedSql: string, fix: string): void => {
+    if (fixedSql !== sql) {
+      sql = fixedSql;
+      fixes.push(fix);
+    }
+  };
+  
+  apply(await validateQueryTables(service, sql), 'Fixed table references');
+  apply(await fixColumnAndTableCase(service, sql), 'Fixed column and table name case');
+  
+  const schemaFix = applySchemaHeuristics(service, sql);
+  sql = schemaFix.sql;
+  fixes.push(...schemaFix.fixes);
+  
+  const missingTable = errorMsg.match(/relation "([^"]+)" does not exist/)?.[1];
+  if (missingTable) {
+    logInfo(`Query appears to target ${missingTable} table. Checking table existence...`);
+    const alternativeQuery = await tryFixTableReference(service, missingTable, sql, prismaClient);
+    if (alternativeQuery) {
+      apply(alternativeQuery, `Replaced missing table ${missingTable}`);
+    }
+  }
+  
+  return fixes.length > 0 ? { sql, fixes } : null;
+}
+
+/**
+ * Выполняет запрос, получая из базы не больше maxRows строк. В неагрегатный запрос добавляется
+ * LIMIT (или уменьшается слишком большой) на одну строку больше лимита: лишняя строка показывает,
+ * что результат обрезан. Тогда общее число строк оценивается планировщиком через EXPLAIN
+ */
+async function runLimitedQuery(service: DatabaseService, query: string, prismaClient: DatabaseClient, params: unknown[], signal?: AbortSignal, principal?: Principal, maxRows?: number, trace?: SqlExecutionTrace): Promise<{ rows: QueryRow[], sql: string }> {
+  if (maxRows === undefined) {
+    return { rows: await runReadOnlyQuery(service, query, prismaClient, params, signal, principal), sql: query };
+  }
+  
+  const limited = applyRowLimit(query, maxRows + 1);
+  if (limited.fix) {
+    logInfo(`Row limit of ${maxRows} applied: ${limited.fix}`);
+    trace?.fixes.push(limited.fix);
+  }
+  
+  if (trace) trace.sql = limited.sql;
+  const rows = await runReadOnlyQuery(service, limited.sql, prismaClient, params, signal, principal);
+  let rowCount: ResultRowCount = { rowCount: rows.length, truncated: false, totalRows: rows.length };
+  
+  if (rows.length > maxRows) {
+    // Без добавленного LIMIT (агрегатный запрос) получены все строки, и их число точное
+    const estimate = limited.fix
+      ? await estimateRowCount(service, query, prismaClient, params, signal)
+      : rows.length;
+    rowCount = {
+      rowCount: maxRows,
+      truncated: true,
+      totalRows: estimate === undefined ? undefined : Math.max(estimate, rows.length),
+      totalRowsEstimated: limited.fix ? estimate !== undefined : undefined
+    };
+    logWarn(`Result of the query on ${service} truncated to ${maxRows} rows (total: ${rowCount.totalRows ?? 'unknown'})`);
+  }
+  
+  if (trace) trace.rowCount = rowCount;
+  return { rows: rowCount.truncated ? rows.slice(0, maxRows) : rows, sql: limited.sql };
+}
+
+/**
+ * Оценивает число строк запроса по плану (EXPLAIN без ANALYZE запрос не выполняет)
+ * @returns Оценка планировщика или undefined, если ее не удалось получить
+ */
+async function estimateRowCount(service: DatabaseService, query: string, prismaClient: DatabaseClient, params: unknown[], signal?: AbortSignal): Promise<number | undefined> {
+  try {
+    throwIfAborted(signal);
+    const explain = await prismaClient.$transaction(
+      async tx => {
+        await tx.$executeRawUnsafe('SET TRANSACTION READ ONLY');
+        await tx.$executeRawUnsafe(`SET LOCAL statement_timeout = ${STATEMENT_TIMEOUT_MS}`);
+        return tx.$queryRawUnsafe<unknown[]>(`EXPLAIN (FORMAT JSON) ${query}`, ...params);
+      },
+      { timeout: STATEMENT_TIMEOUT_MS + 1000 }
+    );
+    return parseExplainRowEstimate(explain);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createCancellationError(signal);
+    }
+    logWarn(`Could not estimate the row count on ${service}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+async function runReadOnlyQuery(service: DatabaseService, query: string, prismaClient: DatabaseClient, params: unknown[] = [], signal?: AbortSignal, principal?: Principal): Promise<QueryRow[]> {
+  // Heuristic fixes rewrite the text, so the final SQL is checked again right before it runs
+  assertReadOnlySql(query, service);
+  assertQueryAccess(service, query, principal);
+  throwIfAborted(signal);
+  
+  try {
+    return await prismaClient.$transaction(
+      async tx => {
+        await tx.$executeRawUnsafe('SET TRANSACTION READ ONLY');
+        await tx.$executeRawUnsafe(`SET LOCAL statement_timeout = ${STATEMENT_TIMEOUT_MS}`);
+        
+        if (!signal) {
+          // Values are sent as bind parameters and never spliced into the SQL text
+          return tx.$queryRawUnsafe<QueryRow[]>(query, ...params);
+        }
+        
+        // The statement runs on this connection, so cancelling it needs the backend PID
+        const [{ pid }] = await tx.$queryRawUnsafe<Array<{ pid: number }>>('SELECT pg_backend_pid() AS pid');
+        const cancelStatement = (): void => cancelBackend(service, prismaClient, pid);
+        signal.addEventListener('abort', cancelStatement, { once: true });
+        
+        try {
+          throwIfAborted(signal);
+          return await tx.$queryRawUnsafe<QueryRow[]>(query, ...params);
+        } finally {
+          signal.removeEventListener('abort', cancelStatement);
+        }
+      },
+      { timeout: STATEMENT_TIMEOUT_MS + 1000 }
+    );
+  } catch (error) {
+    // Postgres reports a cancelled statement as "canceling statement due to user request"
+    if (signal?.aborted) {
+      throw createCancellationError(signal);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks the service and the tables a query reads against the access policy of the principal
+ */
+function assertQueryAccess(service: DatabaseService, query: string, principal?: Principal): void {
+  if (!principal) {
+    return;
+  }
+  
+  accessControl.assertQueryAllowed(principal, service, extractTableReferences(query));
+}
+
+/**
+ * Cancels the statement running on a backend from another pooled connection
+ */
+function cancelBackend(service: DatabaseService, prismaClient: DatabaseClient, pid: number): void {
+  logWarn(`Cancelling running statement on ${service} (backend pid ${pid})`);
+  
+  prismaClient.$queryRawUnsafe('SELECT pg_cancel_backend($1::int)', pid).catch((error: Error) => {
+    logError(`Failed to cancel statement on ${service} (backend pid ${pid}): ${error.message}`);
+  });
+}
+
 async function validateQueryTables(service: DatabaseService, query: string): Promise<string> {
   if (!databaseKnowledge.isLoaded()) {
     return query;
@@ -0,0 +1,788 @@
+/**
+ * Строка набора данных шага
+ */
+export type Row = Record<string, unknown>;
+
+/**
+ * Тип операции для обработки данных в памяти
+ */
+export enum InMemoryOperation {
+  JOIN = 'join', // Объединение наборов данных по ключам
+  FILTER = 'filter', // Фильтрация данных
+  GROUP = 'group', // Группировка с агрегатами и HAVING
+  SORT = 'sort', // Сортировка данных
+  AGGREGATE = 'aggregate', // Агрегация всех строк в одну (sum, avg, etc)
+  LIMIT = 'limit', // Ограничение количества результатов
+  MAP = 'map', // Вычисляемые колонки и проекция
+  REDUCE = 'reduce', // Сведение нескольких наборов в одну строку агрегатов
+  DISTINCT = 'distinct', // Удаление дубликатов
+  UNION = 'union', // Объединение строк нескольких наборов
+  RANK = 'rank', // Нумерация строк в группах и top-N
+  SQL = 'sql', // Произвольный SQL над результатами шагов во встроенной SQLite (local-sql.ts)
+}
+
+/**
+ * Тип соединения наборов
+ */
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+/**
+ * Пара ключей соединения (колонки могут называться по-разному, например id и userId)
+ */
+export interface JoinKey {
+  left: string;
+  right: string;
+}
+
+/**
+ * Оператор условия фильтрации
+ */
+export type FilterOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'in'
+  | 'not in'
+  | 'like'
+  | 'ilike'
+  | 'is null'
+  | 'is not null';
+
+/**
+ * Условие фильтрации. Значение задается явно или берется из первой строки другого шага
+ */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value?: unknown;
+  valueFrom?: {
+    stepId: string;
+    field: string;
+  };
+}
+
+/**
+ * Направление сортировки
+ */
+export interface SortSpec {
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Агрегатная функция
+ */
+export type AggregateFunction = 'count' | 'count_distinct' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * Описание агрегата: функция, поле (для count можно не указывать) и имя результата
+ */
+export interface AggregateSpec {
+  function: AggregateFunction;
+  field?: string;
+  as: string;
+}
+
+/**
+ * Функция вычисляемой колонки
+ */
+export type ComputedFunction =
+  | 'add'
+  | 'subtract'
+  | 'multiply'
+  | 'divide'
+  | 'round'
+  | 'abs'
+  | 'coalesce'
+  | 'concat'
+  | 'lower'
+  | 'upper';
+
+/**
+ * Выражение вычисляемой колонки: поле, константа или функция от других выражений
+ */
+export type ComputedExpression =
+  | { field: string }
+  | { value: string | number | boolean | null }
+  | { fn: ComputedFunction; args: ComputedExpression[] };
+
+/**
+ * Вычисляемая колонка
+ */
+export interface ComputedColumn {
+  as: string;
+  expression: ComputedExpression;
+}
+
+/**
+ * Параметры JOIN
+ */
+export interface JoinParams {
+  type?: JoinType;
+  on: JoinKey[];
+}
+
+/**
+ * Параметры FILTER (условия объединяются через AND по умолчанию)
+ */
+export interface FilterParams {
+  conditions: FilterCondition[];
+  mode?: 'and' | 'or';
+}
+
+/**
+ * Параметры GROUP (having проверяется по колонкам результата группировки)
+ */
+export interface GroupParams {
+  groupBy: string[];
+  aggregates: AggregateSpec[];
+  having?: FilterCondition[];
+}
+
+/**
+ * Параметры SORT
+ */
+export interface SortParams {
+  orderBy: SortSpec[];
+}
+
+/**
+ * Параметры AGGREGATE и REDUCE
+ */
+export interface AggregateParams {
+  aggregates: AggregateSpec[];
+}
+
+/**
+ * Параметры LIMIT
+ */
+export interface LimitParams {
+  limit: number;
+  offset?: number;
+}
+
+/**
+ * Параметры MAP
+ */
+export interface MapParams {
+  columns?: ComputedColumn[];
+  select?: string[]; // Колонки результата (по умолчанию - все исходные и вычисляемые)
+}
+
+/**
+ * Параметры DISTINCT
+ */
+export interface DistinctParams {
+  fields?: string[]; // Поля уникальности (по умолчанию - вся строка)
+}
+
+/**
+ * Параметры UNION
+ */
+export interface UnionParams {
+  all?: boolean; // UNION ALL - без удаления дубликатов
+}
+
+/**
+ * Параметры RANK (аналог ROW_NUMBER/RANK/DENSE_RANK() OVER (PARTITION BY ... ORDER BY ...))
+ */
+export interface RankParams {
+  partitionBy?: string[];
+  orderBy: SortSpec[];
+  method?: 'row_number' | 'rank' | 'dense_rank';
+  as?: string; // Имя колонки с номером (по умолчанию rank)
+  top?: number; // Оставить только первые N строк каждой группы
+}
+
+/**
+ * Параметры SQL шага: запрос к таблицам, названным по ID шагов, от которых зависит шаг
+ */
+export interface LocalSqlParams {
+  query: string;
+}
+
+/**
+ * Параметры операций в памяти по типу операции
+ */
+export interface InMemoryOperationParamsMap {
+  [InMemoryOperation.JOIN]: JoinParams;
+  [InMemoryOperation.FILTER]: FilterParams;
+  [InMemoryOperation.GROUP]: GroupParams;
+  [InMemoryOperation.SORT]: SortParams;
+  [InMemoryOperation.AGGREGATE]: AggregateParams;
+  [InMemoryOperation.LIMIT]: LimitParams;
+  [InMemoryOperation.MAP]: MapParams;
+  [InMemoryOperation.REDUCE]: AggregateParams;
+  [InMemoryOperation.DISTINCT]: DistinctParams;
+  [InMemoryOperation.UNION]: UnionParams;
+  [InMemoryOperation.RANK]: RankParams;
+  [InMemoryOperation.SQL]: LocalSqlParams;
+}
+
+/**
+ * Параметры любой операции в памяти
+ */
+export type InMemoryOperationParams = InMemoryOperationParamsMap[InMemoryOperation];
+
+/**
+ * Входной набор данных операции - результат шага, от которого она зависит
+ */
+export interface OperationInput {
+  stepId: string;
+  rows: Row[];
+}
+
+/**
+ * Проверяет, является ли значение пустым в смысле SQL (NULL)
+ */
+const isNull = (value: unknown): boolean => value === null || value === undefined;
+
+/**
+ * Приводит значение к числу, если это возможно (драйверы возвращают bigint и numeric строками)
+ */
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+
+  return null;
+};
+
+/**
+ * Сравнивает два значения: числа (в том числе числовые строки) - как числа,
+ * даты - по времени, остальное - как строки. NULL считается больше любого значения
+ */
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (isNull(a) && isNull(b)) return 0;
+  if (isNull(a)) return 1;
+  if (isNull(b)) return -1;
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) {
+    return numberA - numberB;
+  }
+
+  const valueA = a instanceof Date ? a.toISOString() : String(a);
+  const valueB = b instanceof Date ? b.toISOString() : String(b);
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+};
+
+/**
+ * Строит ключ для сравнения строк по набору полей (NULL в ключе соединения не совпадает ни с чем)
+ */
+const buildKey = (row: Row, fields: string[]): string | null => {
+  const values: unknown[] = [];
+
+  for (const field of fields) {
+    const value = row[field];
+    if (isNull(value)) {
+      return null;
+    }
+    values.push(value instanceof Date ? value.toISOString() : String(value));
+  }
+
+  return JSON.stringify(values);
+};
+
+/**
+ * Строка, в которой все колонки набора равны NULL (для внешних соединений)
+ */
+const nullRow = (rows: Row[]): Row => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+
+  const result: Row = {};
+  columns.forEach(column => {
+    result[column] = null;
+  });
+  return result;
+};
+
+/**
+ * Соединяет два набора по парам ключей
+ */
+export const joinRows = (left: Row[], right: Row[], params: JoinParams): Row[] => {
+  const type = params.type || 'inner';
+
+  if (!params.on || params.on.length === 0) {
+    throw new Error('JOIN requires at least one key pair');
+  }
+
+  const leftFields = params.on.map(key => key.left);
+  const rightFields = params.on.map(key => key.right);
+
+  // Индекс правого набора по ключу соединения
+  const index = new Map<string, number[]>();
+  right.forEach((row, position) => {
+    const key = buildKey(row, rightFields);
+    if (key !== null) {
+      index.set(key, [...(index.get(key) || []), position]);
+    }
+  });
+
+  const emptyLeft = nullRow(left);
+  const emptyRight = nullRow(right);
+  const matchedRight = new Set<number>();
+  const result: Row[] = [];
+
+  for (const leftRow of left) {
+    const key = buildKey(leftRow, leftFields);
+    const matches = key !== null ? index.get(key) || [] : [];
+
+    for (const position of matches) {
+      matchedRight.add(position);
+      result.push({ ...leftRow, ...right[position] });
+    }
+
+    if (matches.length === 0 && (type === 'left' || type === 'full')) {
+      result.push({ ...emptyRight, ...leftRow });
+    }
+  }
+
+  if (type === 'right' || type === 'full') {
+    right.forEach((rightRow, position) => {
+      if (!matchedRight.has(position)) {
+        result.push({ ...emptyLeft, ...rightRow });
+      }
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Проверяет строку SQL LIKE-шаблоном
+ */
+const matchesLike = (value: unknown, pattern: unknown, caseInsensitive: boolean): boolean => {
+  if (isNull(value) || isNull(pattern)) {
+    return false;
+  }
+
+  const regex = String(pattern)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+
+  return new RegExp(`^${regex}$`, caseInsensitive ? 'is' : 's').test(String(value));
+};
+
+/**
+ * Проверяет условие фильтрации для строки
+ * @param row - строка
+ * @param condition - условие
+ * @param value - значение для сравнения (уже вычисленное для valueFrom)
+ */
+const matchesCondition = (row: Row, condition: FilterCondition, value: unknown): boolean => {
+  const fieldValue = row[condition.field];
+
+  switch (condition.operator) {
+    case 'is null':
+      return isNull(fieldValue);
+    case 'is not null':
+      return !isNull(fieldValue);
+    case 'in':
+    case 'not in': {
+      const list = Array.isArray(value) ? value : [value];
+      const found = !isNull(fieldValue) && list.some(item => compareValues(fieldValue, item) === 0);
+      return condition.operator === 'in' ? found : !isNull(fieldValue) && !found;
+    }
+    case 'like':
+      return matchesLike(fieldValue, value, false);
+    case 'ilike':
+      return matchesLike(fieldValue, value, true);
+    default:
+      break;
+  }
+
+  // Сравнение с NULL, как в SQL, никогда не выполняется
+  if (isNull(fieldValue) || isNull(value)) {
+    return false;
+  }
+
+  const comparison = compareValues(fieldValue, value);
+
+  switch (condition.operator) {
+    case '=':
+      return comparison === 0;
+    case '!=':
+      return comparison !== 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    default:
+      throw new Error(`Unsupported filter operator: ${condition.operator}`);
+  }
+};
+
+/**
+ * Вычисляет значение условия: явное или из первой строки другого шага
+ */
+const resolveConditionValue = (condition: FilterCondition, inputs: OperationInput[]): unknown => {
+  if (!condition.valueFrom) {
+    return condition.value;
+  }
+
+  const { stepId, field } = condition.valueFrom;
+  const source = inputs.find(input => input.stepId === stepId);
+
+  if (!source) {
+    throw new Error(`Filter value source step ${stepId} is not a dependency`);
+  }
+
+  return source.rows.length > 0 ? source.rows[0][field] : null;
+};
+
+/**
+ * Фильтрует строки по условиям
+ */
+export const filterRows = (
+  rows: Row[],
+  params: FilterParams,
+  inputs: OperationInput[] = [],
+): Row[] => {
+  const values = params.conditions.map(condition => resolveConditionValue(condition, inputs));
+  const mode = params.mode || 'and';
+
+  return rows.filter(row => {
+    const results = params.conditions.map((condition, index) =>
+      matchesCondition(row, condition, values[index]),
+    );
+    return mode === 'and' ? results.every(Boolean) : results.some(Boolean);
+  });
+};
+
+/**
+ * Сортирует строки по нескольким полям (NULL - в конце при любом направлении)
+ */
+export const sortRows = (rows: Row[], orderBy: SortSpec[]): Row[] => {
+  return [...rows].sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      const aValue = a[field];
+      const bValue = b[field];
+
+      if (isNull(aValue) !== isNull(bValue)) {
+        return isNull(aValue) ? 1 : -1;
+      }
+
+      const comparison = compareValues(aValue, bValue);
+      if (comparison !== 0) {
+        return direction === 'desc' ? -comparison : comparison;
+      }
+    }
+
+    return 0;
+  });
+};
+
+/**
+ * Вычисляет агрегат по набору строк
+ */
+const computeAggregate = (rows: Row[], spec: AggregateSpec): unknown => {
+  const field = spec.field && spec.field !== '*' ? spec.field : undefined;
+  const values = field ? rows.map(row => row[field]).filter(value => !isNull(value)) : [];
+
+  switch (spec.function) {
+    case 'count':
+      return field ? values.length : rows.length;
+    case 'count_distinct':
+      return new Set(
+        values.map(value => (value instanceof Date ? value.toISOString() : String(value))),
+      ).size;
+    case 'sum':
+    case 'avg': {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+      if (numbers.length === 0) {
+        return null;
+      }
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return spec.function === 'sum' ? sum : sum / numbers.length;
+    }
+    case 'min':
+    case 'max': {
+      if (values.length === 0) {
+        return null;
+      }
+      const sign = spec.function === 'min' ? -1 : 1;
+      return values.reduce((best, value) => (sign * compareValues(value, best) > 0 ? value : best));
+    }
+    default:
+      throw new Error(`Unsupported aggregate function: ${spec.function}`);
+  }
+};
+
+/**
+ * Сводит все строки в одну строку агрегатов
+ */
+export const aggregateRows = (rows: Row[], params: AggregateParams): Row[] => {
+  const result: Row = {};
+  params.aggregates.forEach(spec => {
+    result[spec.as] = computeAggregate(rows, spec);
+  });
+  return [result];
+};
+
+/**
+ * Группирует строки, вычисляет агрегаты и применяет условия HAVING
+ */
+export const groupRows = (rows: Row[], params: GroupParams): Row[] => {
+  const groups = new Map<string, Row[]>();
+
+  for (const row of rows) {
+    // В отличие от соединения, NULL образует отдельную группу
+    const key = JSON.stringify(
+      params.groupBy.map(field => (isNull(row[field]) ? null : String(row[field]))),
+    );
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const result: Row[] = [];
+
+  groups.forEach(groupRowsList => {
+    const groupRow: Row = {};
+    params.groupBy.forEach(field => {
+      groupRow[field] = groupRowsList[0][field];
+    });
+    params.aggregates.forEach(spec => {
+      groupRow[spec.as] = computeAggregate(groupRowsList, spec);
+    });
+    result.push(groupRow);
+  });
+
+  return params.having && params.having.length > 0
+    ? filterRows(result, { conditions: params.having })
+    : result;
+};
+
+/**
+ * Вычисляет выражение вычисляемой колонки для строки
+ */
+export const evaluateExpression = (expression: ComputedExpression, row: Row): unknown => {
+  if ('field' in expression) {
+    return row[expression.field];
+  }
+
+  if ('value' in expression) {
+    return expression.value;
+  }
+
+  const args = expression.args.map(arg => evaluateExpression(arg, row));
+  const numbers = args.map(toNumber);
+  const numeric = (): number[] | null =>
+    numbers.some(value => value === null) ? null : (numbers as number[]);
+
+  switch (expression.fn) {
+    case 'add':
+    case 'subtract':
+    case 'multiply':
+    case 'divide': {
+      const values = numeric();
+      if (!values || values.length === 0) {
+        return null;
+      }
+      return values.slice(1).reduce((total, value) => {
+        if (expression.fn === 'add') return total + value;
+        if (expression.fn === 'subtract') return total - value;
+        if (expression.fn === 'multiply') return total * value;
+        return value === 0 ? NaN : total / value;
+      }, values[0]);
+    }
+    case 'round': {
+      const [value, digits = 0] = numbers;
+      if (value === null) return null;
+      const factor = Math.pow(10, digits || 0);
+      return Math.round(value * factor) / factor;
+    }
+    case 'abs':
+      return numbers[0] === null ? null : Math.abs(numbers[0]);
+    case 'coalesce':
+      return args.find(value => !isNull(value)) ?? null;
+    case 'concat':
+      return args
+        .filter(value => !isNull(value))
+        .map(String)
+        .join('');
+    case 'lower':
+      return isNull(args[0]) ? null : String(args[0]).toLowerCase();
+    case 'upper':
+      return isNull(args[0]) ? null : String(args[0]).toUpperCase();
+    default:
+      throw new Error(`Unsupported computed column function: ${(expression as { fn: string }).fn}`);
+  }
+};
+
+/**
+ * Добавляет вычисляемые колонки и оставляет выбранные колонки
+ */
+export const mapRows = (rows: Row[], params: MapParams): Row[] => {
+  return rows.map(row => {
+    const mapped: Row = { ...row };
+
+    (params.columns || []).forEach(column => {
+      const value = evaluateExpression(column.expression, mapped);
+      mapped[column.as] = typeof value === 'number' && isNaN(value) ? null : value;
+    });
+
+    if (!params.select || params.select.length === 0) {
+      return mapped;
+    }
+
+    const projected: Row = {};
+    params.select.forEach(field => {
+      projected[field] = mapped[field] ?? null;
+    });
+    return projected;
+  });
+};
+
+/**
+ * Удаляет дубликаты строк (по всем полям или по указанным, оставляя первую строку)
+ */
+export const distinctRows = (rows: Row[], params: DistinctParams = {}): Row[] => {
+  const seen = new Set<string>();
+
+  return rows.filter(row => {
+    const fields =
+      params.fields && params.fields.length > 0 ? params.fields : Object.keys(row).sort();
+    const key = JSON.stringify(fields.map(field => [field, row[field] ?? null]));
+
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Объединяет строки нескольких наборов
+ */
+export const unionRows = (sources: Row[][], params: UnionParams = {}): Row[] => {
+  const rows = sources.flat();
+  return params.all ? rows : distinctRows(rows);
+};
+
+/**
+ * Нумерует строки внутри групп (row_number, rank, dense_rank) и при необходимости оставляет top-N
+ */
+export const rankRows = (rows: Row[], params: RankParams): Row[] => {
+  const column = params.as || 'rank';
+  const method = params.method || 'row_number';
+  const partitions = new Map<string, Row[]>();
+
+  for (const row of rows) {
+    const key = JSON.stringify((params.partitionBy || []).map(field => row[field] ?? null));
+    partitions.set(key, [...(partitions.get(key) || []), row]);
+  }
+
+  const result: Row[] = [];
+
+  partitions.forEach(partition => {
+    const sorted = sortRows(partition, params.orderBy);
+    let rank = 0;
+    let denseRank = 0;
+
+    sorted.forEach((row, index) => {
+      const previous = sorted[index - 1];
+      const isTie =
+        !!previous &&
+        params.orderBy.every(({ field }) => compareValues(row[field], previous[field]) === 0);
+
+      if (!isTie) {
+        rank = index + 1;
+        denseRank++;
+      }
+
+      const value = method === 'row_number' ? index + 1 : method === 'rank' ? rank : denseRank;
+
+      if (params.top === undefined || value <= params.top) {
+        result.push({ ...row, [column]: value });
+      }
+    });
+  });
+
+  return result;
+};
+
+/**
+ * Выполняет операцию в памяти над результатами шагов, от которых она зависит.
+ * JOIN соединяет первые два набора; остальные операции работают с объединением всех наборов,
+ * кроме шагов, из которых условия фильтрации берут значения (valueFrom)
+ * @param operation - тип операции
+ * @param params - параметры операции
+ * @param inputs - результаты зависимых шагов в порядке зависимостей
+ */
+export const executeInMemoryOperation = (
+  operation: InMemoryOperation,
+  params: InMemoryOperationParams,
+  inputs: OperationInput[],
+): Row[] => {
+  if (inputs.length === 0) {
+    throw new Error(`${operation.toUpperCase()} operation requires at least 1 dependency`);
+  }
+
+  const valueSources = new Set<string>();
+  if (operation === InMemoryOperation.FILTER) {
+    (params as FilterParams).conditions.forEach(condition => {
+      if (condition.valueFrom) {
+        valueSources.add(condition.valueFrom.stepId);
+      }
+    });
+  }
+
+  const dataInputs = inputs.filter(input => !valueSources.has(input.stepId));
+  const rows = dataInputs.flatMap(input => input.rows);
+
+  switch (operation) {
+    case InMemoryOperation.JOIN:
+      if (inputs.length < 2) {
+        throw new Error('JOIN operation requires 2 dependencies');
+      }
+      return joinRows(inputs[0].rows, inputs[1].rows, params as JoinParams);
+    case InMemoryOperation.FILTER:
+      return filterRows(rows, params as FilterParams, inputs);
+    case InMemoryOperation.GROUP:
+      return groupRows(rows, params as GroupParams);
+    case InMemoryOperation.SORT:
+      return sortRows(rows, (params as SortParams).orderBy);
+    case InMemoryOperation.AGGREGATE:
+    case InMemoryOperation.REDUCE:
+      return aggregateRows(rows, params as AggregateParams);
+    case InMemoryOperation.LIMIT: {
+      const { limit, offset = 0 } = params as LimitParams;
+      if (!Number.isInteger(limit) || limit < 0 || !Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Invalid limit or offset parameters: ${limit}, ${offset}`);
+      }
+      return rows.slice(offset, offset + limit);
+    }
+    case InMemoryOperation.MAP:
+      return mapRows(rows, params as MapParams);
+    case InMemoryOperation.DISTINCT:
+      return distinctRows(rows, params as DistinctParams);
+    case InMemoryOperation.UNION:
+      return unionRows(
+        dataInputs.map(input => input.rows),
+        params as UnionParams,
+      );
+    case InMemoryOperation.RANK:
+      return rankRows(rows, params as RankParams);
+    default:
+      throw new Error(`Unsupported in-memory operation: ${operation}`);
+  }
+};
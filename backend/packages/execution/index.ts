@@ -1,25 +1,58 @@
 import { z } from 'zod';
-import { QueryPlan, QueryResponse, DatabaseService, ErrorType } from '@common/types';
-import { createTypedError, safeJsonStringify, serializeBigInt } from '@common/utils';
-import { getOpenAIModel, createOutputParser } from '@common/llm';
+import {
+  QueryPlan,
+  QueryResponse,
+  DatabaseService,
+  ErrorType,
+  Principal,
+  ResultRowCount,
+  SqlExecutionTrace,
+  SqlRepairAttempt
+} from '@common/types';
+import {
+  createTypedError,
+  isCancellationError,
+  safeJsonStringify,
+  serializeBigInt,
+  throwIfAborted
+} from '@common/utils';
+import { getChatModel, createOutputParser } from '@common/llm';
 import { executeSqlQuery as dbExecuteSqlQuery } from '@execution/database';
 import { EXECUTION_SYSTEM_PROMPT } from '../../data/prompts';
-import { distributedQueryProcessor } from './distributed-query';
+import { distributedQueryProcessor, ExecutionOptions } from './distributed-query';
+import { createSqlTrace, getRowCountFields, notifyObserver } from './step-observer';
+import { describeTruncation, resolveRowLimits } from './row-limits';
+import { profileResults } from './result-profiler';
 import { DistributedPlanBuilder } from '../planning/distributed-plan-builder';
 import { logDebug, logInfo, logWarn } from '@common/logger';
 
 // Создаем экземпляр процессора планов
 const distributedPlanBuilder = new DistributedPlanBuilder();
 
+/**
+ * Options of a single SQL query execution
+ */
+export interface SqlExecutionOptions {
+  signal?: AbortSignal; // Cancels the running statement when the query is cancelled
+  trace?: SqlExecutionTrace; // Receives the final SQL, applied fixes and duration
+  principal?: Principal; // Caller checked against the access policy; their roles unlock PII columns
+  maxRows?: number; // At most this many rows are fetched; the trace tells whether the result was cut
+  onRepairAttempt?: (attempt: SqlRepairAttempt) => void | Promise<void>; // Called for each attempt to correct a failing query
+}
+
 /**
  * Executes an SQL query with error handling and logging
  * @param service - Database service 
  * @param query - SQL query
- * @returns Query results
+ * @param params - Values for $1, $2, ... bind parameters
+ * @param options - Cancellation signal, execution trace and the calling principal
+ * @returns Query results with the PII policy applied
  */
 export const executeSqlQuery = async (
   service: DatabaseService, 
-  query: string
+  query: string,
+  params: unknown[] = [],
+  options: SqlExecutionOptions = {}
 ): Promise<Record<string, unknown>[]> => {
   // Calling the actual database connection instead of a mock
   logInfo(`Executing SQL query on ${service}: ${query}`);
@@ -28,7 +61,9 @@ export const executeSqlQuery = async (
     // Using the actual database connection instead of a mock
     const result = await dbExecuteSqlQuery({ 
       service, 
-      query 
+      query,
+      params,
+      ...options
     });
     logInfo(`SQL query executed successfully`);
     logDebug(`Result: ${JSON.stringify(result)}`);
@@ -55,30 +90,38 @@ type ExecutionOutput = z.infer<typeof executionResultSchema>;
  * Executes a query plan and interprets the results
  * @param plan - Query plan to execute
  * @param query - Original user query
+ * @param options - Cancellation signal (the cancellation error is rethrown), step observer and the calling principal
  * @returns Query response with data and explanation
  */
 export const executeQueryPlan = async (
   plan: QueryPlan,
-  query: string
+  query: string,
+  options: ExecutionOptions = {}
 ): Promise<QueryResponse> => {
+  const { signal, observer, principal } = options;
+  let executionErrors: Record<string, string> = {};
+  let executionErrorTypes: Record<string, ErrorType> = {};
+  let rowCounts: Record<string, ResultRowCount> = {};
+  
   try {
     // Проверяем, нужно ли использовать распределенный исполнитель
     const needsDistributedExecution = 
       plan.requiredServices.length > 1 || 
-      plan.steps.some(step => !step.sqlQuery);
+      plan.steps.some(step => !step.sqlQuery) ||
+      Boolean(plan.localSql);
     
     let stepResults: Record<string, Record<string, unknown>[]> = {};
     let executedQueries: string[] = [];
-    let executionErrors: Record<string, string> = {};
     
     if (needsDistributedExecution) {
       logInfo('Using distributed query execution for multi-service query');
       
       // Преобразуем обычный план в распределенный
       const distributedPlan = distributedPlanBuilder.convertToDQL(plan, query);
+      await notifyObserver(() => observer?.onPlanPrepared?.(distributedPlan));
       
       // Выполняем распределенный план
-      const distributedResult = await distributedQueryProcessor.executeDistributedPlan(distributedPlan);
+      const distributedResult = await distributedQueryProcessor.executeDistributedPlan(distributedPlan, options);
       
       // Переносим результаты в формат, ожидаемый дальнейшим кодом
       stepResults = distributedResult.intermediateResults || {};
@@ -89,10 +132,16 @@ export const executeQueryPlan = async (
           executedQueries.push(`/* ${step.service} */\n${step.sqlQuery}`);
         }
       }
+      if (plan.localSql) {
+        executedQueries.push(`/* local */\n${plan.localSql}`);
+      }
+      
+      rowCounts = { ...distributedResult.rowCounts };
       
       // Если есть ошибки, записываем их
       if (distributedResult.errors) {
         executionErrors = distributedResult.errors;
+        executionErrorTypes = distributedResult.errorTypes || {};
         
         // Проверяем, есть ли глобальная ошибка, которая могла прервать выполнение
         if (distributedResult.errors.global) {
@@ -103,24 +152,84 @@ export const executeQueryPlan = async (
       // Финальные результаты должны быть включены в stepResults
       if (distributedResult.finalResults.length > 0) {
         stepResults['final'] = distributedResult.finalResults;
+        if (rowCounts[distributedPlan.finalStepId]) {
+          rowCounts['final'] = rowCounts[distributedPlan.finalStepId];
+        }
       }
     } else {
       // Используем простое последовательное выполнение для одиночного сервиса
       logInfo('Using standard sequential execution for single-service query');
       
+      // Строки всех шагов расходуют общий лимит запроса
+      const rowLimits = resolveRowLimits(options.rowLimits);
+      let remainingRows = rowLimits.maxRowsPerQuery;
+      
       // Выполняем каждый шаг плана
-      for (const step of plan.steps) {
-        if (!step.sqlQuery) {
-          continue;
-        }
+      const sqlSteps = plan.steps.filter(step => step.sqlQuery);
+      for (const [index, step] of sqlSteps.entries()) {
+        const sqlQuery = step.sqlQuery as string;
+        // Последовательный путь хранит результаты и ошибки по имени сервиса
+        const executedStep = {
+          stepId: step.service,
+          stepNumber: index + 1,
+          totalSteps: sqlSteps.length,
+          service: step.service,
+          description: step.description
+        };
+        const trace = createSqlTrace(sqlQuery);
+        
+        throwIfAborted(signal);
+        executedQueries.push(`/* ${step.service} */\n${sqlQuery}`);
+        await notifyObserver(() => observer?.onStepStarted?.(executedStep));
+        const startTime = Date.now();
         
-        executedQueries.push(`/* ${step.service} */\n${step.sqlQuery}`);
         try {
-          logInfo(`Executing step for ${step.service}: ${step.sqlQuery}`);
-          const result = await executeSqlQuery(step.service, step.sqlQuery);
-          logInfo(`Step result for ${step.service}: ${JSON.stringify(result)}`);
+          logInfo(`Executing step for ${step.service}: ${sqlQuery}`);
+          const result = await executeSqlQuery(step.service, sqlQuery, [], {
+            signal,
+            trace,
+            principal,
+            maxRows: Math.max(Math.min(rowLimits.maxRowsPerStep, remainingRows), 0),
+            onRepairAttempt: attempt => notifyObserver(() => observer?.onRepairAttempt?.(executedStep, attempt))
+          });
+          logInfo(`Step result for ${step.service}: ${result.length} rows`);
           stepResults[step.service] = result;
+          remainingRows -= result.length;
+          rowCounts[step.service] = trace.rowCount || {
+            rowCount: result.length,
+            truncated: false,
+            totalRows: result.length
+          };
+          
+          await notifyObserver(() => observer?.onStepFinished?.({
+            ...executedStep,
+            durationMs: Date.now() - startTime,
+            rowCount: result.length,
+            sql: trace.sql,
+            parameterCount: 0,
+            fixes: trace.fixes,
+            statements: [trace],
+            ...getRowCountFields(trace.rowCount)
+          }));
         } catch (queryError) {
+          const errorType = (queryError as { type?: ErrorType }).type;
+          
+          await notifyObserver(() => observer?.onStepFinished?.({
+            ...executedStep,
+            durationMs: Date.now() - startTime,
+            rowCount: 0,
+            sql: trace.sql,
+            parameterCount: 0,
+            fixes: trace.fixes,
+            statements: [trace],
+            error: (queryError as Error).message,
+            errorType
+          }));
+          
+          if (isCancellationError(queryError)) {
+            throw queryError;
+          }
+          
           const errorMessage = `Error executing step for ${step.service}: ${(queryError as Error).message}`;
           logWarn(errorMessage);
           
@@ -128,6 +237,10 @@ export const executeQueryPlan = async (
           stepResults[step.service] = [{ error: (queryError as Error).message }];
           
           executionErrors[step.service] = errorMessage;
+          
+          if (errorType) {
+            executionErrorTypes[step.service] = errorType;
+          }
         }
       }
     }
@@ -139,15 +252,25 @@ export const executeQueryPlan = async (
       );
     }
     
+    throwIfAborted(signal);
+    
     // Выбираем модель для интерпретации результатов
-    const model = getOpenAIModel();
+    const model = getChatModel('execution');
     const parser = createOutputParser(executionResultSchema);
     
     const sqlQueriesStr = executedQueries.join('\n\n');
-    logInfo('=== QUERY RESULTS BEFORE SENDING TO LLM ===');
-    logInfo(safeJsonStringify(stepResults));
-    logInfo('=== END QUERY RESULTS ===');
-    const resultsStr = safeJsonStringify(stepResults);
+    // LLM получает не все строки, а профили результатов: сводку по колонкам и выборку строк
+    const profiles = profileResults(stepResults);
+    const resultsStr = safeJsonStringify(profiles);
+    logInfo('=== QUERY RESULT PROFILES BEFORE SENDING TO LLM ===');
+    logInfo(resultsStr);
+    logInfo('=== END QUERY RESULT PROFILES ===');
+    
+    // LLM должна знать, что видит не все строки, иначе итоги по ним выглядят окончательными
+    const truncatedResults = describeTruncation(rowCounts);
+    const truncationNote = truncatedResults.length > 0
+      ? `\n\nSome results were cut by the row limit, totals over them are partial:\n${truncatedResults.join('\n')}`
+      : '';
     
     // Системное сообщение
     const systemMessage = {
@@ -163,8 +286,8 @@ export const executeQueryPlan = async (
 SQL queries executed:
 ${sqlQueriesStr}
 
-Query results:
-${resultsStr}
+Query result profiles:
+${resultsStr}${truncationNote}
 
 Please interpret these results.`
     };
@@ -172,7 +295,7 @@ Please interpret these results.`
     // Подготавливаем сообщения для модели
     const messages = [systemMessage, userMessage];
     
-    const response = await model.invoke(messages);
+    const response = await model.invoke(messages, { signal });
     
     if (typeof response.content !== 'string') {
       throw new Error('LLM response content is not a string');
@@ -193,8 +316,18 @@ Please interpret these results.`
         data: serializeBigInt(stepResults),
       },
       errors: Object.keys(executionErrors).length > 0 ? executionErrors : undefined,
+      errorTypes: Object.keys(executionErrorTypes).length > 0 ? executionErrorTypes : undefined,
+      truncated: Object.values(rowCounts).some(count => count.truncated),
+      rowCounts,
+      profiles,
     };
   } catch (error) {
+    // Отмена прерывает весь pipeline, а не превращается в резервный ответ
+    if (isCancellationError(error)) {
+      throw error;
+    }
+    throwIfAborted(signal);
+    
     logWarn('Error in execution module:', error);
     
     // Возвращаем резервный ответ в случае ошибки
@@ -202,6 +335,8 @@ Please interpret these results.`
       data: {},
       explanation: `An error occurred while executing the query plan: ${(error as Error).message}`,
       confidence: 0.1,
+      errors: Object.keys(executionErrors).length > 0 ? executionErrors : undefined,
+      errorTypes: Object.keys(executionErrorTypes).length > 0 ? executionErrorTypes : undefined,
     };
   }
 }; 
\ No newline at end of file
@@ -0,0 +1,275 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { Worker } from 'worker_threads';
+import { logDebug, logInfo } from '@common/logger';
+import { createCancellationError, createTypedError, throwIfAborted } from '@common/utils';
+import { ErrorType } from '@common/types';
+import { validateReadOnlySql } from './sql-safety';
+import { Row } from './in-memory-engine';
+
+/**
+ * Лимит времени выполнения локального запроса, как и запроса к сервису (SQL_STATEMENT_TIMEOUT_MS)
+ */
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.SQL_STATEMENT_TIMEOUT_MS || '30000', 10);
+
+/**
+ * Сколько строк результата читается по умолчанию
+ */
+const DEFAULT_MAX_ROWS = parseInt(process.env.MAX_ROWS_PER_STEP || '10000', 10);
+
+/**
+ * Параметры выполнения локального запроса
+ */
+export interface LocalSqlOptions {
+  signal?: AbortSignal; // Отмена запроса останавливает выполнение
+  timeoutMs?: number;
+  maxRows?: number; // Остальные строки результата не читаются
+}
+
+/**
+ * Код worker, выполняющего запрос над базой, собранной в основном потоке.
+ * Запрос выполняется синхронно, поэтому остановить его можно только вместе с потоком
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+require(workerData.sqlJsPath)()
+  .then(SQL => {
+    const db = new SQL.Database(workerData.database);
+    try {
+      const statement = db.prepare(workerData.query);
+      const rows = [];
+      try {
+        while (rows.length < workerData.maxRows && statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+      } finally {
+        statement.free();
+      }
+      parentPort.postMessage({ rows });
+    } finally {
+      db.close();
+    }
+  })
+  .catch(error => parentPort.postMessage({ error: error.message }));
+`;
+
+/**
+ * Движок SQLite (WASM) загружается один раз при первом локальном запросе
+ */
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+const getSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs().catch(error => {
+      sqlJsPromise = null;
+      throw error;
+    });
+  }
+
+  return sqlJsPromise;
+};
+
+/**
+ * Экранирует идентификатор для SQLite
+ */
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Проверяет, является ли строка числом (numeric и bigint драйверы возвращают строками)
+ */
+const isNumericString = (value: unknown): boolean =>
+  typeof value === 'string' && /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value.trim());
+
+/**
+ * Определяет тип колонки SQLite по значениям: NUMERIC, если все значения - числа,
+ * чтобы сравнения и агрегаты работали с числовыми строками; иначе TEXT
+ */
+const inferColumnType = (rows: Row[], column: string): string => {
+  const values = rows
+    .map(row => row[column])
+    .filter(value => value !== null && value !== undefined);
+
+  if (values.length === 0) {
+    return '';
+  }
+
+  const isNumeric = values.every(
+    value =>
+      typeof value === 'number' ||
+      typeof value === 'bigint' ||
+      typeof value === 'boolean' ||
+      isNumericString(value),
+  );
+
+  return isNumeric ? 'NUMERIC' : 'TEXT';
+};
+
+/**
+ * Приводит значение из результата шага к значению, которое можно сохранить в SQLite
+ */
+const toSqlValue = (value: unknown): SqlValue => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Создает таблицу с результатами шага и заполняет ее
+ * @param db - база SQLite
+ * @param name - имя таблицы (ID шага)
+ * @param rows - строки результата шага
+ */
+const loadTable = (db: Database, name: string, rows: Row[]): void => {
+  const columns: string[] = [];
+  rows.forEach(row =>
+    Object.keys(row).forEach(column => {
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    }),
+  );
+
+  // Таблица без строк все равно создается, чтобы запрос к ней вернул пустой результат
+  const definitions = columns.length > 0 ? columns : ['_empty'];
+  db.run(
+    `CREATE TABLE ${quoteIdentifier(name)} (${definitions
+      .map(column => `${quoteIdentifier(column)} ${inferColumnType(rows, column)}`.trim())
+      .join(', ')})`,
+  );
+
+  if (rows.length === 0 || columns.length === 0) {
+    return;
+  }
+
+  const statement = db.prepare(
+    `INSERT INTO ${quoteIdentifier(name)} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${columns
+      .map(() => '?')
+      .join(', ')})`,
+  );
+
+  try {
+    for (const row of rows) {
+      statement.run(columns.map(column => toSqlValue(row[column])));
+    }
+  } finally {
+    statement.free();
+  }
+};
+
+/**
+ * Выполняет запрос в отдельном потоке: зависший запрос (например, бесконечный WITH RECURSIVE)
+ * останавливается по таймауту или отмене и не блокирует основной поток
+ * @param database - файл базы SQLite с загруженными таблицами
+ * @param query - SQL запрос
+ * @param options - параметры выполнения
+ */
+const runInWorker = (
+  database: Uint8Array,
+  query: string,
+  options: Required<Omit<LocalSqlOptions, 'signal'>> & Pick<LocalSqlOptions, 'signal'>,
+): Promise<Row[]> =>
+  new Promise<Row[]>((resolve, reject) => {
+    const { signal, timeoutMs, maxRows } = options;
+    // Отмена во время загрузки таблиц уже произошла, и событие abort больше не придет
+    if (signal?.aborted) {
+      reject(createCancellationError(signal));
+      return;
+    }
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { sqlJsPath: require.resolve('sql.js'), database, query, maxRows },
+    });
+
+    const finish = (error: Error | null, rows?: Row[]): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      void worker.terminate();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(rows || []);
+      }
+    };
+    const onAbort = (): void => finish(createCancellationError(signal as AbortSignal));
+    const timer = setTimeout(
+      () =>
+        finish(
+          createTypedError(
+            ErrorType.PROCESSING_ERROR,
+            `Local SQL did not finish within ${timeoutMs} ms`,
+          ),
+        ),
+      timeoutMs,
+    );
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.on('message', (message: { rows?: Row[]; error?: string }) =>
+      finish(message.error ? new Error(message.error) : null, message.rows),
+    );
+    worker.on('error', error => finish(error));
+  });
+
+/**
+ * Выполняет SQL над результатами предыдущих шагов во встроенной SQLite.
+ * Каждый набор загружается в таблицу с именем шага (step_1, step_2, ...),
+ * поэтому после получения данных из сервисов их можно соединять и агрегировать одним запросом.
+ * Запрос выполняется в отдельном потоке с ограничением времени и числа прочитанных строк
+ * @param query - SQL запрос (только SELECT/WITH)
+ * @param tables - результаты шагов по их ID
+ * @param options - отмена, лимит времени и число строк
+ */
+export const executeLocalSql = async (
+  query: string,
+  tables: Record<string, Row[]>,
+  options: LocalSqlOptions = {},
+): Promise<Row[]> => {
+  const safety = validateReadOnlySql(query);
+  if (!safety.isValid) {
+    throw createTypedError(
+      ErrorType.UNSAFE_QUERY,
+      `Local SQL rejected by SQL safety gate: ${safety.error}`,
+    );
+  }
+
+  throwIfAborted(options.signal);
+
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+  let database: Uint8Array;
+
+  try {
+    for (const [name, rows] of Object.entries(tables)) {
+      loadTable(db, name, rows);
+      logDebug(`Loaded ${rows.length} rows into local table ${name}`);
+    }
+    database = db.export();
+  } finally {
+    db.close();
+  }
+
+  logInfo(`Executing local SQL over tables ${Object.keys(tables).join(', ')}: ${query}`);
+
+  return runInWorker(database, query, {
+    signal: options.signal,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRows: options.maxRows ?? DEFAULT_MAX_ROWS,
+  });
+};
@@ -0,0 +1,542 @@
+import { logDebug, logWarn } from '@common/logger';
+import { createTypedError } from '@common/utils';
+import { ErrorType } from '@common/types';
+import { OperationInput } from './in-memory-engine';
+
+/**
+ * Максимальное количество значений списка в одном запросе; большие списки разбиваются на пакеты
+ */
+const DEFAULT_BATCH_SIZE = parseInt(process.env.SQL_PARAMETER_BATCH_SIZE || '1000', 10);
+
+/**
+ * Ограничение PostgreSQL на количество bind-параметров в одном запросе
+ */
+const MAX_BIND_PARAMETERS = 32767;
+
+/**
+ * Способ подстановки значения:
+ * scalar - одно значение из первой строки результата (col = :name),
+ * list - значения из всех строк результата (col IN (:name), col = ANY(:name))
+ */
+export type ParameterMode = 'scalar' | 'list';
+
+/**
+ * Метка параметра в SQL запросе. Каноничный синтаксис в планах - :name,
+ * где name совпадает с колонкой, которую возвращает один из предыдущих шагов
+ */
+export interface Placeholder {
+  name: string;
+  mode: ParameterMode;
+  context: 'value' | 'in' | 'any'; // Где стоит метка: обычное значение, IN (...) или ANY(...)
+  negated: boolean; // NOT IN (...)
+  start: number;
+  end: number;
+}
+
+/**
+ * Позиционная метка (? или $N) и колонка, с которой сравнивается ее значение
+ */
+export interface PositionalPlaceholder {
+  column: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Запрос с настоящими bind-параметрами ($1, $2, ...) для $queryRawUnsafe(sql, ...values)
+ */
+export interface BoundQuery {
+  sql: string;
+  values: unknown[];
+}
+
+/**
+ * Параметры привязки
+ */
+export interface BindOptions {
+  batchSize?: number;
+  values?: Record<string, unknown>; // Значения параметров сохраненного отчета; важнее результатов шагов
+}
+
+/**
+ * Фрагмент SQL: код или литерал (строка, идентификатор в кавычках, комментарий)
+ */
+export interface SqlSegment {
+  text: string;
+  start: number;
+  isCode: boolean;
+}
+
+/**
+ * Находит конец строки в долларовых кавычках ($$...$$, $tag$...$tag$), которая начинается с позиции start
+ * @returns Позиция после закрывающего разделителя или -1, если в позиции start нет открывающего
+ */
+const findDollarQuoteEnd = (sql: string, start: number): number => {
+  // $ внутри идентификатора (a$b) и позиционный параметр ($1) не открывают строку
+  if (start > 0 && /[\w$]/.test(sql[start - 1])) {
+    return -1;
+  }
+
+  const delimiter = sql.slice(start).match(/^\$(?:[A-Za-z_]\w*)?\$/);
+  if (!delimiter) {
+    return -1;
+  }
+
+  const close = sql.indexOf(delimiter[0], start + delimiter[0].length);
+  return close === -1 ? sql.length : close + delimiter[0].length;
+};
+
+/**
+ * Разбивает SQL на фрагменты кода и литералов, чтобы метки внутри строк
+ * (в том числе E'...' и $tag$...$tag$), идентификаторов в кавычках и комментариев
+ * не считались параметрами
+ */
+export const splitSqlSegments = (sql: string): SqlSegment[] => {
+  const segments: SqlSegment[] = [];
+  let codeStart = 0;
+  let i = 0;
+
+  const pushSegment = (start: number, end: number, isCode: boolean): void => {
+    if (end > start) {
+      segments.push({ text: sql.slice(start, end), start, isCode });
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    let literalEnd = -1;
+
+    if (char === "'" || char === '"') {
+      // В строках E'...' обратная косая черта экранирует следующий символ
+      const escapes = char === "'" && /(^|[^\w$])[Ee]$/.test(sql.slice(Math.max(0, i - 2), i));
+      literalEnd = i + 1;
+      while (literalEnd < sql.length) {
+        if (escapes && sql[literalEnd] === '\\') {
+          literalEnd += 2;
+          continue;
+        }
+        if (sql[literalEnd] === char) {
+          // Удвоенная кавычка внутри литерала - экранирование
+          if (sql[literalEnd + 1] === char) {
+            literalEnd += 2;
+            continue;
+          }
+          break;
+        }
+        literalEnd++;
+      }
+      literalEnd = Math.min(literalEnd + 1, sql.length);
+    } else if (char === '-' && sql[i + 1] === '-') {
+      const newLine = sql.indexOf('\n', i);
+      literalEnd = newLine === -1 ? sql.length : newLine;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      literalEnd = close === -1 ? sql.length : close + 2;
+    } else if (char === '$') {
+      literalEnd = findDollarQuoteEnd(sql, i);
+    }
+
+    if (literalEnd === -1) {
+      i++;
+      continue;
+    }
+
+    pushSegment(codeStart, i, true);
+    pushSegment(i, literalEnd, false);
+    i = literalEnd;
+    codeStart = i;
+  }
+
+  pushSegment(codeStart, sql.length, true);
+  return segments;
+};
+
+/**
+ * Применяет замену только к фрагментам кода
+ */
+const replaceInCode = (
+  sql: string,
+  pattern: RegExp,
+  replacer: (match: string, ...groups: string[]) => string,
+): string =>
+  splitSqlSegments(sql)
+    .map(segment =>
+      segment.isCode
+        ? segment.text.replace(pattern, (match, ...groups) => replacer(match, ...groups))
+        : segment.text,
+    )
+    .join('');
+
+/**
+ * Приводит метки параметров к каноничному синтаксису :name.
+ * Поддерживаются устаревшие формы :"name", @name, ${name}, $name,
+ * а также позиционные $1 и ? для параметров из списка positionalNames
+ * @param sql - SQL запрос
+ * @param positionalNames - имена параметров по порядку (для $1, $2 и ?)
+ */
+export const normalizePlaceholders = (sql: string, positionalNames: string[] = []): string => {
+  // :"name" пересекает границу идентификатора в кавычках, поэтому обрабатывается до разбиения
+  let result = sql.replace(/(^|[^:]):"([A-Za-z_]\w*)"/g, '$1:$2');
+
+  result = replaceInCode(result, /\$\{([A-Za-z_]\w*)\}/g, (_match, name) => `:${name}`);
+  result = replaceInCode(
+    result,
+    /(^|[^\w$])[@$]([A-Za-z_]\w*)\b/g,
+    (_match, prefix, name) => `${prefix}:${name}`,
+  );
+  result = replaceInCode(result, /\$(\d+)\b/g, (match, index) => {
+    const name = positionalNames[parseInt(index, 10) - 1];
+    return name ? `:${name}` : match;
+  });
+
+  if (positionalNames.length > 0) {
+    let position = 0;
+    result = replaceInCode(result, /\?/g, () => {
+      const name = positionalNames[Math.min(position, positionalNames.length - 1)];
+      position++;
+      return `:${name}`;
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Определяет контекст метки по тексту вокруг нее: IN (...), ANY(...)/ALL(...) или обычное значение
+ */
+const detectContext = (
+  sql: string,
+  start: number,
+  end: number,
+): Pick<Placeholder, 'mode' | 'context' | 'negated'> => {
+  const before = sql.slice(0, start);
+  const after = sql.slice(end);
+  const closesParenthesis = /^\s*\)/.test(after);
+
+  if (closesParenthesis && /\b(ANY|ALL)\s*\(\s*$/i.test(before)) {
+    return { mode: 'list', context: 'any', negated: false };
+  }
+
+  const inMatch = before.match(/\b(NOT\s+)?IN\s*(\(\s*)?$/i);
+  if (inMatch && (!inMatch[2] || closesParenthesis)) {
+    return { mode: 'list', context: 'in', negated: Boolean(inMatch[1]) };
+  }
+
+  return { mode: 'scalar', context: 'value', negated: false };
+};
+
+/**
+ * Находит метки :name в SQL запросе (без приведений типов ::type и меток внутри литералов)
+ * @param sql - SQL запрос в каноничном синтаксисе
+ */
+export const findPlaceholders = (sql: string): Placeholder[] => {
+  const placeholders: Placeholder[] = [];
+
+  for (const segment of splitSqlSegments(sql)) {
+    if (!segment.isCode) continue;
+
+    const regex = /::?([A-Za-z_]\w*)/g;
+    let match;
+    while ((match = regex.exec(segment.text)) !== null) {
+      if (match[0].startsWith('::')) continue;
+
+      const start = segment.start + match.index;
+      const end = start + match[0].length;
+      placeholders.push({ name: match[1], start, end, ...detectContext(sql, start, end) });
+    }
+  }
+
+  return placeholders;
+};
+
+/**
+ * Находит позиционные метки ? и $N на месте значения, которое сравнивается с колонкой
+ * (column = ?, "column" IN (?), column = ANY($1)). Операторы jsonb ?, ?| и ?&,
+ * а также знаки внутри литералов меткой не считаются
+ * @param sql - SQL запрос
+ * @returns Метки с именами колонок, в порядке появления
+ */
+export const findPositionalPlaceholders = (sql: string): PositionalPlaceholder[] => {
+  const code = splitSqlSegments(sql).filter(segment => segment.isCode);
+  const isCode = (index: number): boolean =>
+    code.some(segment => index >= segment.start && index < segment.start + segment.text.length);
+
+  const placeholders: PositionalPlaceholder[] = [];
+  const regex =
+    /"?([A-Za-z_]\w*)"?\s*(?:=\s*(?:ANY|ALL)\s*\(|\bIN\s*\(|=|<>|!=|<=|>=|<|>)\s*(\?(?![|&])|\$\d+\b)/gi;
+  let match;
+  while ((match = regex.exec(sql)) !== null) {
+    const end = match.index + match[0].length;
+    const start = end - match[2].length;
+    if (isCode(start)) {
+      placeholders.push({ column: match[1], start, end });
+    }
+  }
+
+  return placeholders;
+};
+
+/**
+ * Ключ значения метки: одна и та же метка может быть и значением, и списком
+ */
+const valueKey = (placeholder: Placeholder): string => `${placeholder.mode}:${placeholder.name}`;
+
+/**
+ * Находит значение колонки в строке без учета регистра
+ */
+const findColumn = (row: Record<string, unknown>, name: string): string | undefined =>
+  Object.keys(row).find(key => key.toLowerCase() === name.toLowerCase());
+
+/**
+ * Извлекает значение параметра из результатов зависимых шагов.
+ * Используется первый шаг, в результатах которого есть колонка с именем параметра
+ * @param name - имя параметра (колонки)
+ * @param mode - scalar (первая строка) или list (все строки, без повторов и NULL)
+ * @param sources - результаты зависимых шагов
+ */
+export const extractParameterValue = (
+  name: string,
+  mode: ParameterMode,
+  sources: OperationInput[],
+): unknown => {
+  const source = sources.find(input => input.rows.some(row => findColumn(row, name)));
+
+  if (!source) {
+    // Пустой результат зависимости означает, что подходящих значений нет
+    if (sources.every(input => input.rows.length === 0)) {
+      logWarn(`Dependent steps returned no rows, parameter :${name} is bound to no values`);
+      return mode === 'list' ? [] : null;
+    }
+
+    throw createTypedError(
+      ErrorType.PROCESSING_ERROR,
+      `Value for parameter :${name} not found in results of steps ${sources
+        .map(input => input.stepId)
+        .join(', ')}`,
+    );
+  }
+
+  const values = source.rows.map(row => {
+    const column = findColumn(row, name);
+    return column ? row[column] : undefined;
+  });
+
+  if (mode === 'scalar') {
+    if (source.rows.length > 1) {
+      logDebug(
+        `Step ${source.stepId} returned ${source.rows.length} rows, :${name} uses the first`,
+      );
+    }
+    return values[0] ?? null;
+  }
+
+  const unique = new Map<string, unknown>();
+  values.forEach(value => {
+    if (value !== null && value !== undefined) {
+      unique.set(typeof value === 'object' ? JSON.stringify(value) : String(value), value);
+    }
+  });
+
+  return Array.from(unique.values());
+};
+
+/**
+ * Значение метки из явно переданных значений (параметров отчета); undefined, если его нет.
+ * Список для IN/ANY всегда массив, одиночное значение для списка становится списком из одного элемента
+ */
+const findProvidedValue = (
+  placeholder: Placeholder,
+  provided: Record<string, unknown>,
+): unknown => {
+  const key = Object.keys(provided).find(
+    name => name.toLowerCase() === placeholder.name.toLowerCase(),
+  );
+  if (key === undefined) {
+    return undefined;
+  }
+
+  const value = provided[key];
+  if (placeholder.mode === 'list') {
+    return Array.isArray(value) ? value : [value];
+  }
+  return value;
+};
+
+/**
+ * Приводит значение к типу, который драйвер передаст как bind-параметр
+ */
+const toBindValue = (value: unknown): unknown => {
+  if (value === undefined) {
+    return null;
+  }
+
+  // JSON-значения (jsonb колонки) передаются текстом
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  ) {
+    return JSON.stringify(value);
+  }
+
+  return value;
+};
+
+/**
+ * Проверяет, можно ли выполнить запрос по частям и объединить результаты:
+ * это верно только для построчных запросов без агрегатов, сортировки и ограничений
+ */
+const isBatchable = (sql: string): boolean => {
+  const code = splitSqlSegments(sql)
+    .filter(segment => segment.isCode)
+    .map(segment => segment.text)
+    .join(' ');
+
+  return !/\b(GROUP\s+BY|ORDER\s+BY|DISTINCT|LIMIT|OFFSET|FETCH|HAVING|OVER|UNION|INTERSECT|EXCEPT)\b|\b(COUNT|SUM|AVG|MIN|MAX|ARRAY_AGG|STRING_AGG|JSON_AGG|JSONB_AGG|BOOL_AND|BOOL_OR|EVERY)\s*\(/i.test(
+    code,
+  );
+};
+
+/**
+ * Собирает SQL с позиционными bind-параметрами из запроса с метками :name
+ */
+const buildBoundQuery = (
+  sql: string,
+  placeholders: Placeholder[],
+  values: Map<string, unknown>,
+  arrayLists: Set<string>,
+): BoundQuery => {
+  const bindValues: unknown[] = [];
+  const scalarIndexes = new Map<string, number>();
+  let result = '';
+  let position = 0;
+
+  const addValue = (value: unknown): string => {
+    bindValues.push(toBindValue(value));
+    return `$${bindValues.length}`;
+  };
+
+  for (const placeholder of placeholders) {
+    let prefix = sql.slice(position, placeholder.start);
+    const value = values.get(valueKey(placeholder));
+    let replacement: string;
+
+    if (placeholder.context === 'value') {
+      const name = placeholder.name.toLowerCase();
+      if (!scalarIndexes.has(name)) {
+        addValue(value);
+        scalarIndexes.set(name, bindValues.length);
+      }
+      replacement = `$${scalarIndexes.get(name)}`;
+    } else if (placeholder.context === 'any') {
+      replacement = addValue(value);
+    } else {
+      const list = value as unknown[];
+      const hasParenthesis = /\(\s*$/.test(prefix);
+
+      if (arrayLists.has(placeholder.name)) {
+        // Слишком длинный список передается одним массивом: col IN (:ids) -> col = ANY($n)
+        prefix = prefix.replace(
+          /\b(NOT\s+)?IN\s*\(?\s*$/i,
+          placeholder.negated ? '<> ALL(' : '= ANY(',
+        );
+        replacement = addValue(list);
+        if (!hasParenthesis) {
+          replacement += ')';
+        }
+      } else {
+        // Пустой список ничего не находит: IN (NULL) ложно, NOT IN (NULL) тоже ничего не вернет
+        const items = list.length > 0 ? list.map(addValue).join(', ') : 'NULL';
+        replacement = hasParenthesis ? items : `(${items})`;
+      }
+    }
+
+    result += prefix + replacement;
+    position = placeholder.end;
+  }
+
+  result += sql.slice(position);
+  return { sql: result, values: bindValues };
+};
+
+/**
+ * Привязывает значения из результатов зависимых шагов к меткам :name запроса.
+ * Явно переданные значения (options.values) используются вместо результатов шагов.
+ * Значения никогда не вставляются в текст SQL: каждое становится bind-параметром $n.
+ * Если список для IN больше batchSize, построчный запрос разбивается на несколько
+ * запросов, результаты которых нужно объединить; остальные запросы получают список одним массивом
+ * @param sql - SQL запрос с метками :name
+ * @param sources - результаты зависимых шагов
+ * @param options - параметры привязки
+ * @returns один или несколько запросов для выполнения
+ */
+export const bindParameters = (
+  sql: string,
+  sources: OperationInput[],
+  options: BindOptions = {},
+): BoundQuery[] => {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const placeholders = findPlaceholders(sql);
+
+  if (placeholders.length === 0) {
+    return [{ sql, values: [] }];
+  }
+
+  // Если метка встречается и как значение, и как список, каждая форма получает свое значение
+  const values = new Map<string, unknown>();
+  for (const placeholder of placeholders) {
+    const key = valueKey(placeholder);
+    if (!values.has(key)) {
+      const provided = findProvidedValue(placeholder, options.values || {});
+      values.set(
+        key,
+        provided !== undefined
+          ? provided
+          : extractParameterValue(placeholder.name, placeholder.mode, sources),
+      );
+    }
+  }
+
+  const oversized = Array.from(
+    new Set(
+      placeholders
+        .filter(
+          placeholder =>
+            placeholder.context === 'in' &&
+            (values.get(valueKey(placeholder)) as unknown[]).length > batchSize,
+        )
+        .map(placeholder => placeholder.name),
+    ),
+  );
+
+  const canBatch =
+    oversized.length === 1 &&
+    isBatchable(sql) &&
+    !placeholders.some(placeholder => placeholder.name === oversized[0] && placeholder.negated);
+
+  if (canBatch) {
+    const [name] = oversized;
+    const list = values.get(`list:${name}`) as unknown[];
+    const batches: BoundQuery[] = [];
+
+    for (let offset = 0; offset < list.length; offset += batchSize) {
+      const batchValues = new Map(values);
+      batchValues.set(`list:${name}`, list.slice(offset, offset + batchSize));
+      batches.push(buildBoundQuery(sql, placeholders, batchValues, new Set()));
+    }
+
+    logDebug(`Parameter :${name} has ${list.length} values, split into ${batches.length} batches`);
+    return batches;
+  }
+
+  const bound = buildBoundQuery(sql, placeholders, values, new Set(oversized));
+  if (bound.values.length > MAX_BIND_PARAMETERS) {
+    throw createTypedError(
+      ErrorType.PROCESSING_ERROR,
+      `Query needs ${bound.values.length} bind parameters, the limit is ${MAX_BIND_PARAMETERS}`,
+    );
+  }
+
+  return [bound];
+};
@@ -0,0 +1,270 @@
+import { ColumnProfile, ColumnValueType, ProfileValue, ResultProfile } from '@common/types';
+import { collectColumns, estimateTokens, isDecimalLike, safeJsonStringify } from '@common/utils';
+
+/**
+ * Настройки профиля результата
+ */
+export interface ProfileOptions {
+  sampleRows: number; // Сколько строк попадает в выборку
+  topValues: number; // Сколько самых частых значений показывать по колонке
+  tokenBudget: number; // Сколько токенов может занять описание всех результатов
+}
+
+/**
+ * Настройки по умолчанию (RESULT_SAMPLE_ROWS, RESULT_PROFILE_TOKEN_BUDGET)
+ */
+export const DEFAULT_PROFILE_OPTIONS: ProfileOptions = {
+  sampleRows: parseInt(process.env.RESULT_SAMPLE_ROWS || '10', 10),
+  topValues: 5,
+  tokenBudget: parseInt(process.env.RESULT_PROFILE_TOKEN_BUDGET || '3000', 10),
+};
+
+/**
+ * Длинные строки в выборке и среди частых значений обрезаются до этой длины
+ */
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * Числа, сохраненные строками (BigInt и decimal после Redis); ведущий ноль - признак кода, а не числа
+ */
+const NUMERIC_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+/**
+ * Даты, сохраненные строками (после Redis)
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const truncateText = (text: string): string =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+/**
+ * Определяет вид значения; null и undefined не учитываются
+ */
+const getValueType = (value: unknown): ColumnValueType => {
+  if (typeof value === 'number' || typeof value === 'bigint' || isDecimalLike(value)) {
+    return 'number';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+  if (typeof value === 'string') {
+    if (NUMERIC_PATTERN.test(value)) {
+      return 'number';
+    }
+    return ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? 'date' : 'string';
+  }
+  return 'json';
+};
+
+/**
+ * Приводит значение к JSON-совместимому виду для профиля и выборки
+ */
+const toProfileValue = (value: unknown): ProfileValue => {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? String(value) : value.toISOString();
+  }
+  if (typeof value === 'bigint' || isDecimalLike(value)) {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    return truncateText(value);
+  }
+  return truncateText(safeJsonStringify(value));
+};
+
+const toTime = (value: unknown): number =>
+  value instanceof Date ? value.getTime() : Date.parse(String(value));
+
+/**
+ * Строит профиль одной колонки
+ */
+const profileColumn = (
+  name: string,
+  rows: Record<string, unknown>[],
+  topValues: number,
+): ColumnProfile => {
+  const values = rows.map(row => row[name]).filter(value => value !== null && value !== undefined);
+  const types = new Set(values.map(getValueType));
+  const type: ColumnValueType =
+    types.size === 0 ? 'empty' : types.size === 1 ? [...types][0] : 'mixed';
+
+  // Значения сравниваются по JSON-представлению: так совпадают BigInt, decimal и их строки
+  const counts = new Map<string, { value: ProfileValue; count: number }>();
+  values.forEach(value => {
+    const profileValue = toProfileValue(value);
+    const key = JSON.stringify(profileValue);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { value: profileValue, count: 1 });
+    }
+  });
+
+  const profile: ColumnProfile = {
+    name,
+    type,
+    nullPercent:
+      rows.length > 0 ? Math.round(((rows.length - values.length) / rows.length) * 1000) / 10 : 0,
+    distinctCount: counts.size,
+  };
+
+  if (type === 'number') {
+    const numbers = values.map(value => Number(value)).filter(Number.isFinite);
+    if (numbers.length > 0) {
+      // reduce вместо Math.min(...numbers): десятки тысяч аргументов переполняют стек
+      profile.min = numbers.reduce((min, number) => Math.min(min, number));
+      profile.max = numbers.reduce((max, number) => Math.max(max, number));
+      profile.mean = numbers.reduce((sum, number) => sum + number, 0) / numbers.length;
+    }
+  }
+
+  if (type === 'date') {
+    const times = values.map(toTime).filter(Number.isFinite);
+    if (times.length > 0) {
+      profile.timeRange = {
+        from: new Date(times.reduce((min, time) => Math.min(min, time))).toISOString(),
+        to: new Date(times.reduce((max, time) => Math.max(max, time))).toISOString(),
+      };
+    }
+  }
+
+  // Частые значения имеют смысл, только если значения повторяются; для JSON они нечитаемы
+  if (type !== 'json' && type !== 'empty' && counts.size < values.length) {
+    profile.topValues = [...counts.values()].sort((a, b) => b.count - a.count).slice(0, topValues);
+  }
+
+  return profile;
+};
+
+/**
+ * Выбирает строки, равномерно распределенные по результату, включая первую и последнюю
+ */
+const selectSample = (rows: Record<string, unknown>[], size: number): Record<string, unknown>[] => {
+  if (rows.length <= size) {
+    return rows;
+  }
+  if (size <= 0) {
+    return [];
+  }
+  if (size === 1) {
+    return [rows[0]];
+  }
+
+  const step = (rows.length - 1) / (size - 1);
+  return Array.from({ length: size }, (_, index) => rows[Math.round(index * step)]);
+};
+
+/**
+ * Строит профиль результата: сводку по каждой колонке и выборку строк
+ * @param rows - строки результата
+ * @param options - размер выборки и число частых значений
+ * @returns Профиль результата
+ */
+export const profileResult = (
+  rows: Record<string, unknown>[],
+  options: Partial<Pick<ProfileOptions, 'sampleRows' | 'topValues'>> = {},
+): ResultProfile => {
+  const sampleRows = options.sampleRows ?? DEFAULT_PROFILE_OPTIONS.sampleRows;
+  const topValues = options.topValues ?? DEFAULT_PROFILE_OPTIONS.topValues;
+  const objects = rows.filter(row => row !== null && typeof row === 'object');
+
+  return {
+    rowCount: rows.length,
+    columns: collectColumns(objects).map(name => profileColumn(name, objects, topValues)),
+    sample: selectSample(objects, sampleRows).map(row =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+          key,
+          value === null || value === undefined ? null : toProfileValue(value),
+        ]),
+      ),
+    ),
+  };
+};
+
+/**
+ * Ступени сокращения профилей: сначала выборка, затем частые значения, затем колонки.
+ * Одна строка выборки остается всегда: по ней видно значения результата из одной строки
+ */
+const REDUCTION_STEPS: Array<{ sampleRows: number; topValues: number; maxColumns: number }> = [
+  { sampleRows: 5, topValues: 5, maxColumns: Infinity },
+  { sampleRows: 2, topValues: 3, maxColumns: Infinity },
+  { sampleRows: 1, topValues: 1, maxColumns: Infinity },
+  { sampleRows: 1, topValues: 0, maxColumns: 20 },
+  { sampleRows: 1, topValues: 0, maxColumns: 10 },
+  { sampleRows: 1, topValues: 0, maxColumns: 5 },
+];
+
+/**
+ * Сокращает профиль до заданного размера выборки, числа частых значений и колонок
+ */
+const reduceProfile = (
+  profile: ResultProfile,
+  { sampleRows, topValues, maxColumns }: (typeof REDUCTION_STEPS)[number],
+): ResultProfile => {
+  const columns = profile.columns.slice(0, maxColumns);
+  const kept = new Set(columns.map(column => column.name));
+  const omittedColumns = profile.columns.length - columns.length + (profile.omittedColumns || 0);
+
+  return {
+    rowCount: profile.rowCount,
+    columns: columns.map(({ topValues: values, ...column }) =>
+      values && topValues > 0 ? { ...column, topValues: values.slice(0, topValues) } : column,
+    ),
+    ...(omittedColumns > 0 ? { omittedColumns } : {}),
+    sample: selectSample(profile.sample, sampleRows).map(row =>
+      Object.fromEntries(Object.entries(row).filter(([key]) => kept.has(key))),
+    ),
+  };
+};
+
+/**
+ * Сокращает профили всех результатов, пока их описание не уложится в бюджет токенов.
+ * Если не помогает и самая сильная ступень, возвращается самый сокращенный вариант
+ * @param profiles - профили по шагам или сервисам
+ * @param tokenBudget - допустимое число токенов
+ * @returns Профили, уложенные в бюджет
+ */
+export const fitProfilesToBudget = (
+  profiles: Record<string, ResultProfile>,
+  tokenBudget: number = DEFAULT_PROFILE_OPTIONS.tokenBudget,
+): Record<string, ResultProfile> => {
+  let fitted = profiles;
+
+  for (const step of REDUCTION_STEPS) {
+    if (estimateTokens(safeJsonStringify(fitted)) <= tokenBudget) {
+      return fitted;
+    }
+    fitted = Object.fromEntries(
+      Object.entries(profiles).map(([key, profile]) => [key, reduceProfile(profile, step)]),
+    );
+  }
+
+  return fitted;
+};
+
+/**
+ * Строит профили всех результатов запроса в пределах бюджета токенов
+ * @param results - строки по шагам или сервисам
+ * @param options - размер выборки, число частых значений и бюджет токенов
+ * @returns Профили по тем же ключам
+ */
+export const profileResults = (
+  results: Record<string, Record<string, unknown>[]>,
+  options: Partial<ProfileOptions> = {},
+): Record<string, ResultProfile> => {
+  const profiles = Object.fromEntries(
+    Object.entries(results)
+      .filter(([, rows]) => Array.isArray(rows))
+      .map(([key, rows]) => [key, profileResult(rows, options)]),
+  );
+
+  return fitProfilesToBudget(profiles, options.tokenBudget ?? DEFAULT_PROFILE_OPTIONS.tokenBudget);
+};
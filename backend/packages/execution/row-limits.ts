@@ -0,0 +1,290 @@
+import { astVisitor, Expr, parse, SelectStatement, Statement } from 'pgsql-ast-parser';
+import { ResultRowCount } from '@common/types';
+import { splitSqlSegments } from './parameter-binding';
+
+/**
+ * Ограничения числа строк: сколько строк может вернуть один шаг и все шаги запроса вместе
+ */
+export interface RowLimits {
+  maxRowsPerStep: number;
+  maxRowsPerQuery: number;
+}
+
+/**
+ * Ограничения по умолчанию (MAX_ROWS_PER_STEP, MAX_ROWS_PER_QUERY)
+ */
+export const DEFAULT_ROW_LIMITS: RowLimits = {
+  maxRowsPerStep: parseInt(process.env.MAX_ROWS_PER_STEP || '10000', 10),
+  maxRowsPerQuery: parseInt(process.env.MAX_ROWS_PER_QUERY || '50000', 10),
+};
+
+/**
+ * Агрегатные функции: запрос с ними (без GROUP BY) возвращает одну строку
+ */
+const AGGREGATE_FUNCTIONS = new Set([
+  'count',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'array_agg',
+  'string_agg',
+  'json_agg',
+  'jsonb_agg',
+  'json_object_agg',
+  'jsonb_object_agg',
+  'bool_and',
+  'bool_or',
+  'every',
+  'bit_and',
+  'bit_or',
+  'stddev',
+  'stddev_pop',
+  'stddev_samp',
+  'variance',
+  'var_pop',
+  'var_samp',
+  'percentile_cont',
+  'percentile_disc',
+  'mode',
+]);
+
+/**
+ * Итог ограничения SQL-запроса
+ */
+export interface RowLimitRewrite {
+  sql: string; // Запрос, который нужно выполнить
+  fix?: string; // Описание изменения, если LIMIT добавлен или уменьшен
+}
+
+/**
+ * Объединяет ограничения по умолчанию с переопределенными для запроса
+ */
+export const resolveRowLimits = (overrides: Partial<RowLimits> = {}): RowLimits => ({
+  maxRowsPerStep: overrides.maxRowsPerStep ?? DEFAULT_ROW_LIMITS.maxRowsPerStep,
+  maxRowsPerQuery: overrides.maxRowsPerQuery ?? DEFAULT_ROW_LIMITS.maxRowsPerQuery,
+});
+
+/**
+ * Проверяет, что выражения выборки агрегируют строки. Подзапросы и оконные функции
+ * (count(*) OVER ...) не делают внешний запрос агрегатным
+ */
+const containsAggregate = (expressions: Expr[]): boolean => {
+  let found = false;
+
+  const visitor = astVisitor(v => ({
+    selection: (): void => undefined,
+    call: (call): void => {
+      if (!call.over && AGGREGATE_FUNCTIONS.has(call.function.name.toLowerCase())) {
+        found = true;
+      }
+      v.super().call(call);
+    },
+  }));
+
+  expressions.forEach(expression => visitor.expr(expression));
+  return found;
+};
+
+/**
+ * Находит выборку, к которой относится LIMIT всего запроса: тело WITH, правую часть UNION
+ */
+const findOuterSelect = (statement: Statement): SelectStatement | undefined => {
+  switch (statement.type) {
+    case 'with':
+    case 'with recursive':
+      return findOuterSelect(statement.in);
+    case 'select':
+    case 'union':
+    case 'union all':
+    case 'values':
+      return statement;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Последняя выборка UNION: парсер относит к ней LIMIT, записанный после всего объединения
+ */
+const findLastSelect = (statement: SelectStatement): SelectStatement =>
+  statement.type === 'union' || statement.type === 'union all'
+    ? findLastSelect(statement.right)
+    : statement;
+
+/**
+ * Находит конец первого оператора: позицию после последнего значимого символа
+ * перед ";", завершающими пробелами и комментариями. Позиция конца оператора из парсера
+ * для этого не подходит: она не включает закрывающие скобки (IN ($1, $2), WHERE (...))
+ */
+const findStatementEnd = (sql: string): number => {
+  let end = 0;
+
+  for (const segment of splitSqlSegments(sql)) {
+    if (!segment.isCode) {
+      if (!segment.text.startsWith('--') && !segment.text.startsWith('/*')) {
+        end = segment.start + segment.text.length;
+      }
+      continue;
+    }
+
+    for (let i = 0; i < segment.text.length; i++) {
+      const char = segment.text[i];
+      if (char === ';') {
+        return end;
+      }
+      if (!/\s/.test(char)) {
+        end = segment.start + i + 1;
+      }
+    }
+  }
+
+  return end;
+};
+
+/**
+ * Добавляет в запрос LIMIT или уменьшает слишком большой LIMIT, чтобы база вернула
+ * не больше fetchLimit строк. Агрегатные запросы (GROUP BY, агрегатные функции) и VALUES
+ * не меняются: их результат ограничивается после выполнения
+ * @param sql - SQL-запрос
+ * @param fetchLimit - сколько строк можно получить из базы
+ * @returns Запрос для выполнения и описание изменения
+ */
+export const applyRowLimit = (sql: string, fetchLimit: number): RowLimitRewrite => {
+  let statement: Statement;
+  try {
+    [statement] = parse(sql, { locationTracking: true });
+  } catch {
+    // Неразбираемый запрос отклонит проверка безопасности
+    return { sql };
+  }
+
+  const outer = statement && findOuterSelect(statement);
+  if (!outer || outer.type === 'values') {
+    return { sql };
+  }
+
+  const last = findLastSelect(outer);
+  if (last.type === 'values') {
+    return { sql };
+  }
+  const isUnion = outer.type !== 'select';
+  if (
+    !isUnion &&
+    last.type === 'select' &&
+    (last.groupBy?.length ||
+      containsAggregate([
+        ...(last.columns || []).map(column => column.expr),
+        ...(last.having ? [last.having] : []),
+      ]))
+  ) {
+    return { sql };
+  }
+
+  const limit = last.type === 'select' ? last.limit?.limit : undefined;
+  if (limit) {
+    if (limit.type === 'integer' && limit.value <= fetchLimit) {
+      return { sql };
+    }
+    if (!limit._location) {
+      return { sql };
+    }
+
+    // Выражение (например, bind-параметр $1) сохраняется, чтобы не сдвинуть нумерацию параметров
+    const { start, end } = limit._location;
+    const original = sql.slice(start, end);
+    const replacement =
+      limit.type === 'integer' ? String(fetchLimit) : `LEAST(${original}, ${fetchLimit})`;
+    return {
+      sql: `${sql.slice(0, start)}${replacement}${sql.slice(end)}`,
+      fix: `Reduced LIMIT ${original} to ${replacement}`,
+    };
+  }
+
+  // OFFSET без LIMIT допустим: PostgreSQL принимает LIMIT после OFFSET
+  const end = findStatementEnd(sql);
+  return {
+    sql: `${sql.slice(0, end)} LIMIT ${fetchLimit}${sql.slice(end)}`,
+    fix: `Added LIMIT ${fetchLimit}`,
+  };
+};
+
+/**
+ * Оставляет не больше maxRows строк
+ * @param rows - строки результата
+ * @param maxRows - допустимое число строк
+ * @returns Оставленные строки и сведения об их числе; общее число строк точное
+ */
+export const truncateRows = <T>(
+  rows: T[],
+  maxRows: number,
+): { rows: T[]; rowCount: ResultRowCount } => {
+  const kept = rows.length > maxRows ? rows.slice(0, maxRows) : rows;
+
+  return {
+    rows: kept,
+    rowCount: {
+      rowCount: kept.length,
+      truncated: kept.length < rows.length,
+      totalRows: rows.length,
+    },
+  };
+};
+
+/**
+ * Достает оценку числа строк из результата EXPLAIN (FORMAT JSON)
+ * @param explain - строки, которые вернул EXPLAIN
+ * @returns Оценка планировщика или undefined, если ее нет
+ */
+export const parseExplainRowEstimate = (explain: unknown[]): number | undefined => {
+  const [row] = explain as Array<Record<string, unknown>>;
+  const value = row && Object.values(row)[0];
+  const plans = (typeof value === 'string' ? JSON.parse(value) : value) as
+    | Array<{ Plan?: { 'Plan Rows'?: number } }>
+    | undefined;
+  const estimate = Array.isArray(plans) ? plans[0]?.Plan?.['Plan Rows'] : undefined;
+
+  return typeof estimate === 'number' && Number.isFinite(estimate)
+    ? Math.round(estimate)
+    : undefined;
+};
+
+/**
+ * Складывает сведения о пакетах одного шага
+ * @param counts - сведения о выполненных пакетах
+ * @param complete - выполнены ли все пакеты (пакеты после исчерпания лимита пропускаются)
+ * @returns Сведения о шаге; общее число строк известно, только если известно для всех пакетов
+ */
+export const mergeRowCounts = (
+  counts: ResultRowCount[],
+  complete: boolean = true,
+): ResultRowCount => {
+  const totals = counts.map(count => count.totalRows);
+  const knownTotal = complete && totals.every(total => total !== undefined);
+
+  return {
+    rowCount: counts.reduce((sum, count) => sum + count.rowCount, 0),
+    truncated: !complete || counts.some(count => count.truncated),
+    totalRows: knownTotal
+      ? totals.reduce((sum: number, total) => sum + (total as number), 0)
+      : undefined,
+    totalRowsEstimated:
+      knownTotal && counts.some(count => count.totalRowsEstimated) ? true : undefined,
+  };
+};
+
+/**
+ * Описывает обрезанные результаты для LLM и истории диалога
+ * @param rowCounts - сведения о числе строк по шагам или сервисам
+ * @returns Строки вида "step1: 100 of ~2500 rows" или пустой массив, если ничего не обрезано
+ */
+export const describeTruncation = (rowCounts: Record<string, ResultRowCount> = {}): string[] =>
+  Object.entries(rowCounts)
+    .filter(([, count]) => count.truncated)
+    .map(([step, count]) => {
+      const total =
+        count.totalRows === undefined
+          ? 'an unknown number of'
+          : `${count.totalRowsEstimated ? '~' : ''}${count.totalRows}`;
+      return `${step}: ${count.rowCount} of ${total} rows`;
+    });
@@ -0,0 +1,457 @@
+import { DatabaseService } from '@common/types';
+import { databaseKnowledge } from '@common/knowledge';
+import { logInfo, logWarn } from '@common/logger';
+import { splitSqlSegments } from './parameter-binding';
+
+/**
+ * Исправление SQL эвристиками
+ */
+export interface HeuristicFix {
+  sql: string;
+  fixes: string[]; // Описания исправлений для трассы; пусто, если исправлять было нечего
+}
+
+/**
+ * Заключает в кавычки колонку userId: в разных таблицах она встречается очень часто,
+ * а без кавычек PostgreSQL приводит имя к нижнему регистру. Строки и комментарии не меняются
+ * @param sqlQuery - SQL запрос
+ */
+const quoteUserIdColumn = (sqlQuery: string): string =>
+  splitSqlSegments(sqlQuery)
+    .map(segment =>
+      segment.isCode
+        ? segment.text.replace(/(?<![\w$"])userid\b(?!")/gi, '"userId"')
+        : segment.text,
+    )
+    .join('');
+
+/**
+ * Заменяет строки и комментарии пустыми строками, чтобы слова внутри них не принимались за колонки;
+ * идентификаторы в кавычках остаются
+ * @param sqlQuery - SQL запрос
+ */
+const maskStringLiterals = (sqlQuery: string): string =>
+  splitSqlSegments(sqlQuery)
+    .map(segment => (segment.isCode || segment.text.startsWith('"') ? segment.text : "''"))
+    .join('');
+
+/**
+ * Attempts to fix common SQL schema issues
+ */
+const attemptSqlFix = (service: DatabaseService, sqlQuery: string): string => {
+  let fixedQuery = sqlQuery;
+
+  // Get database description
+  const dbDescription = databaseKnowledge.getDatabaseDescription(service);
+  if (!dbDescription) {
+    return fixedQuery;
+  }
+
+  // Fix 1: Исправление ошибки с числовыми значениями в WHERE условиях
+  const numericValuePattern = /Column "(\d+)" not found/i;
+  const numericMatch = fixedQuery.match(numericValuePattern);
+  if (numericMatch) {
+    logInfo(`Detected numeric value misinterpreted as column name: ${numericMatch[1]}`);
+    return fixedQuery;
+  }
+
+  // Extract table references
+  const tableRegex = /\bFROM\s+"?([A-Za-z0-9_]+)"?/gi;
+  const joinRegex = /\bJOIN\s+"?([A-Za-z0-9_]+)"?/gi;
+
+  const tables: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tableRegex.exec(sqlQuery)) !== null) {
+    tables.push(match[1]);
+  }
+
+  while ((match = joinRegex.exec(sqlQuery)) !== null) {
+    tables.push(match[1]);
+  }
+
+  // Fix 1: Invalid table names - try to find similar tables
+  for (const tableName of tables) {
+    const tableExists = dbDescription.tables.some(
+      t => t.name.toLowerCase() === tableName.toLowerCase(),
+    );
+
+    if (!tableExists) {
+      // Try to find a similar table name
+      const similarTables = dbDescription.tables
+        .filter(t => calculateSimilarity(t.name.toLowerCase(), tableName.toLowerCase()) > 0.7)
+        .sort(
+          (a, b) =>
+            calculateSimilarity(b.name.toLowerCase(), tableName.toLowerCase()) -
+            calculateSimilarity(a.name.toLowerCase(), tableName.toLowerCase()),
+        );
+
+      if (similarTables.length > 0) {
+        const correctTableName = similarTables[0].name;
+        logInfo(
+          `Replacing invalid table name "${tableName}" with similar table "${correctTableName}"`,
+        );
+
+        // Replace the table name in FROM clause
+        fixedQuery = fixedQuery.replace(
+          new RegExp(`\\bFROM\\s+"?${tableName}"?\\b`, 'gi'),
+          `FROM "${correctTableName}"`,
+        );
+
+        // Replace the table name in JOIN clause
+        fixedQuery = fixedQuery.replace(
+          new RegExp(`\\bJOIN\\s+"?${tableName}"?\\b`, 'gi'),
+          `JOIN "${correctTableName}"`,
+        );
+      }
+    }
+  }
+
+  // SQL ключевые слова, которые никогда не должны заключаться в кавычки
+  const sqlKeywords = [
+    'SELECT',
+    'FROM',
+    'WHERE',
+    'JOIN',
+    'GROUP',
+    'ORDER',
+    'BY',
+    'HAVING',
+    'LIMIT',
+    'OFFSET',
+    'AS',
+    'ON',
+    'AND',
+    'OR',
+    'NOT',
+    'IN',
+    'IS',
+    'NULL',
+    'TRUE',
+    'FALSE',
+    'ASC',
+    'DESC',
+    'INNER',
+    'OUTER',
+    'LEFT',
+    'RIGHT',
+    'FULL',
+    'DISTINCT',
+    'ALL',
+    'BETWEEN',
+    'LIKE',
+    'ILIKE',
+    'SIMILAR',
+    'TO',
+  ];
+
+  // Fix 2: Unquoted identifiers - add quotes to all column references
+  const columnReferencePatterns = [
+    /\bSELECT\s+(.*?)\s+FROM\b/gi,
+    /\bWHERE\s+(.*?)\s+(?:GROUP BY|ORDER BY|LIMIT|$)/gi,
+    /\bORDER\s+BY\s+(.*?)(?:LIMIT|$)/gi,
+    /\bGROUP\s+BY\s+(.*?)(?:HAVING|ORDER BY|LIMIT|$)/gi,
+  ];
+
+  for (const pattern of columnReferencePatterns) {
+    fixedQuery = fixedQuery.replace(pattern, (match, clauseContent) => {
+      // Split by commas for multi-column clauses
+      const columns = clauseContent.split(',');
+
+      // Process each column
+      const fixedColumns = columns.map((column: string) => {
+        // Skip if already quoted or contains functions
+        if (
+          column.includes('"') ||
+          column.includes("'") ||
+          column.includes('(') ||
+          column.includes('*') ||
+          column.trim() === ''
+        ) {
+          return column;
+        }
+
+        // Добавляем кавычки к идентификаторам (но не к числам, параметрам $N и ключевым словам SQL)
+        return column.replace(/(?<![\w$])([A-Za-z_][A-Za-z0-9_]*)\b/g, (_, word) => {
+          if (sqlKeywords.includes(word.toUpperCase())) {
+            return word; // Возвращаем ключевое слово без кавычек
+          }
+          return `"${word}"`; // Добавляем кавычки к идентификатору
+        });
+      });
+
+      // Rebuild the clause
+      return match.replace(clauseContent, fixedColumns.join(','));
+    });
+  }
+
+  // Fix 3: Ensure proper capitalization of column names
+  for (const tableName of tables) {
+    const tableDescription = dbDescription.tables.find(
+      t => t.name.toLowerCase() === tableName.toLowerCase(),
+    );
+
+    if (tableDescription) {
+      for (const column of tableDescription.columns) {
+        // Replace incorrect case with correct case
+        const columnRegex = new RegExp(`"${column.name.toLowerCase()}"`, 'gi');
+        fixedQuery = fixedQuery.replace(columnRegex, `"${column.name}"`);
+      }
+    }
+  }
+
+  // Fix 4: Удаляем кавычки вокруг ключевых слов SQL
+  sqlKeywords.forEach(keyword => {
+    const keywordRegex = new RegExp(`"${keyword}"`, 'gi');
+    fixedQuery = fixedQuery.replace(keywordRegex, keyword);
+  });
+
+  return fixedQuery;
+};
+
+/**
+ * Calculate string similarity (Levenshtein distance)
+ */
+const calculateSimilarity = (a: string, b: string): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const matrix: number[][] = [];
+
+  // Initialize matrix
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let i = 0; i <= a.length; i++) {
+    matrix[0][i] = i;
+  }
+
+  // Fill matrix
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      const cost = a[j - 1] === b[i - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1, // deletion
+        matrix[i][j - 1] + 1, // insertion
+        matrix[i - 1][j - 1] + cost, // substitution
+      );
+    }
+  }
+
+  // Calculate similarity as a value between 0 and 1
+  const maxLength = Math.max(a.length, b.length);
+  const distance = matrix[b.length][a.length];
+  return 1 - distance / maxLength;
+};
+
+/**
+ * Проверяет, является ли строка SQL-литералом (число, строка, булево значение)
+ */
+const isSqlLiteral = (value: string): boolean => {
+  // Проверка на числовое значение
+  if (/^[0-9]+(\.[0-9]+)?$/.test(value)) {
+    return true;
+  }
+
+  // Проверка на строковый литерал в одинарных кавычках
+  if (/^'[^']*'$/.test(value)) {
+    return true;
+  }
+
+  // Проверка на булевы значения
+  if (/^(true|false)$/i.test(value)) {
+    return true;
+  }
+
+  // Проверка на NULL
+  if (/^null$/i.test(value)) {
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Validates an SQL query against the service schema
+ */
+const validateSqlAgainstSchema = (
+  service: DatabaseService,
+  sqlQuery: string,
+): { isValid: boolean; error?: string } => {
+  sqlQuery = maskStringLiterals(sqlQuery);
+
+  if (!databaseKnowledge.isLoaded()) {
+    logWarn('Database knowledge not loaded, skipping schema validation');
+    return { isValid: true };
+  }
+
+  // Get the database description
+  const dbDescription = databaseKnowledge.getDatabaseDescription(service);
+  if (!dbDescription) {
+    logWarn(`No schema information available for service ${service}, skipping validation`);
+    return { isValid: true };
+  }
+
+  // SQL ключевые слова, которые всегда нужно игнорировать при валидации
+  const sqlKeywords = [
+    'SELECT',
+    'FROM',
+    'WHERE',
+    'JOIN',
+    'GROUP',
+    'ORDER',
+    'BY',
+    'HAVING',
+    'LIMIT',
+    'OFFSET',
+    'AS',
+    'ON',
+    'AND',
+    'OR',
+    'NOT',
+    'IN',
+    'IS',
+    'NULL',
+    'TRUE',
+    'FALSE',
+    'ASC',
+    'DESC',
+    'INNER',
+    'OUTER',
+    'LEFT',
+    'RIGHT',
+    'FULL',
+    'DISTINCT',
+    'ALL',
+    'BETWEEN',
+    'LIKE',
+    'ILIKE',
+    'SIMILAR',
+    'TO',
+  ];
+
+  // Extract table references from the query
+  const tableRegex = /\bFROM\s+"?([A-Za-z0-9_]+)"?/gi;
+  const joinRegex = /\bJOIN\s+"?([A-Za-z0-9_]+)"?/gi;
+
+  const tables: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tableRegex.exec(sqlQuery)) !== null) {
+    tables.push(match[1]);
+  }
+
+  while ((match = joinRegex.exec(sqlQuery)) !== null) {
+    tables.push(match[1]);
+  }
+
+  // Validate each referenced table exists in the schema
+  for (const tableName of tables) {
+    const tableDescription = dbDescription.tables.find(
+      t => t.name.toLowerCase() === tableName.toLowerCase(),
+    );
+
+    if (!tableDescription) {
+      return {
+        isValid: false,
+        error: `Table "${tableName}" not found in service "${service}" schema`,
+      };
+    }
+
+    // Extract column references for this table
+    const columnRegex = new RegExp(`"?${tableName}"?\\."?([A-Za-z0-9_]+)"?`, 'gi');
+    const columns: string[] = [];
+
+    while ((match = columnRegex.exec(sqlQuery)) !== null) {
+      columns.push(match[1]);
+    }
+
+    // Also look for column references without table qualifier in SELECT, WHERE, ORDER BY, etc.
+    const columnPatterns = [
+      /\bSELECT\s+(?:.*?)(?:,\s*)?([A-Za-z0-9_]+)(?:\s|,|$)/gi,
+      /\bWHERE\s+([A-Za-z0-9_]+)\s*(?:[=><])/gi,
+      /\bORDER\s+BY\s+([A-Za-z0-9_]+)/gi,
+      /\bGROUP\s+BY\s+([A-Za-z0-9_]+)/gi,
+    ];
+
+    // Игнорируем литералы в условиях WHERE
+    const whereValuePattern =
+      /\bWHERE\s+(?:[A-Za-z0-9_"]+)(?:\s*[=><]\s*)([0-9]+|'[^']*'|true|false)/gi;
+    const whereValueMatches = new Set<string>();
+
+    while ((match = whereValuePattern.exec(sqlQuery)) !== null) {
+      if (match[1]) {
+        whereValueMatches.add(match[1]);
+      }
+    }
+
+    for (const pattern of columnPatterns) {
+      while ((match = pattern.exec(sqlQuery)) !== null) {
+        // Пропускаем SQL ключевые слова и литералы
+        if (
+          !sqlKeywords.includes(match[1].toUpperCase()) &&
+          !columns.includes(match[1]) &&
+          !whereValueMatches.has(match[1]) &&
+          !isSqlLiteral(match[1])
+        ) {
+          columns.push(match[1]);
+        }
+      }
+    }
+
+    // Validate each referenced column exists in the table
+    // Skip validation for * (SELECT *)
+    for (const columnName of columns) {
+      if (columnName === '*') continue;
+
+      // Пропускаем SQL ключевые слова при проверке колонок
+      if (sqlKeywords.includes(columnName.toUpperCase())) continue;
+
+      const columnExists = tableDescription.columns.some(
+        c => c.name.toLowerCase() === columnName.toLowerCase(),
+      );
+
+      if (!columnExists) {
+        return {
+          isValid: false,
+          error: `Column "${columnName}" not found in table "${tableName}" of service "${service}"`,
+        };
+      }
+    }
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Эвристические исправления SQL по описаниям схемы: кавычки вокруг userId, похожие имена таблиц,
+ * кавычки и регистр колонок. Это последнее средство: применяется, только когда запрос завершился
+ * ошибкой и цикл исправления через LLM не помог
+ * @param service - сервис базы данных
+ * @param sqlQuery - SQL запрос с ошибкой
+ */
+export const applySchemaHeuristics = (service: DatabaseService, sqlQuery: string): HeuristicFix => {
+  const fixes: string[] = [];
+  let sql = quoteUserIdColumn(sqlQuery);
+  if (sql !== sqlQuery) {
+    fixes.push('Quoted userId column');
+  }
+
+  const validation = validateSqlAgainstSchema(service, sql);
+  if (!validation.isValid) {
+    logWarn(`Schema validation error: ${validation.error}`);
+    const fixedQuery = attemptSqlFix(service, sql);
+    const revalidation = validateSqlAgainstSchema(service, fixedQuery);
+
+    if (revalidation.isValid) {
+      sql = fixedQuery;
+      logInfo(`SQL query fixed: ${sql}`);
+      fixes.push(`Fixed schema mismatch: ${validation.error}`);
+    } else {
+      logWarn(`Schema validation failed after the fix: ${revalidation.error}`);
+    }
+  }
+
+  return { sql, fixes };
+};
@@ -0,0 +1,362 @@
+import { z } from 'zod';
+import {
+  DatabaseService,
+  ErrorType,
+  Principal,
+  SqlRepairAttempt,
+  SqlExecutionTrace,
+} from '@common/types';
+import { isCancellationError, throwIfAborted } from '@common/utils';
+import { createOutputParser, getChatModel, isLlmConfigured } from '@common/llm';
+import { databaseKnowledge, TableDescription } from '@common/knowledge';
+import { accessControl } from '@common/access-control';
+import { logDebug, logInfo, logWarn } from '@common/logger';
+import { SQL_REPAIR_SYSTEM_PROMPT } from '../../data/prompts';
+import { extractTableReferences } from './sql-safety';
+
+/**
+ * Виды ошибок PostgreSQL, которые может исправить LLM
+ */
+export type RepairableErrorKind =
+  | 'missing-relation'
+  | 'missing-column'
+  | 'type-mismatch'
+  | 'syntax-error'
+  | 'invalid-reference';
+
+/**
+ * Распознавание ошибок: по коду SQLSTATE (Prisma пишет его в сообщение) или по тексту
+ */
+const REPAIRABLE_ERRORS: Array<{ kind: RepairableErrorKind; codes: string[]; pattern: RegExp }> = [
+  {
+    kind: 'missing-relation',
+    codes: ['42P01'],
+    pattern: /relation "[^"]+" does not exist/i,
+  },
+  {
+    kind: 'missing-column',
+    codes: ['42703'],
+    pattern: /column "[^"]+"( of relation "[^"]+")? does not exist/i,
+  },
+  {
+    kind: 'type-mismatch',
+    codes: ['42883', '42804', '22P02', '42846', '22007', '22008'],
+    pattern:
+      /operator does not exist|function .+ does not exist|invalid input (syntax|value) for|cannot cast|is of type .+ but expression is of type|argument of .+ must be type/i,
+  },
+  {
+    kind: 'syntax-error',
+    codes: ['42601'],
+    pattern: /syntax error at or near|syntax error at end of input/i,
+  },
+  {
+    kind: 'invalid-reference',
+    codes: ['42702', '42803', '42P10'],
+    pattern: /is ambiguous|must appear in the GROUP BY clause|missing FROM-clause entry/i,
+  },
+];
+
+/**
+ * Настройки исправления SQL
+ */
+export interface SqlRepairOptions {
+  maxAttempts: number; // Сколько исправленных запросов может предложить LLM
+  maxTables: number; // Сколько описаний таблиц попадает в запрос к LLM
+}
+
+/**
+ * Настройки по умолчанию (SQL_REPAIR_MAX_ATTEMPTS; 0 отключает исправление через LLM)
+ */
+export const DEFAULT_SQL_REPAIR_OPTIONS: SqlRepairOptions = {
+  maxAttempts: parseInt(process.env.SQL_REPAIR_MAX_ATTEMPTS || '2', 10),
+  maxTables: 8,
+};
+
+/**
+ * Ответ LLM с исправленным запросом
+ */
+const sqlRepairSchema = z.object({
+  sql: z.string().describe('Corrected SQL query'),
+  explanation: z.string().describe('What was changed'),
+});
+
+type SqlRepairOutput = z.infer<typeof sqlRepairSchema>;
+
+/**
+ * Упавший запрос и все, что нужно LLM для его исправления
+ */
+export interface SqlRepairRequest {
+  service: DatabaseService;
+  sql: string;
+  error: string;
+  principal?: Principal; // Описания таблиц, закрытых для пользователя, в запрос не попадают
+  previousAttempts?: SqlRepairAttempt[]; // Неудачные исправления, которые LLM не должна повторять
+}
+
+/**
+ * Определяет вид ошибки базы данных
+ * @param message - сообщение об ошибке
+ * @returns Вид ошибки или undefined, если исправление запроса ей не поможет
+ */
+export const classifySqlError = (message: string): RepairableErrorKind | undefined => {
+  const code = /Code: `([0-9A-Z]{5})`/.exec(message)?.[1];
+
+  return REPAIRABLE_ERRORS.find(
+    ({ codes, pattern }) => (code && codes.includes(code)) || pattern.test(message),
+  )?.kind;
+};
+
+/**
+ * Имена таблиц из текста запроса; неразбираемый запрос (синтаксическая ошибка) читается регулярным выражением
+ */
+const findReferencedTables = (sql: string): string[] => {
+  try {
+    return extractTableReferences(sql);
+  } catch {
+    const tables = new Set<string>();
+    for (const match of sql.matchAll(/\b(?:FROM|JOIN)\s+(?:"?\w+"?\.)?"?(\w+)"?/gi)) {
+      tables.add(match[1]);
+    }
+    return [...tables];
+  }
+};
+
+/**
+ * Выбирает описания таблиц для исправления: таблицы запроса, таблицы, на которые они ссылаются,
+ * и таблицы с похожими именами, если в ошибке названа несуществующая таблица
+ * @param request - упавший запрос и ошибка
+ * @param maxTables - сколько описаний можно вернуть
+ * @returns Описания таблиц, доступных пользователю
+ */
+export const collectRepairContext = (
+  request: SqlRepairRequest,
+  maxTables: number = DEFAULT_SQL_REPAIR_OPTIONS.maxTables,
+): TableDescription[] => {
+  const database = databaseKnowledge.getDatabaseDescription(request.service);
+  if (!database) {
+    return [];
+  }
+
+  const visibleTables = database.tables.filter(table =>
+    accessControl.isTableAllowed(request.principal, request.service, table.name),
+  );
+  const findTable = (name: string): TableDescription | undefined =>
+    visibleTables.find(table => table.name.toLowerCase() === name.toLowerCase());
+
+  const referenced = findReferencedTables(request.sql);
+  const selected = new Set<TableDescription>();
+  const addTable = (table?: TableDescription): void => {
+    if (table && selected.size < maxTables) {
+      selected.add(table);
+    }
+  };
+
+  referenced.forEach(name => addTable(findTable(name)));
+
+  // Несуществующая таблица - скорее всего, опечатка или неверное имя похожей таблицы
+  const missing = /relation "(?:\w+\.)?([^"]+)" does not exist/i.exec(request.error)?.[1];
+  [...referenced, ...(missing ? [missing] : [])]
+    .filter(name => !findTable(name))
+    .forEach(name => {
+      const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+      visibleTables
+        .filter(table => {
+          const candidate = table.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+          return candidate.includes(normalized) || normalized.includes(candidate);
+        })
+        .forEach(addTable);
+    });
+
+  // Связанные таблицы нужны, когда исправление требует JOIN
+  [...selected].forEach(table => {
+    (table.relations || []).forEach(relation => addTable(findTable(relation.table)));
+  });
+
+  return [...selected];
+};
+
+/**
+ * Сокращенное описание таблицы для LLM: колонки с типами, допустимые значения и связи
+ */
+const describeTable = (table: TableDescription): Record<string, unknown> => ({
+  name: table.name,
+  description: table.description || undefined,
+  columns: table.columns.map(column => ({
+    name: column.name,
+    type: column.type,
+    nullable: column.isNullable || undefined,
+    values: column.enumValues,
+    references: column.references
+      ? `${column.references.table}.${column.references.column}`
+      : undefined,
+  })),
+  relations: table.relations?.map(
+    relation => `${relation.sourceColumn} -> ${relation.table}.${relation.targetColumn}`,
+  ),
+});
+
+/**
+ * Просит LLM исправить упавший запрос
+ * @param request - запрос, ошибка и предыдущие попытки
+ * @param signal - отмена запроса пользователя
+ * @returns Исправленный запрос и описание изменения
+ */
+export const requestSqlRepair = async (
+  request: SqlRepairRequest,
+  signal?: AbortSignal,
+): Promise<SqlRepairOutput> => {
+  const tables = collectRepairContext(request);
+  const allTables = (databaseKnowledge.getDatabaseDescription(request.service)?.tables || [])
+    .map(table => table.name)
+    .filter(name => accessControl.isTableAllowed(request.principal, request.service, name));
+  const previous = (request.previousAttempts || [])
+    .filter(attempt => attempt.sql)
+    .map(attempt => `${attempt.sql}\nFailed with: ${attempt.failure}`);
+
+  const userMessage = `Service: ${request.service}
+
+Failing query:
+${request.sql}
+
+PostgreSQL error:
+${request.error}
+
+Descriptions of the relevant tables:
+${JSON.stringify(tables.map(describeTable), null, 2)}
+
+All tables of the service: ${allTables.join(', ') || 'unknown'}${
+    previous.length > 0 ? `\n\nEarlier corrections that also failed:\n${previous.join('\n\n')}` : ''
+  }
+
+Please correct the query.`;
+
+  const response = await getChatModel('sql-repair').invoke(
+    [
+      { role: 'system', content: SQL_REPAIR_SYSTEM_PROMPT },
+      { role: 'user', content: userMessage },
+    ],
+    { signal },
+  );
+
+  if (typeof response.content !== 'string') {
+    throw new Error('LLM response content is not a string');
+  }
+
+  logDebug(`Raw SQL repair response: ${response.content}`);
+  const output = (await createOutputParser(sqlRepairSchema).parse(
+    response.content,
+  )) as SqlRepairOutput;
+  return { sql: output.sql.trim().replace(/;\s*$/, ''), explanation: output.explanation };
+};
+
+/**
+ * Параметры цикла исправления
+ */
+export interface SqlRepairLoop<T> extends SqlRepairRequest {
+  execute: (sql: string) => Promise<T>; // Выполняет исправленный запрос теми же средствами, что и исходный
+  signal?: AbortSignal;
+  trace?: SqlExecutionTrace; // Получает все попытки
+  onAttempt?: (attempt: SqlRepairAttempt) => void | Promise<void>;
+  maxAttempts?: number;
+}
+
+/**
+ * Записывает попытку в трассу и сообщает о ней; ошибка получателя не прерывает исправление
+ */
+export const reportRepairAttempt = async (
+  attempt: SqlRepairAttempt,
+  trace?: SqlExecutionTrace,
+  onAttempt?: (attempt: SqlRepairAttempt) => void | Promise<void>,
+): Promise<void> => {
+  if (trace) {
+    trace.repairs = [...(trace.repairs || []), attempt];
+  }
+  try {
+    await onAttempt?.(attempt);
+  } catch (error) {
+    logWarn(`SQL repair listener failed: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Исправляет упавший запрос через LLM: отправляет запрос, ошибку и описания таблиц, выполняет
+ * исправление и при новой ошибке повторяет, пока не кончатся попытки. Каждая попытка
+ * записывается в трассу и передается onAttempt
+ * @param loop - упавший запрос, способ его выполнить и получатели попыток
+ * @returns Результат исправленного запроса с его текстом или undefined, если исправить не удалось
+ * @throws Ошибку отмены, если запрос пользователя отменен
+ */
+export const repairSql = async <T>(
+  loop: SqlRepairLoop<T>,
+): Promise<{ result: T; sql: string; attempt: SqlRepairAttempt } | undefined> => {
+  const maxAttempts = loop.maxAttempts ?? DEFAULT_SQL_REPAIR_OPTIONS.maxAttempts;
+  if (maxAttempts <= 0 || !classifySqlError(loop.error)) {
+    return undefined;
+  }
+  if (!isLlmConfigured('sql-repair')) {
+    logDebug('LLM is not configured for the sql-repair stage, skipping SQL repair');
+    return undefined;
+  }
+
+  const attempts: SqlRepairAttempt[] = [];
+  let sql = loop.sql;
+  let error = loop.error;
+
+  for (let number = 1; number <= maxAttempts; number++) {
+    throwIfAborted(loop.signal);
+    const attempt: SqlRepairAttempt = { attempt: number, method: 'llm', error, succeeded: false };
+
+    try {
+      const repair = await requestSqlRepair(
+        { ...loop, sql, error, previousAttempts: attempts },
+        loop.signal,
+      );
+      attempt.sql = repair.sql;
+      attempt.explanation = repair.explanation;
+    } catch (repairError) {
+      if (isCancellationError(repairError) || loop.signal?.aborted) {
+        throw repairError;
+      }
+      attempt.failure = `SQL repair request failed: ${(repairError as Error).message}`;
+      await reportRepairAttempt(attempt, loop.trace, loop.onAttempt);
+      logWarn(attempt.failure);
+      return undefined;
+    }
+
+    if (attempt.sql === sql) {
+      attempt.failure = 'The LLM returned the query unchanged';
+      await reportRepairAttempt(attempt, loop.trace, loop.onAttempt);
+      logWarn(`SQL repair attempt ${number} on ${loop.service} returned the query unchanged`);
+      return undefined;
+    }
+
+    logInfo(`SQL repair attempt ${number} on ${loop.service}: ${attempt.sql}`);
+    try {
+      const result = await loop.execute(attempt.sql as string);
+      attempt.succeeded = true;
+      await reportRepairAttempt(attempt, loop.trace, loop.onAttempt);
+      logInfo(`SQL repair attempt ${number} on ${loop.service} succeeded: ${attempt.explanation}`);
+      return { result, sql: attempt.sql as string, attempt };
+    } catch (executionError) {
+      if (isCancellationError(executionError)) {
+        throw executionError;
+      }
+      attempt.failure = (executionError as Error).message;
+      attempts.push(attempt);
+      await reportRepairAttempt(attempt, loop.trace, loop.onAttempt);
+      logWarn(`SQL repair attempt ${number} on ${loop.service} failed: ${attempt.failure}`);
+
+      // Исправление, отклоненное политикой доступа или проверкой безопасности, не заменяет исходный запрос
+      const errorType = (executionError as { type?: ErrorType }).type;
+      if (errorType !== ErrorType.UNSAFE_QUERY && errorType !== ErrorType.ACCESS_DENIED) {
+        if (!classifySqlError(attempt.failure)) {
+          return undefined;
+        }
+        sql = attempt.sql as string;
+        error = attempt.failure;
+      }
+    }
+  }
+
+  return undefined;
+};
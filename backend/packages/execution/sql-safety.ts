@@ -0,0 +1,226 @@
+import { astVisitor, parse, Statement } from 'pgsql-ast-parser';
+import { ErrorType } from '@common/types';
+import { createTypedError } from '@common/utils';
+
+/**
+ * Statement types that are allowed at the top level of a generated query
+ */
+const ALLOWED_STATEMENT_TYPES = new Set([
+  'select',
+  'union',
+  'union all',
+  'values',
+  'with',
+  'with recursive',
+]);
+
+/**
+ * Functions that must never be called from generated SQL
+ */
+const DENIED_FUNCTIONS = new Set([
+  'set_config',
+  'setval',
+  'nextval',
+  'txid_current',
+  'pg_file_write',
+  'pg_file_rename',
+  'pg_file_unlink',
+  'pg_import_system_collations',
+]);
+
+/**
+ * Function name prefixes that must never be called from generated SQL:
+ * sleeping, access to other databases or the file system, large objects,
+ * server control and functions that execute nested SQL text
+ */
+const DENIED_FUNCTION_PREFIXES = [
+  'pg_sleep',
+  'dblink',
+  'lo_',
+  'pg_read_',
+  'pg_ls_',
+  'pg_stat_file',
+  'pg_advisory',
+  'pg_try_advisory',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_promote',
+  'pg_switch_wal',
+  'pg_create_',
+  'pg_drop_',
+  'pg_logical_',
+  'pg_replication_',
+  'query_to_xml',
+  'table_to_xml',
+  'cursor_to_xml',
+  'schema_to_xml',
+  'database_to_xml',
+];
+
+/**
+ * Result of the SQL safety check
+ */
+export interface SqlSafetyResult {
+  isValid: boolean;
+  error?: string;
+}
+
+/**
+ * Checks whether a function name is on the deny-list
+ * @param name - Function name without schema
+ * @returns Whether calling the function is forbidden
+ */
+const isDeniedFunction = (name: string): boolean => {
+  const lowerName = name.toLowerCase();
+  return (
+    DENIED_FUNCTIONS.has(lowerName) ||
+    DENIED_FUNCTION_PREFIXES.some(prefix => lowerName.startsWith(prefix))
+  );
+};
+
+/**
+ * Walks a parsed statement and collects everything that makes it unsafe
+ * @param statement - Parsed SQL statement
+ * @returns List of violations (empty when the statement is read-only)
+ */
+const collectViolations = (statement: Statement): string[] => {
+  const violations: string[] = [];
+
+  const visitor = astVisitor(v => ({
+    insert: (): void => {
+      violations.push('INSERT statements are not allowed');
+    },
+    update: (): void => {
+      violations.push('UPDATE statements are not allowed');
+    },
+    delete: (): void => {
+      violations.push('DELETE statements are not allowed');
+    },
+    selection: (select): void => {
+      if (select.for) {
+        violations.push(`Locking clause FOR ${select.for.type.toUpperCase()} is not allowed`);
+      }
+      v.super().selection(select);
+    },
+    call: (call): void => {
+      if (isDeniedFunction(call.function.name)) {
+        violations.push(`Function ${call.function.name}() is not allowed`);
+      }
+      v.super().call(call);
+    },
+  }));
+
+  visitor.statement(statement);
+  return violations;
+};
+
+/**
+ * Checks that SQL text is a single read-only SELECT/WITH statement
+ * @param sql - SQL query text
+ * @returns Check result with the reason of rejection
+ */
+export const validateReadOnlySql = (sql: string): SqlSafetyResult => {
+  let statements: Statement[];
+
+  try {
+    statements = parse(sql);
+  } catch (error) {
+    const reason = (error as Error).message.split('\n')[0];
+    return { isValid: false, error: `SQL could not be parsed: ${reason}` };
+  }
+
+  if (statements.length === 0) {
+    return { isValid: false, error: 'SQL query is empty' };
+  }
+
+  if (statements.length > 1) {
+    return {
+      isValid: false,
+      error: `Multiple statements are not allowed (found ${statements.length})`,
+    };
+  }
+
+  const [statement] = statements;
+
+  if (!ALLOWED_STATEMENT_TYPES.has(statement.type)) {
+    return {
+      isValid: false,
+      error: `Only SELECT and WITH queries are allowed, got ${statement.type.toUpperCase()}`,
+    };
+  }
+
+  const violations = collectViolations(statement);
+  if (violations.length > 0) {
+    return { isValid: false, error: violations.join('; ') };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Throws a typed error if SQL text is not a single read-only statement
+ * @param sql - SQL query text
+ * @param service - Service the query is addressed to (for the error message)
+ */
+export const assertReadOnlySql = (sql: string, service?: string): void => {
+  const result = validateReadOnlySql(sql);
+
+  if (!result.isValid) {
+    const target = service ? ` on ${service}` : '';
+    throw createTypedError(
+      ErrorType.UNSAFE_QUERY,
+      `Query rejected by SQL safety gate${target}: ${result.error}`,
+    );
+  }
+};
+
+/**
+ * Collects the names of the tables a read-only statement reads from.
+ * References to CTEs defined in the statement itself are skipped where the CTE is in scope;
+ * the body of a non-recursive CTE still reads the real table of the same name
+ * @param sql - SQL query text
+ * @returns Table names without schema, in order of first appearance
+ * @throws UNSAFE_QUERY error when the SQL cannot be parsed
+ */
+export const extractTableReferences = (sql: string): string[] => {
+  let statements: Statement[];
+
+  try {
+    statements = parse(sql);
+  } catch (error) {
+    const reason = (error as Error).message.split('\n')[0];
+    throw createTypedError(ErrorType.UNSAFE_QUERY, `SQL could not be parsed: ${reason}`);
+  }
+
+  const tables = new Set<string>();
+  // CTEs visible at the current point of the traversal, innermost last
+  const cteScope: string[] = [];
+
+  const visitor = astVisitor(v => ({
+    with: (statement): void => {
+      const depth = cteScope.length;
+      // A CTE is visible in the main statement and in the following CTEs, not in its own body
+      statement.bind.forEach(binding => {
+        v.statement(binding.statement);
+        cteScope.push(binding.alias.name);
+      });
+      v.statement(statement.in);
+      cteScope.length = depth;
+    },
+    withRecursive: (statement): void => {
+      cteScope.push(statement.alias.name);
+      v.super().withRecursive(statement);
+      cteScope.pop();
+    },
+    tableRef: (table): void => {
+      if (table.schema || !cteScope.includes(table.name)) {
+        tables.add(table.name);
+      }
+    },
+  }));
+
+  statements.forEach(statement => visitor.statement(statement));
+  return Array.from(tables);
+};
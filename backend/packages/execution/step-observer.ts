@@ -0,0 +1,83 @@
+import {
+  DatabaseService,
+  ErrorType,
+  ResultRowCount,
+  SqlExecutionTrace,
+  SqlRepairAttempt,
+} from '@common/types';
+import { logWarn } from '@common/logger';
+import { DistributedQueryPlan } from './distributed-query';
+
+/**
+ * Шаг плана, который начал выполнять исполнитель
+ */
+export interface ExecutedStep {
+  stepId: string;
+  stepNumber: number; // Порядковый номер в фактическом порядке выполнения
+  totalSteps: number;
+  service: DatabaseService;
+  description: string;
+  operation?: string; // Операция шага в памяти
+}
+
+/**
+ * Итог выполнения шага
+ */
+export interface StepOutcome extends ExecutedStep {
+  durationMs: number;
+  rowCount: number;
+  sql?: string; // Итоговый SQL с метками $1..$n (пакеты разделены пустой строкой)
+  parameterCount: number; // Число переданных bind-параметров
+  fixes: string[]; // Автоматические исправления текста запроса
+  statements?: SqlExecutionTrace[]; // SQL, фактически отправленный в сервис, по пакетам
+  truncated?: boolean; // Результат обрезан ограничением числа строк
+  totalRows?: number; // Сколько строк нашел запрос (если известно)
+  totalRowsEstimated?: boolean; // totalRows - оценка планировщика
+  error?: string;
+  errorType?: ErrorType;
+}
+
+/**
+ * Наблюдатель за выполнением шагов. Исполнитель вызывает его для каждого реально
+ * выполняемого шага, поэтому события несут фактические время, число строк и ошибки
+ */
+export interface StepExecutionObserver {
+  onPlanPrepared?(plan: DistributedQueryPlan): void | Promise<void>; // Распределенный план перед выполнением
+  onStepStarted?(step: ExecutedStep): void | Promise<void>;
+  onStepFinished?(outcome: StepOutcome): void | Promise<void>;
+  onRepairAttempt?(step: ExecutedStep, attempt: SqlRepairAttempt): void | Promise<void>; // Попытка исправить отклоненный базой SQL
+}
+
+/**
+ * Создает пустую трассу выполнения SQL для запроса
+ */
+export const createSqlTrace = (sql: string): SqlExecutionTrace => ({
+  sql,
+  fixes: [],
+  durationMs: 0,
+});
+
+/**
+ * Вызывает наблюдателя; его ошибки не должны прерывать выполнение плана
+ */
+export const notifyObserver = async (callback: () => void | Promise<void>): Promise<void> => {
+  try {
+    await callback();
+  } catch (error) {
+    logWarn(`Step execution observer failed: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Поля итога шага о числе строк и ограничении результата
+ */
+export const getRowCountFields = (
+  rowCount?: ResultRowCount,
+): Pick<StepOutcome, 'truncated' | 'totalRows' | 'totalRowsEstimated'> =>
+  rowCount
+    ? {
+        truncated: rowCount.truncated,
+        totalRows: rowCount.totalRows,
+        totalRowsEstimated: rowCount.totalRowsEstimated,
+      }
+    : {};
@@ -1,8 +1,11 @@
 import { z } from 'zod';
-import { PerceptionResult, DatabaseService } from '@common/types';
-import { getOpenAIModel, createOutputParser } from '@common/llm';
+import { PerceptionResult, DatabaseService, ConversationContext, Principal } from '@common/types';
+import { getChatModel, createOutputParser, isLlmConfigured } from '@common/llm';
 import { logDebug, logError, logInfo, logWarn } from '@common/logger';
-import { databaseKnowledge } from '@common/knowledge';
+import { throwIfAborted } from '@common/utils';
+import { databaseKnowledge, queryExampleLibrary } from '@common/knowledge';
+import { accessControl } from '@common/access-control';
+import { formatConversationForLLM, hasConversationHistory } from '@common/conversation';
 import { PERCEPTION_SYSTEM_PROMPT } from '../../data/prompts';
 
 /**
@@ -36,15 +39,23 @@ const perceptionSchema = z.object({
 type PerceptionOutput = z.infer<typeof perceptionSchema>;
 
 /**
- * Gets the system prompt with database descriptions
+ * Gets the system prompt with database descriptions and verified examples of similar questions
+ * @param query User input query
+ * @param context Previous turns of the conversation
+ * @param principal User whose access policy limits the described services, tables and examples
  * @returns Complete system prompt
  */
-const getSystemPrompt = (): string => {
+const getSystemPrompt = async (
+  query: string,
+  context?: ConversationContext | null,
+  principal?: Principal
+): Promise<string> => {
   let systemPrompt = PERCEPTION_SYSTEM_PROMPT;
+  const schemaFilter = accessControl.createSchemaFilter(principal);
   
   // Replace placeholder with database descriptions
   systemPrompt = systemPrompt.replace('DATABASE_DESCRIPTIONS_PLACEHOLDER', 
-    databaseKnowledge.isLoaded() ? databaseKnowledge.getDatabaseDescriptionsForLLM() : `
+    databaseKnowledge.isLoaded() ? databaseKnowledge.getDatabaseDescriptionsForLLM(schemaFilter) : `
     AVAILABLE DATABASE SERVICES:
     - "wallet": Contains information about user balances, deposits, withdrawals, transactions, bonuses
     - "bets-history": Contains information about user bets, games played, winnings, losses
@@ -61,40 +72,80 @@ const getSystemPrompt = (): string => {
     - "traffic": Contains traffic tracking and analysis data
     `);
   
-  return systemPrompt;
+  // Examples show which services answered similar questions
+  const examples = await queryExampleLibrary.getPromptSection({
+    question: query,
+    history: context?.turns.map(turn => turn.query),
+    filter: schemaFilter
+  }, false);
+  systemPrompt = systemPrompt.replace('QUERY_EXAMPLES_PLACEHOLDER', examples);
+  
+  return systemPrompt + accessControl.getRestrictionsForLLM(principal);
+};
+
+/**
+ * Removes services the user may not query from the perception result and reports them as denied
+ * @param result Perception result
+ * @param principal User whose access policy is applied
+ * @returns Perception result with only allowed services
+ */
+const applyAccessRestrictions = (result: PerceptionResult, principal?: Principal): PerceptionResult => {
+  const { allowed, denied } = accessControl.partitionServices(principal, result.requiredServices);
+  
+  if (denied.length === 0) {
+    return result;
+  }
+  
+  logWarn(`Access denied to services required by the query: ${denied.join(', ')}`);
+  return { ...result, requiredServices: allowed, deniedServices: denied };
 };
 
 /**
  * Analyzes a user query and returns structured perception result
  * @param query User input query
+ * @param context Previous turns of the conversation, if the query is a follow-up
+ * @param signal Aborts the LLM call when the query is cancelled
+ * @param principal User whose access policy restricts the services that may be chosen
  * @returns Perception result with query intent and metadata
  */
-export const analyzeQuery = async (query: string): Promise<PerceptionResult> => {
+export const analyzeQuery = async (
+  query: string,
+  context?: ConversationContext | null,
+  signal?: AbortSignal,
+  principal?: Principal
+): Promise<PerceptionResult> => {
   logInfo(`Analyzing query: "${query}"`);
   
+  if (hasConversationHistory(context)) {
+    logInfo(`Query is part of conversation ${context!.conversationId} with ${context!.turns.length} previous turns`);
+  }
+  
   try {
     // Create a parser with our schema
     const parser = createOutputParser(perceptionSchema);
     
-    // Check for OpenAI API key
-    if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY.startsWith('sk-your')) {
-      logWarn('OpenAI API key not set or invalid, using fallback implementation');
-      return getFallbackResponse(query);
+    // Check that the perception model can be used
+    if (!isLlmConfigured('perception')) {
+      logWarn('LLM provider for perception is not configured, using fallback implementation');
+      return applyAccessRestrictions(getFallbackResponse(query, context), principal);
     }
     
     // Get the model for the request
-    const model = getOpenAIModel();
+    const model = getChatModel('perception');
     
     // System message
     const systemMessage = {
       role: 'system',
-      content: getSystemPrompt()
+      content: await getSystemPrompt(query, context, principal)
     };
     
-    // User message
+    // User message (with conversation history for follow-up queries)
+    const conversationHistory = formatConversationForLLM(context);
     const userMessage = {
       role: 'user', 
-      content: `USER QUERY: ${query}`
+      content: conversationHistory
+        ? `${conversationHistory}\nUSER QUERY: ${query}`
+        : `USER QUERY: ${query}`
     };
     
     // Prepare messages for the model
@@ -103,7 +154,7 @@ export const analyzeQuery = async (query: string): Promise<PerceptionResult> =>
     logDebug('Prompt created, formatting with query');
     
     logDebug('Calling LLM for perception analysis');
-    const result = await model.invoke(messages);
+    const result = await model.invoke(messages, { signal });
     
     if (typeof result.content !== 'string') {
       logError('Unexpected LLM response format - not a string');
@@ -128,14 +179,17 @@ export const analyzeQuery = async (query: string): Promise<PerceptionResult> =>
       logInfo(`Enhanced required services: ${JSON.stringify(validatedServices)}`);
     }
     
-    return {
+    return applyAccessRestrictions({
       intent: parsed.intent,
       confidence: parsed.confidence,
       entities: parsed.entities,
       requiredServices: validatedServices,
       sqlQuery: parsed.sqlQuery
-    };
+    }, principal);
   } catch (error) {
+    // A cancelled query must stop, not continue with the fallback result
+    throwIfAborted(signal);
+    
     logError(`Error analyzing query: ${error instanceof Error ? error.message : String(error)}`);
     logError(`Stack trace: ${error instanceof Error && error.stack ? error.stack : 'No stack trace'}`);
     
@@ -294,9 +348,10 @@ const inferServicesFromQuery = (query: string): DatabaseService[] => {
 /**
  * Fallback response generator when OpenAI is not available
  * @param query User query
+ * @param context Previous turns of the conversation
  * @returns Fallback perception result
  */
-const getFallbackResponse = (query: string): PerceptionResult => {
+const getFallbackResponse = (query: string, context?: ConversationContext | null): PerceptionResult => {
   const queryLower = query.toLowerCase();
   let intent = 'unknown_intent';
   let confidence = 0.5;
@@ -338,6 +393,14 @@ const getFallbackResponse = (query: string): PerceptionResult => {
       confidence = 0.2; // Very low confidence
     }
   }
+  
+  // Уточняющий запрос без явных сервисов продолжает предыдущий ход диалога
+  if (requiredServices.length === 0 && context && hasConversationHistory(context)) {
+    const previousTurn = context.turns[context.turns.length - 1];
+    intent = previousTurn.perception.intent;
+    requiredServices = previousTurn.perception.requiredServices;
+    confidence = 0.4;
+  }
 
   logInfo(`Using fallback perception for query "${query}": intent=${intent}, confidence=${confidence}`);
   return {
@@ -1,11 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
-import { logDebug, logInfo } from '@common/logger';
-import { QueryPlan } from '@common/types';
+import { logDebug, logInfo, logWarn } from '@common/logger';
+import { DatabaseService, ErrorType, QueryPlan } from '@common/types';
+import { createTypedError } from '@common/utils';
+import { crossServiceKeys, databaseKnowledge } from '@common/knowledge';
 import { 
   DistributedQueryPlan, 
   QueryStepWithDependencies,
   InMemoryOperation
 } from '@execution/distributed-query';
+import { JoinParams } from '@execution/in-memory-engine';
+import {
+  findPlaceholders,
+  findPositionalPlaceholders,
+  normalizePlaceholders
+} from '@execution/parameter-binding';
 
 /**
  * Класс для построения распределенного плана запроса
@@ -15,7 +23,8 @@ export class DistributedPlanBuilder {
    * Преобразует стандартный план запроса в распределенный план
    */
   convertToDQL(plan: QueryPlan, userQuery: string): DistributedQueryPlan {
-    const { steps, requiredServices } = plan;
+    const { steps } = plan;
+    const requiredServices = [...plan.requiredServices];
     const distributedSteps: QueryStepWithDependencies[] = [];
     
     // Идентификаторы шагов для отслеживания
@@ -40,128 +49,75 @@ export class DistributedPlanBuilder {
       // Проверяем, есть ли параметры в SQL запросе
       const parameters: string[] = [];
       
-      // Проверяем на placeholder-ы вида "?"
-      if (step.sqlQuery.includes('?')) {
-        logInfo(`Query contains ? placeholders, adding userId parameter for step ${stepId}`);
-        parameters.push('userId');
-      }
-      
-      // Поиск именованных параметров в формате :param или ${param}
-      // с правильным контекстом для SQL - это должны быть отдельные токены
-      const namedParamRegex = /[:$]\{?(\w+)\}?(?=\s|[,);]|$)/g;
-      let match;
-      while ((match = namedParamRegex.exec(step.sqlQuery)) !== null) {
-        const paramName = match[1];
-        
-        // Проверка на ложные срабатывания
-        // Например, "createdAt::date" не должен считать "date" параметром
-        const prevChar = match.index > 0 ? step.sqlQuery[match.index - 1] : '';
-        // Пропускаем, если предыдущий символ ":", что указывает на приведение типов в PostgreSQL
-        if (prevChar === ':') {
-          logInfo(`Skipping false positive parameter ${paramName} at position ${match.index}, looks like type cast`);
-          continue;
-        }
-        
-        if (!parameters.includes(paramName)) {
-          logInfo(`Found named parameter ${paramName} in query, adding to step ${stepId}`);
-          parameters.push(paramName);
+      // Приводим метки к каноничному виду :param и собираем их имена;
+      // приведения типов (createdAt::date) и литералы меткой не считаются
+      const sqlQuery = normalizePlaceholders(this.namePositionalPlaceholders(stepId, step.service, step.sqlQuery));
+      for (const placeholder of findPlaceholders(sqlQuery)) {
+        if (!parameters.includes(placeholder.name)) {
+          logInfo(`Found named parameter ${placeholder.name} in query, adding to step ${stepId}`);
+          parameters.push(placeholder.name);
         }
       }
       
-      // Проверяем, содержит ли запрос подзапросы к другим сервисам
-      // Например: WHERE id = (SELECT userId FROM "Transaction" ...)
-      // Если да, то нужно создать зависимость от предыдущего шага
-      
-      // Список таблиц, которые могут использоваться в этом запросе
-      const potentialTableNames: string[] = [];
-      
-      // Извлекаем имена таблиц из запроса
-      const tableNameRegex = /FROM\s+"?([A-Za-z0-9_]+)"?/gi;
-      let tableMatch;
-      while ((tableMatch = tableNameRegex.exec(step.sqlQuery)) !== null) {
-        potentialTableNames.push(tableMatch[1]);
-      }
-      
-      // Проверяем, есть ли подзапросы и ссылки на таблицы из других сервисов
-      const subqueryRegex = /\(\s*SELECT\s+.+?\s+FROM\s+"?([A-Za-z0-9_]+)"?/gi;
-      while ((tableMatch = subqueryRegex.exec(step.sqlQuery)) !== null) {
-        const subqueryTable = tableMatch[1];
-        potentialTableNames.push(subqueryTable);
-      }
-      
       // Добавляем шаг в распределенный план
       distributedSteps.push({
         id: stepId,
         service: step.service,
         description: step.description,
-        sqlQuery: step.sqlQuery,
+        sqlQuery,
         parameters: parameters.length > 0 ? parameters : undefined,
         dependsOn: [],
         isInMemory: false
       });
     }
     
+    // Подзапросы к таблицам других сервисов выносим в отдельные шаги,
+    // связывая их с текущим шагом через реестр межсервисных ключей
+    for (let i = 0; i < distributedSteps.length; i++) {
+      const currentStep = distributedSteps[i];
+      if (currentStep.isInMemory) continue;
+      
+      const sourceSteps = this.extractCrossServiceSubqueries(currentStep, distributedSteps, requiredServices);
+      
+      for (const sourceStep of sourceSteps) {
+        // Вспомогательные шаги только поставляют ключи и не участвуют в объединении результатов
+        if (!distributedSteps.includes(sourceStep)) {
+          distributedSteps.splice(i, 0, sourceStep);
+          i++;
+        }
+      }
+    }
+    
     // Анализируем зависимости между шагами и устанавливаем их
     for (let i = 1; i < distributedSteps.length; i++) {
       const currentStep = distributedSteps[i];
       const previousSteps = distributedSteps.slice(0, i);
       
-      // Если текущий шаг имеет параметры, создаем зависимость от предыдущего
-      if (currentStep.parameters && currentStep.parameters.length > 0) {
-        const prevStepId = previousSteps[previousSteps.length - 1].id;
-        logInfo(`Step ${currentStep.id} has parameters: ${currentStep.parameters.join(', ')}, creating dependency on ${prevStepId}`);
-        currentStep.dependsOn.push(prevStepId);
-      }
-      
-      // Специальный случай: если второй шаг обращается к таблице Transaction, 
-      // а первый шаг работает с Transaction, создаем зависимость
-      if (i === 1 && 
-          currentStep.sqlQuery && 
-          currentStep.sqlQuery.includes("Transaction") &&
-          previousSteps[0].service === "wallet") {
-        logInfo(`Step ${currentStep.id} references Transaction table which is in wallet service. Creating dependency on step_1`);
-        
-        // Заменяем SQL запрос на использующий параметр из первого шага
-        if (currentStep.sqlQuery.includes("User") && 
-            currentStep.sqlQuery.includes("Transaction") && 
-            currentStep.service === "pam") {
-          logInfo(`Modifying step ${currentStep.id} to use userId parameter from step_1`);
-          
-          const currentQuery = currentStep.sqlQuery;
-          
-          // Пример SQL запроса:
-          // SELECT * FROM "User" WHERE id = (SELECT userId FROM "Transaction" WHERE "type" = 'DEPOSIT' AND "createdAt"::date = (CURRENT_DATE - INTERVAL '1 day') ORDER BY amount DESC LIMIT 1)
-          
-          // Изменяем запрос на:
-          // SELECT * FROM "User" WHERE id = $1
-          
-          // Используем более надежную стратегию замены запроса
-          let newQuery = "";
-          
-          if (currentQuery.includes("ORDER BY") && currentQuery.endsWith(")")) {
-            // Избегаем сохранения лишних скобок или ORDER BY из подзапроса
-            newQuery = "SELECT * FROM \"User\" WHERE id = $1";
-          } else {
-            newQuery = currentQuery.replace(
-              /WHERE\s+id\s*=\s*\(\s*SELECT\s+.+?\s+FROM\s+"?Transaction"?.+?\)/i,
-              'WHERE id = $1'
-            );
-          }
-          
-          logInfo(`Modified SQL query for ${currentStep.id}: ${newQuery}`);
-          
-          currentStep.sqlQuery = newQuery;
-          currentStep.parameters = ['userId'];
-          currentStep.dependsOn = ['step_1'];
-        }
+      // Если текущий шаг имеет параметры, создаем зависимость от шага, который их возвращает
+      if (currentStep.parameters && currentStep.parameters.length > 0 && currentStep.dependsOn.length === 0) {
+        const sourceStepId = this.findParameterSource(currentStep, previousSteps);
+        logInfo(`Step ${currentStep.id} has parameters: ${currentStep.parameters.join(', ')}, creating dependency on ${sourceStepId}`);
+        currentStep.dependsOn.push(sourceStepId);
       }
     }
     
     // Проверяем, нужны ли дополнительные шаги для объединения результатов
     let finalStepId: string;
     
-    // Если более одного шага, добавляем операции для обработки результатов
-    if (stepIds.length > 1) {
+    // Если план содержит локальный SQL, он объединяет результаты всех шагов во встроенной SQLite
+    if (plan.localSql) {
+      distributedSteps.push({
+        id: 'local_sql',
+        service: 'pam',
+        description: 'Combine step results with local SQL',
+        dependsOn: [...stepIds],
+        isInMemory: true,
+        operation: InMemoryOperation.SQL,
+        operationParams: { query: plan.localSql }
+      });
+      finalStepId = 'local_sql';
+    } else if (stepIds.length > 1) {
+      // Если более одного шага, добавляем операции для обработки результатов
       finalStepId = this.analyzeAndBuildAggregationSteps(
         distributedSteps,
         stepIds,
@@ -181,6 +137,291 @@ export class DistributedPlanBuilder {
     };
   }
   
+  /**
+   * Заменяет позиционные метки ? и $N на :column, если колонка, с которой сравнивается значение,
+   * есть в реестре межсервисных ключей для таблиц шага: значения ключа поставляет другой шаг
+   * @throws INVALID_QUERY, если колонка не является межсервисным ключом
+   */
+  private namePositionalPlaceholders(stepId: string, service: DatabaseService, sqlQuery: string): string {
+    const tables = this.extractTableNames(sqlQuery);
+    let result = sqlQuery;
+    
+    // С конца, чтобы замены не сдвигали позиции следующих меток
+    for (const placeholder of findPositionalPlaceholders(sqlQuery).reverse()) {
+      const isKey = tables.some(table => crossServiceKeys.findEntity(service, table, placeholder.column));
+      if (!isKey) {
+        throw createTypedError(
+          ErrorType.INVALID_QUERY,
+          `Step ${stepId} compares ${placeholder.column} with a positional placeholder, but ${placeholder.column} is not a cross-service key; use :${placeholder.column}`
+        );
+      }
+      
+      logInfo(`Naming positional placeholder in step ${stepId} after key column ${placeholder.column}`);
+      result = result.slice(0, placeholder.start) + `:${placeholder.column}` + result.slice(placeholder.end);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Заменяет условия вида column = (SELECT key FROM "OtherServiceTable" ...) на параметр :key,
+   * значения которого берутся из отдельного шага в сервисе, которому принадлежит таблица подзапроса.
+   * Связь колонок проверяется по реестру межсервисных ключей
+   * @returns шаги, поставляющие значения параметров (существующие или новые)
+   */
+  private extractCrossServiceSubqueries(
+    step: QueryStepWithDependencies,
+    steps: QueryStepWithDependencies[],
+    requiredServices: DatabaseService[]
+  ): QueryStepWithDependencies[] {
+    const sourceSteps: QueryStepWithDependencies[] = [];
+    
+    if (!step.sqlQuery) {
+      return sourceSteps;
+    }
+    
+    const outerTable = this.extractTableNames(step.sqlQuery)[0];
+    const conditionRegex = /((?:"?\w+"?\.)?"?(\w+)"?)\s*(=|IN)\s*\(\s*SELECT\s+(?:DISTINCT\s+)?(?:"?\w+"?\.)?"?(\w+)"?\s+FROM\s+"?(\w+)"?/gi;
+    let sqlQuery = step.sqlQuery;
+    let match;
+    
+    while ((match = conditionRegex.exec(sqlQuery)) !== null) {
+      const [condition, columnExpression, column, operator, sourceColumn, sourceTable] = match;
+      
+      if (this.belongsToService(step.service, sourceTable)) {
+        continue;
+      }
+      
+      const sourceService = this.findSourceService(sourceTable, sourceColumn, steps, requiredServices, step.service);
+      const entity = outerTable ? crossServiceKeys.findEntity(step.service, outerTable, column) : undefined;
+      const sourceEntity = sourceService
+        ? crossServiceKeys.findEntity(sourceService, sourceTable, sourceColumn)
+        : undefined;
+      
+      if (!sourceService || !entity || !sourceEntity || entity.name !== sourceEntity.name) {
+        logWarn(`Step ${step.id} references table ${sourceTable} from another service, but no cross-service key links ${step.service}.${outerTable}.${column} and ${sourceTable}.${sourceColumn}`);
+        continue;
+      }
+      
+      const openIndex = match.index + condition.lastIndexOf('(', condition.search(/SELECT/i));
+      const closeIndex = this.findClosingParenthesis(sqlQuery, openIndex);
+      
+      if (closeIndex === -1) {
+        logWarn(`Could not find the end of the subquery to ${sourceTable} in step ${step.id}`);
+        continue;
+      }
+      
+      const subquery = sqlQuery.slice(openIndex + 1, closeIndex).trim();
+      
+      // Используем существующий шаг с тем же запросом или создаем новый
+      let sourceStep = steps.find(candidate =>
+        candidate !== step &&
+        candidate.service === sourceService &&
+        candidate.sqlQuery &&
+        this.normalizeSql(candidate.sqlQuery) === this.normalizeSql(subquery)
+      );
+      
+      if (!sourceStep) {
+        sourceStep = {
+          id: `${step.id}_${entity.name}_${sourceSteps.length + 1}`,
+          service: sourceService,
+          description: `Fetch ${sourceColumn} (${entity.name}) from ${sourceTable} for step ${step.id}`,
+          sqlQuery: subquery,
+          dependsOn: [],
+          isInMemory: false
+        };
+        
+        if (!requiredServices.includes(sourceService)) {
+          requiredServices.push(sourceService);
+        }
+      }
+      
+      const replacement = operator.toUpperCase() === 'IN'
+        ? `${columnExpression} IN (:${sourceColumn})`
+        : `${columnExpression} = :${sourceColumn}`;
+      
+      sqlQuery = sqlQuery.slice(0, match.index) + replacement + sqlQuery.slice(closeIndex + 1);
+      conditionRegex.lastIndex = match.index + replacement.length;
+      
+      step.parameters = [...(step.parameters || []).filter(param => param !== sourceColumn), sourceColumn];
+      step.dependsOn.push(sourceStep.id);
+      step.crossServiceReferences = [
+        ...(step.crossServiceReferences || []),
+        { tableName: sourceTable, service: sourceService }
+      ];
+      sourceSteps.push(sourceStep);
+      
+      logInfo(`Moved subquery to ${sourceService}.${sourceTable} out of step ${step.id} into step ${sourceStep.id} (${entity.name}: ${column} = ${sourceColumn})`);
+    }
+    
+    step.sqlQuery = sqlQuery;
+    return sourceSteps;
+  }
+  
+  /**
+   * Находит предыдущий шаг, возвращающий значения параметров шага:
+   * предпочитается шаг, таблицы которого содержат ключ с именем параметра
+   */
+  private findParameterSource(
+    step: QueryStepWithDependencies,
+    previousSteps: QueryStepWithDependencies[]
+  ): string {
+    const parameters = step.parameters || [];
+    
+    for (let i = previousSteps.length - 1; i >= 0; i--) {
+      const candidate = previousSteps[i];
+      if (candidate.isInMemory || !candidate.sqlQuery) continue;
+      
+      const hasKey = this.extractTableNames(candidate.sqlQuery).some(table =>
+        crossServiceKeys.getKeysForTable(candidate.service, table).some(({ key }) =>
+          parameters.some(param => this.isSameName(param, key.column))
+        )
+      );
+      
+      if (hasKey) {
+        return candidate.id;
+      }
+    }
+    
+    return previousSteps[previousSteps.length - 1].id;
+  }
+  
+  /**
+   * Определяет параметры JOIN для двух шагов по реестру межсервисных ключей
+   * (если связь не найдена, соединяет по общему полю id)
+   */
+  private getJoinParameters(
+    steps: QueryStepWithDependencies[],
+    leftStepId: string,
+    rightStepId: string
+  ): JoinParams {
+    const left = this.getSourceTable(steps, leftStepId);
+    const right = this.getSourceTable(steps, rightStepId);
+    const link = left && right ? crossServiceKeys.findLink(left, right) : undefined;
+    
+    if (!link) {
+      return { type: 'inner', on: [{ left: 'id', right: 'id' }] };
+    }
+    
+    logDebug(`Joining ${leftStepId} and ${rightStepId} via ${link.entity}: ${link.source.column} = ${link.target.column}`);
+    
+    return { type: 'inner', on: [{ left: link.source.column, right: link.target.column }] };
+  }
+  
+  /**
+   * Возвращает основную таблицу, из которой получены данные шага
+   * (для шагов в памяти - таблицу первого шага, от которого они зависят)
+   */
+  private getSourceTable(
+    steps: QueryStepWithDependencies[],
+    stepId: string
+  ): { service: string; table: string } | undefined {
+    const step = steps.find(candidate => candidate.id === stepId);
+    
+    if (!step) {
+      return undefined;
+    }
+    
+    if (step.isInMemory) {
+      return step.dependsOn.length > 0 ? this.getSourceTable(steps, step.dependsOn[0]) : undefined;
+    }
+    
+    const table = step.sqlQuery ? this.extractTableNames(step.sqlQuery)[0] : undefined;
+    return table ? { service: step.service, table } : undefined;
+  }
+  
+  /**
+   * Находит сервис, которому принадлежит таблица подзапроса, среди сервисов реестра ключей.
+   * Если таблица с таким именем есть в нескольких сервисах, предпочитаются сервисы плана
+   */
+  private findSourceService(
+    table: string,
+    column: string,
+    steps: QueryStepWithDependencies[],
+    requiredServices: DatabaseService[],
+    excludedService: DatabaseService
+  ): DatabaseService | undefined {
+    const candidates = crossServiceKeys
+      .findKeysByTable(table, column)
+      .map(key => key.service as DatabaseService)
+      .filter(service => service !== excludedService);
+    
+    return candidates.find(service => steps.some(step => step.service === service)) ||
+      candidates.find(service => requiredServices.includes(service)) ||
+      candidates[0];
+  }
+  
+  /**
+   * Проверяет, есть ли таблица в базе данных сервиса
+   */
+  private belongsToService(service: DatabaseService, table: string): boolean {
+    const description = databaseKnowledge.getDatabaseDescription(service);
+    
+    if (description) {
+      return description.tables.some(candidate => this.isSameName(candidate.name, table));
+    }
+    
+    // Без описаний баз считаем таблицу чужой, только если реестр знает ее лишь в других сервисах
+    return crossServiceKeys.getKeysForTable(service, table).length > 0 ||
+      crossServiceKeys.findKeysByTable(table).length === 0;
+  }
+  
+  /**
+   * Извлекает имена таблиц из FROM и JOIN в порядке появления
+   */
+  private extractTableNames(sqlQuery: string): string[] {
+    const tables: string[] = [];
+    const tableRegex = /(?:FROM|JOIN)\s+"?([A-Za-z0-9_]+)"?/gi;
+    let match;
+    
+    while ((match = tableRegex.exec(sqlQuery)) !== null) {
+      if (!tables.includes(match[1])) {
+        tables.push(match[1]);
+      }
+    }
+    
+    return tables;
+  }
+  
+  /**
+   * Находит закрывающую скобку для открывающей скобки в указанной позиции
+   */
+  private findClosingParenthesis(sqlQuery: string, openIndex: number): number {
+    let depth = 0;
+    let inString = false;
+    
+    for (let i = openIndex; i < sqlQuery.length; i++) {
+      const char = sqlQuery[i];
+      
+      if (char === "'") {
+        inString = !inString;
+      } else if (!inString && char === '(') {
+        depth++;
+      } else if (!inString && char === ')') {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    
+    return -1;
+  }
+  
+  /**
+   * Приводит SQL к виду для сравнения запросов
+   */
+  private normalizeSql(sqlQuery: string): string {
+    return sqlQuery.replace(/\s+/g, ' ').replace(/;\s*$/, '').trim().toLowerCase();
+  }
+  
+  /**
+   * Сравнивает имена без учета регистра и кавычек
+   */
+  private isSameName(a: string, b: string): boolean {
+    return a.replace(/"/g, '').toLowerCase() === b.replace(/"/g, '').toLowerCase();
+  }
+  
   /**
    * Анализирует шаги и строит план агрегации результатов
    */
@@ -327,7 +568,7 @@ export class DistributedPlanBuilder {
       dependsOn: initialStepIds,
       isInMemory: true,
       operation: InMemoryOperation.AGGREGATE,
-      parameters: ['count', '*']
+      operationParams: { aggregates: [{ function: 'count', as: 'count' }] }
     });
     
     logInfo(`Added count aggregation step: ${aggregateStepId}`);
@@ -359,7 +600,7 @@ export class DistributedPlanBuilder {
           dependsOn: [stepId],
           isInMemory: true,
           operation: InMemoryOperation.AGGREGATE,
-          parameters: ['max', field]
+          operationParams: { aggregates: [{ function: 'max', field, as: 'max' }] }
         });
         
         maxStepIds.push(maxStepId);
@@ -377,7 +618,7 @@ export class DistributedPlanBuilder {
       dependsOn: maxStepIds,
       isInMemory: true,
       operation: InMemoryOperation.AGGREGATE,
-      parameters: ['max', 'max']
+      operationParams: { aggregates: [{ function: 'max', field: 'max', as: 'max' }] }
     });
     
     // Добавляем шаг для фильтрации оригинальных данных по максимальному значению
@@ -390,7 +631,14 @@ export class DistributedPlanBuilder {
       dependsOn: [...initialStepIds, globalMaxStepId],
       isInMemory: true,
       operation: InMemoryOperation.FILTER,
-      parameters: [potentialFields[0], '=', '${max}'] // Используем значение из шага глобального максимума
+      operationParams: {
+        // Используем значение из шага глобального максимума
+        conditions: [{
+          field: potentialFields[0],
+          operator: '=',
+          valueFrom: { stepId: globalMaxStepId, field: 'max' }
+        }]
+      }
     });
     
     logInfo(`Added max value filter step: ${filterStepId}`);
@@ -406,41 +654,25 @@ export class DistributedPlanBuilder {
     sortFields: string[],
     isDescending: boolean
   ): string {
-    // Объединяем результаты из всех шагов
-    const joinStepId = 'join_all';
+    // Объединяем результаты из всех шагов по ключам
+    const joinStepId = this.buildSimpleJoinAggregationSteps(steps, initialStepIds);
+    
+    // Создаем шаг для сортировки объединенных результатов по всем полям сразу
+    const sortDirection = isDescending ? 'desc' : 'asc';
+    const currentStepId = `sort_by_${sortFields[0]}`;
     
     steps.push({
-      id: joinStepId,
+      id: currentStepId,
       service: 'pam', // Не имеет значения для in-memory шага
-      description: 'Combine results from all services',
-      dependsOn: initialStepIds,
+      description: `Sort results by ${sortFields.join(', ')} ${sortDirection}`,
+      dependsOn: [joinStepId],
       isInMemory: true,
-      operation: InMemoryOperation.JOIN,
-      parameters: ['id'] // Предполагаем, что id - общее поле для всех таблиц
+      operation: InMemoryOperation.SORT,
+      operationParams: {
+        orderBy: sortFields.map(field => ({ field, direction: sortDirection }))
+      }
     });
     
-    // Создаем шаг для сортировки объединенных результатов
-    const sortDirection = isDescending ? 'desc' : 'asc';
-    let currentStepId = joinStepId;
-    
-    // Сортируем по каждому полю, если возможно
-    for (const field of sortFields) {
-      const sortStepId = `sort_by_${field}`;
-      
-      steps.push({
-        id: sortStepId,
-        service: 'pam', // Не имеет значения для in-memory шага
-        description: `Sort results by ${field} ${sortDirection}`,
-        dependsOn: [currentStepId],
-        isInMemory: true,
-        operation: InMemoryOperation.SORT,
-        parameters: [field, sortDirection]
-      });
-      
-      currentStepId = sortStepId;
-      logDebug(`Added sort step for field ${field}: ${sortStepId}`);
-    }
-    
     // Добавляем шаг для ограничения количества результатов
     const limitStepId = `limit_${sortFields[0]}`;
     
@@ -451,7 +683,7 @@ export class DistributedPlanBuilder {
       dependsOn: [currentStepId],
       isInMemory: true,
       operation: InMemoryOperation.LIMIT,
-      parameters: ['3']
+      operationParams: { limit: 3 }
     });
     
     logInfo(`Added sort and limit steps: ${limitStepId}`);
@@ -483,7 +715,7 @@ export class DistributedPlanBuilder {
         dependsOn: [currentStepId, initialStepIds[i]],
         isInMemory: true,
         operation: InMemoryOperation.JOIN,
-        parameters: ['id'] // Предполагаем, что id - общее поле для всех таблиц
+        operationParams: this.getJoinParameters(steps, currentStepId, initialStepIds[i])
       });
       
       currentStepId = joinStepId;
@@ -1,9 +1,13 @@
 import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
-import { QueryPlan, DatabaseService, PerceptionResult } from '@common/types';
-import { getOpenAIModel, createOutputParser } from '@common/llm';
-import { databaseKnowledge } from '@common/knowledge';
+import { QueryPlan, DatabaseService, PerceptionResult, ConversationContext, Principal } from '@common/types';
+import { getChatModel, createOutputParser } from '@common/llm';
+import { throwIfAborted } from '@common/utils';
+import { crossServiceKeys, databaseKnowledge, queryExampleLibrary, schemaRetriever, SchemaRetrievalQuery } from '@common/knowledge';
+import { accessControl } from '@common/access-control';
+import { logWarn } from '@common/logger';
+import { formatConversationForLLM } from '@common/conversation';
 import { PLANNING_SYSTEM_PROMPT } from '../../data/prompts';
 import { resolveConflictsInPlan } from '../conflict-resolution';
 
@@ -91,17 +95,29 @@ const queryPlanSchema = z.object({
       'traffic'
     ] as const)
   ).describe('Database services required to answer this query'),
+  localSql: z.string().optional().describe(
+    'Optional SQLite query that combines step results; step N is available as table "step_N"'
+  ),
 });
 
 type PlanningOutput = z.infer<typeof queryPlanSchema>;
 
-const getSystemPrompt = (): string => {
+const getSystemPrompt = async (
+  retrievalQuery: Omit<SchemaRetrievalQuery, 'filter'>,
+  principal?: Principal
+): Promise<string> => {
   const sqlGuidelines = loadSqlGuidelines();
+  const schemaFilter = accessControl.createSchemaFilter(principal);
   
   let basePrompt = PLANNING_SYSTEM_PROMPT;
   
+  // В промпт попадают описания таблиц, близких к вопросу, в пределах бюджета токенов
+  const databaseDescriptions = databaseKnowledge.isLoaded()
+    ? await schemaRetriever.buildPromptSection({ ...retrievalQuery, filter: schemaFilter })
+    : null;
+  
   basePrompt = basePrompt.replace('DATABASE_DESCRIPTIONS_PLACEHOLDER', 
-    databaseKnowledge.isLoaded() ? databaseKnowledge.getDetailedDatabaseDescriptionsForLLM() : `
+    databaseDescriptions ?? `
     Available database services:
     - wallet: Contains information about user balances, deposits, withdrawals, transactions, bonuses
     - bets-history: Contains information about user bets, games played, winnings, losses
@@ -118,31 +134,51 @@ const getSystemPrompt = (): string => {
     - traffic: Contains traffic tracking and analysis data
     `);
   
+  basePrompt = basePrompt.replace('CROSS_SERVICE_KEYS_PLACEHOLDER', crossServiceKeys.getDescriptionForLLM());
+  
   basePrompt = basePrompt.replace('SQL_GUIDELINES_PLACEHOLDER', sqlGuidelines);
   
-  return basePrompt;
+  // Одобренные примеры похожих вопросов с проверенными планами и SQL
+  const examples = await queryExampleLibrary.getPromptSection({
+    question: retrievalQuery.question,
+    entities: retrievalQuery.entities,
+    history: retrievalQuery.history,
+    filter: schemaFilter
+  });
+  basePrompt = basePrompt.replace('QUERY_EXAMPLES_PLACEHOLDER', examples);
+  
+  return basePrompt + accessControl.getRestrictionsForLLM(principal);
 };
 
 export const createQueryPlan = async (
   perceptionResult: PerceptionResult,
-  query: string
+  query: string,
+  context?: ConversationContext | null,
+  signal?: AbortSignal,
+  principal?: Principal
 ): Promise<QueryPlan> => {
-  const model = getOpenAIModel();
+  const model = getChatModel('planning');
   const parser = createOutputParser(queryPlanSchema);
   
   try {
     const { intent, entities, requiredServices } = perceptionResult;
     const entitiesStr = JSON.stringify(entities);
     const servicesStr = JSON.stringify(requiredServices);
+    const conversationHistory = formatConversationForLLM(context, true);
     
     const systemMessage = {
       role: 'system',
-      content: getSystemPrompt()
+      content: await getSystemPrompt({
+        question: query,
+        entities,
+        services: requiredServices,
+        history: context?.turns.map(turn => turn.query)
+      }, principal)
     };
     
     const userMessage = {
       role: 'user',
-      content: `User query: ${query}
+      content: `${conversationHistory ? `${conversationHistory}\n` : ''}User query: ${query}
 
 Intent analysis: ${intent}
 Required services from perception: ${servicesStr}
@@ -156,7 +192,7 @@ Please create a plan to answer this query.`
     
     const messages = [systemMessage, userMessage];
     
-    const response = await model.invoke(messages);
+    const response = await model.invoke(messages, { signal });
     
     if (typeof response.content !== 'string') {
       throw new Error('LLM response content is not a string');
@@ -169,7 +205,9 @@ Please create a plan to answer this query.`
     const validatedPlan = validatePlanAgainstSchema(result);
     
     // Проверяем план на конфликты таблиц и пытаемся их разрешить
+    throwIfAborted(signal);
     const conflictResolution = await resolveConflictsInPlan(validatedPlan, query);
+    throwIfAborted(signal);
     
     // Если были внесены изменения, логируем это
     if (conflictResolution.amended) {
@@ -177,21 +215,72 @@ Please create a plan to answer this query.`
         conflictResolution.conflicts.map((c: any) => c.tableName).join(', ')
       }`);
       
-      return conflictResolution.resolvedPlan;
+      // LLM разрешения конфликтов может не вернуть локальный SQL - сохраняем исходный
+      return applyAccessRestrictions({
+        ...conflictResolution.resolvedPlan,
+        localSql: conflictResolution.resolvedPlan.localSql || validatedPlan.localSql,
+      }, principal);
     }
     
-    return validatedPlan;
+    return applyAccessRestrictions(validatedPlan, principal);
   } catch (error) {
+    // Отмененный запрос не должен продолжаться с резервным планом
+    throwIfAborted(signal);
+    
     console.error('Error in planning module:', error);
     
-    return createFallbackPlan(perceptionResult, query);
+    return applyAccessRestrictions(createFallbackPlan(perceptionResult, query, principal), principal);
   }
 };
 
+/**
+ * Убирает из плана шаги, которые пользователь не может выполнить:
+ * шаги к запрещенным сервисам и шаги, читающие запрещенные таблицы.
+ * Исполнитель проверяет те же правила для итогового SQL каждого шага
+ */
+function applyAccessRestrictions(plan: QueryPlan, principal?: Principal): QueryPlan {
+  if (!principal) {
+    return plan;
+  }
+  
+  const steps: QueryPlan['steps'] = [];
+  const deniedSteps: NonNullable<QueryPlan['deniedSteps']> = [];
+  
+  for (const step of plan.steps) {
+    const tables = step.sqlQuery ? extractTableNames(step.sqlQuery) : [];
+    const check = accessControl.checkQuery(principal, step.service, tables);
+    
+    if (check.allowed) {
+      steps.push(step);
+    } else {
+      deniedSteps.push({ service: step.service, description: step.description, reason: check.reason as string });
+    }
+  }
+  
+  if (deniedSteps.length === 0) {
+    return plan;
+  }
+  
+  logWarn(`Removed ${deniedSteps.length} plan steps denied by the access policy`, deniedSteps);
+  
+  // Нумерация step_N сдвигается, поэтому локальный SQL исходного плана больше не применим
+  if (plan.localSql) {
+    logWarn('Local SQL is dropped because it refers to the steps of the original plan');
+  }
+  
+  return {
+    steps,
+    requiredServices: plan.requiredServices.filter(service => steps.some(step => step.service === service)),
+    localSql: undefined,
+    deniedSteps,
+  };
+}
+
 function validatePlanAgainstSchema(plan: PlanningOutput): QueryPlan {
   const validatedPlan: QueryPlan = {
     steps: [],
     requiredServices: plan.requiredServices as DatabaseService[],
+    localSql: plan.localSql || undefined,
   };
 
   for (const step of plan.steps) {
@@ -297,14 +386,16 @@ function calculateSimilarity(a: string, b: string): number {
   return matches / Math.max(a.length, b.length);
 }
 
-function createFallbackPlan(perceptionResult: PerceptionResult, _query: string): QueryPlan {
+function createFallbackPlan(perceptionResult: PerceptionResult, _query: string, principal?: Principal): QueryPlan {
   const knownTables = new Map<string, string[]>();
   
   if (databaseKnowledge.isLoaded()) {
     const allDatabases = databaseKnowledge.getAllDatabases();
     
     for (const db of allDatabases) {
-      knownTables.set(db.service, db.tables.map((t: any) => t.name));
+      knownTables.set(db.service, db.tables
+        .map((t: any) => t.name)
+        .filter((name: string) => accessControl.isTableAllowed(principal, db.service, name)));
     }
   }
   
@@ -0,0 +1,31 @@
+/**
+ * Script to generate data/database-descriptions.json from prisma/services/*.prisma
+ *
+ * Usage:
+ *   npm run knowledge:generate              - from Prisma schemas only
+ *   npm run knowledge:generate -- --introspect - also read information_schema of live databases
+ *
+ * Hand-written descriptions and examples already present in the output file are preserved.
+ */
+import path from 'path';
+import { databaseKnowledge } from '../packages/common/knowledge';
+
+const main = async (): Promise<void> => {
+  const introspect = process.argv.includes('--introspect');
+  const outputPath = path.join(process.cwd(), 'data', 'database-descriptions.json');
+
+  await databaseKnowledge.loadFromFile(outputPath);
+  await databaseKnowledge.updateFromPrisma({ introspect });
+  await databaseKnowledge.saveToFile(outputPath);
+
+  const databases = databaseKnowledge.getAllDatabases();
+  const tableCount = databases.reduce((count, db) => count + db.tables.length, 0);
+  console.log(`✅ Generated knowledge for ${databases.length} databases (${tableCount} tables): ${outputPath}`);
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Failed to generate database knowledge:', error);
+    process.exit(1);
+  });
@@ -10,7 +10,10 @@ export enum EventType {
   LOG = 'LOG',
   PROGRESS = 'PROGRESS',
   ERROR = 'ERROR',
-  SUBSCRIPTION_CONFIRMED = 'SUBSCRIPTION_CONFIRMED'
+  SUBSCRIPTION_CONFIRMED = 'SUBSCRIPTION_CONFIRMED',
+  QUERY_EVENT = 'QUERY_EVENT',
+  CANCEL_ACCEPTED = 'CANCEL_ACCEPTED',
+  HEARTBEAT = 'HEARTBEAT'
 }
 
 /**
@@ -20,6 +23,9 @@ export interface QueryRequest {
   query: string;
   language: string;
   queryId?: string; // Optional when sent from client, will be generated if not provided
+  conversationId?: string; // Optional, continues an existing conversation when provided
+  timeoutMs?: number; // Optional deadline of the query, capped by QUERY_TIMEOUT_MS
+  rerunOf?: string; // Optional, ID of the earlier query this one re-runs
 }
 
 /**
@@ -0,0 +1,123 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getAuditLog } from '../services/AuditLog';
+import { AuditQuery, AuditStatus } from '../types/audit';
+import { logError } from '@common/logger';
+import { safeJsonStringify } from '@common/utils';
+
+const AUDIT_STATUSES: AuditStatus[] = [
+  'completed',
+  'error',
+  'cancelled',
+  'access_denied',
+  'not_confident',
+];
+
+/**
+ * Parse a time parameter given as ms since epoch or as an ISO date
+ */
+const parseTime = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid time "${value}", expected ms since epoch or an ISO date`);
+  }
+  return time;
+};
+
+/**
+ * Controller for handling audit log API requests
+ */
+export class AuditController {
+  /**
+   * Search audit records by user, service, table, status and time range
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param params Query string parameters
+   */
+  static async search(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+  ): Promise<void> {
+    let query: AuditQuery;
+
+    try {
+      const status = params.get('status') || undefined;
+      if (status && !AUDIT_STATUSES.includes(status as AuditStatus)) {
+        throw new Error(`Invalid status "${status}", expected one of ${AUDIT_STATUSES.join(', ')}`);
+      }
+
+      query = {
+        user: params.get('user') || undefined,
+        service: params.get('service') || undefined,
+        table: params.get('table') || undefined,
+        status: status as AuditStatus | undefined,
+        from: parseTime(params.get('from')),
+        to: parseTime(params.get('to')),
+        limit: params.get('limit')
+          ? parseInt(params.get('limit') as string, 10) || undefined
+          : undefined,
+      };
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ error: (error as Error).message }));
+      return;
+    }
+
+    try {
+      const records = await getAuditLog().search(query);
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ records, count: records.length }));
+    } catch (error) {
+      logError(`Error searching audit log: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to search audit log',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Get the audit record of a query
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param queryId Query ID from URL
+   */
+  static async getRecord(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    queryId: string,
+  ): Promise<void> {
+    try {
+      const record = await getAuditLog().get(queryId);
+
+      if (!record) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Audit record not found', queryId }));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(record));
+    } catch (error) {
+      logError(`Error retrieving audit record: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to retrieve audit record',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+}
+
+export default AuditController;
@@ -0,0 +1,54 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getConversationStore } from '../services/ConversationStore';
+import { getQueryHistoryStore } from '../services/QueryHistoryStore';
+import { logError } from '@common/logger';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Controller for handling conversation related API requests
+ */
+export class ConversationController {
+  /**
+   * Get the history of a conversation started by the caller
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param conversationId Conversation ID from URL
+   * @param principal Authenticated caller
+   */
+  static async getConversation(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    conversationId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const conversationStore = getConversationStore();
+      const conversation = await conversationStore.getConversation(conversationId);
+
+      if (!(await getQueryHistoryStore().isConversationOwnedBy(conversation, principal?.id))) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Conversation not found', conversationId }));
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+
+      res.end(safeJsonStringify(conversation));
+    } catch (error) {
+      logError(`Error retrieving conversation: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to retrieve conversation',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+}
+
+export default ConversationController;
@@ -1,8 +1,14 @@
 import { IncomingMessage, ServerResponse } from 'http';
-import { getEventStore } from '../services/EventStore';
-import { logError } from '@common/logger';
+import { eventToLogEntry, getEventStore } from '../services/EventStore';
+import { EventType, QueryEvent } from '../types/events';
+import { logDebug, logError } from '@common/logger';
 import { safeJsonStringify } from '@common/utils';
 
+/**
+ * Interval of SSE comments that keep idle connections open through proxies
+ */
+const SSE_HEARTBEAT_MS = 15000;
+
 /**
  * Controller for handling events related API requests
  */
@@ -76,6 +82,76 @@ export class EventController {
       res.end(safeJsonStringify({ error: 'Failed to poll events', details: (error as Error).message }));
     }
   }
+  
+  /**
+   * Stream events of a query as Server-Sent Events.
+   * Every event is sent as a "query-event" message with its ID and as a "log" message for the log viewer.
+   * Events stored before the connection are replayed first; a reconnecting client only
+   * gets events after its Last-Event-ID. The stream closes after the COMPLETION event.
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param queryId Query ID
+   */
+  static async streamEvents(req: IncomingMessage, res: ServerResponse, queryId: string): Promise<void> {
+    const eventStore = getEventStore();
+    const lastEventId = req.headers['last-event-id'];
+    
+    let closed = false;
+    let unsubscribe: (() => Promise<void>) | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+    
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      if (unsubscribe) {
+        unsubscribe().catch(() => undefined);
+      }
+      res.end();
+      logDebug(`Event stream closed for query ${queryId}`);
+    };
+    
+    const send = (event: QueryEvent): void => {
+      if (closed) return;
+      res.write(`id: ${event.id}\nevent: query-event\ndata: ${safeJsonStringify(event)}\n\n`);
+      res.write(`event: log\ndata: ${safeJsonStringify(eventToLogEntry(event))}\n\n`);
+      
+      if (event.type === EventType.COMPLETION) {
+        close();
+      }
+    };
+    
+    try {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.write('retry: 3000\n\n');
+      req.on('close', close);
+      
+      const removeSubscription = await eventStore.subscribeWithReplay(
+        queryId,
+        send,
+        typeof lastEventId === 'string' ? lastEventId : undefined
+      );
+      
+      // The client may have disconnected or the replay may have contained the completion
+      if (closed) {
+        await removeSubscription();
+        return;
+      }
+      
+      unsubscribe = removeSubscription;
+      heartbeat = setInterval(() => {
+        res.write(': heartbeat\n\n');
+      }, SSE_HEARTBEAT_MS);
+    } catch (error) {
+      logError(`Error streaming events: ${(error as Error).message}`);
+      close();
+    }
+  }
 }
 
 export default EventController; 
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getQueryHistoryStore } from '../services/QueryHistoryStore';
+import { checkQueryRequest, startQueryPipeline } from '../services/QueryPipeline';
+import { readBody } from '../utils/http';
+import { QueryHistoryRecord } from '../types/history';
+import { logError } from '@common/logger';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Body of a re-run request; omitted fields are taken from the original query
+ */
+interface RerunRequest {
+  query?: string;
+  language?: string;
+  conversationId?: string; // Continue a conversation; by default the re-run starts a new one
+  timeoutMs?: number;
+}
+
+/**
+ * Get a history record if it belongs to the caller
+ */
+const getOwnRecord = async (
+  queryId: string,
+  principal?: Principal,
+): Promise<QueryHistoryRecord | undefined> => {
+  const record = await getQueryHistoryStore().get(queryId);
+  return record && record.entry.userId === principal?.id ? record : undefined;
+};
+
+/**
+ * Controller for handling query history API requests
+ */
+export class HistoryController {
+  /**
+   * List the past queries of the caller, newest first
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param params Query string parameters
+   * @param principal Authenticated caller
+   */
+  static async list(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const limit = parseInt(params.get('limit') || '', 10) || undefined;
+      const entries = await getQueryHistoryStore().list(principal?.id, limit);
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ entries, count: entries.length }));
+    } catch (error) {
+      logError(`Error retrieving query history: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to retrieve query history',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Get a past query with the events of its execution log and result
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param queryId Query ID from URL
+   * @param principal Authenticated caller
+   */
+  static async getRecord(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    queryId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const record = await getOwnRecord(queryId, principal);
+
+      if (!record) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Query not found in history', queryId }));
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify(record));
+    } catch (error) {
+      logError(`Error retrieving history record: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to retrieve history record',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Run a past query again, as asked or with an edited question.
+   * The new run goes through the whole pipeline with the caller's current permissions
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param queryId ID of the query to re-run
+   * @param principal Authenticated caller
+   */
+  static async rerun(
+    req: IncomingMessage,
+    res: ServerResponse,
+    queryId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<RerunRequest>(req, res);
+    if (!body) {
+      return;
+    }
+
+    try {
+      const record = await getOwnRecord(queryId, principal);
+
+      if (!record) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Query not found in history', queryId }));
+        return;
+      }
+
+      const rejection = await checkQueryRequest(body, principal);
+      if (rejection) {
+        res.writeHead(rejection.status, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: rejection.error }));
+        return;
+      }
+
+      const query = body.query?.trim() || record.entry.query;
+      const started = startQueryPipeline(
+        {
+          query,
+          language: body.language || record.entry.language,
+          conversationId: body.conversationId,
+          timeoutMs: body.timeoutMs,
+          rerunOf: queryId,
+        },
+        principal,
+      );
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ ...started, rerunOf: queryId, query }));
+    } catch (error) {
+      logError(`Error re-running query ${queryId}: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to re-run query',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+}
+
+export default HistoryController;
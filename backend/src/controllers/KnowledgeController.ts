@@ -0,0 +1,50 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { crossServiceKeys, databaseKnowledge, queryExampleLibrary } from '@common/knowledge';
+import { logError, logInfo } from '@common/logger';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Controller for handling database knowledge related API requests
+ */
+export class KnowledgeController {
+  /**
+   * Reload database knowledge (descriptions file, Prisma schemas, cross-service key registry
+   * and query example library)
+   * without restarting the server
+   * @param _req HTTP request
+   * @param res HTTP response
+   */
+  static async reload(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      await databaseKnowledge.reload();
+      await crossServiceKeys.reload();
+      crossServiceKeys.validateAgainstKnowledge();
+      const queryExamples = await queryExampleLibrary.reload();
+
+      const databases = databaseKnowledge.getAllDatabases();
+      const tableCount = databases.reduce((count, db) => count + db.tables.length, 0);
+      logInfo(`Database knowledge reloaded: ${databases.length} databases, ${tableCount} tables`);
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          databases: databases.length,
+          tables: tableCount,
+          crossServiceEntities: crossServiceKeys.getEntities().length,
+          queryExamples,
+        }),
+      );
+    } catch (error) {
+      logError(`Error reloading database knowledge: ${(error as Error).message}`);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: 'Failed to reload database knowledge',
+          details: (error as Error).message,
+        }),
+      );
+    }
+  }
+}
+
+export default KnowledgeController;
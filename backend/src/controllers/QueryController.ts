@@ -0,0 +1,119 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { getQueryRegistry } from '../services/QueryRegistry';
+import { getQueryHistoryStore } from '../services/QueryHistoryStore';
+import {
+  EXPORT_FORMATS,
+  generateExport,
+  loadQueryResult,
+  parseExportFormat,
+} from '../services/ResultExport';
+import { logError, logInfo } from '@common/logger';
+import { ErrorType, Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Controller for handling requests that manage running queries and export their results
+ */
+export class QueryController {
+  /**
+   * Cancel a running query started by the caller
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param queryId Query ID from URL
+   * @param principal Authenticated caller
+   */
+  static async cancelQuery(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    queryId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    // A query of another user is reported as not running
+    const cancelled =
+      (await getQueryHistoryStore().isOwnedBy(queryId, principal?.id)) &&
+      getQueryRegistry().cancel(queryId);
+
+    if (!cancelled) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ error: 'Query is not running', queryId }));
+      return;
+    }
+
+    // The pipeline stops asynchronously and reports a COMPLETION event with the cancelled status
+    res.writeHead(202, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ queryId, cancelled }));
+  }
+
+  /**
+   * Download the final result of a query or the result of one of its steps as CSV,
+   * JSON Lines or XLSX. The file is streamed, so large results are not held as one string
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param queryId Query ID from URL
+   * @param params Query string parameters: format (csv, jsonl, xlsx) and step
+   * @param principal Authenticated caller; only the user who ran the query can export it
+   */
+  static async exportResult(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    queryId: string,
+    params: URLSearchParams,
+    principal?: Principal,
+  ): Promise<void> {
+    let filename: string;
+    let chunks: AsyncGenerator<string | Buffer>;
+    let contentType: string;
+
+    try {
+      const format = parseExportFormat(params.get('format'));
+      const record = await getQueryHistoryStore().get(queryId);
+      const result =
+        record && record.entry.userId === principal?.id
+          ? await loadQueryResult(queryId, params.get('step') || undefined)
+          : undefined;
+
+      if (!result) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Query result not found or expired', queryId }));
+        return;
+      }
+
+      const { extension } = EXPORT_FORMATS[format];
+      filename = `query-${queryId}-${result.step}.${extension}`.replace(/[^\w.-]+/g, '_');
+      contentType = EXPORT_FORMATS[format].contentType;
+      chunks = generateExport(format, result.rows, result.step);
+      logInfo(`Exporting ${result.rows.length} rows of ${queryId}/${result.step} as ${format}`);
+    } catch (error) {
+      const invalid = (error as { type?: ErrorType }).type === ErrorType.INVALID_QUERY;
+      if (!invalid) {
+        logError(`Error exporting query result: ${(error as Error).message}`);
+      }
+      res.writeHead(invalid ? 400 : 500, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify(
+          invalid
+            ? { error: (error as Error).message }
+            : { error: 'Failed to export query result', details: (error as Error).message },
+        ),
+      );
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    });
+
+    try {
+      // pipeline ждет, пока клиент заберет данные, и останавливает генерацию при обрыве соединения
+      await pipeline(Readable.from(chunks), res);
+    } catch (error) {
+      logError(`Export of query ${queryId} was interrupted: ${(error as Error).message}`);
+    }
+  }
+}
+
+export default QueryController;
@@ -0,0 +1,349 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getAuditLog } from '../services/AuditLog';
+import { readBody } from '../utils/http';
+import { accessControl } from '@common/access-control';
+import {
+  isQueryExampleAllowed,
+  QueryExampleInput,
+  queryExampleLibrary,
+  QueryExampleStatus,
+} from '@common/knowledge';
+import { logError } from '@common/logger';
+import { ErrorType, Principal, QueryPlan } from '@common/types';
+import { createTypedError, safeJsonStringify } from '@common/utils';
+
+const STATUSES: QueryExampleStatus[] = ['draft', 'approved'];
+
+/**
+ * Body of a request that promotes a past run into the library
+ */
+interface PromoteRunRequest extends Omit<QueryExampleInput, 'plan' | 'sourceQueryId'> {
+  queryId?: string;
+}
+
+/**
+ * Answer with an error: 400 for an invalid example, 500 otherwise
+ */
+const sendError = (res: ServerResponse, message: string, error: unknown): void => {
+  if ((error as { type?: ErrorType }).type === ErrorType.INVALID_QUERY) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: (error as Error).message }));
+    return;
+  }
+
+  logError(`${message}: ${(error as Error).message}`);
+  res.writeHead(500, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: message, details: (error as Error).message }));
+};
+
+/**
+ * Answer 404 for a missing example
+ */
+const sendNotFound = (res: ServerResponse, exampleId: string): void => {
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: 'Example not found', exampleId }));
+};
+
+/**
+ * Get the question and plan of a past run that may become an example.
+ * The run must belong to the caller, unless they may read the audit log,
+ * and must have completed with every planned step and without errors
+ * @param queryId Query ID of the run
+ * @param principal Caller
+ * @throws INVALID_QUERY error when the run cannot be promoted
+ */
+const getPromotableRun = async (
+  queryId: string | undefined,
+  principal?: Principal,
+): Promise<{ question: string; plan: QueryPlan }> => {
+  if (!queryId) {
+    throw createTypedError(ErrorType.INVALID_QUERY, 'queryId is required');
+  }
+
+  const record = await getAuditLog().get(queryId);
+  const isOwnRun =
+    !principal ||
+    record?.user?.id === principal.id ||
+    accessControl.hasPermission(principal, 'audit');
+  if (!record || !isOwnRun) {
+    throw createTypedError(ErrorType.INVALID_QUERY, `Query ${queryId} is not among your past runs`);
+  }
+  if (record.status !== 'completed' || record.steps.some(step => step.error)) {
+    throw createTypedError(
+      ErrorType.INVALID_QUERY,
+      `Query ${queryId} did not complete without errors`,
+    );
+  }
+  if (!record.plan || record.plan.deniedSteps?.length) {
+    throw createTypedError(
+      ErrorType.INVALID_QUERY,
+      `Query ${queryId} has no complete plan to use as an example`,
+    );
+  }
+
+  return { question: record.query, plan: { ...record.plan, deniedSteps: undefined } };
+};
+
+/**
+ * Controller for handling query example library API requests
+ */
+export class QueryExampleController {
+  /**
+   * List the examples the caller may read
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param params Query parameters: status
+   * @param principal Authenticated caller
+   */
+  static async list(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+    principal?: Principal,
+  ): Promise<void> {
+    const status = params.get('status') || undefined;
+    if (status && !STATUSES.includes(status as QueryExampleStatus)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: `Invalid status "${status}", expected one of ${STATUSES.join(', ')}`,
+        }),
+      );
+      return;
+    }
+
+    try {
+      const examples = await queryExampleLibrary.list(
+        status as QueryExampleStatus | undefined,
+        accessControl.createSchemaFilter(principal),
+      );
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ examples, count: examples.length }));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve examples', error);
+    }
+  }
+
+  /**
+   * Find the examples closest to a question, as they would be chosen for the prompts
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param params Query parameters: question, limit, drafts (also search unapproved examples)
+   * @param principal Authenticated caller
+   */
+  static async search(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+    principal?: Principal,
+  ): Promise<void> {
+    const question = params.get('question');
+    if (!question) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ error: 'question is required' }));
+      return;
+    }
+
+    try {
+      const limit = params.get('limit');
+      const matches = await queryExampleLibrary.search(
+        {
+          question,
+          filter: accessControl.createSchemaFilter(principal),
+          includeDrafts: params.get('drafts') === 'true',
+        },
+        limit ? parseInt(limit, 10) : undefined,
+      );
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ matches, count: matches.length }));
+    } catch (error) {
+      sendError(res, 'Failed to search examples', error);
+    }
+  }
+
+  /**
+   * Get an example with its previous versions
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param exampleId Example ID from URL
+   * @param principal Authenticated caller
+   */
+  static async getExample(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    exampleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const example = await queryExampleLibrary.get(exampleId);
+
+      // An example that reads tables the caller may not query is not disclosed
+      if (
+        !example ||
+        !isQueryExampleAllowed(example, accessControl.createSchemaFilter(principal))
+      ) {
+        sendNotFound(res, exampleId);
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify(example));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve example', error);
+    }
+  }
+
+  /**
+   * Add an example; it is used in the prompts once approved
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param principal Authenticated caller
+   */
+  static async create(
+    req: IncomingMessage,
+    res: ServerResponse,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<QueryExampleInput>(req, res);
+    if (!body) return;
+
+    try {
+      const example = await queryExampleLibrary.create(body, principal);
+
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(example));
+    } catch (error) {
+      sendError(res, 'Failed to add example', error);
+    }
+  }
+
+  /**
+   * Add a successful past run to the library: its question and plan become a new example
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param principal Authenticated caller
+   */
+  static async promote(
+    req: IncomingMessage,
+    res: ServerResponse,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<PromoteRunRequest>(req, res);
+    if (!body) return;
+
+    try {
+      const { queryId, ...input } = body;
+      const run = await getPromotableRun(queryId, principal);
+      const example = await queryExampleLibrary.create(
+        {
+          ...input,
+          question: input.question || run.question,
+          plan: run.plan,
+          sourceQueryId: queryId,
+        },
+        principal,
+      );
+
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(example));
+    } catch (error) {
+      sendError(res, 'Failed to promote query to an example', error);
+    }
+  }
+
+  /**
+   * Change an example; the change becomes a new version that needs approval again
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param exampleId Example ID from URL
+   * @param principal Authenticated caller
+   */
+  static async update(
+    req: IncomingMessage,
+    res: ServerResponse,
+    exampleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<QueryExampleInput>(req, res);
+    if (!body) return;
+
+    try {
+      const example = await queryExampleLibrary.update(exampleId, body, principal);
+
+      if (!example) {
+        sendNotFound(res, exampleId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(example));
+    } catch (error) {
+      sendError(res, 'Failed to update example', error);
+    }
+  }
+
+  /**
+   * Approve the current version of an example
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param exampleId Example ID from URL
+   * @param principal Authenticated caller
+   */
+  static async approve(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    exampleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const example = await queryExampleLibrary.approve(exampleId, principal);
+
+      if (!example) {
+        sendNotFound(res, exampleId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(example));
+    } catch (error) {
+      sendError(res, 'Failed to approve example', error);
+    }
+  }
+
+  /**
+   * Delete an example
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param exampleId Example ID from URL
+   */
+  static async delete(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    exampleId: string,
+  ): Promise<void> {
+    try {
+      if (!(await queryExampleLibrary.delete(exampleId))) {
+        sendNotFound(res, exampleId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ success: true, exampleId }));
+    } catch (error) {
+      sendError(res, 'Failed to delete example', error);
+    }
+  }
+}
+
+export default QueryExampleController;
@@ -0,0 +1,229 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getReportStore } from '../services/ReportStore';
+import { runReport } from '../services/ReportRunner';
+import { readBody } from '../utils/http';
+import { ReportInput } from '../types/reports';
+import { logError } from '@common/logger';
+import { ErrorType, Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Body of a report run request
+ */
+interface RunReportRequest {
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Check whether an error is a validation error of a report or its values
+ */
+const isInvalidInput = (error: unknown): boolean =>
+  (error as { type?: ErrorType }).type === ErrorType.INVALID_QUERY;
+
+/**
+ * Answer with an error: 400 for invalid input, 403 for a report of another user, 500 otherwise
+ */
+const sendError = (res: ServerResponse, message: string, error: unknown): void => {
+  if (isInvalidInput(error)) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: (error as Error).message }));
+    return;
+  }
+  if ((error as { type?: ErrorType }).type === ErrorType.ACCESS_DENIED) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: (error as Error).message }));
+    return;
+  }
+
+  logError(`${message}: ${(error as Error).message}`);
+  res.writeHead(500, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: message, details: (error as Error).message }));
+};
+
+/**
+ * Answer 404 for a missing report
+ */
+const sendNotFound = (res: ServerResponse, reportId: string): void => {
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: 'Report not found', reportId }));
+};
+
+/**
+ * Controller for handling saved report API requests
+ */
+export class ReportController {
+  /**
+   * List saved reports
+   * @param _req HTTP request
+   * @param res HTTP response
+   */
+  static async list(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const reports = await getReportStore().list();
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ reports, count: reports.length }));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve reports', error);
+    }
+  }
+
+  /**
+   * Get a saved report
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param reportId Report ID from URL
+   */
+  static async getReport(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    reportId: string,
+  ): Promise<void> {
+    try {
+      const report = await getReportStore().get(reportId);
+
+      if (!report) {
+        sendNotFound(res, reportId);
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify(report));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve report', error);
+    }
+  }
+
+  /**
+   * Save a report from a plan or a successful past run of the caller
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param principal Authenticated caller
+   */
+  static async create(
+    req: IncomingMessage,
+    res: ServerResponse,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<ReportInput>(req, res);
+    if (!body) return;
+
+    try {
+      const report = await getReportStore().create(body, principal);
+
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(report));
+    } catch (error) {
+      sendError(res, 'Failed to save report', error);
+    }
+  }
+
+  /**
+   * Update a saved report
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param reportId Report ID from URL
+   * @param principal Authenticated caller
+   */
+  static async update(
+    req: IncomingMessage,
+    res: ServerResponse,
+    reportId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<ReportInput>(req, res);
+    if (!body) return;
+
+    try {
+      const report = await getReportStore().update(reportId, body, principal);
+
+      if (!report) {
+        sendNotFound(res, reportId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(report));
+    } catch (error) {
+      sendError(res, 'Failed to update report', error);
+    }
+  }
+
+  /**
+   * Delete a saved report
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param reportId Report ID from URL
+   * @param principal Authenticated caller
+   */
+  static async delete(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    reportId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      if (!(await getReportStore().delete(reportId, principal))) {
+        sendNotFound(res, reportId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ success: true, reportId }));
+    } catch (error) {
+      sendError(res, 'Failed to delete report', error);
+    }
+  }
+
+  /**
+   * Run a saved report with the given parameter values.
+   * The stored plan is executed directly, so the run needs no LLM and returns the rows when done;
+   * access to services and tables is checked for the caller as in the pipeline
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param reportId Report ID from URL
+   * @param principal Authenticated caller
+   */
+  static async run(
+    req: IncomingMessage,
+    res: ServerResponse,
+    reportId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<RunReportRequest>(req, res);
+    if (!body) return;
+
+    // Клиент отключился - выполнение отчета больше не нужно
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort('client disconnected');
+    });
+
+    try {
+      const report = await getReportStore().get(reportId);
+
+      if (!report) {
+        sendNotFound(res, reportId);
+        return;
+      }
+
+      const result = await runReport(report, body.parameters, {
+        principal,
+        signal: controller.signal,
+      });
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(result));
+    } catch (error) {
+      sendError(res, 'Failed to run report', error);
+    }
+  }
+}
+
+export default ReportController;
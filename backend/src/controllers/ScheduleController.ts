@@ -0,0 +1,251 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { getReportScheduler } from '../services/ReportScheduler';
+import { readBody } from '../utils/http';
+import { ScheduleInput, ScheduleRunStatus } from '../types/schedules';
+import { logError } from '@common/logger';
+import { ErrorType, Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+const RUN_STATUSES: ScheduleRunStatus[] = ['running', 'retrying', 'succeeded', 'failed'];
+
+/**
+ * Answer with an error: 400 for an invalid schedule, 500 otherwise
+ */
+const sendError = (res: ServerResponse, message: string, error: unknown): void => {
+  if ((error as { type?: ErrorType }).type === ErrorType.INVALID_QUERY) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: (error as Error).message }));
+    return;
+  }
+
+  logError(`${message}: ${(error as Error).message}`);
+  res.writeHead(500, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: message, details: (error as Error).message }));
+};
+
+/**
+ * Answer 404 for a missing schedule
+ */
+const sendNotFound = (res: ServerResponse, scheduleId: string): void => {
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(safeJsonStringify({ error: 'Schedule not found', scheduleId }));
+};
+
+/**
+ * Controller for handling report schedule API requests
+ */
+export class ScheduleController {
+  /**
+   * List the report schedules of the caller
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param principal Authenticated caller
+   */
+  static async list(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const schedules = await getReportScheduler().list(principal);
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ schedules, count: schedules.length }));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve schedules', error);
+    }
+  }
+
+  /**
+   * Get a report schedule of the caller
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param scheduleId Schedule ID from URL
+   * @param principal Authenticated caller
+   */
+  static async getSchedule(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    scheduleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const schedule = await getReportScheduler().get(scheduleId, principal);
+
+      if (!schedule) {
+        sendNotFound(res, scheduleId);
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify(schedule));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve schedule', error);
+    }
+  }
+
+  /**
+   * Schedule a saved report
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param principal Authenticated caller; scheduled runs use their access rights
+   */
+  static async create(
+    req: IncomingMessage,
+    res: ServerResponse,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<ScheduleInput>(req, res);
+    if (!body) return;
+
+    try {
+      const schedule = await getReportScheduler().create(body, principal);
+
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(schedule));
+    } catch (error) {
+      sendError(res, 'Failed to create schedule', error);
+    }
+  }
+
+  /**
+   * Update a report schedule of the caller
+   * @param req HTTP request
+   * @param res HTTP response
+   * @param scheduleId Schedule ID from URL
+   * @param principal Authenticated caller
+   */
+  static async update(
+    req: IncomingMessage,
+    res: ServerResponse,
+    scheduleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const body = await readBody<ScheduleInput>(req, res);
+    if (!body) return;
+
+    try {
+      const schedule = await getReportScheduler().update(scheduleId, body, principal);
+
+      if (!schedule) {
+        sendNotFound(res, scheduleId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(schedule));
+    } catch (error) {
+      sendError(res, 'Failed to update schedule', error);
+    }
+  }
+
+  /**
+   * Delete a report schedule of the caller with its run history
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param scheduleId Schedule ID from URL
+   * @param principal Authenticated caller
+   */
+  static async delete(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    scheduleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      if (!(await getReportScheduler().delete(scheduleId, principal))) {
+        sendNotFound(res, scheduleId);
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ success: true, scheduleId }));
+    } catch (error) {
+      sendError(res, 'Failed to delete schedule', error);
+    }
+  }
+
+  /**
+   * Run a schedule of the caller now; the run continues in the background
+   * and shows up in the run history
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param scheduleId Schedule ID from URL
+   * @param principal Authenticated caller
+   */
+  static async trigger(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    scheduleId: string,
+    principal?: Principal,
+  ): Promise<void> {
+    try {
+      const run = await getReportScheduler().trigger(scheduleId, principal);
+
+      if (!run) {
+        sendNotFound(res, scheduleId);
+        return;
+      }
+
+      res.writeHead(202, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify(run));
+    } catch (error) {
+      sendError(res, 'Failed to start scheduled run', error);
+    }
+  }
+
+  /**
+   * Search the run history of the caller's schedules, newest first
+   * @param _req HTTP request
+   * @param res HTTP response
+   * @param params Query string parameters (scheduleId, reportId, status, limit)
+   * @param scheduleId Schedule ID from URL, when the runs of one schedule are requested
+   * @param principal Authenticated caller
+   */
+  static async listRuns(
+    _req: IncomingMessage,
+    res: ServerResponse,
+    params: URLSearchParams,
+    scheduleId?: string,
+    principal?: Principal,
+  ): Promise<void> {
+    const status = params.get('status') || undefined;
+    if (status && !RUN_STATUSES.includes(status as ScheduleRunStatus)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: `Invalid status "${status}", expected one of ${RUN_STATUSES.join(', ')}`,
+        }),
+      );
+      return;
+    }
+
+    try {
+      const runs = await getReportScheduler().listRuns(
+        {
+          scheduleId: scheduleId || params.get('scheduleId') || undefined,
+          reportId: params.get('reportId') || undefined,
+          status: status as ScheduleRunStatus | undefined,
+          limit: parseInt(params.get('limit') || '', 10) || undefined,
+        },
+        principal,
+      );
+
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      });
+      res.end(safeJsonStringify({ runs, count: runs.length }));
+    } catch (error) {
+      sendError(res, 'Failed to retrieve scheduled runs', error);
+    }
+  }
+}
+
+export default ScheduleController;
@@ -4,6 +4,10 @@ import { setupDatabaseConnections } from '@execution/database';
 import { initialize, shutdown } from '@common/initialize';
 import { logInfo, logError } from '@common/logger';
 import { initializeEventStore } from './services/EventStore';
+import { initializeConversationStore, shutdownConversationStore } from './services/ConversationStore';
+import { initializeQueryHistoryStore, shutdownQueryHistoryStore } from './services/QueryHistoryStore';
+import { shutdownWebSocketGateway } from './services/WebSocketGateway';
+import { startReportScheduler, stopReportScheduler } from './services/ReportScheduler';
 
 // Load environment variables
 dotenv.config();
@@ -15,6 +19,12 @@ const main = async () => {
     // Инициализация EventStore (Redis)
     await initializeEventStore();
     
+    // Инициализация хранилища диалогов
+    await initializeConversationStore();
+    
+    // Инициализация истории запросов
+    await initializeQueryHistoryStore();
+    
     // Инициализация компонентов (включая загрузку данных о БД)
     await initialize();
     
@@ -25,12 +35,19 @@ const main = async () => {
     await startServer(PORT);
     logInfo(`Server running on port ${PORT}`);
     
+    // Запуск планировщика отчетов
+    startReportScheduler();
+    
     // Регистрация обработчиков для корректного завершения работы
     const handleShutdown = async () => {
       logInfo('Shutting down server...');
       
       try {
+        await stopReportScheduler();
+        await shutdownWebSocketGateway();
         await shutdown();
+        await shutdownConversationStore();
+        await shutdownQueryHistoryStore();
         logInfo('Server shutdown complete.');
         process.exit(0);
       } catch (error) {
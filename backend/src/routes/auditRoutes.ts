@@ -0,0 +1,56 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import AuditController from '../controllers/AuditController';
+import { accessControl } from '@common/access-control';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle audit log routes; they require the audit permission
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleAuditRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  if (req.method !== 'GET' || (path !== '/api/audit' && !path.startsWith('/api/audit/'))) {
+    return false;
+  }
+
+  if (!accessControl.hasPermission(principal, 'audit')) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(
+      safeJsonStringify({
+        error: `Access denied: user ${principal?.id} may not read the audit log`,
+      }),
+    );
+    return true;
+  }
+
+  // Search audit records
+  // GET /api/audit?user=&service=&table=&status=&from=&to=&limit=
+  if (path === '/api/audit') {
+    await AuditController.search(req, res, urlObj.searchParams);
+    return true;
+  }
+
+  // Get the audit record of a query
+  // GET /api/audit/:queryId
+  const recordParams = extractParams(path, '/api/audit/:queryId');
+  if (recordParams) {
+    await AuditController.getRecord(req, res, recordParams.queryId);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleAuditRoutes };
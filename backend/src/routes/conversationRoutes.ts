@@ -0,0 +1,38 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import ConversationController from '../controllers/ConversationController';
+import { Principal } from '@common/types';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle conversation-related routes
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleConversationRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  // Get the history of a conversation
+  // GET /api/conversations/:conversationId
+  const conversationParams = extractParams(path, '/api/conversations/:conversationId');
+  if (req.method === 'GET' && conversationParams) {
+    await ConversationController.getConversation(
+      req,
+      res,
+      conversationParams.conversationId,
+      principal,
+    );
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleConversationRoutes };
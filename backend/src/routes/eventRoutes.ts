@@ -1,5 +1,7 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import EventController from '../controllers/EventController';
+import { getQueryHistoryStore } from '../services/QueryHistoryStore';
+import { Principal } from '@common/types';
 import { safeJsonStringify } from '@common/utils';
 
 /**
@@ -8,7 +10,7 @@ import { safeJsonStringify } from '@common/utils';
  * @param pattern URL pattern with placeholders
  * @returns Extract parameters or null if pattern doesn't match
  */
-const extractParams = (path: string, pattern: string): Record<string, string> | null => {
+export const extractParams = (path: string, pattern: string): Record<string, string> | null => {
   const patternParts = pattern.split('/');
   const pathParts = path.split('/');
   
@@ -33,41 +35,65 @@ const extractParams = (path: string, pattern: string): Record<string, string> |
 };
 
 /**
- * Handle event-related routes
+ * Handle event-related routes; events of a query are only available to the user who started it
  * @param req HTTP request
  * @param res HTTP response
+ * @param principal Authenticated caller
  * @returns Whether the route was handled
  */
-export const handleEventRoutes = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+export const handleEventRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
   const url = req.url || '';
-  const urlObj = new URL(url, `http://${req.headers.host}`);
+  const urlObj = new URL(url, 'http://localhost');
   const path = urlObj.pathname;
-  
-  // Get events for a specific query
+
   // GET /api/events/:queryId
   const eventsParams = extractParams(path, '/api/events/:queryId');
-  if (req.method === 'GET' && eventsParams) {
-    await EventController.getEvents(req, res, eventsParams.queryId);
+  // GET /api/events/:queryId/stream (GET /api/logs/stream/:queryId is kept for the log viewer)
+  const streamParams =
+    extractParams(path, '/api/events/:queryId/stream') ||
+    extractParams(path, '/api/logs/stream/:queryId');
+  // GET /api/events/:queryId/poll?since=1234567890
+  const pollParams = extractParams(path, '/api/events/:queryId/poll');
+
+  const queryId = (eventsParams || streamParams || pollParams)?.queryId;
+  if (req.method !== 'GET' || !queryId) {
+    return false;
+  }
+
+  // Events of another user's query are reported as missing, like its history and results
+  if (!(await getQueryHistoryStore().isOwnedBy(queryId, principal?.id))) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: 'Query not found', queryId }));
     return true;
   }
-  
+
+  // Get events for a specific query
+  if (eventsParams) {
+    await EventController.getEvents(req, res, queryId);
+    return true;
+  }
+
+  // Stream events as Server-Sent Events
+  if (streamParams) {
+    await EventController.streamEvents(req, res, queryId);
+    return true;
+  }
+
   // Poll for new events since a specific timestamp
-  // GET /api/events/:queryId/poll?since=1234567890
-  const pollParams = extractParams(path, '/api/events/:queryId/poll');
-  if (req.method === 'GET' && pollParams) {
-    const since = urlObj.searchParams.get('since');
-    
-    if (!since || isNaN(parseInt(since))) {
-      res.writeHead(400, { 'Content-Type': 'application/json' });
-      res.end(safeJsonStringify({ error: 'Missing or invalid "since" parameter' }));
-      return true;
-    }
-    
-    await EventController.pollEvents(req, res, pollParams.queryId, parseInt(since));
+  const since = urlObj.searchParams.get('since');
+
+  if (!since || isNaN(parseInt(since))) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: 'Missing or invalid "since" parameter' }));
     return true;
   }
-  
-  return false;
+
+  await EventController.pollEvents(req, res, queryId, parseInt(since));
+  return true;
 };
 
 export default { handleEventRoutes }; 
\ No newline at end of file
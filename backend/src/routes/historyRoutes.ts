@@ -0,0 +1,48 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import HistoryController from '../controllers/HistoryController';
+import { Principal } from '@common/types';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle query history routes; every user only sees their own queries
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleHistoryRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  // List past queries
+  // GET /api/history?limit=
+  if (req.method === 'GET' && path === '/api/history') {
+    await HistoryController.list(req, res, urlObj.searchParams, principal);
+    return true;
+  }
+
+  // Re-run a past query, optionally with an edited question
+  // POST /api/history/:queryId/rerun
+  const rerunParams = extractParams(path, '/api/history/:queryId/rerun');
+  if (req.method === 'POST' && rerunParams) {
+    await HistoryController.rerun(req, res, rerunParams.queryId, principal);
+    return true;
+  }
+
+  // Get a past query with its events
+  // GET /api/history/:queryId
+  const recordParams = extractParams(path, '/api/history/:queryId');
+  if (req.method === 'GET' && recordParams) {
+    await HistoryController.getRecord(req, res, recordParams.queryId, principal);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleHistoryRoutes };
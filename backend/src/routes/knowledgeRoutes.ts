@@ -0,0 +1,42 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import KnowledgeController from '../controllers/KnowledgeController';
+import { accessControl } from '@common/access-control';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Handle database knowledge routes; reloading requires the knowledge permission
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleKnowledgeRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+
+  // Reload schema knowledge after schema changes
+  // POST /api/knowledge/reload
+  if (req.method === 'POST' && urlObj.pathname === '/api/knowledge/reload') {
+    if (!accessControl.hasPermission(principal, 'knowledge')) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(
+        safeJsonStringify({
+          error: `Access denied: user ${principal?.id} may not reload database knowledge`,
+        }),
+      );
+      return true;
+    }
+
+    await KnowledgeController.reload(req, res);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleKnowledgeRoutes };
@@ -0,0 +1,100 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import QueryExampleController from '../controllers/QueryExampleController';
+import { accessControl } from '@common/access-control';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle query example library routes. Any caller may list and search the examples
+ * they have access to; adding, changing, approving and deleting them requires the examples permission
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleQueryExampleRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  if (path !== '/api/examples' && !path.startsWith('/api/examples/')) {
+    return false;
+  }
+
+  const approveParams = extractParams(path, '/api/examples/:exampleId/approve');
+  const exampleParams = extractParams(path, '/api/examples/:exampleId');
+  const isManagement = req.method !== 'GET';
+
+  if (isManagement && !accessControl.hasPermission(principal, 'examples')) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(
+      safeJsonStringify({
+        error: `Access denied: user ${principal?.id} may not manage query examples`,
+      }),
+    );
+    return true;
+  }
+
+  // List examples
+  // GET /api/examples?status=draft|approved
+  if (req.method === 'GET' && path === '/api/examples') {
+    await QueryExampleController.list(req, res, urlObj.searchParams, principal);
+    return true;
+  }
+
+  // Find the examples closest to a question
+  // GET /api/examples/search?question=&limit=&drafts=true
+  if (req.method === 'GET' && path === '/api/examples/search') {
+    await QueryExampleController.search(req, res, urlObj.searchParams, principal);
+    return true;
+  }
+
+  // Add an example
+  // POST /api/examples
+  if (req.method === 'POST' && path === '/api/examples') {
+    await QueryExampleController.create(req, res, principal);
+    return true;
+  }
+
+  // Add a successful past run as an example
+  // POST /api/examples/promote
+  if (req.method === 'POST' && path === '/api/examples/promote') {
+    await QueryExampleController.promote(req, res, principal);
+    return true;
+  }
+
+  // Approve the current version of an example
+  // POST /api/examples/:exampleId/approve
+  if (req.method === 'POST' && approveParams) {
+    await QueryExampleController.approve(req, res, approveParams.exampleId, principal);
+    return true;
+  }
+
+  if (!exampleParams) {
+    return false;
+  }
+
+  // Get, update or delete an example
+  // GET|PUT|DELETE /api/examples/:exampleId
+  if (req.method === 'GET') {
+    await QueryExampleController.getExample(req, res, exampleParams.exampleId, principal);
+    return true;
+  }
+  if (req.method === 'PUT') {
+    await QueryExampleController.update(req, res, exampleParams.exampleId, principal);
+    return true;
+  }
+  if (req.method === 'DELETE') {
+    await QueryExampleController.delete(req, res, exampleParams.exampleId);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleQueryExampleRoutes };
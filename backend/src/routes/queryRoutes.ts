@@ -0,0 +1,47 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import QueryController from '../controllers/QueryController';
+import { Principal } from '@common/types';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle routes that manage running queries and export their results
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleQueryRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  // Cancel a running query
+  // POST /api/query/:queryId/cancel
+  const cancelParams = extractParams(path, '/api/query/:queryId/cancel');
+  if (req.method === 'POST' && cancelParams) {
+    await QueryController.cancelQuery(req, res, cancelParams.queryId, principal);
+    return true;
+  }
+
+  // Download the result of a query
+  // GET /api/query/:queryId/export?format=csv|jsonl|xlsx&step=...
+  const exportParams = extractParams(path, '/api/query/:queryId/export');
+  if (req.method === 'GET' && exportParams) {
+    await QueryController.exportResult(
+      req,
+      res,
+      exportParams.queryId,
+      urlObj.searchParams,
+      principal,
+    );
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleQueryRoutes };
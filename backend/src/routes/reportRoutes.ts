@@ -0,0 +1,89 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import ReportController from '../controllers/ReportController';
+import { accessControl } from '@common/access-control';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle saved report routes. Any caller may list and run reports;
+ * creating, changing and deleting them requires the reports permission,
+ * and only the author or a user with the admin permission may change or delete a report
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleReportRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  if (path !== '/api/reports' && !path.startsWith('/api/reports/')) {
+    return false;
+  }
+
+  const runParams = extractParams(path, '/api/reports/:reportId/run');
+  const reportParams = extractParams(path, '/api/reports/:reportId');
+  const isManagement =
+    (req.method === 'POST' && path === '/api/reports') ||
+    ((req.method === 'PUT' || req.method === 'DELETE') && reportParams !== null);
+
+  if (isManagement && !accessControl.hasPermission(principal, 'reports')) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(
+      safeJsonStringify({
+        error: `Access denied: user ${principal?.id} may not manage reports`,
+      }),
+    );
+    return true;
+  }
+
+  // List saved reports
+  // GET /api/reports
+  if (req.method === 'GET' && path === '/api/reports') {
+    await ReportController.list(req, res);
+    return true;
+  }
+
+  // Save a report
+  // POST /api/reports
+  if (req.method === 'POST' && path === '/api/reports') {
+    await ReportController.create(req, res, principal);
+    return true;
+  }
+
+  // Run a report with parameter values
+  // POST /api/reports/:reportId/run
+  if (req.method === 'POST' && runParams) {
+    await ReportController.run(req, res, runParams.reportId, principal);
+    return true;
+  }
+
+  if (!reportParams) {
+    return false;
+  }
+
+  // Get, update or delete a report
+  // GET|PUT|DELETE /api/reports/:reportId
+  if (req.method === 'GET') {
+    await ReportController.getReport(req, res, reportParams.reportId);
+    return true;
+  }
+  if (req.method === 'PUT') {
+    await ReportController.update(req, res, reportParams.reportId, principal);
+    return true;
+  }
+  if (req.method === 'DELETE') {
+    await ReportController.delete(req, res, reportParams.reportId, principal);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleReportRoutes };
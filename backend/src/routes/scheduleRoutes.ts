@@ -0,0 +1,106 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import ScheduleController from '../controllers/ScheduleController';
+import { accessControl } from '@common/access-control';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+import { extractParams } from './eventRoutes';
+
+/**
+ * Handle report schedule routes; they require the reports permission,
+ * since scheduled runs deliver data outside of the service.
+ * A user sees and changes only their own schedules unless they have the admin permission
+ * @param req HTTP request
+ * @param res HTTP response
+ * @param principal Authenticated caller
+ * @returns Whether the route was handled
+ */
+export const handleScheduleRoutes = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  principal?: Principal,
+): Promise<boolean> => {
+  const url = req.url || '';
+  const urlObj = new URL(url, 'http://localhost');
+  const path = urlObj.pathname;
+
+  if (path !== '/api/schedules' && !path.startsWith('/api/schedules/')) {
+    return false;
+  }
+
+  if (!accessControl.hasPermission(principal, 'reports')) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(
+      safeJsonStringify({
+        error: `Access denied: user ${principal?.id} may not manage report schedules`,
+      }),
+    );
+    return true;
+  }
+
+  // List schedules or create one
+  // GET|POST /api/schedules
+  if (path === '/api/schedules') {
+    if (req.method === 'GET') {
+      await ScheduleController.list(req, res, principal);
+      return true;
+    }
+    if (req.method === 'POST') {
+      await ScheduleController.create(req, res, principal);
+      return true;
+    }
+    return false;
+  }
+
+  // Search the runs of all schedules
+  // GET /api/schedules/runs?scheduleId=&reportId=&status=&limit=
+  if (req.method === 'GET' && path === '/api/schedules/runs') {
+    await ScheduleController.listRuns(req, res, urlObj.searchParams, undefined, principal);
+    return true;
+  }
+
+  // Runs of a schedule
+  // GET /api/schedules/:scheduleId/runs?status=&limit=
+  const runsParams = extractParams(path, '/api/schedules/:scheduleId/runs');
+  if (req.method === 'GET' && runsParams) {
+    await ScheduleController.listRuns(
+      req,
+      res,
+      urlObj.searchParams,
+      runsParams.scheduleId,
+      principal,
+    );
+    return true;
+  }
+
+  // Run a schedule now
+  // POST /api/schedules/:scheduleId/run
+  const runParams = extractParams(path, '/api/schedules/:scheduleId/run');
+  if (req.method === 'POST' && runParams) {
+    await ScheduleController.trigger(req, res, runParams.scheduleId, principal);
+    return true;
+  }
+
+  // Get, update or delete a schedule
+  // GET|PUT|DELETE /api/schedules/:scheduleId
+  const scheduleParams = extractParams(path, '/api/schedules/:scheduleId');
+  if (!scheduleParams) {
+    return false;
+  }
+
+  if (req.method === 'GET') {
+    await ScheduleController.getSchedule(req, res, scheduleParams.scheduleId, principal);
+    return true;
+  }
+  if (req.method === 'PUT') {
+    await ScheduleController.update(req, res, scheduleParams.scheduleId, principal);
+    return true;
+  }
+  if (req.method === 'DELETE') {
+    await ScheduleController.delete(req, res, scheduleParams.scheduleId, principal);
+    return true;
+  }
+
+  return false;
+};
+
+export default { handleScheduleRoutes };
@@ -1,15 +1,23 @@
 import http from 'http';
 import { IncomingMessage, ServerResponse } from 'http';
-import { analyzeQuery } from '@perception/index';
-import { createQueryPlan } from '@planning/index';
-import { executeQueryPlan } from '@execution/index';
-import { isConfidentEnough, safeJsonStringify } from '@common/utils';
+import { safeJsonStringify } from '@common/utils';
+import { Principal } from '@common/types';
+import { logError } from '@common/logger';
 import { QueryRequest } from './common/types';
 import crypto from 'crypto';
 import { handleEventRoutes } from './routes/eventRoutes';
-import { getEventStore } from './services/EventStore';
-import { EventType, EventStatus } from './types/events';
-import { setImmediate } from 'timers';
+import { handleConversationRoutes } from './routes/conversationRoutes';
+import { handleKnowledgeRoutes } from './routes/knowledgeRoutes';
+import { handleQueryRoutes } from './routes/queryRoutes';
+import { handleAuditRoutes } from './routes/auditRoutes';
+import { handleHistoryRoutes } from './routes/historyRoutes';
+import { handleReportRoutes } from './routes/reportRoutes';
+import { handleScheduleRoutes } from './routes/scheduleRoutes';
+import { handleQueryExampleRoutes } from './routes/queryExampleRoutes';
+import { getAuthService } from './services/AuthService';
+import { checkQueryRequest, startQueryPipeline, StartedQuery } from './services/QueryPipeline';
+import { initializeWebSocketGateway } from './services/WebSocketGateway';
+import { readBody } from './utils/http';
 
 /**
  * Handles API requests
@@ -19,13 +27,65 @@ import { setImmediate } from 'timers';
 const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+  
+  // Handle OPTIONS request (preflight)
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  
+  // Все маршруты, кроме проверки состояния, доступны только аутентифицированным пользователям
+  const isHealthcheck = req.method === 'GET' && (req.url === '/' || req.url === '/healthcheck');
+  let principal: Principal | undefined;
+  if (!isHealthcheck) {
+    const auth = getAuthService().authenticate(req);
+    if (!auth.principal) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(safeJsonStringify({ error: auth.error }));
+      return;
+    }
+    principal = auth.principal;
+  }
   
   // Проверка маршрутов событий
-  const isEventRoute = await handleEventRoutes(req, res);
+  const isEventRoute = await handleEventRoutes(req, res, principal);
   if (isEventRoute) return;
   
+  // Проверка маршрутов диалогов
+  const isConversationRoute = await handleConversationRoutes(req, res, principal);
+  if (isConversationRoute) return;
+  
+  // Проверка маршрутов знаний о схемах БД
+  const isKnowledgeRoute = await handleKnowledgeRoutes(req, res, principal);
+  if (isKnowledgeRoute) return;
+  
+  // Проверка маршрутов управления запросами (отмена)
+  const isQueryRoute = await handleQueryRoutes(req, res, principal);
+  if (isQueryRoute) return;
+  
+  // Проверка маршрутов журнала аудита
+  const isAuditRoute = await handleAuditRoutes(req, res, principal);
+  if (isAuditRoute) return;
+  
+  // Проверка маршрутов истории запросов
+  const isHistoryRoute = await handleHistoryRoutes(req, res, principal);
+  if (isHistoryRoute) return;
+  
+  // Проверка маршрутов сохраненных отчетов
+  const isReportRoute = await handleReportRoutes(req, res, principal);
+  if (isReportRoute) return;
+  
+  // Проверка маршрутов расписаний отчетов
+  const isScheduleRoute = await handleScheduleRoutes(req, res, principal);
+  if (isScheduleRoute) return;
+  
+  // Проверка маршрутов библиотеки примеров запросов
+  const isQueryExampleRoute = await handleQueryExampleRoutes(req, res, principal);
+  if (isQueryExampleRoute) return;
+  
   // Endpoint для инициализации queryId
   if (req.method === 'POST' && req.url === '/api/query/init') {
     const queryId = crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2);
@@ -34,144 +94,31 @@ const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise
     return;
   }
   
-  // Handle OPTIONS request (preflight)
-  if (req.method === 'OPTIONS') {
-    res.writeHead(204);
-    res.end();
-    return;
-  }
-  
   // Only handle POST requests to /api/query
   if (req.method === 'POST' && req.url === '/api/query') {
-    // Read request body
-    let body = '';
-    req.on('data', chunk => {
-      body += chunk.toString();
-    });
-    await new Promise<void>((resolve, reject) => {
-      req.on('end', () => resolve());
-      req.on('error', err => reject(err));
-    });
-    // Parse request body
-    const requestData = JSON.parse(body) as QueryRequest;
-    const eventStore = getEventStore();
-    const queryId = requestData.queryId || (crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2));
-    console.log('[API] /api/query called with queryId:', queryId, 'query:', requestData.query);
-    // Немедленно возвращаем queryId клиенту
+    // Read request body; a malformed body is answered with 400
+    const requestData = await readBody<QueryRequest>(req, res);
+    if (!requestData) return;
+    // Продолжить можно только свой диалог, а queryId прошлого запроса нельзя занять повторно
+    const rejection = await checkQueryRequest(requestData, principal);
+    if (rejection) {
+      res.writeHead(rejection.status, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ error: rejection.error }));
+      return;
+    }
+    let started: StartedQuery;
+    try {
+      started = startQueryPipeline(requestData, principal);
+    } catch (error) {
+      // Запрос с тем же queryId начался, пока проверялся этот
+      res.writeHead(409, { 'Content-Type': 'application/json' });
+      res.end(safeJsonStringify({ error: (error as Error).message }));
+      return;
+    }
+    const { queryId, conversationId } = started;
+    // Немедленно возвращаем queryId и conversationId клиенту, pipeline выполняется асинхронно
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ queryId }));
-    // Асинхронно запускаем pipeline
-    setImmediate(async () => {
-      try {
-        console.log('[PIPELINE]', queryId, '-> QUERY_RECEIVED');
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.QUERY_RECEIVED,
-          EventStatus.COMPLETED,
-          { query: requestData.query, language: requestData.language }
-        ));
-        console.log('[PIPELINE]', queryId, '-> PERCEPTION_ANALYSIS STARTED');
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.PERCEPTION_ANALYSIS,
-          EventStatus.STARTED,
-          { query: requestData.query }
-        ));
-        const perceptionResult = await analyzeQuery(requestData.query);
-        console.log('[PIPELINE]', queryId, '-> PERCEPTION_ANALYSIS COMPLETED', perceptionResult);
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.PERCEPTION_ANALYSIS,
-          EventStatus.COMPLETED,
-          { intent: perceptionResult.intent, confidence: perceptionResult.confidence }
-        ));
-        if (!isConfidentEnough(perceptionResult.confidence)) {
-          console.log('[PIPELINE]', queryId, '-> NOT CONFIDENT, COMPLETION');
-          await eventStore.addEvent(eventStore.createEvent(
-            queryId,
-            EventType.COMPLETION,
-            EventStatus.COMPLETED,
-            { stepCount: 0, error: 'Not confident' }
-          ));
-          return;
-        }
-        console.log('[PIPELINE]', queryId, '-> PLANNING STARTED');
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.PLANNING,
-          EventStatus.STARTED
-        ));
-        const queryPlan = await createQueryPlan(perceptionResult, requestData.query);
-        console.log('[PIPELINE]', queryId, '-> PLANNING COMPLETED', queryPlan);
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.PLANNING,
-          EventStatus.COMPLETED,
-          { stepCount: queryPlan.steps.length, requiredServices: queryPlan.requiredServices }
-        ));
-        for (let i = 0; i < queryPlan.steps.length; i++) {
-          const step = queryPlan.steps[i];
-          console.log('[PIPELINE]', queryId, `-> STEP_EXECUTION STARTED step ${i+1}`);
-          await eventStore.addEvent(eventStore.createEvent(
-            queryId,
-            EventType.STEP_EXECUTION,
-            EventStatus.STARTED,
-            {
-              stepId: `step-${i+1}`,
-              stepNumber: i + 1,
-              totalSteps: queryPlan.steps.length,
-              service: step.service,
-              description: step.description,
-              sql: step.sqlQuery
-            }
-          ));
-          // ...выполнение шага (упрощённо)...
-          console.log('[PIPELINE]', queryId, `-> STEP_EXECUTION COMPLETED step ${i+1}`);
-          await eventStore.addEvent(eventStore.createEvent(
-            queryId,
-            EventType.STEP_EXECUTION,
-            EventStatus.COMPLETED,
-            {
-              stepId: `step-${i+1}`,
-              stepNumber: i + 1,
-              totalSteps: queryPlan.steps.length,
-              service: step.service,
-              description: step.description,
-              sql: step.sqlQuery
-            }
-          ));
-        }
-        const response = await executeQueryPlan(queryPlan, requestData.query);
-        console.log('[PIPELINE]', queryId, '-> RESPONSE_GENERATION COMPLETED', response);
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.RESPONSE_GENERATION,
-          EventStatus.COMPLETED,
-          {
-            data: response.data,
-            explanation: response.explanation,
-            confidence: response.confidence,
-            sql: response.sql,
-            visualization: response.visualization
-          }
-        ));
-        console.log('[PIPELINE]', queryId, '-> COMPLETION COMPLETED');
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.COMPLETION,
-          EventStatus.COMPLETED,
-          { stepCount: queryPlan.steps.length }
-        ));
-      } catch (error) {
-        console.log('[PIPELINE]', queryId, '-> ERROR', error);
-        await eventStore.addEvent(eventStore.createEvent(
-          queryId,
-          EventType.COMPLETION,
-          EventStatus.ERROR,
-          { error: (error as Error).message }
-        ));
-      }
-    });
+    res.end(JSON.stringify({ queryId, conversationId }));
     return;
   } else if (req.method === 'GET' && (req.url === '/' || req.url === '/healthcheck')) {
     // Health check endpoint
@@ -191,7 +138,21 @@ const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise
  */
 export const startServer = (port: number): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const server = http.createServer(handleRequest);
+    const server = http.createServer((req, res) => {
+      // Ошибка одного запроса не должна приводить к unhandledRejection и остановке сервера
+      handleRequest(req, res).catch(error => {
+        logError(`Failed to handle ${req.method} ${req.url}: ${(error as Error).message}`);
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(safeJsonStringify({ error: 'Internal server error' }));
+      });
+    });
+    
+    // WebSocket-шлюз на том же HTTP сервере (путь /ws)
+    initializeWebSocketGateway(server);
     
     server.listen(port);
     
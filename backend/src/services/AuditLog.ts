@@ -0,0 +1,340 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import { logError, logInfo, logWarn } from '@common/logger';
+import { PerceptionResult, Principal, QueryPlan, QueryResponse } from '@common/types';
+import { DistributedQueryPlan } from '@execution/distributed-query';
+import { StepOutcome } from '@execution/step-observer';
+import { extractTableReferences } from '@execution/sql-safety';
+import { AuditQuery, AuditRecord, AuditStatus, AuditStep } from '../types/audit';
+
+/**
+ * Default directory of the audit log files
+ */
+const DEFAULT_AUDIT_LOG_DIR =
+  process.env.AUDIT_LOG_DIR || path.join(process.cwd(), 'logs', 'audit');
+
+/**
+ * Default and maximum number of records returned by a search
+ */
+const DEFAULT_SEARCH_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 1000;
+
+/**
+ * Audit files hold the runs started on one UTC day
+ */
+const AUDIT_FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Name of the audit file for a point in time
+ */
+const getAuditFileName = (timestamp: number): string =>
+  `audit-${new Date(timestamp).toISOString().slice(0, 10)}.jsonl`;
+
+/**
+ * Check whether a record matches the search filter
+ */
+const matchesQuery = (record: AuditRecord, query: AuditQuery): boolean => {
+  if (query.user && record.user?.id !== query.user) return false;
+  if (query.status && record.status !== query.status) return false;
+  if (query.from !== undefined && record.startedAt < query.from) return false;
+  if (query.to !== undefined && record.startedAt > query.to) return false;
+  if (query.service && !record.services.includes(query.service)) return false;
+
+  if (query.table) {
+    const table = query.table.replace(/"/g, '').toLowerCase();
+    const matches = record.tables.some(reference => {
+      const lower = reference.toLowerCase();
+      return table.includes('.') ? lower === table : lower.split('.').pop() === table;
+    });
+    if (!matches) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Collects what happened during one pipeline run and turns it into an audit record
+ */
+export class AuditTrail {
+  private readonly startedAt: number = Date.now();
+  private perception?: PerceptionResult;
+  private plan?: QueryPlan;
+  private distributedPlan?: DistributedQueryPlan;
+  private steps: AuditStep[] = [];
+  private response?: QueryResponse;
+  private status: AuditStatus = 'error';
+  private error?: string;
+  private errorType?: string;
+
+  /**
+   * Constructor
+   * @param queryId Query ID
+   * @param query Original user query
+   * @param user Authenticated caller
+   * @param conversationId Conversation the query belongs to
+   */
+  constructor(
+    readonly queryId: string,
+    private readonly query: string,
+    private readonly user?: Principal,
+    private readonly conversationId?: string,
+  ) {}
+
+  /**
+   * Record the perception result
+   */
+  setPerception(perception: PerceptionResult): void {
+    this.perception = perception;
+  }
+
+  /**
+   * Record the final query plan
+   */
+  setPlan(plan: QueryPlan): void {
+    this.plan = plan;
+  }
+
+  /**
+   * Record the distributed plan the executor ran
+   */
+  setDistributedPlan(plan: DistributedQueryPlan): void {
+    this.distributedPlan = plan;
+  }
+
+  /**
+   * Record an executed step
+   */
+  addStep(outcome: StepOutcome): void {
+    this.steps.push({
+      stepId: outcome.stepId,
+      service: outcome.service,
+      description: outcome.description,
+      operation: outcome.operation,
+      statements: outcome.statements || [],
+      fixes: outcome.fixes,
+      rowCount: outcome.rowCount,
+      durationMs: outcome.durationMs,
+      error: outcome.error,
+      errorType: outcome.errorType,
+    });
+  }
+
+  /**
+   * Record the response and mark the run as completed
+   */
+  complete(response: QueryResponse): void {
+    this.response = response;
+    this.status = 'completed';
+  }
+
+  /**
+   * Mark the run as failed
+   * @param status How the run ended
+   * @param error Error message
+   * @param errorType Error type
+   */
+  fail(status: Exclude<AuditStatus, 'completed'>, error?: string, errorType?: string): void {
+    this.status = status;
+    this.error = error;
+    this.errorType = errorType;
+  }
+
+  /**
+   * Build the audit record
+   */
+  toRecord(): AuditRecord {
+    const finishedAt = Date.now();
+    const services = new Set<string>();
+    const tables = new Set<string>();
+
+    for (const step of this.steps) {
+      for (const statement of step.statements) {
+        services.add(step.service);
+        try {
+          extractTableReferences(statement.sql).forEach(table =>
+            tables.add(`${step.service}.${table}`),
+          );
+        } catch {
+          // SQL that could not be parsed was rejected before it was sent
+        }
+      }
+    }
+
+    return {
+      id: uuidv4(),
+      queryId: this.queryId,
+      conversationId: this.conversationId,
+      startedAt: this.startedAt,
+      finishedAt,
+      durationMs: finishedAt - this.startedAt,
+      user: this.user || null,
+      query: this.query,
+      status: this.status,
+      perception: this.perception,
+      plan: this.plan,
+      distributedPlan: this.distributedPlan,
+      steps: this.steps,
+      services: Array.from(services),
+      tables: Array.from(tables),
+      explanation: this.response?.explanation,
+      confidence: this.response?.confidence,
+      error: this.error,
+      errorType: this.errorType,
+    };
+  }
+}
+
+/**
+ * Append-only audit log of query pipeline runs.
+ * Records are written as JSON lines to one file per UTC day and are never updated or expired,
+ * unlike the short-lived events of the EventStore
+ */
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructor
+   * @param directory Directory of the audit files
+   */
+  constructor(private readonly directory: string = DEFAULT_AUDIT_LOG_DIR) {}
+
+  /**
+   * Start the audit trail of a pipeline run
+   * @param queryId Query ID
+   * @param query Original user query
+   * @param user Authenticated caller
+   * @param conversationId Conversation the query belongs to
+   */
+  begin(queryId: string, query: string, user?: Principal, conversationId?: string): AuditTrail {
+    return new AuditTrail(queryId, query, user, conversationId);
+  }
+
+  /**
+   * Append a record; failures are logged and never interrupt the pipeline
+   * @param record Audit record
+   */
+  async write(record: AuditRecord): Promise<void> {
+    const filePath = path.join(this.directory, getAuditFileName(record.startedAt));
+
+    // Writes are serialized so that concurrent runs never interleave their lines
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+      } catch (error) {
+        logError(
+          `Failed to write audit record for query ${record.queryId}: ${(error as Error).message}`,
+        );
+      }
+    });
+
+    await this.writeQueue;
+  }
+
+  /**
+   * Search records, newest first
+   * @param query Search filter
+   */
+  async search(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const results: AuditRecord[] = [];
+
+    for (const fileName of await this.listFiles(query.from, query.to)) {
+      await this.readFile(fileName, record => {
+        if (matchesQuery(record, query)) {
+          results.push(record);
+        }
+      });
+
+      // Files are read from the newest day, so older days cannot contain newer records
+      if (results.length >= limit) {
+        break;
+      }
+    }
+
+    return results.sort((a, b) => b.startedAt - a.startedAt).slice(0, limit);
+  }
+
+  /**
+   * Get the record of a query
+   * @param queryId Query ID
+   */
+  async get(queryId: string): Promise<AuditRecord | undefined> {
+    for (const fileName of await this.listFiles()) {
+      let found: AuditRecord | undefined;
+      await this.readFile(fileName, record => {
+        if (record.queryId === queryId) {
+          found = record;
+        }
+      });
+
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Audit files that may hold runs started in the time range, newest first
+   */
+  private async listFiles(from?: number, to?: number): Promise<string[]> {
+    let fileNames: string[];
+
+    try {
+      fileNames = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logInfo(`Audit log directory ${this.directory} does not exist yet`);
+        return [];
+      }
+      throw error;
+    }
+
+    const fromDay = from !== undefined ? getAuditFileName(from) : undefined;
+    const toDay = to !== undefined ? getAuditFileName(to) : undefined;
+
+    return fileNames
+      .filter(fileName => AUDIT_FILE_PATTERN.test(fileName))
+      .filter(fileName => (!fromDay || fileName >= fromDay) && (!toDay || fileName <= toDay))
+      .sort()
+      .reverse();
+  }
+
+  /**
+   * Read the records of an audit file line by line
+   */
+  private async readFile(fileName: string, onRecord: (record: AuditRecord) => void): Promise<void> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(path.join(this.directory, fileName), { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        onRecord(JSON.parse(line) as AuditRecord);
+      } catch (error) {
+        logWarn(`Skipping malformed audit record in ${fileName}: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let auditLogInstance: AuditLog | null = null;
+
+/**
+ * Get the AuditLog instance
+ */
+export const getAuditLog = (): AuditLog => {
+  if (!auditLogInstance) {
+    auditLogInstance = new AuditLog();
+  }
+
+  return auditLogInstance;
+};
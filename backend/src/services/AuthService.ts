@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { accessControl } from '@common/access-control';
+import { logWarn } from '@common/logger';
+import { Principal } from '@common/types';
+
+/**
+ * Result of authenticating a request: either the caller or the reason they were rejected
+ */
+export interface AuthResult {
+  principal?: Principal;
+  error?: string;
+}
+
+/**
+ * Authentication settings
+ */
+export interface AuthConfig {
+  enabled: boolean; // When disabled every request runs as the anonymous principal
+  jwtSecret?: string; // Shared HS256 secret; JWTs are rejected when it is not set
+  anonymousRoles: string[]; // Roles of the anonymous principal
+}
+
+/**
+ * Read the authentication settings from the environment
+ */
+const loadAuthConfig = (): AuthConfig => ({
+  enabled: process.env.AUTH_ENABLED !== 'false',
+  jwtSecret: process.env.AUTH_JWT_SECRET || undefined,
+  anonymousRoles: (process.env.AUTH_ANONYMOUS_ROLES || 'admin')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean),
+});
+
+/**
+ * Decode a base64url JWT segment as JSON
+ */
+const decodeSegment = (segment: string): Record<string, unknown> =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Verify an HS256 JWT locally and return its claims
+ * @param token Compact JWT
+ * @param secret Shared HS256 secret
+ * @param now Current time in seconds, for exp and nbf checks
+ * @returns Verified claims
+ * @throws Error describing why the token was rejected
+ */
+export const verifyJwt = (
+  token: string,
+  secret: string,
+  now: number = Math.floor(Date.now() / 1000),
+): Record<string, unknown> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [header, payload, signature] = parts;
+  let claims: Record<string, unknown>;
+
+  try {
+    if (decodeSegment(header).alg !== 'HS256') {
+      throw new Error('unsupported');
+    }
+    claims = decodeSegment(payload);
+  } catch {
+    throw new Error('Malformed token or unsupported algorithm (only HS256 is accepted)');
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const presented = Buffer.from(signature, 'base64url');
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    throw new Error('Invalid token signature');
+  }
+
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    throw new Error('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now) {
+    throw new Error('Token is not valid yet');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('Token has no subject');
+  }
+
+  return claims;
+};
+
+/**
+ * Authenticates API requests with an API key or a locally verified JWT.
+ * Credentials are read from the Authorization: Bearer and X-API-Key headers; EventSource and
+ * WebSocket clients cannot set headers, so the access_token and api_key query parameters are accepted too
+ */
+export class AuthService {
+  /**
+   * Constructor
+   * @param config Authentication settings
+   */
+  constructor(private readonly config: AuthConfig = loadAuthConfig()) {
+    if (this.config.enabled && !this.config.jwtSecret && !accessControl.isLoaded()) {
+      logWarn(
+        'Authentication is enabled, but AUTH_JWT_SECRET is not set and the access policy is not loaded: ' +
+          'every request will be rejected',
+      );
+    }
+  }
+
+  /**
+   * Whether requests must carry credentials
+   */
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Authenticate a request
+   * @param req HTTP request (also the upgrade request of a WebSocket)
+   * @returns The caller, or the reason the request was rejected
+   */
+  authenticate(req: IncomingMessage): AuthResult {
+    if (!this.config.enabled) {
+      return {
+        principal: { id: 'anonymous', roles: this.config.anonymousRoles, method: 'anonymous' },
+      };
+    }
+
+    // Only the path and query are read; the client-controlled Host header may be malformed
+    const { searchParams } = new URL(req.url || '/', 'http://localhost');
+    const authorization = req.headers.authorization || '';
+    const bearer = /^Bearer\s+(.+)$/i.exec(authorization)?.[1];
+    const headerKey = req.headers['x-api-key'];
+    const apiKey =
+      (Array.isArray(headerKey) ? headerKey[0] : headerKey) || searchParams.get('api_key');
+    const token = bearer || searchParams.get('access_token');
+
+    if (apiKey) {
+      const principal = accessControl.findUserByApiKey(apiKey);
+      return principal ? { principal } : { error: 'Invalid API key' };
+    }
+
+    if (token) {
+      return this.authenticateToken(token);
+    }
+
+    return { error: 'Authentication required: send an API key or a bearer token' };
+  }
+
+  /**
+   * Re-read the roles of a caller stored for work that runs later on their behalf, such as
+   * scheduled reports. Roles of a JWT cannot be verified again, so they come from the access policy
+   * @param principal Caller as stored when the work was set up
+   * @returns The caller with their current roles; no roles when the user is no longer known
+   */
+  refreshPrincipal(principal: Principal): Principal {
+    if (principal.method === 'anonymous') {
+      return { ...principal, roles: this.config.enabled ? [] : this.config.anonymousRoles };
+    }
+
+    return { ...principal, roles: accessControl.getUserRoles(principal.id) };
+  }
+
+  /**
+   * Authenticate a JWT; roles come from the "roles" claim or from the user in the access policy
+   */
+  private authenticateToken(token: string): AuthResult {
+    if (!this.config.jwtSecret) {
+      return { error: 'Bearer tokens are not accepted: AUTH_JWT_SECRET is not configured' };
+    }
+
+    try {
+      const claims = verifyJwt(token, this.config.jwtSecret);
+      const id = claims.sub as string;
+      const roles = Array.isArray(claims.roles)
+        ? claims.roles.filter((role): role is string => typeof role === 'string')
+        : accessControl.getUserRoles(id);
+
+      return { principal: { id, roles, method: 'jwt' } };
+    } catch (error) {
+      return { error: `Invalid bearer token: ${(error as Error).message}` };
+    }
+  }
+}
+
+// Singleton instance
+let authServiceInstance: AuthService | null = null;
+
+/**
+ * Get the AuthService instance
+ */
+export const getAuthService = (): AuthService => {
+  if (!authServiceInstance) {
+    authServiceInstance = new AuthService();
+  }
+
+  return authServiceInstance;
+};
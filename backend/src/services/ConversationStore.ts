@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createClient, RedisClientType } from 'redis';
+import { logDebug, logError, logInfo, logWarn } from '@common/logger';
+import { ConversationContext, ConversationTurn } from '@common/types';
+
+/**
+ * Service for storing the history of multi-turn conversations
+ */
+export class ConversationStore {
+  private client: RedisClientType;
+  private isConnected: boolean = false;
+  private readonly keyPrefix: string = 'conversation:';
+  private readonly conversationTTL: number = 60 * 60 * 24; // 24 hours
+  private readonly maxTurns: number = 20;
+  private memoryStore: Map<string, ConversationTurn[]> = new Map();
+
+  /**
+   * Constructor
+   * @param url Redis URL
+   */
+  constructor(url: string = 'redis://localhost:6379') {
+    this.client = createClient({ url });
+
+    this.client.on('error', err => {
+      this.isConnected = false;
+      logError(`ConversationStore Redis Client Error: ${err.message}`);
+    });
+
+    this.client.on('connect', () => {
+      this.isConnected = true;
+      logInfo('ConversationStore connected to Redis');
+    });
+
+    this.client.on('end', () => {
+      this.isConnected = false;
+      logInfo('ConversationStore Redis connection closed');
+    });
+  }
+
+  /**
+   * Initialize Redis connection
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      return;
+    }
+
+    try {
+      await this.client.connect();
+      this.isConnected = true;
+      logInfo('ConversationStore Redis connection established');
+    } catch (error) {
+      this.isConnected = false;
+      logWarn(`ConversationStore falls back to memory storage: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async disconnect(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    try {
+      await this.client.quit();
+      this.isConnected = false;
+      logInfo('ConversationStore Redis connection closed');
+    } catch (error) {
+      logError(`Error disconnecting ConversationStore from Redis: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the context (all stored turns) of a conversation
+   * @param conversationId Conversation ID
+   */
+  async getConversation(conversationId: string): Promise<ConversationContext> {
+    if (!this.isConnected) {
+      return { conversationId, turns: this.memoryStore.get(conversationId) || [] };
+    }
+
+    try {
+      const data = await this.client.get(`${this.keyPrefix}${conversationId}`);
+      const turns = data ? (JSON.parse(data) as ConversationTurn[]) : [];
+      return { conversationId, turns };
+    } catch (error) {
+      logError(`Failed to retrieve conversation: ${(error as Error).message}`);
+      return { conversationId, turns: [] };
+    }
+  }
+
+  /**
+   * Append a turn to a conversation, keeping only the latest turns
+   * @param conversationId Conversation ID
+   * @param turn Turn to append
+   */
+  async addTurn(conversationId: string, turn: ConversationTurn): Promise<void> {
+    try {
+      const { turns } = await this.getConversation(conversationId);
+      turns.push(turn);
+      const trimmedTurns = turns.slice(-this.maxTurns);
+
+      if (this.isConnected) {
+        await this.client.set(`${this.keyPrefix}${conversationId}`, JSON.stringify(trimmedTurns), {
+          EX: this.conversationTTL,
+        });
+      } else {
+        this.memoryStore.set(conversationId, trimmedTurns);
+      }
+
+      logDebug(`Stored turn ${turn.queryId} for conversation ${conversationId}`);
+    } catch (error) {
+      logError(`Failed to store conversation turn: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Generate a new conversation ID
+   */
+  generateConversationId(): string {
+    return uuidv4();
+  }
+}
+
+// Singleton instance
+let conversationStoreInstance: ConversationStore | null = null;
+
+/**
+ * Get the ConversationStore instance
+ */
+export const getConversationStore = (): ConversationStore => {
+  if (!conversationStoreInstance) {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    conversationStoreInstance = new ConversationStore(redisUrl);
+  }
+
+  return conversationStoreInstance;
+};
+
+/**
+ * Initialize the ConversationStore
+ */
+export const initializeConversationStore = async (): Promise<void> => {
+  const conversationStore = getConversationStore();
+  await conversationStore.connect();
+};
+
+/**
+ * Shut down the ConversationStore
+ */
+export const shutdownConversationStore = async (): Promise<void> => {
+  if (conversationStoreInstance) {
+    await conversationStoreInstance.disconnect();
+    conversationStoreInstance = null;
+  }
+};
@@ -1,20 +1,32 @@
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { createClient, RedisClientType } from 'redis';
-import { logDebug, logError, logInfo } from '@common/logger';
+import { logDebug, logError, logInfo, logWarn } from '@common/logger';
 import {
   EventStatus,
   EventType,
   QueryEvent
 } from '../types/events';
+import { LogEntry } from '../common/types';
+
+/**
+ * Listener for events of a single query
+ */
+export type QueryEventListener = (event: QueryEvent) => void;
 
 /**
  * Service for storing and retrieving query execution events
  */
 export class EventStore {
   private client: RedisClientType;
+  private subscriber: RedisClientType | null = null;
   private isConnected: boolean = false;
   private readonly keyPrefix: string = 'query-events:';
+  private readonly channelPrefix: string = 'query-events-channel:';
   private readonly eventTTL: number = 60 * 10; // 10 minutes
+  private memoryStore: Map<string, QueryEvent[]> = new Map();
+  private memoryExpiry: Map<string, NodeJS.Timeout> = new Map();
+  private emitter: EventEmitter = new EventEmitter().setMaxListeners(0);
   
   /**
    * Constructor
@@ -51,10 +63,17 @@ export class EventStore {
       await this.client.connect();
       this.isConnected = true;
       logInfo('EventStore Redis connection established');
+      
+      // Pub/sub needs a dedicated connection: a subscribed client cannot run other commands
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('error', (err) => {
+        logError(`EventStore Redis subscriber error: ${err.message}`);
+      });
+      await this.subscriber.connect();
     } catch (error) {
       this.isConnected = false;
-      logError(`Failed to connect EventStore to Redis: ${(error as Error).message}`);
-      // Fallback to memory storage would go here in a production system
+      this.subscriber = null;
+      logWarn(`EventStore falls back to memory storage and in-process delivery: ${(error as Error).message}`);
     }
   }
   
@@ -67,6 +86,10 @@ export class EventStore {
     }
     
     try {
+      if (this.subscriber) {
+        await this.subscriber.quit();
+        this.subscriber = null;
+      }
       await this.client.quit();
       this.isConnected = false;
       logInfo('EventStore Redis connection closed');
@@ -101,7 +124,10 @@ export class EventStore {
    */
   async addEvent(event: QueryEvent): Promise<void> {
     if (!this.isConnected) {
-      logError('Cannot store event: Redis not connected');
+      const events = this.memoryStore.get(event.queryId) || [];
+      events.push(event);
+      this.storeInMemory(event.queryId, events);
+      await this.publish(event);
       return;
     }
     
@@ -113,6 +139,7 @@ export class EventStore {
       await this.client.set(key, JSON.stringify(storedEvents), {
         EX: this.eventTTL
       });
+      await this.publish(event);
       
       logDebug(`Stored event ${event.type} for query ${event.queryId}`);
     } catch (error) {
@@ -126,8 +153,7 @@ export class EventStore {
    */
   async getEvents(queryId: string): Promise<QueryEvent[]> {
     if (!this.isConnected) {
-      logError('Cannot retrieve events: Redis not connected');
-      return [];
+      return [...(this.memoryStore.get(queryId) || [])];
     }
     
     try {
@@ -154,11 +180,6 @@ export class EventStore {
     status: EventStatus, 
     additionalPayload?: Record<string, any>
   ): Promise<void> {
-    if (!this.isConnected) {
-      logError('Cannot update event: Redis not connected');
-      return;
-    }
-    
     try {
       const events = await this.getEvents(queryId);
       const eventIndex = events.findIndex(e => e.id === eventId);
@@ -183,10 +204,15 @@ export class EventStore {
       
       events[eventIndex] = updatedEvent;
       
-      const key = `${this.keyPrefix}${queryId}`;
-      await this.client.set(key, JSON.stringify(events), {
-        EX: this.eventTTL
-      });
+      if (this.isConnected) {
+        const key = `${this.keyPrefix}${queryId}`;
+        await this.client.set(key, JSON.stringify(events), {
+          EX: this.eventTTL
+        });
+      } else {
+        this.storeInMemory(queryId, events);
+      }
+      await this.publish(updatedEvent);
       
       logDebug(`Updated event ${eventId} for query ${queryId}`);
     } catch (error) {
@@ -194,6 +220,120 @@ export class EventStore {
     }
   }
   
+  /**
+   * Subscribe to new and updated events of a query.
+   * Uses Redis pub/sub so events from any backend instance are delivered,
+   * and in-process delivery when Redis is not available
+   * @param queryId Query ID
+   * @param listener Called for every published event
+   * @returns Function that removes the subscription
+   */
+  async subscribe(queryId: string, listener: QueryEventListener): Promise<() => Promise<void>> {
+    const channel = `${this.channelPrefix}${queryId}`;
+    
+    if (this.isConnected && this.subscriber) {
+      const onMessage = (message: string): void => {
+        try {
+          listener(JSON.parse(message) as QueryEvent);
+        } catch (error) {
+          logError(`Failed to parse published event: ${(error as Error).message}`);
+        }
+      };
+      
+      const subscriber = this.subscriber;
+      await subscriber.subscribe(channel, onMessage);
+      return async () => {
+        try {
+          await subscriber.unsubscribe(channel, onMessage);
+        } catch (error) {
+          logError(`Failed to unsubscribe from ${channel}: ${(error as Error).message}`);
+        }
+      };
+    }
+    
+    this.emitter.on(channel, listener);
+    return async () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+  
+  /**
+   * Subscribe to events of a query, first replaying stored events.
+   * The subscription starts before stored events are read, so nothing published in between is lost
+   * @param queryId Query ID
+   * @param listener Called for every missed and every new event, in order
+   * @param lastEventId ID of the last event the client already has; only later events are replayed
+   * @returns Function that removes the subscription
+   */
+  async subscribeWithReplay(
+    queryId: string,
+    listener: QueryEventListener,
+    lastEventId?: string
+  ): Promise<() => Promise<void>> {
+    let replayed = false;
+    const pending: QueryEvent[] = [];
+    
+    const unsubscribe = await this.subscribe(queryId, event => {
+      if (replayed) {
+        listener(event);
+      } else {
+        pending.push(event);
+      }
+    });
+    
+    const storedEvents = await this.getEvents(queryId);
+    const lastIndex = lastEventId ? storedEvents.map(event => event.id).lastIndexOf(lastEventId) : -1;
+    const missedEvents = storedEvents.slice(lastIndex + 1);
+    logDebug(`Replaying ${missedEvents.length} events for query ${queryId}`);
+    missedEvents.forEach(listener);
+    
+    // Events published during the replay are delivered unless the replay already contained them
+    const replayedKeys = new Set(storedEvents.map(event => `${event.id}:${event.timestamp}`));
+    replayed = true;
+    pending
+      .filter(event => !replayedKeys.has(`${event.id}:${event.timestamp}`))
+      .forEach(listener);
+    
+    return unsubscribe;
+  }
+  
+  /**
+   * Store the events of a query in memory. Like the Redis key, they expire eventTTL after
+   * the last write, so a finished query is dropped eventTTL after its completion event
+   * @param queryId Query ID
+   * @param events All events of the query
+   */
+  private storeInMemory(queryId: string, events: QueryEvent[]): void {
+    this.memoryStore.set(queryId, events);
+    clearTimeout(this.memoryExpiry.get(queryId));
+    
+    const expiry = setTimeout(() => {
+      this.memoryStore.delete(queryId);
+      this.memoryExpiry.delete(queryId);
+    }, this.eventTTL * 1000);
+    expiry.unref();
+    this.memoryExpiry.set(queryId, expiry);
+  }
+  
+  /**
+   * Publish an event to the subscribers of its query
+   * @param event The event to publish
+   */
+  private async publish(event: QueryEvent): Promise<void> {
+    const channel = `${this.channelPrefix}${event.queryId}`;
+    
+    if (this.isConnected && this.subscriber) {
+      try {
+        await this.client.publish(channel, JSON.stringify(event));
+      } catch (error) {
+        logError(`Failed to publish event: ${(error as Error).message}`);
+      }
+      return;
+    }
+    
+    this.emitter.emit(channel, event);
+  }
+  
   /**
    * Generate a new query ID
    */
@@ -202,6 +342,36 @@ export class EventStore {
   }
 }
 
+/**
+ * Payload fields that are too large for a log line
+ */
+const LOG_DETAILS_EXCLUDED_FIELDS = ['data', 'visualization'];
+
+/**
+ * Convert a query event to a log entry for the execution log viewer
+ * @param event Query event
+ */
+export const eventToLogEntry = (event: QueryEvent): LogEntry => {
+  const payload = (event.payload || {}) as Record<string, unknown>;
+  const details = Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !LOG_DETAILS_EXCLUDED_FIELDS.includes(key))
+  );
+  const stepId = typeof payload.stepId === 'string' ? payload.stepId : undefined;
+  const error = typeof payload.error === 'string' ? `: ${payload.error}` : '';
+  
+  return {
+    id: `${event.id}:${event.status}`,
+    timestamp: event.timestamp,
+    message: `${event.type.replace(/_/g, ' ')} ${event.status.replace(/_/g, ' ')}${error}`,
+    level: event.status === EventStatus.ERROR
+      ? 'error'
+      : event.status === EventStatus.CANCELLED ? 'warning' : 'info',
+    category: event.type,
+    step: stepId,
+    details: Object.keys(details).length > 0 ? JSON.stringify(details, null, 2) : undefined
+  };
+};
+
 // Singleton instance
 let eventStoreInstance: EventStore | null = null;
 
@@ -0,0 +1,318 @@
+import { createClient, RedisClientType } from 'redis';
+import { logDebug, logError, logInfo, logWarn } from '@common/logger';
+import { ConversationContext } from '@common/types';
+import { EventStatus, EventType, QueryEvent } from '../types/events';
+import { QueryHistoryEntry, QueryHistoryRecord, QueryHistoryStatus } from '../types/history';
+
+/**
+ * Owner of the history entries of queries run without an authenticated caller
+ */
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Fill in the outcome of a finished query from its events
+ * @param entry History entry of the query
+ * @param events Events of the query
+ */
+export const summarizeHistoryEvents = (
+  entry: QueryHistoryEntry,
+  events: QueryEvent[],
+): QueryHistoryEntry => {
+  const completion = events.find(event => event.type === EventType.COMPLETION);
+  const response = [...events]
+    .reverse()
+    .find(
+      event =>
+        event.type === EventType.RESPONSE_GENERATION && event.status === EventStatus.COMPLETED,
+    );
+
+  if (!completion) {
+    return entry;
+  }
+
+  const error = completion.type === EventType.COMPLETION ? completion.payload.error : undefined;
+  let status: QueryHistoryStatus = 'completed';
+  if (completion.status === EventStatus.CANCELLED) {
+    status = 'cancelled';
+  } else if (completion.status === EventStatus.ERROR || error) {
+    status = 'error';
+  }
+
+  const responsePayload =
+    response?.type === EventType.RESPONSE_GENERATION ? response.payload : undefined;
+  const rowCount = responsePayload?.data
+    ? Object.values(responsePayload.data).reduce<number>(
+        (total, rows) => total + (Array.isArray(rows) ? rows.length : 0),
+        0,
+      )
+    : undefined;
+
+  return {
+    ...entry,
+    status,
+    finishedAt: completion.timestamp,
+    durationMs: completion.timestamp - entry.startedAt,
+    confidence: responsePayload?.confidence,
+    rowCount,
+    error,
+  };
+};
+
+/**
+ * Service for storing the query history of each user.
+ * Besides the entry, the events of a query are kept after EventStore has expired them,
+ * so the execution log and the result of a past query can be restored
+ */
+export class QueryHistoryStore {
+  private client: RedisClientType;
+  private isConnected: boolean = false;
+  private readonly userKeyPrefix: string = 'query-history:';
+  private readonly recordKeyPrefix: string = 'query-history-record:';
+  private readonly historyTTL: number = 60 * 60 * 24 * 30; // 30 days
+  private readonly maxEntries: number = 200;
+  private readonly maxMemoryRecords: number = 5000; // Without Redis, across all users
+  private memoryUsers: Map<string, string[]> = new Map();
+  private memoryRecords: Map<string, QueryHistoryRecord> = new Map();
+
+  /**
+   * Constructor
+   * @param url Redis URL
+   */
+  constructor(url: string = 'redis://localhost:6379') {
+    this.client = createClient({ url });
+
+    this.client.on('error', err => {
+      this.isConnected = false;
+      logError(`QueryHistoryStore Redis Client Error: ${err.message}`);
+    });
+
+    this.client.on('connect', () => {
+      this.isConnected = true;
+      logInfo('QueryHistoryStore connected to Redis');
+    });
+
+    this.client.on('end', () => {
+      this.isConnected = false;
+      logInfo('QueryHistoryStore Redis connection closed');
+    });
+  }
+
+  /**
+   * Initialize Redis connection
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      return;
+    }
+
+    try {
+      await this.client.connect();
+      this.isConnected = true;
+      logInfo('QueryHistoryStore Redis connection established');
+    } catch (error) {
+      this.isConnected = false;
+      logWarn(`QueryHistoryStore falls back to memory storage: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Close Redis connection
+   */
+  async disconnect(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    try {
+      await this.client.quit();
+      this.isConnected = false;
+      logInfo('QueryHistoryStore Redis connection closed');
+    } catch (error) {
+      logError(`Error disconnecting QueryHistoryStore from Redis: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Add a query that has just started to the history of its user
+   * @param entry History entry
+   */
+  async start(entry: QueryHistoryEntry): Promise<void> {
+    const userId = entry.userId || ANONYMOUS_USER;
+
+    try {
+      await this.saveRecord({ entry, events: [] });
+
+      if (this.isConnected) {
+        const key = `${this.userKeyPrefix}${userId}`;
+        await this.client.lPush(key, entry.queryId);
+        await this.client.lTrim(key, 0, this.maxEntries - 1);
+        await this.client.expire(key, this.historyTTL);
+      } else {
+        const queryIds = [entry.queryId, ...(this.memoryUsers.get(userId) || [])];
+        queryIds.slice(this.maxEntries).forEach(queryId => this.memoryRecords.delete(queryId));
+        this.memoryUsers.set(userId, queryIds.slice(0, this.maxEntries));
+        this.evictMemoryRecords();
+      }
+
+      logDebug(`Added query ${entry.queryId} to the history of ${userId}`);
+    } catch (error) {
+      logError(`Failed to store history entry: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Record the outcome and the events of a finished query
+   * @param queryId Query ID
+   * @param events Events of the query
+   */
+  async finish(queryId: string, events: QueryEvent[]): Promise<void> {
+    try {
+      const record = await this.get(queryId);
+      if (!record) {
+        logWarn(`Query ${queryId} finished but is not in the history`);
+        return;
+      }
+
+      await this.saveRecord({ entry: summarizeHistoryEvents(record.entry, events), events });
+    } catch (error) {
+      logError(`Failed to store history record: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List the queries of a user, newest first
+   * @param userId User ID
+   * @param limit Maximum number of entries
+   */
+  async list(userId: string = ANONYMOUS_USER, limit: number = 50): Promise<QueryHistoryEntry[]> {
+    const count = Math.min(Math.max(limit, 1), this.maxEntries);
+    let queryIds: string[];
+
+    try {
+      queryIds = this.isConnected
+        ? await this.client.lRange(`${this.userKeyPrefix}${userId}`, 0, count - 1)
+        : (this.memoryUsers.get(userId) || []).slice(0, count);
+    } catch (error) {
+      logError(`Failed to retrieve query history: ${(error as Error).message}`);
+      return [];
+    }
+
+    const records = await Promise.all(queryIds.map(queryId => this.get(queryId)));
+    return records
+      .filter((record): record is QueryHistoryRecord => Boolean(record))
+      .map(record => record.entry);
+  }
+
+  /**
+   * Get a query with its events
+   * @param queryId Query ID
+   */
+  async get(queryId: string): Promise<QueryHistoryRecord | undefined> {
+    if (!this.isConnected) {
+      return this.memoryRecords.get(queryId);
+    }
+
+    try {
+      const data = await this.client.get(`${this.recordKeyPrefix}${queryId}`);
+      return data ? (JSON.parse(data) as QueryHistoryRecord) : undefined;
+    } catch (error) {
+      logError(`Failed to retrieve history record: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether a query was started by a user
+   * @param queryId Query ID
+   * @param userId User ID; undefined for queries run without an authenticated caller
+   */
+  async isOwnedBy(queryId: string, userId?: string): Promise<boolean> {
+    const record = await this.get(queryId);
+    return Boolean(record) && record?.entry.userId === userId;
+  }
+
+  /**
+   * Check whether every turn of a conversation is a query started by a user.
+   * A conversation without turns has not been started by anyone yet
+   * @param conversation Conversation
+   * @param userId User ID; undefined for queries run without an authenticated caller
+   */
+  async isConversationOwnedBy(
+    conversation: ConversationContext,
+    userId?: string,
+  ): Promise<boolean> {
+    const owned = await Promise.all(
+      conversation.turns.map(turn => this.isOwnedBy(turn.queryId, userId)),
+    );
+    return owned.every(Boolean);
+  }
+
+  /**
+   * Drop the oldest queries kept in memory once there are more than maxMemoryRecords of them,
+   * so the history of many users does not grow without bound while Redis is unavailable
+   */
+  private evictMemoryRecords(): void {
+    for (const [queryId, record] of this.memoryRecords) {
+      if (this.memoryRecords.size <= this.maxMemoryRecords) {
+        return;
+      }
+
+      const userId = record.entry.userId || ANONYMOUS_USER;
+      const queryIds = (this.memoryUsers.get(userId) || []).filter(id => id !== queryId);
+      if (queryIds.length > 0) {
+        this.memoryUsers.set(userId, queryIds);
+      } else {
+        this.memoryUsers.delete(userId);
+      }
+      this.memoryRecords.delete(queryId);
+    }
+  }
+
+  /**
+   * Store a history record
+   */
+  private async saveRecord(record: QueryHistoryRecord): Promise<void> {
+    if (this.isConnected) {
+      await this.client.set(
+        `${this.recordKeyPrefix}${record.entry.queryId}`,
+        JSON.stringify(record),
+        { EX: this.historyTTL },
+      );
+    } else {
+      this.memoryRecords.set(record.entry.queryId, record);
+    }
+  }
+}
+
+// Singleton instance
+let queryHistoryStoreInstance: QueryHistoryStore | null = null;
+
+/**
+ * Get the QueryHistoryStore instance
+ */
+export const getQueryHistoryStore = (): QueryHistoryStore => {
+  if (!queryHistoryStoreInstance) {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    queryHistoryStoreInstance = new QueryHistoryStore(redisUrl);
+  }
+
+  return queryHistoryStoreInstance;
+};
+
+/**
+ * Initialize the QueryHistoryStore
+ */
+export const initializeQueryHistoryStore = async (): Promise<void> => {
+  const queryHistoryStore = getQueryHistoryStore();
+  await queryHistoryStore.connect();
+};
+
+/**
+ * Shut down the QueryHistoryStore
+ */
+export const shutdownQueryHistoryStore = async (): Promise<void> => {
+  if (queryHistoryStoreInstance) {
+    await queryHistoryStoreInstance.disconnect();
+    queryHistoryStoreInstance = null;
+  }
+};
@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import { setImmediate } from 'timers';
+import { analyzeQuery } from '@perception/index';
+import { createQueryPlan } from '@planning/index';
+import { executeQueryPlan } from '@execution/index';
+import { StepExecutionObserver } from '@execution/step-observer';
+import { isConfidentEnough, throwIfAborted } from '@common/utils';
+import { logDebug, logInfo, logWarn, runWithLogContext } from '@common/logger';
+import { summarizeQueryResponse } from '@common/conversation';
+import { ErrorType, Principal } from '@common/types';
+import { QueryRequest } from '../common/types';
+import { EventType, EventStatus } from '../types/events';
+import { getEventStore } from './EventStore';
+import { getConversationStore } from './ConversationStore';
+import { getQueryRegistry } from './QueryRegistry';
+import { getAuditLog } from './AuditLog';
+import { getQueryHistoryStore } from './QueryHistoryStore';
+import { saveQueryResults } from './ResultExport';
+
+/**
+ * Identifiers of a started pipeline run
+ */
+export interface StartedQuery {
+  queryId: string;
+  conversationId: string;
+}
+
+/**
+ * Reason a query request may not start
+ */
+export interface QueryRequestRejection {
+  status: number;
+  error: string;
+}
+
+/**
+ * Check that a query request may start: the query ID must not belong to a previous query
+ * and only the owner of a conversation may continue it
+ * @param requestData Query request
+ * @param principal Authenticated caller
+ * @returns Rejection with its HTTP status, or undefined when the request may start
+ */
+export const checkQueryRequest = async (
+  requestData: Pick<QueryRequest, 'queryId' | 'conversationId'>,
+  principal?: Principal,
+): Promise<QueryRequestRejection | undefined> => {
+  const historyStore = getQueryHistoryStore();
+
+  if (
+    requestData.queryId &&
+    (getQueryRegistry().isRunning(requestData.queryId) ||
+      (await historyStore.get(requestData.queryId)))
+  ) {
+    return { status: 409, error: `Query ID ${requestData.queryId} is already in use` };
+  }
+
+  if (requestData.conversationId) {
+    const conversation = await getConversationStore().getConversation(requestData.conversationId);
+    if (!(await historyStore.isConversationOwnedBy(conversation, principal?.id))) {
+      return {
+        status: 403,
+        error: `Access denied: conversation ${requestData.conversationId} belongs to another user`,
+      };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Start the query pipeline (perception, planning, execution) in the background.
+ * Progress is reported through EventStore events of the returned queryId; the run is
+ * recorded in the audit log and in the query history of the user
+ * @param requestData Query request
+ * @param principal Authenticated caller
+ * @returns Query and conversation IDs, available before the pipeline finishes
+ * @throws INVALID_QUERY error when a query with the requested ID is already running
+ */
+export const startQueryPipeline = (
+  requestData: QueryRequest,
+  principal?: Principal,
+): StartedQuery => {
+  const eventStore = getEventStore();
+  const conversationStore = getConversationStore();
+  const queryId =
+    requestData.queryId ||
+    (crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2));
+  const conversationId = requestData.conversationId || conversationStore.generateConversationId();
+  const historyStore = getQueryHistoryStore();
+  logInfo(
+    `Query pipeline started: queryId=${queryId}, conversationId=${conversationId}, ` +
+      `user=${principal?.id}, query="${requestData.query}"`,
+  );
+  // Асинхронно запускаем pipeline; сообщения лога внутри него связаны с queryId.
+  // Сигнал прерывается при отмене клиентом или по истечении срока выполнения запроса
+  const queryRegistry = getQueryRegistry();
+  const signal = queryRegistry.start(queryId, requestData.timeoutMs);
+  // Журнал аудита фиксирует каждый запуск конвейера, в том числе отказы и ошибки
+  const auditTrail = getAuditLog().begin(queryId, requestData.query, principal, conversationId);
+  // Запись истории начинается до ответа клиенту: по ней проверяется владелец запроса
+  const historyStarted = historyStore.start({
+    queryId,
+    conversationId,
+    userId: principal?.id,
+    query: requestData.query,
+    language: requestData.language,
+    rerunOf: requestData.rerunOf,
+    status: 'running',
+    startedAt: Date.now(),
+  });
+  setImmediate(() =>
+    runWithLogContext({ queryId }, async () => {
+      try {
+        await historyStarted;
+        logDebug(`[PIPELINE] ${queryId} -> QUERY_RECEIVED`);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.QUERY_RECEIVED, EventStatus.COMPLETED, {
+            query: requestData.query,
+            language: requestData.language,
+            conversationId,
+            userId: principal?.id,
+            rerunOf: requestData.rerunOf,
+          }),
+        );
+        // История диалога для уточняющих запросов
+        const conversation = await conversationStore.getConversation(conversationId);
+        logDebug(`[PIPELINE] ${queryId} -> PERCEPTION_ANALYSIS STARTED`);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.PERCEPTION_ANALYSIS, EventStatus.STARTED, {
+            query: requestData.query,
+          }),
+        );
+        const perceptionResult = await analyzeQuery(
+          requestData.query,
+          conversation,
+          signal,
+          principal,
+        );
+        throwIfAborted(signal);
+        auditTrail.setPerception(perceptionResult);
+        logDebug(`[PIPELINE] ${queryId} -> PERCEPTION_ANALYSIS COMPLETED`, perceptionResult);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.PERCEPTION_ANALYSIS, EventStatus.COMPLETED, {
+            intent: perceptionResult.intent,
+            confidence: perceptionResult.confidence,
+          }),
+        );
+        // Сервисы, закрытые для пользователя, исключены из анализа; сообщаем об отказе клиенту
+        if (perceptionResult.deniedServices?.length) {
+          const error = `Access denied to services: ${perceptionResult.deniedServices.join(', ')}`;
+          logInfo(
+            `[PIPELINE] ${queryId} -> ACCESS_DENIED (perception)`,
+            perceptionResult.deniedServices,
+          );
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.ACCESS_DENIED, EventStatus.ERROR, {
+              stage: 'perception',
+              error,
+              services: perceptionResult.deniedServices,
+            }),
+          );
+          if (perceptionResult.requiredServices.length === 0) {
+            auditTrail.fail('access_denied', error, ErrorType.ACCESS_DENIED);
+            await eventStore.addEvent(
+              eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.ERROR, {
+                stepCount: 0,
+                error,
+                errorType: ErrorType.ACCESS_DENIED,
+              }),
+            );
+            return;
+          }
+        }
+        if (!isConfidentEnough(perceptionResult.confidence)) {
+          logInfo(`[PIPELINE] ${queryId} -> NOT CONFIDENT, COMPLETION`);
+          auditTrail.fail('not_confident', 'Not confident');
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.COMPLETED, {
+              stepCount: 0,
+              error: 'Not confident',
+            }),
+          );
+          return;
+        }
+        logDebug(`[PIPELINE] ${queryId} -> PLANNING STARTED`);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.PLANNING, EventStatus.STARTED),
+        );
+        const queryPlan = await createQueryPlan(
+          perceptionResult,
+          requestData.query,
+          conversation,
+          signal,
+          principal,
+        );
+        throwIfAborted(signal);
+        auditTrail.setPlan(queryPlan);
+        for (const deniedStep of queryPlan.deniedSteps || []) {
+          logInfo(`[PIPELINE] ${queryId} -> ACCESS_DENIED (planning)`, deniedStep.service);
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.ACCESS_DENIED, EventStatus.ERROR, {
+              stage: 'planning',
+              error: `Access denied: ${deniedStep.reason}`,
+              services: [deniedStep.service],
+              description: deniedStep.description,
+            }),
+          );
+        }
+        if (queryPlan.steps.length === 0 && queryPlan.deniedSteps?.length) {
+          auditTrail.fail(
+            'access_denied',
+            'Access denied to every step of the plan',
+            ErrorType.ACCESS_DENIED,
+          );
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.ERROR, {
+              stepCount: 0,
+              error: 'Access denied to every step of the plan',
+              errorType: ErrorType.ACCESS_DENIED,
+            }),
+          );
+          return;
+        }
+        logDebug(`[PIPELINE] ${queryId} -> PLANNING COMPLETED`, queryPlan);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.PLANNING, EventStatus.COMPLETED, {
+            stepCount: queryPlan.steps.length,
+            requiredServices: queryPlan.requiredServices,
+          }),
+        );
+        throwIfAborted(signal);
+        // Исполнитель сообщает о каждом реально выполняемом шаге; события пересылаются в EventStore
+        const reportedSteps = new Set<string>();
+        const stepObserver: StepExecutionObserver = {
+          onPlanPrepared: distributedPlan => auditTrail.setDistributedPlan(distributedPlan),
+          onStepStarted: async step => {
+            logDebug(`[PIPELINE] ${queryId} -> STEP_EXECUTION STARTED ${step.stepId}`);
+            await eventStore.addEvent(
+              eventStore.createEvent(queryId, EventType.STEP_EXECUTION, EventStatus.STARTED, {
+                ...step,
+              }),
+            );
+          },
+          onStepFinished: async outcome => {
+            const status = !outcome.error
+              ? EventStatus.COMPLETED
+              : outcome.errorType === ErrorType.CANCELLED
+                ? EventStatus.CANCELLED
+                : EventStatus.ERROR;
+            logDebug(
+              `[PIPELINE] ${queryId} -> STEP_EXECUTION ${status.toUpperCase()} ${outcome.stepId}`,
+            );
+            reportedSteps.add(outcome.stepId);
+            auditTrail.addStep(outcome);
+            await eventStore.addEvent(
+              eventStore.createEvent(queryId, EventType.STEP_EXECUTION, status, { ...outcome }),
+            );
+            if (outcome.errorType === ErrorType.ACCESS_DENIED) {
+              await eventStore.addEvent(
+                eventStore.createEvent(queryId, EventType.ACCESS_DENIED, EventStatus.ERROR, {
+                  stage: 'execution',
+                  error: outcome.error,
+                  services: [outcome.service],
+                  stepId: outcome.stepId,
+                  description: outcome.description,
+                }),
+              );
+            }
+          },
+          onRepairAttempt: async (step, attempt) => {
+            const status = attempt.succeeded ? EventStatus.COMPLETED : EventStatus.ERROR;
+            logDebug(
+              `[PIPELINE] ${queryId} -> SQL_REPAIR ${status.toUpperCase()} ${step.stepId} ` +
+                `attempt ${attempt.attempt}`,
+            );
+            await eventStore.addEvent(
+              eventStore.createEvent(queryId, EventType.SQL_REPAIR, status, {
+                stepId: step.stepId,
+                stepNumber: step.stepNumber,
+                totalSteps: step.totalSteps,
+                service: step.service,
+                description: step.description,
+                ...attempt,
+              }),
+            );
+          },
+        };
+        const response = await executeQueryPlan(queryPlan, requestData.query, {
+          signal,
+          observer: stepObserver,
+          principal,
+        });
+        throwIfAborted(signal);
+        // Ошибки, не относящиеся к выполненному шагу (например, отказ всего плана), отправляем отдельно
+        const planErrors = Object.entries(response.errors || {}).filter(
+          ([stepId]) => !reportedSteps.has(stepId),
+        );
+        for (const [stepId, error] of planErrors) {
+          logDebug(`[PIPELINE] ${queryId} -> SQL_EXECUTION ERROR ${stepId}`);
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.SQL_EXECUTION, EventStatus.ERROR, {
+              stepId,
+              error,
+              errorType: response.errorTypes?.[stepId],
+            }),
+          );
+        }
+        // Результаты шагов сохраняются для выгрузки; без них запрос все равно завершается
+        await saveQueryResults(queryId, response.data).catch(error =>
+          logWarn(`Failed to store results of query ${queryId} for export: ${error.message}`),
+        );
+        logDebug(`[PIPELINE] ${queryId} -> RESPONSE_GENERATION COMPLETED`, response);
+        auditTrail.complete(response);
+        await conversationStore.addTurn(conversationId, {
+          queryId,
+          query: requestData.query,
+          perception: perceptionResult,
+          plan: queryPlan,
+          resultSummary: summarizeQueryResponse(response),
+          timestamp: Date.now(),
+        });
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.RESPONSE_GENERATION, EventStatus.COMPLETED, {
+            data: response.data,
+            explanation: response.explanation,
+            confidence: response.confidence,
+            sql: response.sql,
+            visualization: response.visualization,
+            truncated: response.truncated,
+            rowCounts: response.rowCounts,
+            profiles: response.profiles,
+          }),
+        );
+        logDebug(`[PIPELINE] ${queryId} -> COMPLETION COMPLETED`);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.COMPLETED, {
+            stepCount: queryPlan.steps.length,
+          }),
+        );
+      } catch (error) {
+        if (signal.aborted) {
+          logInfo(`[PIPELINE] ${queryId} -> CANCELLED: ${String(signal.reason)}`);
+          auditTrail.fail('cancelled', (error as Error).message, ErrorType.CANCELLED);
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.CANCELLED, {
+              error: (error as Error).message,
+              reason: String(signal.reason),
+            }),
+          );
+          return;
+        }
+        logWarn(`[PIPELINE] ${queryId} -> ERROR: ${(error as Error).message}`);
+        auditTrail.fail('error', (error as Error).message, (error as { type?: ErrorType }).type);
+        await eventStore.addEvent(
+          eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.ERROR, {
+            error: (error as Error).message,
+          }),
+        );
+      } finally {
+        queryRegistry.finish(queryId);
+        await getAuditLog().write(auditTrail.toRecord());
+        // История хранит события запроса дольше, чем EventStore, чтобы можно было восстановить лог и результат
+        await historyStore.finish(queryId, await eventStore.getEvents(queryId));
+      }
+    }),
+  );
+
+  return { queryId, conversationId };
+};
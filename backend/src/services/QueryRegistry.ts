@@ -0,0 +1,133 @@
+import { logInfo } from '@common/logger';
+import { ErrorType } from '@common/types';
+import { createTypedError } from '@common/utils';
+
+/**
+ * Default overall deadline of a query pipeline; 0 disables the deadline
+ */
+const DEFAULT_QUERY_TIMEOUT_MS = parseInt(process.env.QUERY_TIMEOUT_MS || '300000', 10);
+
+/**
+ * Longest delay setTimeout supports; a longer one fires after 1 ms
+ */
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * A query whose pipeline is running
+ */
+interface RunningQuery {
+  controller: AbortController;
+  deadline?: NodeJS.Timeout;
+}
+
+/**
+ * Registry of queries whose pipeline is running in this process
+ */
+export class QueryRegistry {
+  private running: Map<string, RunningQuery> = new Map();
+
+  /**
+   * Constructor
+   * @param maxTimeoutMs Upper bound of the deadline of a query; 0 means no deadline
+   */
+  constructor(private readonly maxTimeoutMs: number = DEFAULT_QUERY_TIMEOUT_MS) {}
+
+  /**
+   * Register a running query
+   * @param queryId Query ID
+   * @param timeoutMs Deadline requested for this query; it cannot exceed the configured maximum
+   * @returns Signal that is aborted when the query is cancelled or runs past its deadline
+   * @throws INVALID_QUERY error when a query with this ID is already running
+   */
+  start(queryId: string, timeoutMs?: number): AbortSignal {
+    // A second run would replace the first one, which could then remove it or abort it by deadline
+    if (this.running.has(queryId)) {
+      throw createTypedError(ErrorType.INVALID_QUERY, `Query ${queryId} is already running`);
+    }
+
+    const controller = new AbortController();
+    const running: RunningQuery = { controller };
+
+    const deadlineMs = this.resolveTimeout(timeoutMs);
+    if (deadlineMs > 0) {
+      running.deadline = setTimeout(
+        () => this.cancel(queryId, `Deadline of ${deadlineMs}ms exceeded`),
+        deadlineMs,
+      );
+      running.deadline.unref();
+    }
+
+    this.running.set(queryId, running);
+    return controller.signal;
+  }
+
+  /**
+   * Cancel a running query
+   * @param queryId Query ID
+   * @param reason Cancellation reason
+   * @returns Whether a running query was found
+   */
+  cancel(queryId: string, reason: string = 'Cancelled by client'): boolean {
+    const running = this.running.get(queryId);
+    if (!running) {
+      return false;
+    }
+
+    if (!running.controller.signal.aborted) {
+      logInfo(`Cancelling query ${queryId}: ${reason}`);
+      running.controller.abort(reason);
+    }
+    return true;
+  }
+
+  /**
+   * Remove a query after its pipeline has finished
+   * @param queryId Query ID
+   */
+  finish(queryId: string): void {
+    const running = this.running.get(queryId);
+    if (running?.deadline) {
+      clearTimeout(running.deadline);
+    }
+    this.running.delete(queryId);
+  }
+
+  /**
+   * Check whether a query is running in this process
+   * @param queryId Query ID
+   */
+  isRunning(queryId: string): boolean {
+    return this.running.has(queryId);
+  }
+
+  /**
+   * Pick the deadline of a query: the requested one capped by the configured maximum
+   * and by the longest delay of setTimeout
+   */
+  private resolveTimeout(timeoutMs?: number): number {
+    const requested = timeoutMs && timeoutMs > 0 ? timeoutMs : 0;
+
+    if (this.maxTimeoutMs <= 0) {
+      return Math.min(requested, MAX_TIMEOUT_MS);
+    }
+
+    return Math.min(
+      requested > 0 ? Math.min(requested, this.maxTimeoutMs) : this.maxTimeoutMs,
+      MAX_TIMEOUT_MS,
+    );
+  }
+}
+
+// Singleton instance
+let queryRegistryInstance: QueryRegistry | null = null;
+
+/**
+ * Get the QueryRegistry instance
+ */
+export const getQueryRegistry = (): QueryRegistry => {
+  if (!queryRegistryInstance) {
+    queryRegistryInstance = new QueryRegistry();
+  }
+
+  return queryRegistryInstance;
+};
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { logInfo } from '@common/logger';
+import { objectsToCsv, safeJsonStringify } from '@common/utils';
+import { ReportRunResult, SavedReport } from '../types/reports';
+import { DeliveryFormat, ReportSchedule, ScheduleDelivery, ScheduleRun } from '../types/schedules';
+
+/**
+ * Root directory of delivered report files
+ */
+const DEFAULT_OUTPUT_DIR =
+  process.env.SCHEDULE_OUTPUT_DIR || path.join(process.cwd(), 'reports-output');
+
+/**
+ * How long a webhook may take to accept a delivery
+ */
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.SCHEDULE_WEBHOOK_TIMEOUT_MS || '30000', 10);
+
+/**
+ * Content types of the delivery formats
+ */
+const CONTENT_TYPES: Record<DeliveryFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+};
+
+/**
+ * Report result together with the run it belongs to
+ */
+export interface DeliveryContext {
+  report: SavedReport;
+  schedule: ReportSchedule;
+  run: ScheduleRun;
+  result: ReportRunResult;
+}
+
+/**
+ * Render the result of a report run: CSV of the rows or a JSON document describing the run
+ */
+export const formatDelivery = (format: DeliveryFormat, context: DeliveryContext): string => {
+  const { report, schedule, run, result } = context;
+
+  if (format === 'csv') {
+    return objectsToCsv(result.rows);
+  }
+
+  return safeJsonStringify({
+    reportId: report.id,
+    reportName: report.name,
+    scheduleId: schedule.id,
+    runId: run.id,
+    scheduledAt: new Date(run.scheduledAt).toISOString(),
+    parameters: result.parameters,
+    rowCount: result.rows.length,
+    rows: result.rows,
+  });
+};
+
+/**
+ * Resolve the directory of delivered files; schedules may only write inside the output root
+ */
+const resolveOutputDirectory = (directory: string | undefined, outputDir: string): string => {
+  const root = path.resolve(outputDir);
+  const resolved = path.resolve(root, directory || '.');
+
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`Delivery directory "${directory}" is outside of the report output directory`);
+  }
+  return resolved;
+};
+
+/**
+ * Check where a schedule delivers its results
+ * @param delivery Delivery settings
+ * @param outputDir Root directory of delivered files
+ * @throws Error describing invalid settings
+ */
+export const validateDelivery = (
+  delivery: ScheduleDelivery | undefined,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+): void => {
+  if (!delivery || (delivery.type !== 'file' && delivery.type !== 'webhook')) {
+    throw new Error('Delivery type must be "file" or "webhook"');
+  }
+  if (!(delivery.format in CONTENT_TYPES)) {
+    throw new Error('Delivery format must be "csv" or "json"');
+  }
+
+  if (delivery.type === 'file') {
+    resolveOutputDirectory(delivery.directory, outputDir);
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(delivery.url);
+  } catch {
+    throw new Error(`Invalid webhook URL "${delivery.url}"`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Webhook URL must use http or https, got "${url.protocol}"`);
+  }
+};
+
+/**
+ * File name of a delivered result: report name and the time the run was due
+ */
+const getFileName = (context: DeliveryContext, format: DeliveryFormat): string => {
+  const slug =
+    context.report.name
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || context.report.id;
+  const time = new Date(context.run.scheduledAt).toISOString().replace(/[:.]/g, '-');
+
+  return `${slug}-${time}.${format}`;
+};
+
+/**
+ * Deliver the result of a scheduled run to a file or a webhook
+ * @param delivery Delivery settings of the schedule
+ * @param context Report, schedule, run and result
+ * @param outputDir Root directory of delivered files
+ * @returns File path or webhook URL the result was delivered to
+ * @throws Error when the file cannot be written or the webhook does not accept the result
+ */
+export const deliverReport = async (
+  delivery: ScheduleDelivery,
+  context: DeliveryContext,
+  outputDir: string = DEFAULT_OUTPUT_DIR,
+): Promise<string> => {
+  const content = formatDelivery(delivery.format, context);
+
+  if (delivery.type === 'file') {
+    const directory = resolveOutputDirectory(delivery.directory, outputDir);
+    const filePath = path.join(directory, getFileName(context, delivery.format));
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(tempPath, content, 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+
+    logInfo(`Delivered run ${context.run.id} of report ${context.report.id} to ${filePath}`);
+    return filePath;
+  }
+
+  const response = await fetch(delivery.url, {
+    method: 'POST',
+    headers: {
+      ...delivery.headers,
+      'Content-Type': CONTENT_TYPES[delivery.format],
+      'X-Report-Id': context.report.id,
+      'X-Schedule-Id': context.schedule.id,
+      'X-Schedule-Run-Id': context.run.id,
+    },
+    body: content,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(
+      `Webhook ${delivery.url} responded ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+    );
+  }
+
+  logInfo(`Delivered run ${context.run.id} of report ${context.report.id} to ${delivery.url}`);
+  return delivery.url;
+};
@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logInfo } from '@common/logger';
+import { ErrorType, Principal } from '@common/types';
+import { createTypedError, serializeBigInt } from '@common/utils';
+import { distributedQueryProcessor } from '@execution/distributed-query';
+import { getAuditLog } from './AuditLog';
+import {
+  ReportParameter,
+  ReportParameterType,
+  ReportRunResult,
+  SavedReport,
+} from '../types/reports';
+
+/**
+ * Options of a report run
+ */
+export interface ReportRunOptions {
+  principal?: Principal;
+  signal?: AbortSignal;
+}
+
+/**
+ * Throw a validation error of a parameter value
+ */
+const invalidValue = (parameter: ReportParameter, message: string): never => {
+  throw createTypedError(ErrorType.INVALID_QUERY, `Parameter :${parameter.name} ${message}`);
+};
+
+/**
+ * Convert one value to the type of the parameter
+ */
+const coerceValue = (
+  parameter: ReportParameter,
+  type: ReportParameterType,
+  value: unknown,
+): unknown => {
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || !Number.isFinite(number)) {
+        return invalidValue(parameter, `expects a number, got "${value}"`);
+      }
+      if (type === 'integer' && !Number.isInteger(number)) {
+        return invalidValue(parameter, `expects an integer, got "${value}"`);
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true' || value === '1' || value === 1) return true;
+      if (value === false || value === 'false' || value === '0' || value === 0) return false;
+      return invalidValue(parameter, `expects true or false, got "${value}"`);
+    case 'date':
+      if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return invalidValue(parameter, `expects a date as YYYY-MM-DD, got "${value}"`);
+      }
+      if (Number.isNaN(Date.parse(`${value}T00:00:00.000Z`))) {
+        return invalidValue(parameter, `expects a valid date, got "${value}"`);
+      }
+      return new Date(`${value}T00:00:00.000Z`);
+    case 'timestamp': {
+      const time = typeof value === 'number' ? value : Date.parse(String(value));
+      if (Number.isNaN(time)) {
+        return invalidValue(parameter, `expects a timestamp, got "${value}"`);
+      }
+      return new Date(time);
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Check whether a value was left empty
+ */
+const isMissing = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check the values of a report run against its parameters and convert them to their types.
+ * Omitted values take the default; optional parameters without a value are bound as NULL
+ * @param parameters Parameters of the report
+ * @param values Values given by the caller, e.g. parsed from a JSON body or a form
+ * @returns Values by parameter name, ready to be bound
+ * @throws INVALID_QUERY error describing the first invalid value
+ */
+export const resolveReportParameters = (
+  parameters: ReportParameter[],
+  values: Record<string, unknown> = {},
+): Record<string, unknown> => {
+  const declared = new Set(parameters.map(parameter => parameter.name.toLowerCase()));
+  const unknown = Object.keys(values).filter(name => !declared.has(name.toLowerCase()));
+  if (unknown.length > 0) {
+    throw createTypedError(
+      ErrorType.INVALID_QUERY,
+      `Unknown parameters ${unknown.map(name => `:${name}`).join(', ')}`,
+    );
+  }
+
+  const resolved: Record<string, unknown> = {};
+
+  for (const parameter of parameters) {
+    const key = Object.keys(values).find(
+      name => name.toLowerCase() === parameter.name.toLowerCase(),
+    );
+    let value = key !== undefined ? values[key] : undefined;
+    if (isMissing(value)) {
+      value = parameter.default;
+    }
+
+    if (isMissing(value)) {
+      if (parameter.required ?? parameter.default === undefined) {
+        invalidValue(parameter, 'is required');
+      }
+      resolved[parameter.name] = null;
+      continue;
+    }
+
+    const items = parameter.list
+      ? Array.isArray(value)
+        ? value
+        : String(value)
+            .split(',')
+            .map(item => item.trim())
+            .filter(item => item !== '')
+      : [value];
+    if (!parameter.list && Array.isArray(value)) {
+      invalidValue(parameter, 'takes a single value');
+    }
+
+    const converted = items.map(item => coerceValue(parameter, parameter.type, item));
+
+    if (parameter.options?.length) {
+      const allowed = new Set(parameter.options.map(option => String(option)));
+      const rejected = items.filter(item => !allowed.has(String(item)));
+      if (rejected.length > 0) {
+        invalidValue(
+          parameter,
+          `expects one of ${parameter.options.join(', ')}, got "${rejected.join(', ')}"`,
+        );
+      }
+    }
+
+    resolved[parameter.name] = parameter.list ? converted : converted[0];
+  }
+
+  return resolved;
+};
+
+/**
+ * Run a saved report: the stored plan is executed with the given values and no LLM call.
+ * The run is written to the audit log like a pipeline run
+ * @param report Saved report
+ * @param values Parameter values
+ * @param options Caller and cancellation signal
+ * @throws INVALID_QUERY error when a value is invalid
+ */
+export const runReport = async (
+  report: SavedReport,
+  values: Record<string, unknown> = {},
+  options: ReportRunOptions = {},
+): Promise<ReportRunResult> => {
+  const { principal, signal } = options;
+  const parameters = resolveReportParameters(report.parameters, values);
+  const runId = uuidv4();
+  const startedAt = Date.now();
+  const sql: string[] = [];
+
+  const auditTrail = getAuditLog().begin(
+    runId,
+    `Report "${report.name}": ${report.question || report.id}`,
+    principal,
+  );
+  // Отдельный ID плана, чтобы промежуточные результаты параллельных запусков не смешивались
+  const plan = { ...report.plan, id: uuidv4() };
+
+  logInfo(`Running report ${report.id} "${report.name}" as ${runId}`);
+
+  try {
+    const result = await distributedQueryProcessor.executeDistributedPlan(plan, {
+      principal,
+      signal,
+      parameters,
+      observer: {
+        onPlanPrepared: prepared => auditTrail.setDistributedPlan(prepared),
+        onStepFinished: outcome => {
+          auditTrail.addStep(outcome);
+          (outcome.statements || []).forEach(statement => sql.push(statement.sql));
+        },
+      },
+    });
+
+    const data = serializeBigInt(result.intermediateResults || {});
+    const rows = serializeBigInt(result.finalResults);
+
+    if (result.errors && Object.keys(result.errors).length > 0) {
+      auditTrail.fail('error', Object.values(result.errors).join('; '));
+    } else {
+      auditTrail.complete({ data, explanation: `Report "${report.name}"`, confidence: 1 });
+    }
+
+    return {
+      reportId: report.id,
+      runId,
+      parameters,
+      rows,
+      data,
+      sql,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      errors: result.errors,
+      errorTypes: result.errorTypes,
+    };
+  } catch (error) {
+    auditTrail.fail(
+      signal?.aborted ? 'cancelled' : 'error',
+      (error as Error).message,
+      (error as { type?: ErrorType }).type,
+    );
+    throw error;
+  } finally {
+    await getAuditLog().write(auditTrail.toRecord());
+  }
+};
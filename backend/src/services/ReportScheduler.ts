@@ -0,0 +1,473 @@
+import { v4 as uuidv4 } from 'uuid';
+import { accessControl } from '@common/access-control';
+import { getNextCronTime, parseCron } from '@common/cron';
+import { logError, logInfo, logWarn } from '@common/logger';
+import { ErrorType, Principal } from '@common/types';
+import { createTypedError } from '@common/utils';
+import { getAuthService } from './AuthService';
+import { deliverReport, validateDelivery } from './ReportDelivery';
+import { resolveReportParameters, runReport } from './ReportRunner';
+import { getReportStore, ReportStore } from './ReportStore';
+import { getScheduleStore, ScheduleStore } from './ScheduleStore';
+import { ReportSchedule, ScheduleInput, ScheduleRun, ScheduleRunQuery } from '../types/schedules';
+
+/**
+ * Settings of the scheduler
+ */
+export interface SchedulerOptions {
+  tickMs?: number; // How often due schedules and retries are checked
+  retryBaseMs?: number; // Delay before the second attempt; doubles with every attempt
+  retryMaxMs?: number;
+  defaultMaxAttempts?: number;
+  outputDir?: string; // Root directory of delivered files
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SchedulerOptions, 'outputDir'>> = {
+  tickMs: parseInt(process.env.SCHEDULER_TICK_MS || '15000', 10),
+  retryBaseMs: parseInt(process.env.SCHEDULE_RETRY_BASE_MS || '60000', 10),
+  retryMaxMs: parseInt(process.env.SCHEDULE_RETRY_MAX_MS || '3600000', 10),
+  defaultMaxAttempts: parseInt(process.env.SCHEDULE_MAX_ATTEMPTS || '3', 10),
+};
+
+/**
+ * Upper bound of the attempts of one run
+ */
+const MAX_ATTEMPTS_LIMIT = 10;
+
+/**
+ * Throw a validation error of a schedule
+ */
+const invalid = (message: string): never => {
+  throw createTypedError(ErrorType.INVALID_QUERY, message);
+};
+
+/**
+ * Delay before the next attempt of a failed run: exponential backoff with an upper bound
+ * @param attempt Number of the attempt that failed, starting at 1
+ * @param baseMs Delay after the first attempt
+ * @param maxMs Maximum delay
+ */
+export const getRetryDelay = (attempt: number, baseMs: number, maxMs: number): number =>
+  Math.min(baseMs * 2 ** (attempt - 1), maxMs);
+
+/**
+ * Runs saved reports on cron schedules and delivers their results.
+ * Due schedules and pending retries are checked on a timer; a failed run is attempted again
+ * with backoff until it succeeds or runs out of attempts. Every run is kept in the run history
+ */
+export class ReportScheduler {
+  private readonly options: Required<Omit<SchedulerOptions, 'outputDir'>> &
+    Pick<SchedulerOptions, 'outputDir'>;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<void> | null = null;
+  private readonly inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * Constructor
+   * @param store Schedules and their runs
+   * @param reports Saved reports
+   * @param options Scheduler settings
+   */
+  constructor(
+    private readonly store: ScheduleStore = getScheduleStore(),
+    private readonly reports: ReportStore = getReportStore(),
+    options: SchedulerOptions = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start checking schedules on a timer
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error =>
+        logError(`Report scheduler tick failed: ${(error as Error).message}`),
+      );
+    }, this.options.tickMs);
+    this.timer.unref();
+
+    logInfo(`Report scheduler started, checking every ${this.options.tickMs} ms`);
+  }
+
+  /**
+   * Stop the timer and wait for the runs in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.ticking;
+    await Promise.all(this.inFlight.values());
+  }
+
+  /**
+   * Schedule a saved report
+   * @param input Schedule definition
+   * @param principal Caller; runs are executed with their access rights
+   * @throws INVALID_QUERY error when the definition is invalid
+   */
+  async create(input: ScheduleInput, principal?: Principal): Promise<ReportSchedule> {
+    const now = Date.now();
+    const schedule: ReportSchedule = {
+      id: uuidv4(),
+      reportId: input.reportId || '',
+      cron: input.cron || '',
+      parameters: input.parameters || {},
+      delivery: input.delivery as ReportSchedule['delivery'],
+      enabled: input.enabled ?? true,
+      maxAttempts: input.maxAttempts ?? this.options.defaultMaxAttempts,
+      owner: principal || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.validate(schedule);
+    schedule.nextRunAt = schedule.enabled
+      ? getNextCronTime(schedule.cron, new Date(now)).getTime()
+      : undefined;
+
+    await this.store.saveSchedule(schedule);
+    logInfo(`Scheduled report ${schedule.reportId} as ${schedule.id} (${schedule.cron})`);
+    return schedule;
+  }
+
+  /**
+   * List the schedules a caller may manage: their own, or all with the admin permission
+   * @param principal Caller
+   */
+  async list(principal?: Principal): Promise<ReportSchedule[]> {
+    return (await this.store.listSchedules()).filter(schedule =>
+      accessControl.canManage(principal, schedule.owner?.id),
+    );
+  }
+
+  /**
+   * Get a schedule the caller may manage; a schedule of another user is reported as missing
+   * @param id Schedule ID
+   * @param principal Caller
+   */
+  async get(id: string, principal?: Principal): Promise<ReportSchedule | undefined> {
+    const schedule = await this.store.getSchedule(id);
+    return schedule && accessControl.canManage(principal, schedule.owner?.id)
+      ? schedule
+      : undefined;
+  }
+
+  /**
+   * Update a schedule; omitted fields keep their values
+   * @param id Schedule ID
+   * @param input Changed fields
+   * @param principal Caller; the schedule keeps its owner
+   * @returns Updated schedule, or undefined when it does not exist or belongs to another user
+   */
+  async update(
+    id: string,
+    input: ScheduleInput,
+    principal?: Principal,
+  ): Promise<ReportSchedule | undefined> {
+    const existing = await this.get(id, principal);
+    if (!existing) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const schedule: ReportSchedule = {
+      ...existing,
+      reportId: input.reportId ?? existing.reportId,
+      cron: input.cron ?? existing.cron,
+      parameters: input.parameters ?? existing.parameters,
+      delivery: input.delivery ?? existing.delivery,
+      enabled: input.enabled ?? existing.enabled,
+      maxAttempts: input.maxAttempts ?? existing.maxAttempts,
+      updatedAt: now,
+    };
+
+    await this.validate(schedule);
+    schedule.nextRunAt = schedule.enabled
+      ? getNextCronTime(schedule.cron, new Date(now)).getTime()
+      : undefined;
+
+    await this.store.saveSchedule(schedule);
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule and its run history
+   * @param id Schedule ID
+   * @param principal Caller
+   * @returns Whether the schedule existed and the caller may manage it
+   */
+  async delete(id: string, principal?: Principal): Promise<boolean> {
+    if (!(await this.get(id, principal))) {
+      return false;
+    }
+
+    return this.store.deleteSchedule(id);
+  }
+
+  /**
+   * Run a schedule now, outside of its cron times. The run continues in the background
+   * @param id Schedule ID
+   * @param principal Caller
+   * @returns The started run, or undefined when the schedule does not exist
+   * or belongs to another user
+   */
+  async trigger(id: string, principal?: Principal): Promise<ScheduleRun | undefined> {
+    const schedule = await this.get(id, principal);
+    if (!schedule) {
+      return undefined;
+    }
+
+    return this.startRun(schedule, Date.now(), true);
+  }
+
+  /**
+   * Search the runs of the schedules a caller may manage, newest first
+   * @param query Search filter
+   * @param principal Caller
+   */
+  async listRuns(query: ScheduleRunQuery, principal?: Principal): Promise<ScheduleRun[]> {
+    if (!principal || accessControl.hasPermission(principal, 'admin')) {
+      return this.store.listRuns(query);
+    }
+
+    const schedules = await this.list(principal);
+    return this.store.listRuns({ ...query, scheduleIds: schedules.map(schedule => schedule.id) });
+  }
+
+  /**
+   * Start the runs of due schedules and the due attempts of failed runs
+   * @param now Current time
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    // Следующая проверка не начинается, пока не закончилась предыдущая
+    if (this.ticking) return;
+
+    this.ticking = (async (): Promise<void> => {
+      for (const schedule of await this.store.listSchedules()) {
+        if (!schedule.enabled || !schedule.nextRunAt || schedule.nextRunAt > now) continue;
+
+        // Пропущенные запуски (сервер был остановлен) выполняются один раз, а не за каждый срок
+        const scheduledAt = schedule.nextRunAt;
+        await this.store.saveSchedule({
+          ...schedule,
+          nextRunAt: getNextCronTime(schedule.cron, new Date(now)).getTime(),
+          lastRunAt: now,
+        });
+        await this.startRun(schedule, scheduledAt, false);
+      }
+
+      // Прогоны в статусе running без выполнения остались после перезапуска сервера
+      const pending = [
+        ...(await this.store.listRuns({ status: 'retrying', limit: 500 })),
+        ...(await this.store.listRuns({ status: 'running', limit: 500 })),
+      ].filter(
+        run =>
+          !this.inFlight.has(run.id) &&
+          (run.status === 'running' || (run.nextAttemptAt || 0) <= now),
+      );
+      for (const run of pending) {
+        this.runAttempt(run);
+      }
+    })();
+
+    try {
+      await this.ticking;
+    } finally {
+      this.ticking = null;
+    }
+  }
+
+  /**
+   * Wait until the runs in progress finish
+   */
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight.values());
+    }
+  }
+
+  /**
+   * Check a schedule before it is saved
+   */
+  private async validate(schedule: ReportSchedule): Promise<void> {
+    const report = await this.reports.get(schedule.reportId);
+    if (!report) {
+      return invalid(`Report ${schedule.reportId} not found`);
+    }
+
+    try {
+      parseCron(schedule.cron);
+      getNextCronTime(schedule.cron, new Date());
+      validateDelivery(schedule.delivery, this.options.outputDir);
+    } catch (error) {
+      invalid((error as Error).message);
+    }
+
+    if (
+      !Number.isInteger(schedule.maxAttempts) ||
+      schedule.maxAttempts < 1 ||
+      schedule.maxAttempts > MAX_ATTEMPTS_LIMIT
+    ) {
+      invalid(`maxAttempts must be an integer from 1 to ${MAX_ATTEMPTS_LIMIT}`);
+    }
+
+    // Значения параметров проверяются сразу, а не при первом запуске
+    resolveReportParameters(report.parameters, schedule.parameters);
+  }
+
+  /**
+   * Record a new run and make its first attempt in the background
+   */
+  private async startRun(
+    schedule: ReportSchedule,
+    scheduledAt: number,
+    manual: boolean,
+  ): Promise<ScheduleRun> {
+    const run: ScheduleRun = {
+      id: uuidv4(),
+      scheduleId: schedule.id,
+      reportId: schedule.reportId,
+      scheduledAt,
+      manual,
+      status: 'running',
+      attempts: [],
+    };
+
+    await this.store.saveRun(run);
+    logInfo(`Starting run ${run.id} of schedule ${schedule.id}`);
+    this.runAttempt(run);
+
+    return run;
+  }
+
+  /**
+   * Make an attempt of a run without waiting for it
+   */
+  private runAttempt(run: ScheduleRun): void {
+    const attempt = this.attempt(run)
+      .catch(error => logError(`Scheduled run ${run.id} failed: ${(error as Error).message}`))
+      .finally(() => this.inFlight.delete(run.id));
+
+    this.inFlight.set(run.id, attempt);
+  }
+
+  /**
+   * Run the report and deliver its result; a failure is retried with backoff
+   * unless it cannot succeed later (invalid parameters, deleted report)
+   */
+  private async attempt(run: ScheduleRun): Promise<void> {
+    const number = run.attempts.length + 1;
+    const startedAt = Date.now();
+    const schedule = await this.store.getSchedule(run.scheduleId);
+    let reportRunId: string | undefined;
+    let maxAttempts = 1;
+
+    run.status = 'running';
+    run.nextAttemptAt = undefined;
+
+    try {
+      if (!schedule) {
+        return invalid(`Schedule ${run.scheduleId} no longer exists`);
+      }
+      maxAttempts = schedule.maxAttempts;
+
+      const report = await this.reports.get(schedule.reportId);
+      if (!report) {
+        return invalid(`Report ${schedule.reportId} no longer exists`);
+      }
+
+      // Права владельца читаются заново: роли, отнятые после создания расписания, не действуют
+      const result = await runReport(report, schedule.parameters, {
+        principal: schedule.owner ? getAuthService().refreshPrincipal(schedule.owner) : undefined,
+      });
+      reportRunId = result.runId;
+
+      if (result.errors && Object.keys(result.errors).length > 0) {
+        throw new Error(
+          Object.entries(result.errors)
+            .map(([stepId, error]) => `${stepId}: ${error}`)
+            .join('; '),
+        );
+      }
+
+      run.deliveredTo = await deliverReport(
+        schedule.delivery,
+        { report, schedule, run, result },
+        this.options.outputDir,
+      );
+      run.status = 'succeeded';
+      run.rowCount = result.rows.length;
+      run.error = undefined;
+      run.finishedAt = Date.now();
+      run.attempts.push({ attempt: number, startedAt, finishedAt: run.finishedAt, reportRunId });
+    } catch (error) {
+      const message = (error as Error).message;
+      const permanent = (error as { type?: ErrorType }).type === ErrorType.INVALID_QUERY;
+      const finishedAt = Date.now();
+
+      run.error = message;
+      run.attempts.push({ attempt: number, startedAt, finishedAt, reportRunId, error: message });
+
+      if (!permanent && number < maxAttempts) {
+        const delay = getRetryDelay(number, this.options.retryBaseMs, this.options.retryMaxMs);
+        run.status = 'retrying';
+        run.nextAttemptAt = finishedAt + delay;
+        logWarn(`Attempt ${number} of run ${run.id} failed, retrying in ${delay} ms: ${message}`);
+      } else {
+        run.status = 'failed';
+        run.finishedAt = finishedAt;
+        logError(
+          `Run ${run.id} of schedule ${run.scheduleId} failed after ${number} attempts: ${message}`,
+        );
+      }
+    } finally {
+      // Расписание могли удалить во время выполнения вместе с историей прогонов
+      const current = await this.store.getSchedule(run.scheduleId);
+      if (current) {
+        await this.store.saveRun(run);
+        await this.store.saveSchedule({ ...current, lastStatus: run.status });
+      }
+    }
+  }
+}
+
+// Singleton instance
+let reportSchedulerInstance: ReportScheduler | null = null;
+
+/**
+ * Get the ReportScheduler instance
+ */
+export const getReportScheduler = (): ReportScheduler => {
+  if (!reportSchedulerInstance) {
+    reportSchedulerInstance = new ReportScheduler();
+  }
+
+  return reportSchedulerInstance;
+};
+
+/**
+ * Start the report scheduler unless it is disabled with SCHEDULER_ENABLED=false
+ */
+export const startReportScheduler = (): void => {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    logInfo('Report scheduler is disabled');
+    return;
+  }
+
+  getReportScheduler().start();
+};
+
+/**
+ * Stop the report scheduler
+ */
+export const stopReportScheduler = async (): Promise<void> => {
+  if (reportSchedulerInstance) {
+    await reportSchedulerInstance.stop();
+  }
+};
@@ -0,0 +1,319 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { accessControl } from '@common/access-control';
+import { JsonFile, JsonFileFormat } from '@common/json-file';
+import { logInfo } from '@common/logger';
+import { ErrorType, Principal, QueryPlan } from '@common/types';
+import { createTypedError } from '@common/utils';
+import { DistributedQueryPlan } from '@execution/distributed-query';
+import { findPlaceholders, normalizePlaceholders } from '@execution/parameter-binding';
+import { distributedPlanBuilder } from '@planning/distributed-plan-builder';
+import { getAuditLog } from './AuditLog';
+import { ReportInput, ReportParameterType, SavedReport } from '../types/reports';
+
+/**
+ * Default file of the saved reports
+ */
+const DEFAULT_REPORTS_FILE =
+  process.env.REPORTS_FILE || path.join(process.cwd(), 'data', 'reports.json');
+
+const PARAMETER_TYPES: ReportParameterType[] = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'timestamp',
+];
+
+/**
+ * Throw a validation error of a report definition
+ */
+const invalid = (message: string): never => {
+  throw createTypedError(ErrorType.INVALID_QUERY, message);
+};
+
+/**
+ * Check that a caller may change a report: its author or a user with the admin permission
+ */
+const assertCanManage = (report: SavedReport, principal?: Principal): void => {
+  if (!accessControl.canManage(principal, report.createdBy)) {
+    throw createTypedError(
+      ErrorType.ACCESS_DENIED,
+      `Access denied: report ${report.id} belongs to another user`,
+    );
+  }
+};
+
+/**
+ * Check whether a plan is already distributed (has step IDs and a final step)
+ */
+const isDistributedPlan = (plan: DistributedQueryPlan | QueryPlan): plan is DistributedQueryPlan =>
+  'finalStepId' in plan;
+
+/**
+ * Check the parameters of a report and the placeholders of its SQL.
+ * Every :name placeholder must be a report parameter or come from a step the SQL depends on,
+ * and every parameter must be used by at least one step
+ * @param report Report to check
+ * @throws INVALID_QUERY error describing the first problem
+ */
+export const validateReport = (report: SavedReport): void => {
+  if (!report.name?.trim()) {
+    invalid('Report name is required');
+  }
+
+  const declared = new Set<string>();
+  for (const parameter of report.parameters) {
+    if (!/^[A-Za-z_]\w*$/.test(parameter.name || '')) {
+      invalid(`Invalid parameter name "${parameter.name}", expected a SQL identifier`);
+    }
+    if (declared.has(parameter.name.toLowerCase())) {
+      invalid(`Parameter :${parameter.name} is declared twice`);
+    }
+    if (!PARAMETER_TYPES.includes(parameter.type)) {
+      invalid(
+        `Parameter :${parameter.name} has invalid type "${parameter.type}", expected one of ${PARAMETER_TYPES.join(', ')}`,
+      );
+    }
+    declared.add(parameter.name.toLowerCase());
+  }
+
+  const { plan } = report;
+  if (!plan?.steps?.length) {
+    invalid('Report plan has no steps');
+  }
+  if (!plan.steps.some(step => step.id === plan.finalStepId)) {
+    invalid(`Final step ${plan.finalStepId} is not a step of the report plan`);
+  }
+
+  const used = new Set<string>();
+  for (const step of plan.steps) {
+    if (step.isInMemory || !step.sqlQuery) continue;
+
+    for (const placeholder of findPlaceholders(step.sqlQuery)) {
+      const name = placeholder.name.toLowerCase();
+      if (declared.has(name)) {
+        used.add(name);
+      } else if (step.dependsOn.length === 0) {
+        invalid(
+          `Step ${step.id} uses :${placeholder.name}, which is neither a report parameter nor a column of a step it depends on`,
+        );
+      }
+    }
+  }
+
+  const unused = report.parameters.filter(parameter => !used.has(parameter.name.toLowerCase()));
+  if (unused.length > 0) {
+    invalid(
+      `Parameters ${unused.map(parameter => `:${parameter.name}`).join(', ')} are not used by any step`,
+    );
+  }
+};
+
+/**
+ * Reports file: an array of the saved reports
+ */
+const REPORTS_FORMAT: JsonFileFormat<Map<string, SavedReport>> = {
+  name: 'saved reports',
+  parse: data => new Map((data as SavedReport[]).map(report => [report.id, report])),
+  empty: () => new Map(),
+  serialize: reports => Array.from(reports.values()),
+  count: reports => reports.size,
+};
+
+/**
+ * Saved parameterized reports.
+ * Reports are kept in one JSON file, so they survive restarts and can be reviewed and shared
+ * like the other files in data/
+ */
+export class ReportStore {
+  private readonly file: JsonFile<Map<string, SavedReport>>;
+
+  /**
+   * Constructor
+   * @param filePath File of the saved reports
+   */
+  constructor(filePath: string = DEFAULT_REPORTS_FILE) {
+    this.file = new JsonFile(filePath, REPORTS_FORMAT);
+  }
+
+  /**
+   * List reports by name
+   */
+  async list(): Promise<SavedReport[]> {
+    const reports = await this.file.load();
+    return Array.from(reports.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a report
+   * @param id Report ID
+   */
+  async get(id: string): Promise<SavedReport | undefined> {
+    return (await this.file.load()).get(id);
+  }
+
+  /**
+   * Save a new report
+   * @param input Report definition
+   * @param principal Caller; a plan taken from a past run must be their own
+   * @throws INVALID_QUERY error when the definition is invalid
+   */
+  async create(input: ReportInput, principal?: Principal): Promise<SavedReport> {
+    const now = Date.now();
+    const { plan, question } = await this.resolvePlan(input, principal);
+
+    const report: SavedReport = {
+      id: uuidv4(),
+      name: input.name?.trim() || '',
+      description: input.description,
+      question: input.question || question,
+      parameters: input.parameters || [],
+      plan,
+      sourceQueryId: input.sourceQueryId,
+      createdBy: principal?.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    validateReport(report);
+
+    const reports = await this.file.load();
+    reports.set(report.id, report);
+    await this.file.save();
+
+    logInfo(`Saved report ${report.id} "${report.name}"`);
+    return report;
+  }
+
+  /**
+   * Update a report; omitted fields keep their values
+   * @param id Report ID
+   * @param input Changed fields
+   * @param principal Caller; only the author or an admin may change the report
+   * @returns Updated report, or undefined when it does not exist
+   * @throws ACCESS_DENIED error when the report belongs to another user
+   */
+  async update(
+    id: string,
+    input: ReportInput,
+    principal?: Principal,
+  ): Promise<SavedReport | undefined> {
+    const reports = await this.file.load();
+    const existing = reports.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    assertCanManage(existing, principal);
+
+    const { plan, question } = await this.resolvePlan(input, principal, existing);
+    const report: SavedReport = {
+      ...existing,
+      name: input.name !== undefined ? input.name.trim() : existing.name,
+      description: input.description !== undefined ? input.description : existing.description,
+      question: input.question || question,
+      parameters: input.parameters || existing.parameters,
+      plan,
+      sourceQueryId: input.sourceQueryId || existing.sourceQueryId,
+      updatedAt: Date.now(),
+    };
+    validateReport(report);
+
+    reports.set(id, report);
+    await this.file.save();
+    return report;
+  }
+
+  /**
+   * Delete a report
+   * @param id Report ID
+   * @param principal Caller; only the author or an admin may delete the report
+   * @returns Whether the report existed
+   * @throws ACCESS_DENIED error when the report belongs to another user
+   */
+  async delete(id: string, principal?: Principal): Promise<boolean> {
+    const reports = await this.file.load();
+    const existing = reports.get(id);
+    if (!existing) {
+      return false;
+    }
+    assertCanManage(existing, principal);
+
+    const deleted = reports.delete(id);
+
+    if (deleted) {
+      await this.file.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * Build the plan of a report from the request: a plan given directly, the plan of a past run
+   * or the current plan, with the SQL of some steps replaced
+   */
+  private async resolvePlan(
+    input: ReportInput,
+    principal?: Principal,
+    existing?: SavedReport,
+  ): Promise<{ plan: DistributedQueryPlan; question?: string }> {
+    let plan: DistributedQueryPlan;
+    let question = existing?.question;
+
+    if (input.sourceQueryId) {
+      const record = await getAuditLog().get(input.sourceQueryId);
+      if (!record || (principal && record.user?.id !== principal.id)) {
+        return invalid(`Query ${input.sourceQueryId} is not among your past runs`);
+      }
+      if (record.status !== 'completed' || record.steps.some(step => step.error)) {
+        return invalid(`Query ${input.sourceQueryId} did not complete without errors`);
+      }
+
+      const sourcePlan =
+        record.distributedPlan ||
+        (record.plan ? distributedPlanBuilder.convertToDQL(record.plan, record.query) : undefined);
+      if (!sourcePlan) {
+        return invalid(`Query ${input.sourceQueryId} has no plan`);
+      }
+      plan = sourcePlan;
+      question = record.query;
+    } else if (input.plan) {
+      plan = isDistributedPlan(input.plan)
+        ? input.plan
+        : distributedPlanBuilder.convertToDQL(input.plan, input.question || input.name || '');
+    } else if (existing) {
+      plan = existing.plan;
+    } else {
+      return invalid('Either plan or sourceQueryId is required');
+    }
+
+    // Копия плана: правки SQL не должны менять исходный план
+    plan = JSON.parse(JSON.stringify(plan)) as DistributedQueryPlan;
+
+    for (const [stepId, sql] of Object.entries(input.stepSql || {})) {
+      const step = plan.steps.find(candidate => candidate.id === stepId);
+      if (!step || step.isInMemory) {
+        return invalid(`Step ${stepId} is not an SQL step of the report plan`);
+      }
+
+      step.sqlQuery = normalizePlaceholders(sql, step.parameters || []);
+      const names = findPlaceholders(step.sqlQuery).map(placeholder => placeholder.name);
+      step.parameters = names.length > 0 ? Array.from(new Set(names)) : undefined;
+    }
+
+    return { plan, question };
+  }
+}
+
+// Singleton instance
+let reportStoreInstance: ReportStore | null = null;
+
+/**
+ * Get the ReportStore instance
+ */
+export const getReportStore = (): ReportStore => {
+  if (!reportStoreInstance) {
+    reportStoreInstance = new ReportStore();
+  }
+
+  return reportStoreInstance;
+};
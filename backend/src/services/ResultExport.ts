@@ -0,0 +1,263 @@
+import { resultStore } from '@common/result-store';
+import { logDebug, logWarn } from '@common/logger';
+import { ErrorType } from '@common/types';
+import {
+  collectColumns,
+  createTypedError,
+  formatCsvRow,
+  isDecimalLike,
+  safeJsonStringify,
+} from '@common/utils';
+import { generateXlsx, XlsxCellValue } from '@common/xlsx';
+
+/**
+ * Formats a query result can be downloaded in
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+/**
+ * Content type and file extension of each export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+};
+
+/**
+ * Step whose result is exported when no step is requested
+ */
+const FINAL_STEP = 'final';
+
+/**
+ * Rows formatted at once before they are handed to the response
+ */
+const ROWS_PER_CHUNK = 500;
+
+/**
+ * Result of a query step loaded for export
+ */
+export interface ExportableResult {
+  queryId: string;
+  step: string;
+  steps: string[]; // All steps with a stored result
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Key of the list of stored steps of a query
+ */
+const getIndexKey = (queryId: string): string => `export:${queryId}`;
+
+/**
+ * Key of the stored result of a step
+ */
+const getStepKey = (queryId: string, step: string): string => `export:${queryId}:${step}`;
+
+/**
+ * Keep the results of every step of a finished query so they can be exported.
+ * The results expire together with the other data of resultStore
+ * @param queryId Query ID
+ * @param data Rows of each step: step IDs and "final" for distributed plans, service names otherwise
+ */
+export const saveQueryResults = async (
+  queryId: string,
+  data: Record<string, Record<string, unknown>[]>,
+): Promise<void> => {
+  const steps = Object.entries(data).filter(([, rows]) => Array.isArray(rows));
+
+  // Результаты предыдущего запуска с тем же ID не должны остаться среди шагов
+  await resultStore.clear(getIndexKey(queryId));
+  for (const [step, rows] of steps) {
+    await resultStore.store(getStepKey(queryId, step), rows);
+  }
+  await resultStore.store(
+    getIndexKey(queryId),
+    steps.map(([step, rows]) => ({ step, rowCount: rows.length })),
+  );
+  logDebug(`Stored ${steps.length} step results of query ${queryId} for export`);
+};
+
+/**
+ * Load the result of a query step
+ * @param queryId Query ID
+ * @param step Step ID; by default the final result, or the last step when the plan has no final step
+ * @returns The result, or undefined when the query has no stored results (unknown or expired)
+ * @throws INVALID_QUERY error when the query has no such step
+ */
+export const loadQueryResult = async (
+  queryId: string,
+  step?: string,
+): Promise<ExportableResult | undefined> => {
+  const index = await resultStore.get(getIndexKey(queryId));
+  const steps = index.map(entry => String(entry.step));
+
+  if (steps.length === 0) {
+    return undefined;
+  }
+
+  const selected = step || (steps.includes(FINAL_STEP) ? FINAL_STEP : steps[steps.length - 1]);
+  if (!steps.includes(selected)) {
+    throw createTypedError(
+      ErrorType.INVALID_QUERY,
+      `Query ${queryId} has no step "${selected}". Available steps: ${steps.join(', ')}`,
+    );
+  }
+
+  const key = getStepKey(queryId, selected);
+  if (!(await resultStore.exists(key))) {
+    logWarn(`Result of step ${selected} of query ${queryId} has expired`);
+    return undefined;
+  }
+
+  return { queryId, step: selected, steps, rows: await resultStore.get(key) };
+};
+
+/**
+ * Convert a value to plain JSON: BigInt and decimals become exact strings, binary data base64,
+ * dates ISO strings; arrays and objects such as txIds keep their structure
+ */
+const toJsonValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'bigint' || isDecimalLike(value)) {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        toJsonValue(item),
+      ]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Dates read back from Redis are ISO strings
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Numbers stored as strings (BigInt, decimals) that a spreadsheet can hold without losing digits
+ */
+const SAFE_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+const MAX_SPREADSHEET_DIGITS = 15;
+
+/**
+ * Convert a value to a spreadsheet cell: numbers and dates stay typed so they can be summed
+ * and sorted, long identifiers stay text, arrays and objects become JSON
+ */
+const toXlsxValue = (value: unknown): XlsxCellValue => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'bigint' || isDecimalLike(value)) {
+    return toXlsxValue(value.toString());
+  }
+  if (typeof value === 'string') {
+    if (
+      SAFE_NUMBER_PATTERN.test(value) &&
+      value.replace(/[-.]/g, '').replace(/^0+/, '').length <= MAX_SPREADSHEET_DIGITS
+    ) {
+      return Number(value);
+    }
+    if (ISO_DATE_PATTERN.test(value)) {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+  }
+  return safeJsonStringify(toJsonValue(value));
+};
+
+/**
+ * CSV with a byte order mark so that spreadsheets detect UTF-8, lines separated by CRLF
+ */
+async function* generateCsv(rows: Record<string, unknown>[]): AsyncGenerator<string> {
+  const columns = collectColumns(rows);
+  yield `\uFEFF${formatCsvRow(columns)}\r\n`;
+
+  for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+    yield rows
+      .slice(start, start + ROWS_PER_CHUNK)
+      .map(row => `${formatCsvRow(columns.map(column => row[column]))}\r\n`)
+      .join('');
+  }
+}
+
+/**
+ * JSON Lines: one JSON object per row
+ */
+async function* generateJsonLines(rows: Record<string, unknown>[]): AsyncGenerator<string> {
+  for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+    yield rows
+      .slice(start, start + ROWS_PER_CHUNK)
+      .map(row => `${JSON.stringify(toJsonValue(row))}\n`)
+      .join('');
+  }
+}
+
+/**
+ * Render rows in an export format chunk by chunk, so a large result is written to the
+ * response as the client reads it instead of being built in memory as one string
+ * @param format Export format
+ * @param rows Result rows
+ * @param sheetName Worksheet name of an XLSX export
+ * @returns Chunks of the file
+ */
+export const generateExport = (
+  format: ExportFormat,
+  rows: Record<string, unknown>[],
+  sheetName?: string,
+): AsyncGenerator<string | Buffer> => {
+  switch (format) {
+    case 'csv':
+      return generateCsv(rows);
+    case 'jsonl':
+      return generateJsonLines(rows);
+    case 'xlsx': {
+      const columns = collectColumns(rows);
+      const cells = function* (): Generator<XlsxCellValue[]> {
+        for (const row of rows) {
+          yield columns.map(column => toXlsxValue(row[column]));
+        }
+      };
+      return generateXlsx(columns, cells(), sheetName);
+    }
+  }
+};
+
+/**
+ * Check an export format requested by a client
+ * @param format Format from the query string; CSV by default
+ * @throws INVALID_QUERY error for an unsupported format
+ */
+export const parseExportFormat = (format: string | null): ExportFormat => {
+  const value = (format || 'csv').toLowerCase();
+
+  if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)) {
+    throw createTypedError(
+      ErrorType.INVALID_QUERY,
+      `Unsupported export format "${format}". Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`,
+    );
+  }
+  return value as ExportFormat;
+};
@@ -0,0 +1,149 @@
+import path from 'path';
+import { JsonFile, JsonFileFormat } from '@common/json-file';
+import { ReportSchedule, ScheduleRun, ScheduleRunQuery } from '../types/schedules';
+
+/**
+ * Default file of the report schedules and their runs
+ */
+const DEFAULT_SCHEDULES_FILE =
+  process.env.SCHEDULES_FILE || path.join(process.cwd(), 'data', 'schedules.json');
+
+/**
+ * Runs kept per schedule; older runs are dropped
+ */
+const MAX_RUNS_PER_SCHEDULE = 100;
+
+/**
+ * Default and maximum number of runs returned by a search
+ */
+const DEFAULT_RUN_LIMIT = 50;
+const MAX_RUN_LIMIT = 500;
+
+/**
+ * Content of the schedules file
+ */
+interface ScheduleFile {
+  schedules: ReportSchedule[];
+  runs: ScheduleRun[];
+}
+
+/**
+ * Schedules file: schedules and their runs
+ */
+const SCHEDULES_FORMAT: JsonFileFormat<ScheduleFile> = {
+  name: 'report schedules',
+  parse: content => {
+    const parsed = content as Partial<ScheduleFile>;
+    return { schedules: parsed.schedules || [], runs: parsed.runs || [] };
+  },
+  empty: () => ({ schedules: [], runs: [] }),
+  serialize: data => data,
+  count: data => data.schedules.length,
+};
+
+/**
+ * Report schedules and the history of their runs, kept in one JSON file
+ */
+export class ScheduleStore {
+  private readonly file: JsonFile<ScheduleFile>;
+
+  /**
+   * Constructor
+   * @param filePath File of the schedules
+   */
+  constructor(filePath: string = DEFAULT_SCHEDULES_FILE) {
+    this.file = new JsonFile(filePath, SCHEDULES_FORMAT);
+  }
+
+  /**
+   * List schedules, oldest first
+   */
+  async listSchedules(): Promise<ReportSchedule[]> {
+    const { schedules } = await this.file.load();
+    return [...schedules].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Get a schedule
+   * @param id Schedule ID
+   */
+  async getSchedule(id: string): Promise<ReportSchedule | undefined> {
+    return (await this.file.load()).schedules.find(schedule => schedule.id === id);
+  }
+
+  /**
+   * Create or replace a schedule
+   * @param schedule Schedule
+   */
+  async saveSchedule(schedule: ReportSchedule): Promise<void> {
+    const data = await this.file.load();
+    data.schedules = [...data.schedules.filter(existing => existing.id !== schedule.id), schedule];
+    await this.file.save();
+  }
+
+  /**
+   * Delete a schedule together with its runs
+   * @param id Schedule ID
+   * @returns Whether the schedule existed
+   */
+  async deleteSchedule(id: string): Promise<boolean> {
+    const data = await this.file.load();
+    const count = data.schedules.length;
+
+    data.schedules = data.schedules.filter(schedule => schedule.id !== id);
+    if (data.schedules.length === count) {
+      return false;
+    }
+
+    data.runs = data.runs.filter(run => run.scheduleId !== id);
+    await this.file.save();
+    return true;
+  }
+
+  /**
+   * Search runs, newest first
+   * @param query Search filter
+   */
+  async listRuns(query: ScheduleRunQuery = {}): Promise<ScheduleRun[]> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_RUN_LIMIT, 1), MAX_RUN_LIMIT);
+
+    return (await this.file.load()).runs
+      .filter(run => !query.scheduleId || run.scheduleId === query.scheduleId)
+      .filter(run => !query.scheduleIds || query.scheduleIds.includes(run.scheduleId))
+      .filter(run => !query.reportId || run.reportId === query.reportId)
+      .filter(run => !query.status || run.status === query.status)
+      .sort((a, b) => b.scheduledAt - a.scheduledAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Create or replace a run; only the latest runs of each schedule are kept
+   * @param run Run
+   */
+  async saveRun(run: ScheduleRun): Promise<void> {
+    const data = await this.file.load();
+    const runs = [...data.runs.filter(existing => existing.id !== run.id), run];
+
+    const scheduleRuns = runs
+      .filter(existing => existing.scheduleId === run.scheduleId)
+      .sort((a, b) => b.scheduledAt - a.scheduledAt);
+    const dropped = new Set(scheduleRuns.slice(MAX_RUNS_PER_SCHEDULE).map(existing => existing.id));
+
+    data.runs = runs.filter(existing => !dropped.has(existing.id));
+    await this.file.save();
+  }
+}
+
+// Singleton instance
+let scheduleStoreInstance: ScheduleStore | null = null;
+
+/**
+ * Get the ScheduleStore instance
+ */
+export const getScheduleStore = (): ScheduleStore => {
+  if (!scheduleStoreInstance) {
+    scheduleStoreInstance = new ScheduleStore();
+  }
+
+  return scheduleStoreInstance;
+};
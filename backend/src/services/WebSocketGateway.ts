@@ -0,0 +1,353 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { addLogListener, logDebug, logError, logInfo, LogRecord } from '@common/logger';
+import { Principal } from '@common/types';
+import { safeJsonStringify } from '@common/utils';
+import { EventType as WebSocketEventType, LogEntry, WebSocketEvent } from '../common/types';
+import { EventStatus, EventType, QueryEvent } from '../types/events';
+import { eventToLogEntry, getEventStore } from './EventStore';
+import { getQueryRegistry } from './QueryRegistry';
+import { getQueryHistoryStore } from './QueryHistoryStore';
+import { AuthResult, getAuthService } from './AuthService';
+
+/**
+ * Interval of ping frames; a client that does not answer with pong until the next ping is dropped
+ */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Message sent by a client
+ */
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe' | 'cancel' | 'ping';
+  queryId?: string;
+}
+
+/**
+ * State of a connected client
+ */
+interface ClientState {
+  isAlive: boolean;
+  principal?: Principal; // Authenticated caller; a client only sees and cancels its own queries
+  subscriptions: Map<string, () => Promise<void>>;
+}
+
+/**
+ * Pipeline phases shown by the frontend progress indicator
+ */
+const PHASES: Partial<Record<EventType, string>> = {
+  [EventType.PERCEPTION_ANALYSIS]: 'analysis',
+  [EventType.PLANNING]: 'planning',
+  [EventType.CONFLICT_DETECTION]: 'planning',
+  [EventType.CONFLICT_RESOLUTION]: 'planning',
+  [EventType.STEP_EXECUTION]: 'execution',
+  [EventType.SQL_EXECUTION]: 'execution',
+  [EventType.RESULT_PROCESSING]: 'results',
+  [EventType.RESPONSE_GENERATION]: 'results',
+};
+
+/**
+ * Convert a log line written while a query was running to a log entry
+ */
+const recordToLogEntry = (record: LogRecord, index: number): LogEntry => ({
+  id: `${record.queryId}:log:${record.timestamp}:${index}`,
+  timestamp: record.timestamp,
+  message: record.message,
+  level: record.level,
+  category: 'log',
+});
+
+/**
+ * WebSocket gateway on the HTTP server.
+ * Clients subscribe to queries by queryId and receive their events, progress and live log lines
+ * as {type, queryId, timestamp, payload} messages; they may also cancel a running query.
+ * Only queries started by the authenticated caller can be subscribed to and cancelled.
+ */
+export class WebSocketGateway {
+  private wss: WebSocketServer;
+  private clients: Map<WebSocket, ClientState> = new Map();
+  private heartbeat: NodeJS.Timeout;
+  private removeLogListener: () => void;
+  private logCounter: number = 0;
+
+  /**
+   * Constructor
+   * @param server HTTP server to attach to
+   * @param path URL path of the WebSocket endpoint
+   * @param authenticate Checks the credentials of the upgrade request; without it every client is accepted
+   */
+  constructor(
+    private readonly server: Server,
+    private readonly path: string = '/ws',
+    private readonly authenticate?: (req: IncomingMessage) => AuthResult,
+  ) {
+    this.wss = new WebSocketServer({ noServer: true });
+    this.server.on('upgrade', this.handleUpgrade);
+
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL_MS);
+    this.removeLogListener = addLogListener(record => this.handleLogRecord(record));
+
+    logInfo(`WebSocket gateway listening on ${this.path}`);
+  }
+
+  /**
+   * Close all connections and detach from the HTTP server
+   */
+  async close(): Promise<void> {
+    clearInterval(this.heartbeat);
+    this.removeLogListener();
+    this.server.off('upgrade', this.handleUpgrade);
+
+    for (const [ws, state] of this.clients.entries()) {
+      await this.unsubscribeAll(state);
+      ws.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+  }
+
+  /**
+   * Accept upgrade requests for the gateway path
+   */
+  private handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    // Only the path is compared: parsing the whole URL throws on targets such as "//"
+    const pathname = (req.url || '/').split('?')[0];
+
+    if (pathname !== this.path) {
+      socket.destroy();
+      return;
+    }
+
+    const auth = this.authenticate?.(req);
+    if (auth && !auth.principal) {
+      logDebug(`WebSocket upgrade rejected: ${auth.error}`);
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => this.handleConnection(ws, auth?.principal));
+  };
+
+  /**
+   * Set up a new client connection
+   */
+  private handleConnection(ws: WebSocket, principal?: Principal): void {
+    const state: ClientState = { isAlive: true, principal, subscriptions: new Map() };
+    this.clients.set(ws, state);
+    logDebug(`WebSocket client connected (${this.clients.size} total)`);
+
+    ws.on('pong', () => {
+      state.isAlive = true;
+    });
+
+    ws.on('message', data => {
+      this.handleMessage(ws, state, data.toString()).catch(error => {
+        logError(`Failed to handle WebSocket message: ${(error as Error).message}`);
+      });
+    });
+
+    ws.on('close', () => {
+      this.clients.delete(ws);
+      this.unsubscribeAll(state).catch(() => undefined);
+      logDebug(`WebSocket client disconnected (${this.clients.size} total)`);
+    });
+
+    ws.on('error', error => {
+      logError(`WebSocket client error: ${error.message}`);
+    });
+  }
+
+  /**
+   * Handle a message sent by a client
+   */
+  private async handleMessage(ws: WebSocket, state: ClientState, raw: string): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw) as ClientMessage;
+    } catch {
+      this.send(ws, WebSocketEventType.ERROR, '', { error: 'Message is not valid JSON' });
+      return;
+    }
+    if (typeof message !== 'object' || message === null) {
+      this.send(ws, WebSocketEventType.ERROR, '', { error: 'Message is not a JSON object' });
+      return;
+    }
+
+    const queryId = message.queryId || '';
+
+    if (message.type === 'ping') {
+      this.send(ws, WebSocketEventType.HEARTBEAT, queryId, {});
+      return;
+    }
+
+    if (!queryId) {
+      this.send(ws, WebSocketEventType.ERROR, '', {
+        error: `"${message.type}" requires a queryId`,
+      });
+      return;
+    }
+
+    // A query of another user is reported as missing
+    const isOwnQuery =
+      message.type === 'unsubscribe' ||
+      (await getQueryHistoryStore().isOwnedBy(queryId, state.principal?.id));
+
+    switch (message.type) {
+      case 'subscribe':
+        if (!isOwnQuery) {
+          this.send(ws, WebSocketEventType.ERROR, queryId, { error: 'Query not found' });
+          break;
+        }
+        await this.subscribe(ws, state, queryId);
+        break;
+      case 'unsubscribe': {
+        const unsubscribe = state.subscriptions.get(queryId);
+        state.subscriptions.delete(queryId);
+        if (unsubscribe) await unsubscribe();
+        break;
+      }
+      case 'cancel': {
+        const cancelled = isOwnQuery && getQueryRegistry().cancel(queryId);
+        this.send(ws, WebSocketEventType.CANCEL_ACCEPTED, queryId, { cancelled });
+        break;
+      }
+      default:
+        this.send(ws, WebSocketEventType.ERROR, queryId, {
+          error: `Unknown message type "${(message as { type?: string }).type}"`,
+        });
+    }
+  }
+
+  /**
+   * Subscribe a client to the events of a query, replaying events it has missed
+   */
+  private async subscribe(ws: WebSocket, state: ClientState, queryId: string): Promise<void> {
+    if (state.subscriptions.has(queryId)) {
+      return;
+    }
+
+    // Reserve the slot so that concurrent subscribe messages do not subscribe twice
+    state.subscriptions.set(queryId, async () => undefined);
+    this.send(ws, WebSocketEventType.SUBSCRIPTION_CONFIRMED, queryId, {});
+
+    const unsubscribe = await getEventStore().subscribeWithReplay(queryId, event =>
+      this.sendQueryEvent(ws, event),
+    );
+
+    // The client may have unsubscribed or disconnected during the replay
+    if (!state.subscriptions.has(queryId) || !this.clients.has(ws)) {
+      await unsubscribe();
+      return;
+    }
+
+    state.subscriptions.set(queryId, unsubscribe);
+  }
+
+  /**
+   * Remove all subscriptions of a client
+   */
+  private async unsubscribeAll(state: ClientState): Promise<void> {
+    const subscriptions = Array.from(state.subscriptions.values());
+    state.subscriptions.clear();
+    await Promise.all(subscriptions.map(unsubscribe => unsubscribe()));
+  }
+
+  /**
+   * Send a query event together with the derived messages the frontend listens to
+   */
+  private sendQueryEvent(ws: WebSocket, event: QueryEvent): void {
+    const payload = event.payload as Record<string, unknown>;
+
+    this.send(ws, WebSocketEventType.QUERY_EVENT, event.queryId, event);
+    this.send(ws, WebSocketEventType.LOG, event.queryId, eventToLogEntry(event));
+
+    const phase = PHASES[event.type];
+    if (phase && event.status !== EventStatus.ERROR) {
+      this.send(ws, WebSocketEventType.PHASE_CHANGE, event.queryId, { phase });
+    }
+
+    if (typeof payload.stepNumber === 'number' && typeof payload.totalSteps === 'number') {
+      this.send(ws, WebSocketEventType.PROGRESS, event.queryId, {
+        step: event.status === EventStatus.COMPLETED ? payload.stepNumber : payload.stepNumber - 1,
+        total: payload.totalSteps,
+        description: payload.description,
+      });
+    }
+
+    if (event.status === EventStatus.ERROR) {
+      this.send(ws, WebSocketEventType.ERROR, event.queryId, {
+        error: payload.error,
+        errorType: payload.errorType,
+      });
+    }
+  }
+
+  /**
+   * Forward a log line of a running query to its subscribers
+   */
+  private handleLogRecord(record: LogRecord): void {
+    if (record.level === 'debug') return;
+
+    const entry = recordToLogEntry(record, this.logCounter++);
+    for (const [ws, state] of this.clients.entries()) {
+      if (state.subscriptions.has(record.queryId)) {
+        this.send(ws, WebSocketEventType.LOG, record.queryId, entry);
+      }
+    }
+  }
+
+  /**
+   * Ping all clients and drop the ones that did not answer the previous ping
+   */
+  private checkConnections(): void {
+    for (const [ws, state] of this.clients.entries()) {
+      if (!state.isAlive) {
+        logDebug('Terminating unresponsive WebSocket client');
+        ws.terminate();
+        continue;
+      }
+
+      state.isAlive = false;
+      ws.ping();
+    }
+  }
+
+  /**
+   * Send a message to a client
+   */
+  private send(ws: WebSocket, type: WebSocketEventType, queryId: string, payload: unknown): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    const message: WebSocketEvent = { type, queryId, timestamp: Date.now(), payload };
+    ws.send(safeJsonStringify(message));
+  }
+}
+
+// Singleton instance
+let gatewayInstance: WebSocketGateway | null = null;
+
+/**
+ * Attach the WebSocket gateway to an HTTP server
+ * @param server HTTP server
+ */
+export const initializeWebSocketGateway = (server: Server): WebSocketGateway => {
+  if (!gatewayInstance) {
+    gatewayInstance = new WebSocketGateway(server, '/ws', req =>
+      getAuthService().authenticate(req),
+    );
+  }
+
+  return gatewayInstance;
+};
+
+/**
+ * Shut down the WebSocket gateway
+ */
+export const shutdownWebSocketGateway = async (): Promise<void> => {
+  if (gatewayInstance) {
+    await gatewayInstance.close();
+    gatewayInstance = null;
+  }
+};
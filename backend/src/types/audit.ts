@@ -0,0 +1,64 @@
+/**
+ * Durable audit records of query pipeline runs
+ */
+import { PerceptionResult, Principal, QueryPlan, SqlExecutionTrace } from '@common/types';
+import { DistributedQueryPlan } from '@execution/distributed-query';
+
+/**
+ * How a pipeline run ended
+ */
+export type AuditStatus = 'completed' | 'error' | 'cancelled' | 'access_denied' | 'not_confident';
+
+/**
+ * A plan step as it was executed
+ */
+export interface AuditStep {
+  stepId: string;
+  service: string;
+  description: string;
+  operation?: string; // In-memory operation; such steps send no SQL to a service
+  statements: SqlExecutionTrace[]; // SQL after all automatic fixes, per batch; a failed step keeps what it tried to send
+  fixes: string[];
+  rowCount: number;
+  durationMs: number;
+  error?: string;
+  errorType?: string;
+}
+
+/**
+ * Audit record of one pipeline run
+ */
+export interface AuditRecord {
+  id: string;
+  queryId: string;
+  conversationId?: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  user: Principal | null; // Null when the pipeline ran without an authenticated caller
+  query: string;
+  status: AuditStatus;
+  perception?: PerceptionResult;
+  plan?: QueryPlan;
+  distributedPlan?: DistributedQueryPlan;
+  steps: AuditStep[];
+  services: string[]; // Services the SQL was addressed to
+  tables: string[]; // Tables read by that SQL, as service.Table
+  explanation?: string;
+  confidence?: number;
+  error?: string;
+  errorType?: string;
+}
+
+/**
+ * Filter of the audit log search
+ */
+export interface AuditQuery {
+  user?: string;
+  service?: string;
+  table?: string; // Table name or service.Table
+  status?: AuditStatus;
+  from?: number; // Inclusive start time, ms since epoch
+  to?: number; // Inclusive end time, ms since epoch
+  limit?: number;
+}
@@ -6,7 +6,8 @@ export enum EventStatus {
   STARTED = 'started',
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
-  ERROR = 'error'
+  ERROR = 'error',
+  CANCELLED = 'cancelled'
 }
 
 export enum EventType {
@@ -17,8 +18,10 @@ export enum EventType {
   CONFLICT_RESOLUTION = 'conflict_resolution',
   SQL_EXECUTION = 'sql_execution',
   STEP_EXECUTION = 'step_execution',
+  SQL_REPAIR = 'sql_repair',
   RESULT_PROCESSING = 'result_processing',
   RESPONSE_GENERATION = 'response_generation',
+  ACCESS_DENIED = 'access_denied',
   COMPLETION = 'completion'
 }
 
@@ -35,6 +38,8 @@ export interface QueryReceivedEvent extends BaseEvent {
   payload: {
     query: string;
     language: string;
+    userId?: string; // Authenticated caller
+    rerunOf?: string; // Query this one re-runs
   };
 }
 
@@ -73,6 +78,9 @@ export interface SQLExecutionEvent extends BaseEvent {
   payload: {
     service?: string;
     sql?: string;
+    stepId?: string;
+    error?: string;
+    errorType?: string;
   };
 }
 
@@ -85,6 +93,31 @@ export interface StepExecutionEvent extends BaseEvent {
     service?: string;
     operation?: string;
     description?: string;
+    durationMs?: number;
+    rowCount?: number;
+    sql?: string; // Final SQL with $1..$n bind parameters
+    parameterCount?: number;
+    fixes?: string[]; // Automatic fixes applied to the query text
+    error?: string;
+    errorType?: string;
+  };
+}
+
+export interface SqlRepairEvent extends BaseEvent {
+  type: EventType.SQL_REPAIR;
+  payload: {
+    stepId: string;
+    stepNumber: number;
+    totalSteps: number;
+    service?: string;
+    description?: string;
+    attempt: number; // 1-based; the heuristic fallback comes after the LLM attempts
+    method: 'llm' | 'heuristic';
+    error: string; // Database error the attempt tried to fix
+    sql?: string; // Corrected query
+    explanation?: string;
+    succeeded: boolean;
+    failure?: string; // Why the corrected query failed
   };
 }
 
@@ -99,15 +132,31 @@ export interface ResultProcessingEvent extends BaseEvent {
 export interface ResponseGenerationEvent extends BaseEvent {
   type: EventType.RESPONSE_GENERATION;
   payload: {
+    data?: Record<string, unknown>; // Result rows by service
+    explanation?: string;
     confidence?: number;
   };
 }
 
+export interface AccessDeniedEvent extends BaseEvent {
+  type: EventType.ACCESS_DENIED;
+  payload: {
+    stage: 'perception' | 'planning' | 'execution'; // Where the access policy rejected the request
+    error: string;
+    services?: string[];
+    stepId?: string;
+    description?: string;
+  };
+}
+
 export interface CompletionEvent extends BaseEvent {
   type: EventType.COMPLETION;
   payload: {
     totalTime?: number;
     stepCount?: number;
+    reason?: string; // Why the query was cancelled (client request or deadline)
+    error?: string; // Why the query failed or was not answered
+    errorType?: string; // Set when the query failed, e.g. access_denied
   };
 }
 
@@ -118,6 +167,8 @@ export type QueryEvent =
   | ConflictEvent
   | SQLExecutionEvent
   | StepExecutionEvent
+  | SqlRepairEvent
   | ResultProcessingEvent
   | ResponseGenerationEvent
+  | AccessDeniedEvent
   | CompletionEvent; 
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Query history of a user
+ */
+import { QueryEvent } from './events';
+
+/**
+ * State of a query in the history
+ */
+export type QueryHistoryStatus = 'running' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * A past query as listed in the history
+ */
+export interface QueryHistoryEntry {
+  queryId: string;
+  conversationId: string;
+  userId?: string; // Authenticated caller; entries are only visible to them
+  query: string;
+  language: string;
+  rerunOf?: string; // Query this one re-ran
+  status: QueryHistoryStatus;
+  startedAt: number;
+  finishedAt?: number;
+  durationMs?: number;
+  confidence?: number;
+  rowCount?: number; // Rows across all services in the result
+  error?: string;
+}
+
+/**
+ * A past query with the events needed to restore its execution log and result
+ */
+export interface QueryHistoryRecord {
+  entry: QueryHistoryEntry;
+  events: QueryEvent[];
+}
@@ -0,0 +1,77 @@
+/**
+ * Saved parameterized reports
+ */
+import { ErrorType, QueryPlan } from '@common/types';
+import { DistributedQueryPlan } from '@execution/distributed-query';
+
+/**
+ * Type of a report parameter; values are checked and converted before they are bound
+ */
+export type ReportParameterType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'timestamp';
+
+/**
+ * Typed parameter of a report, bound to the :name placeholders of its SQL
+ */
+export interface ReportParameter {
+  name: string;
+  type: ReportParameterType;
+  label?: string;
+  description?: string;
+  required?: boolean; // Defaults to true unless a default value is set
+  default?: unknown;
+  list?: boolean; // Takes several values, for col IN (:name) and col = ANY(:name)
+  options?: Array<string | number>; // Allowed values, rendered as a select
+}
+
+/**
+ * A verified plan saved for reuse; it runs without the LLM
+ */
+export interface SavedReport {
+  id: string;
+  name: string;
+  description?: string;
+  question?: string; // Question the plan was created for
+  parameters: ReportParameter[];
+  plan: DistributedQueryPlan;
+  sourceQueryId?: string; // Pipeline run the plan was taken from
+  createdBy?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Body of a request that creates or updates a report.
+ * The plan is given directly or taken from a successful run of the caller (sourceQueryId);
+ * stepSql replaces the SQL of steps by step ID, e.g. to turn literals into :name placeholders
+ */
+export interface ReportInput {
+  name?: string;
+  description?: string;
+  question?: string;
+  parameters?: ReportParameter[];
+  plan?: DistributedQueryPlan | QueryPlan;
+  sourceQueryId?: string;
+  stepSql?: Record<string, string>;
+}
+
+/**
+ * Result of a report run
+ */
+export interface ReportRunResult {
+  reportId: string;
+  runId: string;
+  parameters: Record<string, unknown>; // Values after conversion, as they were bound
+  rows: Record<string, unknown>[]; // Result of the final step
+  data: Record<string, Record<string, unknown>[]>; // Results of all steps by step ID
+  sql: string[]; // SQL sent to the services
+  startedAt: number;
+  durationMs: number;
+  errors?: Record<string, string>;
+  errorTypes?: Record<string, ErrorType>;
+}
@@ -0,0 +1,101 @@
+/**
+ * Scheduled runs of saved reports
+ */
+import { Principal } from '@common/types';
+
+/**
+ * Format of delivered report rows
+ */
+export type DeliveryFormat = 'csv' | 'json';
+
+/**
+ * Where the result of a scheduled run is delivered
+ */
+export type ScheduleDelivery =
+  | {
+      type: 'file';
+      format: DeliveryFormat;
+      directory?: string; // Subdirectory of SCHEDULE_OUTPUT_DIR
+    }
+  | {
+      type: 'webhook';
+      format: DeliveryFormat;
+      url: string; // Receives the rows as an HTTP POST
+      headers?: Record<string, string>;
+    };
+
+/**
+ * Cron schedule of a saved report
+ */
+export interface ReportSchedule {
+  id: string;
+  reportId: string;
+  cron: string; // Five-field cron expression or a macro such as @daily, in UTC
+  parameters: Record<string, unknown>; // Parameter values of every run
+  delivery: ScheduleDelivery;
+  enabled: boolean;
+  maxAttempts: number; // Attempts of a run before it is marked as failed
+  owner: Principal | null; // Runs are executed with the access rights of the user who scheduled them
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastStatus?: ScheduleRunStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Body of a request that creates or updates a schedule
+ */
+export interface ScheduleInput {
+  reportId?: string;
+  cron?: string;
+  parameters?: Record<string, unknown>;
+  delivery?: ScheduleDelivery;
+  enabled?: boolean;
+  maxAttempts?: number;
+}
+
+/**
+ * State of a scheduled run
+ */
+export type ScheduleRunStatus = 'running' | 'retrying' | 'succeeded' | 'failed';
+
+/**
+ * One attempt of a scheduled run
+ */
+export interface ScheduleRunAttempt {
+  attempt: number;
+  startedAt: number;
+  finishedAt: number;
+  reportRunId?: string; // Run ID of the report, the query ID of its audit record
+  error?: string;
+}
+
+/**
+ * A scheduled run of a report with all its attempts
+ */
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  reportId: string;
+  scheduledAt: number; // Cron time the run was due, or the time it was triggered manually
+  manual: boolean;
+  status: ScheduleRunStatus;
+  attempts: ScheduleRunAttempt[];
+  nextAttemptAt?: number; // When a retrying run is attempted again
+  rowCount?: number;
+  deliveredTo?: string; // File path or webhook URL
+  error?: string;
+  finishedAt?: number;
+}
+
+/**
+ * Filter of the run history
+ */
+export interface ScheduleRunQuery {
+  scheduleId?: string;
+  scheduleIds?: string[]; // Only runs of these schedules
+  reportId?: string;
+  status?: ScheduleRunStatus;
+  limit?: number;
+}
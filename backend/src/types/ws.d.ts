@@ -19,6 +19,8 @@ declare module 'ws' {
     readonly readyState: number;
     readonly url: string;
 
+    constructor(address: string, options?: { headers?: Record<string, string> });
+
     close(code?: number, reason?: string): void;
     ping(data?: any, mask?: boolean, cb?: (err: Error) => void): void;
     pong(data?: any, mask?: boolean, cb?: (err: Error) => void): void;
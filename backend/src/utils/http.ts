@@ -0,0 +1,51 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { safeJsonStringify } from '@common/utils';
+
+/**
+ * Read and parse the JSON body of a request
+ * @param req HTTP request
+ * @returns Parsed body, or an empty object when the body is empty
+ * @throws Error when the body is not valid JSON or not a JSON object
+ */
+export const readJsonBody = async <T = Record<string, unknown>>(
+  req: IncomingMessage,
+): Promise<T> => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk.toString();
+  });
+  await new Promise<void>((resolve, reject) => {
+    req.on('end', () => resolve());
+    req.on('error', err => reject(err));
+  });
+
+  if (!body.trim()) {
+    return {} as T;
+  }
+
+  const parsed: unknown = JSON.parse(body);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('expected a JSON object');
+  }
+
+  return parsed as T;
+};
+
+/**
+ * Read the JSON body of a request, answering 400 when it is malformed or not an object
+ * @param req HTTP request
+ * @param res HTTP response
+ * @returns Parsed body, or undefined when the request has already been answered
+ */
+export const readBody = async <T>(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<T | undefined> => {
+  try {
+    return await readJsonBody<T>(req);
+  } catch (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(safeJsonStringify({ error: `Invalid request body: ${(error as Error).message}` }));
+    return undefined;
+  }
+};
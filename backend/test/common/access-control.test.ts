@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { accessControl, hashApiKey } from '../../packages/common/access-control';
+import { ErrorType, Principal } from '../../packages/common/types';
+import { executeSqlQuery } from '../../packages/execution/database';
+
+const analyst: Principal = { id: 'analyst-1', roles: ['analyst'], method: 'api-key' };
+const support: Principal = { id: 'support-1', roles: ['support'], method: 'jwt' };
+
+describe('Access control', () => {
+  before(() => {
+    accessControl.setPolicy({
+      roles: {
+        admin: { services: ['*'] },
+        analyst: { services: ['wallet', 'pam'], deniedTables: ['pam.UserDevice'] },
+        support: { services: ['pam', 'kyc'], tables: ['kyc.Document'] },
+      },
+      users: {
+        'analyst-1': { roles: ['analyst'], apiKeyHashes: [hashApiKey('analyst-key')] },
+      },
+    });
+  });
+
+  it('allows only the services of the roles of the user', () => {
+    expect(accessControl.isServiceAllowed(analyst, 'wallet')).to.equal(true);
+    expect(accessControl.isServiceAllowed(analyst, 'kyc')).to.equal(false);
+    expect(accessControl.isServiceAllowed(undefined, 'kyc')).to.equal(true);
+    expect(
+      accessControl.partitionServices(analyst, ['pam', 'kyc', 'payment-gateway']),
+    ).to.deep.equal({ allowed: ['pam'], denied: ['kyc', 'payment-gateway'] });
+  });
+
+  it('applies denied tables and table allow-lists per service', () => {
+    expect(accessControl.isTableAllowed(analyst, 'pam', 'User')).to.equal(true);
+    expect(accessControl.isTableAllowed(analyst, 'pam', '"UserDevice"')).to.equal(false);
+    expect(accessControl.isTableAllowed(support, 'kyc', 'Document')).to.equal(true);
+    expect(accessControl.isTableAllowed(support, 'kyc', 'User')).to.equal(false);
+    expect(accessControl.isTableAllowed(support, 'pam', 'UserDevice')).to.equal(true);
+  });
+
+  it('combines the permissions of several roles', () => {
+    const both: Principal = { id: 'both', roles: ['analyst', 'support'], method: 'jwt' };
+
+    expect(accessControl.isTableAllowed(both, 'pam', 'UserDevice')).to.equal(true);
+    expect(accessControl.isServiceAllowed(both, 'wallet')).to.equal(true);
+    expect(accessControl.isServiceAllowed({ ...both, roles: ['unknown'] }, 'wallet')).to.equal(
+      false,
+    );
+  });
+
+  it('finds users by API key', () => {
+    expect(accessControl.findUserByApiKey('analyst-key')).to.deep.equal(analyst);
+    expect(accessControl.findUserByApiKey('wrong-key')).to.equal(undefined);
+  });
+
+  it('describes restricted services for the LLM prompts', () => {
+    expect(accessControl.getRestrictionsForLLM(analyst)).to.contain(
+      'may only query these services: wallet, pam',
+    );
+    expect(accessControl.getRestrictionsForLLM({ ...analyst, roles: ['admin'] })).to.equal('');
+    expect(accessControl.getRestrictionsForLLM(undefined)).to.equal('');
+  });
+
+  it('rejects denied queries in the executor before they reach the database', async () => {
+    for (const [service, sql] of [
+      ['kyc', 'SELECT * FROM "Document"'],
+      ['pam', 'SELECT u.id FROM "User" u JOIN "UserDevice" d ON d."userId" = u.id'],
+    ]) {
+      try {
+        await executeSqlQuery({
+          service: service as 'kyc' | 'pam',
+          query: sql,
+          principal: analyst,
+        });
+        expect.fail('executeSqlQuery should throw');
+      } catch (error) {
+        expect((error as { type?: ErrorType }).type).to.equal(ErrorType.ACCESS_DENIED);
+        expect((error as Error).message).to.contain('Access denied: User analyst-1 may not');
+      }
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from 'chai';
+import {
+  formatConversationForLLM,
+  hasConversationHistory,
+  summarizeQueryResponse,
+} from '../../packages/common/conversation';
+import { ConversationContext, ConversationTurn } from '../../packages/common/types';
+import { analyzeQuery } from '../../packages/perception/index';
+
+/**
+ * Creates a turn that read deposits
+ */
+const createTurn = (index: number): ConversationTurn => ({
+  queryId: `q-${index}`,
+  query: `question ${index}`,
+  perception: {
+    intent: 'get_deposits',
+    confidence: 0.9,
+    entities: index === 1 ? { currency: 'EUR' } : null,
+    requiredServices: ['financial-history'],
+  },
+  plan: {
+    steps: [
+      {
+        service: 'financial-history',
+        description: 'Sum deposits',
+        sqlQuery: 'SELECT SUM(amount) FROM "Deposit"',
+      },
+    ],
+    requiredServices: ['financial-history'],
+  },
+  resultSummary: `Results: step_1: ${index} rows`,
+  timestamp: index,
+});
+
+/**
+ * Creates a conversation with the given number of turns
+ */
+const createConversation = (turnCount: number): ConversationContext => ({
+  conversationId: 'conversation-1',
+  turns: Array.from({ length: turnCount }, (_, index) => createTurn(index + 1)),
+});
+
+describe('Conversation context', () => {
+  describe('formatConversationForLLM', () => {
+    it('returns nothing for a conversation without previous turns', () => {
+      expect(formatConversationForLLM(undefined)).to.equal('');
+      expect(formatConversationForLLM(createConversation(0))).to.equal('');
+      expect(hasConversationHistory(createConversation(0))).to.equal(false);
+    });
+
+    it('describes the previous turns and includes their SQL only for planning', () => {
+      const perception = formatConversationForLLM(createConversation(1));
+      const planning = formatConversationForLLM(createConversation(1), true);
+
+      expect(perception).to.include('CONVERSATION HISTORY (oldest first):');
+      expect(perception).to.include(
+        '--- Previous query 1 ---\nUser query: question 1\nIntent: get_deposits\n' +
+          'Services: ["financial-history"]\nEntities: {"currency":"EUR"}\n',
+      );
+      expect(perception).to.include('Results: step_1: 1 rows');
+      expect(perception).to.not.include('SQL:');
+      expect(planning).to.include(
+        'Plan steps:\n- [financial-history] Sum deposits\n  SQL: SELECT SUM(amount) FROM "Deposit"',
+      );
+    });
+
+    it('keeps only the latest turns', () => {
+      const prompt = formatConversationForLLM(createConversation(7));
+
+      expect(prompt).to.not.include('User query: question 2\n');
+      expect(prompt).to.include('User query: question 3\n');
+      expect(prompt).to.include('User query: question 7\n');
+    });
+  });
+
+  it('summarizes the rows and errors of a response', () => {
+    const summary = summarizeQueryResponse({
+      data: { step_1: [{ id: 1 }, { id: 2 }] },
+      rowCounts: { step_1: { rowCount: 2, truncated: true } },
+      errors: { step_2: 'Database error' },
+      explanation: 'Deposits by currency',
+      confidence: 0.9,
+    });
+
+    expect(summary).to.equal(
+      'Results: step_1: 2 rows (truncated by row limit)\nErrors: step_2\n' +
+        'Explanation: Deposits by currency',
+    );
+  });
+
+  describe('fallback perception of a follow-up', () => {
+    const environment = { ...process.env };
+
+    beforeEach(() => {
+      // No provider serves perception, so the keyword fallback answers
+      process.env.LLM_PERCEPTION_PROVIDER = 'none';
+    });
+
+    afterEach(() => {
+      process.env = { ...environment };
+    });
+
+    it('continues the previous turn when the query names no service', async () => {
+      const result = await analyzeQuery('now only for last week', createConversation(2));
+
+      expect(result).to.include({ intent: 'get_deposits', confidence: 0.4 });
+      expect(result.requiredServices).to.deep.equal(['financial-history']);
+    });
+
+    it('does not inherit anything without a conversation', async () => {
+      const result = await analyzeQuery('now only for last week', createConversation(0));
+
+      expect(result).to.include({ intent: 'unknown_intent', confidence: 0.2 });
+      expect(result.requiredServices).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { getNextCronTime, parseCron } from '../../packages/common/cron';
+
+const next = (expression: string, after: string): string =>
+  getNextCronTime(expression, new Date(after)).toISOString();
+
+describe('Cron schedules', () => {
+  it('parses values, ranges, steps, lists and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+
+    expect(Array.from(schedule.minutes)).to.deep.equal([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).to.deep.equal([9, 13, 17]);
+    expect(Array.from(schedule.daysOfMonth)).to.deep.equal([1, 15]);
+    expect(Array.from(schedule.months)).to.deep.equal([1, 2, 3]);
+    expect(Array.from(schedule.daysOfWeek)).to.deep.equal([1, 2, 3, 4, 5]);
+    expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).to.deep.equal([0]);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseCron('* * * *')).to.throw(/expected 5 fields/);
+    expect(() => parseCron('60 * * * *')).to.throw(/Invalid minute value "60"/);
+    expect(() => parseCron('* * * * */0')).to.throw(/Invalid day of week step/);
+    expect(() => parseCron('* 5-2 * * *')).to.throw(/Invalid hour range/);
+    expect(() => getNextCronTime('0 0 30 2 *', new Date())).to.throw(/never matches/);
+  });
+
+  it('finds the next run strictly after the given time, in UTC', () => {
+    expect(next('*/15 * * * *', '2024-05-01T10:15:00Z')).to.equal('2024-05-01T10:30:00.000Z');
+    expect(next('@daily', '2024-05-01T10:15:30Z')).to.equal('2024-05-02T00:00:00.000Z');
+    expect(next('30 8 * * MON', '2024-05-01T10:00:00Z')).to.equal('2024-05-06T08:30:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).to.equal('2028-02-29T00:00:00.000Z');
+    expect(next('0 12 31 * *', '2024-04-01T00:00:00Z')).to.equal('2024-05-31T12:00:00.000Z');
+  });
+
+  it('matches either day when both the day of month and the day of week are restricted', () => {
+    // 1 мая 2024 - среда, ближайшая пятница - 3 мая
+    expect(next('0 0 10 * FRI', '2024-05-01T12:00:00Z')).to.equal('2024-05-03T00:00:00.000Z');
+    expect(next('0 0 */10 * *', '2024-05-01T12:00:00Z')).to.equal('2024-05-11T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { getLlmConfig } from '../../packages/common/llm-config';
+import { ChatModel, getChatModel, registerLlmProvider } from '../../packages/common/llm';
+
+describe('LLM configuration', () => {
+  it('keeps the OpenAI defaults and the legacy variables', () => {
+    const env = {
+      OPENAI_API_KEY: 'sk-test',
+      OPENAI_MODEL_NAME: 'gpt-4.1-mini',
+      OPENAI_TEMPERATURE: '0.3',
+      CONFLICT_LLM_MODEL: 'gpt-4.1',
+    };
+
+    expect(getLlmConfig('planning', env)).to.deep.equal({
+      stage: 'planning',
+      provider: 'openai',
+      model: 'gpt-4.1-mini',
+      temperature: 0.3,
+      baseUrl: undefined,
+      apiKey: 'sk-test',
+      apiKeyVariable: 'OPENAI_API_KEY',
+      fixturesFile: './data/llm-fixtures.json',
+      recordFixtures: false,
+    });
+    expect(getLlmConfig('conflict-resolution', env).model).to.equal('gpt-4.1');
+  });
+
+  it('selects a model per stage on top of the common settings', () => {
+    const env = {
+      LLM_PROVIDER: 'groq',
+      GROQ_API_KEY: 'gsk-test',
+      LLM_MODEL: 'llama-3.1-8b-instant',
+      LLM_PLANNING_MODEL: 'llama-3.3-70b-versatile',
+      LLM_EXECUTION_PROVIDER: 'local',
+      LLM_EXECUTION_BASE_URL: 'http://localhost:11434/v1',
+    };
+
+    expect(getLlmConfig('perception', env)).to.deep.include({
+      provider: 'groq',
+      model: 'llama-3.1-8b-instant',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      apiKey: 'gsk-test',
+    });
+    expect(getLlmConfig('planning', env).model).to.equal('llama-3.3-70b-versatile');
+    expect(getLlmConfig('execution', env)).to.deep.include({
+      provider: 'local',
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: undefined,
+    });
+  });
+
+  it('creates the stage model with a registered provider', async () => {
+    const previous = { ...process.env };
+    const model: ChatModel = { invoke: async () => ({ content: 'ok' }) };
+    registerLlmProvider('scripted-test', config => {
+      expect(config.model).to.equal('test-model');
+      return model;
+    });
+
+    try {
+      process.env.LLM_PERCEPTION_PROVIDER = 'scripted-test';
+      process.env.LLM_PERCEPTION_MODEL = 'test-model';
+      expect(getChatModel('perception')).to.equal(model);
+
+      process.env.LLM_PERCEPTION_PROVIDER = 'missing';
+      expect(() => getChatModel('perception')).to.throw('Unknown LLM provider "missing"');
+    } finally {
+      process.env = previous;
+    }
+  });
+});
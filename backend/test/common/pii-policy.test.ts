@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import { hashValue, maskValue, piiPolicy } from '../../packages/common/pii-policy';
+
+describe('PII policy', () => {
+  before(() => {
+    piiPolicy.setPolicy({
+      rules: [
+        { column: 'pam.User.password', action: 'forbidden' },
+        { column: 'pam.User.email', action: 'masked' },
+        { column: 'pam.User.phone', action: 'masked' },
+        { column: 'kyc.Document.documentNumber', action: 'hashed' },
+        { column: 'payment-gateway.UserPaymentDetails.*', action: 'forbidden' },
+      ],
+      privilegedRoles: {
+        support: ['pam.User.email'],
+        admin: ['*.*.*'],
+      },
+    });
+  });
+
+  it('removes forbidden columns and masks protected ones', () => {
+    const { rows, removedColumns, maskedColumns } = piiPolicy.enforce(
+      'pam',
+      'SELECT id, email, phone, password FROM "User"',
+      [{ id: 1, email: 'john.doe@example.com', phone: '+1 555 123 4567', password: 'secret' }],
+    );
+
+    expect(rows).to.deep.equal([{ id: 1, email: 'j***@example.com', phone: '*********67' }]);
+    expect(removedColumns).to.deep.equal(['password']);
+    expect(maskedColumns).to.have.members(['email', 'phone']);
+  });
+
+  it('protects aliased columns by the expression they come from', () => {
+    const { rows } = piiPolicy.enforce(
+      'pam',
+      'SELECT u.id, LOWER(u.email) AS contact, COUNT(u.email) AS emails FROM public."User" u GROUP BY u.id, u.email',
+      [{ id: 1, contact: 'john@example.com', emails: 1 }],
+    );
+
+    expect(rows).to.deep.equal([{ id: 1, contact: 'j***@example.com', emails: 1 }]);
+  });
+
+  it('protects columns aliased without AS', () => {
+    const { rows } = piiPolicy.enforce('pam', 'SELECT id, email contact FROM "User"', [
+      { id: 1, contact: 'john@example.com' },
+    ]);
+
+    expect(rows).to.deep.equal([{ id: 1, contact: 'j***@example.com' }]);
+  });
+
+  it('removes whole-row and JSON values of tables with forbidden columns', () => {
+    const { rows, removedColumns } = piiPolicy.enforce(
+      'pam',
+      'SELECT u.id, row_to_json(u) AS j, u AS r FROM "User" u',
+      [{ id: 1, j: { email: 'john@example.com', password: 'secret' }, r: '(1,secret)' }],
+    );
+
+    expect(rows).to.deep.equal([{ id: 1 }]);
+    expect(removedColumns).to.have.members(['j', 'r']);
+  });
+
+  it('traces columns through subqueries and CTEs', () => {
+    const subquery = piiPolicy.enforce(
+      'pam',
+      'SELECT t.e FROM (SELECT password AS e FROM "User") t',
+      [{ e: 'secret' }],
+    );
+    const cte = piiPolicy.enforce(
+      'pam',
+      'WITH c AS (SELECT id, email AS contact FROM "User") SELECT c.* FROM c',
+      [{ id: 1, contact: 'john@example.com' }],
+    );
+
+    expect(subquery.rows).to.deep.equal([{}]);
+    expect(cte.rows).to.deep.equal([{ id: 1, contact: 'j***@example.com' }]);
+  });
+
+  it('applies the strictest rule of the service when the query cannot be parsed', () => {
+    const { rows } = piiPolicy.enforce('pam', 'SELECT id FROM "User" WHERE', [{ id: 1 }]);
+
+    expect(rows).to.deep.equal([{}]);
+  });
+
+  it('hashes values so that equal values stay equal', () => {
+    const { rows } = piiPolicy.enforce('kyc', 'SELECT "documentNumber" FROM "Document"', [
+      { documentNumber: 'AB123' },
+      { documentNumber: 'AB123' },
+      { documentNumber: null },
+    ]);
+
+    expect(rows[0].documentNumber).to.match(/^sha256:[0-9a-f]{16}$/);
+    expect(rows[1].documentNumber).to.equal(rows[0].documentNumber);
+    expect(rows[2].documentNumber).to.equal(null);
+  });
+
+  it('applies wildcard rules and leaves other services untouched', () => {
+    const paymentDetails = piiPolicy.enforce(
+      'payment-gateway',
+      'SELECT * FROM "UserPaymentDetails"',
+      [{ id: 'a', data: { card: '4111' } }],
+    );
+    const wallet = piiPolicy.enforce('wallet', 'SELECT email FROM "User"', [
+      { email: 'john@example.com' },
+    ]);
+
+    expect(paymentDetails.rows).to.deep.equal([{}]);
+    expect(wallet.rows).to.deep.equal([{ email: 'john@example.com' }]);
+  });
+
+  it('lets privileged roles see masked columns but never forbidden ones', () => {
+    const sql = 'SELECT email, phone, password FROM "User"';
+    const row = { email: 'john@example.com', phone: '+15551234567', password: 'secret' };
+
+    const support = piiPolicy.enforce('pam', sql, [row], ['support']);
+    const admin = piiPolicy.enforce('pam', sql, [row], ['admin']);
+
+    expect(support.rows).to.deep.equal([{ email: 'john@example.com', phone: '*********67' }]);
+    expect(admin.rows).to.deep.equal([{ email: 'john@example.com', phone: '+15551234567' }]);
+  });
+
+  it('masks and hashes values', () => {
+    expect(maskValue('Alexander')).to.equal('A********');
+    expect(hashValue('x')).to.equal(hashValue('x'));
+  });
+});
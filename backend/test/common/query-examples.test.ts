@@ -0,0 +1,163 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService, Principal, QueryPlan } from '../../packages/common/types';
+import {
+  formatQueryExamplesForLLM,
+  QueryExampleLibrary,
+} from '../../packages/common/knowledge/query-examples';
+
+/**
+ * One-step plan of a service with the given SQL
+ */
+const createPlan = (service: string, description: string, sqlQuery: string): QueryPlan => ({
+  steps: [{ service: service as DatabaseService, description, sqlQuery }],
+  requiredServices: [service as DatabaseService],
+});
+
+const analyst: Principal = { id: 'analyst', roles: ['analyst'], method: 'api-key' };
+
+describe('Query example library', () => {
+  let directory: string;
+  let filePath: string;
+  let library: QueryExampleLibrary;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'query-examples-'));
+    filePath = path.join(directory, 'query-examples.json');
+    library = new QueryExampleLibrary(filePath, () => undefined);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps previous versions and asks to approve a changed example again', async () => {
+    const example = await library.create(
+      {
+        question: 'Total deposits by currency',
+        plan: createPlan('wallet', 'Sum deposits', 'SELECT currency, SUM(amount) FROM "Deposit"'),
+        approve: true,
+      },
+      analyst,
+    );
+    expect(example).to.include({ version: 1, status: 'approved', approvedBy: 'analyst' });
+
+    const updated = await library.update(example.id, {
+      plan: createPlan(
+        'wallet',
+        'Sum deposits',
+        'SELECT currency, SUM(amount) FROM "Deposit" GROUP BY currency',
+      ),
+    });
+    expect(updated).to.include({ version: 2, status: 'draft', approvedBy: undefined });
+    expect(updated?.history.map(version => [version.version, version.status])).to.deep.equal([
+      [1, 'approved'],
+    ]);
+
+    await library.approve(example.id, analyst);
+    const reloaded = await new QueryExampleLibrary(filePath, () => undefined).get(example.id);
+    expect(reloaded).to.include({ version: 2, status: 'approved', question: example.question });
+    expect(reloaded?.history[0].plan.steps[0].sqlQuery).to.not.include('GROUP BY');
+  });
+
+  it('rejects examples without a question or SQL', async () => {
+    await library.create({ plan: createPlan('wallet', 'Sum deposits', 'SELECT 1') }).then(
+      () => expect.fail('expected an error'),
+      error => expect(error.message).to.match(/question is required/),
+    );
+    await library
+      .create({ question: 'Deposits', plan: createPlan('wallet', 'Sum deposits', ' ') })
+      .then(
+        () => expect.fail('expected an error'),
+        error => expect(error.message).to.match(/Step 1 of the example plan has no SQL/),
+      );
+  });
+
+  it('finds the approved examples closest to the question', async () => {
+    const deposits = await library.create({
+      question: 'Total deposits by currency last month',
+      plan: createPlan('wallet', 'Sum deposits', 'SELECT currency, SUM(amount) FROM "Deposit"'),
+      approve: true,
+    });
+    await library.create({
+      question: 'Number of bets per sport',
+      plan: createPlan('bets-history', 'Count bets', 'SELECT sport, COUNT(*) FROM "Bet"'),
+      approve: true,
+    });
+    await library.create({
+      question: 'Deposits by currency and country',
+      plan: createPlan('wallet', 'Sum deposits', 'SELECT 1 FROM "Deposit"'),
+    });
+
+    const matches = await library.search({ question: 'Deposits per currency in May' });
+
+    expect(matches.map(match => match.example.id)).to.deep.equal([deposits.id]);
+    expect(
+      await library.search({ question: 'Deposits per currency in May', includeDrafts: true }),
+    ).to.have.length(2);
+  });
+
+  it('leaves out the examples reading tables the caller may not query', async () => {
+    await library.create({
+      question: 'Devices of the users',
+      plan: createPlan('pam', 'Devices', 'SELECT * FROM "User" JOIN "UserDevice" ON true'),
+      approve: true,
+    });
+
+    const matches = await library.search({
+      question: 'user devices',
+      filter: (service, table) => service === 'pam' && table !== 'UserDevice',
+    });
+
+    expect(matches).to.deep.equal([]);
+    expect(await library.search({ question: 'user devices' })).to.have.length(1);
+  });
+
+  it('combines BM25 with embeddings when a model is set', async () => {
+    const embeddings = new QueryExampleLibrary(filePath, () => ({
+      embedQuery: async (): Promise<number[]> => [1, 0],
+      embedDocuments: async (texts: string[]): Promise<number[][]> =>
+        texts.map(text => (text.startsWith('Сколько') ? [1, 0] : [0, 1])),
+    }));
+    await embeddings.create({
+      question: 'Сколько игроков зарегистрировалось за неделю?',
+      plan: createPlan('pam', 'Count users', 'SELECT COUNT(*) FROM "User"'),
+      approve: true,
+    });
+    await embeddings.create({
+      question: 'Total deposits by currency',
+      plan: createPlan('wallet', 'Sum deposits', 'SELECT SUM(amount) FROM "Deposit"'),
+      approve: true,
+    });
+
+    const matches = await embeddings.search({ question: 'How many players signed up?' }, 1);
+
+    expect(matches[0].example.plan.requiredServices).to.deep.equal(['pam']);
+  });
+
+  it('formats the examples for the planning and perception prompts', async () => {
+    const example = await library.create({
+      question: 'Total deposits by currency',
+      notes: 'Deposits are rows of type DEPOSIT',
+      plan: {
+        ...createPlan('wallet', 'Sum deposits', 'SELECT SUM(amount) FROM "Transaction"'),
+        localSql: 'SELECT * FROM step_1',
+      },
+    });
+
+    const planning = formatQueryExamplesForLLM([example]);
+    expect(planning).to.include('Question: Total deposits by currency');
+    expect(planning).to.include('Notes: Deposits are rows of type DEPOSIT');
+    expect(planning).to.include(
+      'Step 1 (wallet): Sum deposits\nSQL: SELECT SUM(amount) FROM "Transaction"',
+    );
+    expect(planning).to.include('Local SQL: SELECT * FROM step_1');
+
+    const perception = formatQueryExamplesForLLM([example], false);
+    expect(perception).to.include('Required services: ["wallet"]');
+    expect(perception).to.not.include('Step 1');
+    expect(formatQueryExamplesForLLM([])).to.equal('');
+  });
+});
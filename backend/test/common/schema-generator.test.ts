@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import { parsePrismaSchema } from '../../packages/common/knowledge/prisma-schema-parser';
+import {
+  applyIntrospection,
+  buildDatabaseDescription,
+  mergeDatabaseDescriptions,
+} from '../../packages/common/knowledge/schema-generator';
+import { DatabaseDescription } from '../../packages/common/knowledge/database-knowledge';
+
+const SCHEMA = `
+generator client {
+  provider = "prisma-client-js"
+}
+
+/// Player accounts
+model User {
+  id           Int           @id @default(autoincrement())
+  email        String        @unique @db.VarChar(255)
+  /// Registration date
+  createdAt    DateTime      @default(now()) @map("created_at")
+  status       UserStatus    @default(ACTIVE)
+  transactions Transaction[]
+
+  @@map("users")
+}
+
+model Transaction {
+  id     Int     @id
+  userId Int     // owner
+  amount Decimal @db.Decimal(10, 2)
+  tags   String[]
+  user   User    @relation(fields: [userId], references: [id])
+
+  @@index([userId])
+  @@unique([id, userId], name: "tx_user")
+}
+
+enum UserStatus {
+  ACTIVE
+  BLOCKED
+}
+`;
+
+describe('Schema Knowledge Generator', () => {
+  const description = buildDatabaseDescription('pam', parsePrismaSchema(SCHEMA));
+  const users = description.tables.find(t => t.name === 'users')!;
+  const transactions = description.tables.find(t => t.name === 'Transaction')!;
+
+  describe('buildDatabaseDescription', () => {
+    it('should use mapped table and column names', () => {
+      expect(description.tables.map(t => t.name)).to.deep.equal(['users', 'Transaction']);
+      expect(users.columns.map(c => c.name)).to.deep.equal(['id', 'email', 'created_at', 'status']);
+    });
+
+    it('should resolve types, keys, defaults and documentation', () => {
+      const email = users.columns.find(c => c.name === 'email')!;
+      expect(email.type).to.equal('varchar(255)');
+      expect(email.isUnique).to.equal(true);
+      expect(users.columns[0].isPrimaryKey).to.equal(true);
+      expect(users.columns[0].defaultValue).to.equal('autoincrement()');
+      expect(users.description).to.equal('Player accounts');
+      expect(users.columns.find(c => c.name === 'created_at')!.description).to.equal(
+        'Registration date',
+      );
+      expect(transactions.columns.find(c => c.name === 'amount')!.type).to.equal('numeric(10,2)');
+      expect(transactions.columns.find(c => c.name === 'tags')!.type).to.equal('text[]');
+    });
+
+    it('should attach enum values to columns and the database', () => {
+      expect(users.columns.find(c => c.name === 'status')!.enumValues).to.deep.equal([
+        'ACTIVE',
+        'BLOCKED',
+      ]);
+      expect(description.enums).to.deep.equal([
+        { name: 'UserStatus', values: ['ACTIVE', 'BLOCKED'] },
+      ]);
+    });
+
+    it('should describe both sides of a relation', () => {
+      const userId = transactions.columns.find(c => c.name === 'userId')!;
+      expect(userId.isForeignKey).to.equal(true);
+      expect(userId.references).to.deep.equal({ table: 'users', column: 'id' });
+      expect(transactions.relations![0]).to.include({ type: 'manyToOne', table: 'users' });
+      expect(users.relations![0]).to.include({
+        type: 'oneToMany',
+        table: 'Transaction',
+        sourceColumn: 'id',
+        targetColumn: 'userId',
+      });
+    });
+
+    it('should collect indexes and composite unique constraints', () => {
+      expect(transactions.indexes).to.deep.equal([
+        { columns: ['userId'], isUnique: false },
+        { name: 'tx_user', columns: ['id', 'userId'], isUnique: true },
+      ]);
+    });
+  });
+
+  describe('mergeDatabaseDescriptions', () => {
+    const handWritten: DatabaseDescription[] = [
+      {
+        name: 'PAM',
+        service: 'pam',
+        description: 'Player account management',
+        tables: [
+          {
+            name: 'users',
+            description: 'Registered players',
+            columns: [{ name: 'email', type: 'string', description: 'Login email' }],
+            examples: [{ description: 'All players', query: 'SELECT * FROM users' }],
+          },
+          { name: 'LegacyTable', description: 'Removed long ago', columns: [] },
+        ],
+      },
+      { name: 'Custom', service: 'custom', description: 'Only described by hand', tables: [] },
+    ];
+
+    const merged = mergeDatabaseDescriptions([description], handWritten);
+    const pam = merged.find(db => db.service === 'pam')!;
+    const mergedUsers = pam.tables.find(t => t.name === 'users')!;
+
+    it('should keep hand-written descriptions and examples', () => {
+      expect(pam.description).to.equal('Player account management');
+      expect(mergedUsers.description).to.equal('Registered players');
+      expect(mergedUsers.examples).to.have.length(1);
+      expect(mergedUsers.columns.find(c => c.name === 'email')!.description).to.equal(
+        'Login email',
+      );
+    });
+
+    it('should take the structure from the generated description', () => {
+      expect(mergedUsers.columns.find(c => c.name === 'email')!.type).to.equal('varchar(255)');
+      expect(pam.tables.map(t => t.name)).to.not.include('LegacyTable');
+    });
+
+    it('should keep services that are only described by hand', () => {
+      expect(merged.map(db => db.service)).to.include('custom');
+    });
+  });
+
+  describe('applyIntrospection', () => {
+    it('should treat the live database as the source of truth', () => {
+      const result = applyIntrospection(description, {
+        columns: [
+          {
+            table_name: 'users',
+            column_name: 'id',
+            data_type: 'integer',
+            udt_name: 'int4',
+            is_nullable: 'NO',
+            column_default: null,
+          },
+          {
+            table_name: 'users',
+            column_name: 'status',
+            data_type: 'USER-DEFINED',
+            udt_name: 'UserStatus',
+            is_nullable: 'YES',
+            column_default: null,
+          },
+          {
+            table_name: 'users',
+            column_name: 'phone',
+            data_type: 'text',
+            udt_name: 'text',
+            is_nullable: 'YES',
+            column_default: null,
+          },
+        ],
+        constraints: [
+          {
+            table_name: 'users',
+            column_name: 'id',
+            constraint_name: 'users_pkey',
+            constraint_type: 'PRIMARY KEY',
+            foreign_table_name: null,
+            foreign_column_name: null,
+          },
+        ],
+      });
+
+      expect(result.tables.map(t => t.name)).to.deep.equal(['users']);
+      const liveUsers = result.tables[0];
+      expect(liveUsers.description).to.equal('Player accounts');
+      expect(liveUsers.columns.map(c => c.name)).to.deep.equal(['id', 'status', 'phone']);
+      expect(liveUsers.columns[1].type).to.equal('UserStatus');
+      expect(liveUsers.columns[1].enumValues).to.deep.equal(['ACTIVE', 'BLOCKED']);
+      expect(liveUsers.columns[1].isNullable).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { estimateTokens } from '../../packages/common/utils';
+import { crossServiceKeys } from '../../packages/common/knowledge/cross-service-keys';
+import {
+  databaseKnowledge,
+  DatabaseDescription,
+  TableDescription,
+} from '../../packages/common/knowledge/database-knowledge';
+import { SchemaRetriever, tokenize } from '../../packages/common/knowledge/schema-retrieval';
+
+/**
+ * Table with an id column and the given columns
+ */
+const table = (
+  name: string,
+  description: string,
+  columns: string[],
+  extra: Partial<TableDescription> = {},
+): TableDescription => ({
+  name,
+  description,
+  columns: [
+    { name: 'id', type: 'integer', description: 'Identifier', isPrimaryKey: true },
+    ...columns.map(column => ({ name: column, type: 'text', description: '' })),
+  ],
+  ...extra,
+});
+
+const databases: DatabaseDescription[] = [
+  {
+    name: 'Financial history',
+    service: 'financial-history',
+    description: 'Money movements',
+    tables: [
+      table('FinancialTransaction', 'Deposits and withdrawals', ['userId', 'amount', 'currency'], {
+        relations: [
+          {
+            type: 'manyToOne',
+            table: 'PaymentMethod',
+            sourceColumn: 'paymentMethodId',
+            targetColumn: 'id',
+            description: 'Method used',
+          },
+        ],
+      }),
+      table('PaymentMethod', 'Cards and wallets', ['kind']),
+      table('Bonus', 'Bonuses granted to players', ['userId', 'value']),
+    ],
+  },
+  {
+    name: 'PAM',
+    service: 'pam',
+    description: 'Player accounts',
+    tables: [
+      table('User', 'Player accounts', ['email', 'country']),
+      table('Session', 'Login sessions', ['userId', 'ip']),
+    ],
+  },
+  {
+    name: 'Casino',
+    service: 'casino-st8',
+    description: 'Casino rounds',
+    tables: [table('GameRound', 'Casino game rounds', ['userId', 'gameCode', 'stake'])],
+  },
+];
+
+describe('Schema retrieval', () => {
+  let retriever: SchemaRetriever;
+
+  beforeEach(() => {
+    retriever = new SchemaRetriever(() => undefined);
+    sinon.stub(databaseKnowledge, 'getAllDatabases').returns(databases);
+    sinon
+      .stub(databaseKnowledge, 'getDatabaseDescription')
+      .callsFake(service => databases.find(database => database.service === service));
+    crossServiceKeys.setEntities([
+      {
+        name: 'player',
+        canonical: 'pam.User.id',
+        keys: [
+          'pam.User.id',
+          'financial-history.FinancialTransaction.userId',
+          'casino-st8.GameRound.userId',
+        ],
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+    crossServiceKeys.setEntities([]);
+  });
+
+  it('splits identifiers into words and drops plural endings', () => {
+    expect(tokenize('Show deposits by paymentMethodId')).to.deep.equal([
+      'deposit',
+      'payment',
+      'method',
+    ]);
+    expect(tokenize('FinancialTransaction')).to.deep.equal(['financial', 'transaction']);
+  });
+
+  it('ranks matching tables first and adds the tables needed to join them', async () => {
+    const ranked = await retriever.rankTables({ question: 'Total deposits by currency' }, 1);
+
+    expect(ranked.map(entry => `${entry.service}.${entry.table.name}`)).to.deep.equal([
+      'financial-history.FinancialTransaction',
+      'financial-history.PaymentMethod',
+      'pam.User',
+    ]);
+    expect(ranked[0].matchedColumns).to.deep.equal(['currency']);
+    expect(ranked.map(entry => entry.reason)).to.deep.equal([
+      'match',
+      'relation',
+      'cross-service-key',
+    ]);
+  });
+
+  it('uses the perception entities and services', async () => {
+    const ranked = await retriever.rankTables(
+      {
+        question: 'Сколько ставок сделали игроки?',
+        entities: { metric: 'stake' },
+        services: ['casino-st8'],
+      },
+      1,
+    );
+
+    expect(ranked[0].table.name).to.equal('GameRound');
+  });
+
+  it('leaves out the tables the caller may not read', async () => {
+    const ranked = await retriever.rankTables({
+      question: 'Total deposits by currency of users',
+      filter: (service, tableName) => service !== 'pam' && tableName !== 'PaymentMethod',
+    });
+
+    const names = ranked.map(entry => entry.table.name);
+    expect(names).to.include('FinancialTransaction');
+    expect(names).to.not.include('User');
+    expect(names).to.not.include('PaymentMethod');
+  });
+
+  it('returns every table when the full description fits the budget', async () => {
+    sinon.stub(databaseKnowledge, 'getDetailedDatabaseDescriptionsForLLM').returns('ALL TABLES');
+
+    expect(await retriever.buildPromptSection({ question: 'deposits' })).to.equal('ALL TABLES');
+  });
+
+  it('describes the relevant tables within the budget and lists the others by name', async () => {
+    sinon
+      .stub(databaseKnowledge, 'getDetailedDatabaseDescriptionsForLLM')
+      .returns('x'.repeat(100000));
+
+    const section = await retriever.buildPromptSection(
+      { question: 'Total deposits by currency' },
+      { tokenBudget: 300, maxTables: 1 },
+    );
+
+    expect(estimateTokens(section)).to.be.at.most(300);
+    expect(section).to.include('### Table: FinancialTransaction');
+    expect(section).to.not.include('### Table: GameRound');
+    expect(section).to.include('- "casino-st8": GameRound');
+  });
+
+  it('combines BM25 with embeddings when a model is set', async () => {
+    const embeddings = new SchemaRetriever(() => ({
+      embedQuery: async (): Promise<number[]> => [1, 0],
+      embedDocuments: async (texts: string[]): Promise<number[][]> =>
+        texts.map(text => (text.startsWith('pam.Session') ? [1, 0] : [0, 1])),
+    }));
+
+    const ranked = await embeddings.rankTables({ question: 'Когда игроки заходили в систему?' }, 1);
+
+    expect(ranked[0].table.name).to.equal('Session');
+  });
+});
@@ -0,0 +1,177 @@
+import { expect } from 'chai';
+import {
+  executeInMemoryOperation,
+  groupRows,
+  InMemoryOperation,
+  joinRows,
+  mapRows,
+  rankRows,
+  sortRows,
+} from '../../packages/execution/in-memory-engine';
+
+const users = [
+  { id: 1, email: 'a@example.com' },
+  { id: 2, email: 'b@example.com' },
+  { id: 3, email: 'c@example.com' },
+];
+
+const transactions = [
+  { txId: 10, userId: 1, amount: '100.50', currency: 'EUR' },
+  { txId: 11, userId: 1, amount: '20', currency: 'USD' },
+  { txId: 12, userId: 2, amount: '300', currency: 'EUR' },
+  { txId: 13, userId: 4, amount: '5', currency: 'EUR' },
+];
+
+describe('In-memory engine', () => {
+  describe('joinRows', () => {
+    it('joins on differently named keys', () => {
+      const rows = joinRows(users, transactions, { on: [{ left: 'id', right: 'userId' }] });
+      expect(rows.map(row => row.txId)).to.deep.equal([10, 11, 12]);
+      expect(rows[0]).to.include({ email: 'a@example.com', amount: '100.50' });
+    });
+
+    it('keeps unmatched rows for left and full joins', () => {
+      const left = joinRows(users, transactions, {
+        type: 'left',
+        on: [{ left: 'id', right: 'userId' }],
+      });
+      expect(left).to.have.length(4);
+      expect(left[3]).to.deep.equal({
+        id: 3,
+        email: 'c@example.com',
+        txId: null,
+        userId: null,
+        amount: null,
+        currency: null,
+      });
+
+      const full = joinRows(users, transactions, {
+        type: 'full',
+        on: [{ left: 'id', right: 'userId' }],
+      });
+      expect(full).to.have.length(5);
+      expect(full[4]).to.include({ id: null, email: null, txId: 13 });
+    });
+  });
+
+  it('groups with several aggregates and HAVING', () => {
+    const rows = groupRows(transactions, {
+      groupBy: ['userId'],
+      aggregates: [
+        { function: 'count', as: 'count' },
+        { function: 'sum', field: 'amount', as: 'total' },
+        { function: 'count_distinct', field: 'currency', as: 'currencies' },
+      ],
+      having: [{ field: 'total', operator: '>', value: 50 }],
+    });
+
+    expect(rows).to.deep.equal([
+      { userId: 1, count: 2, total: 120.5, currencies: 2 },
+      { userId: 2, count: 1, total: 300, currencies: 1 },
+    ]);
+  });
+
+  it('adds computed columns and projects them', () => {
+    const rows = mapRows(transactions.slice(0, 1), {
+      columns: [
+        {
+          as: 'amountCents',
+          expression: { fn: 'multiply', args: [{ field: 'amount' }, { value: 100 }] },
+        },
+        { as: 'label', expression: { fn: 'lower', args: [{ field: 'currency' }] } },
+      ],
+      select: ['txId', 'amountCents', 'label'],
+    });
+
+    expect(rows).to.deep.equal([{ txId: 10, amountCents: 10050, label: 'eur' }]);
+  });
+
+  it('sorts numeric strings as numbers and keeps nulls last', () => {
+    const rows = sortRows(
+      [...transactions, { txId: 14, amount: null }],
+      [{ field: 'amount', direction: 'desc' }],
+    );
+    expect(rows.map(row => row.txId)).to.deep.equal([12, 10, 11, 13, 14]);
+  });
+
+  it('ranks rows per group and keeps top-N', () => {
+    const rows = rankRows(transactions, {
+      partitionBy: ['currency'],
+      orderBy: [{ field: 'amount', direction: 'desc' }],
+      top: 1,
+    });
+
+    expect(rows.map(row => [row.currency, row.txId, row.rank])).to.deep.equal([
+      ['EUR', 12, 1],
+      ['USD', 11, 1],
+    ]);
+  });
+
+  it('computes dense ranks with ties', () => {
+    const rows = rankRows([{ score: 5 }, { score: 5 }, { score: 3 }], {
+      orderBy: [{ field: 'score', direction: 'desc' }],
+      method: 'dense_rank',
+    });
+    expect(rows.map(row => row.rank)).to.deep.equal([1, 1, 2]);
+  });
+
+  describe('executeInMemoryOperation', () => {
+    it('unions results of several steps with and without duplicates', () => {
+      const inputs = [
+        { stepId: 'step_1', rows: [{ id: 1 }, { id: 2 }] },
+        { stepId: 'step_2', rows: [{ id: 2 }, { id: 3 }] },
+      ];
+
+      expect(executeInMemoryOperation(InMemoryOperation.UNION, {}, inputs)).to.have.length(3);
+      expect(
+        executeInMemoryOperation(InMemoryOperation.UNION, { all: true }, inputs),
+      ).to.have.length(4);
+      expect(
+        executeInMemoryOperation(InMemoryOperation.DISTINCT, { fields: ['id'] }, inputs),
+      ).to.deep.equal([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('filters by a value taken from another step', () => {
+      const rows = executeInMemoryOperation(
+        InMemoryOperation.FILTER,
+        {
+          conditions: [
+            { field: 'amount', operator: '=', valueFrom: { stepId: 'global_max', field: 'max' } },
+          ],
+        },
+        [
+          { stepId: 'step_1', rows: transactions },
+          { stepId: 'global_max', rows: [{ max: 300 }] },
+        ],
+      );
+
+      expect(rows.map(row => row.txId)).to.deep.equal([12]);
+    });
+
+    it('aggregates rows of all dependencies', () => {
+      const rows = executeInMemoryOperation(
+        InMemoryOperation.AGGREGATE,
+        {
+          aggregates: [
+            { function: 'max', field: 'amount', as: 'max' },
+            { function: 'avg', field: 'amount', as: 'avg' },
+          ],
+        },
+        [
+          { stepId: 'step_1', rows: transactions.slice(0, 2) },
+          { stepId: 'step_2', rows: transactions.slice(2) },
+        ],
+      );
+
+      expect(rows).to.deep.equal([{ max: '300', avg: 106.375 }]);
+    });
+
+    it('rejects invalid limits', () => {
+      expect(() =>
+        executeInMemoryOperation(InMemoryOperation.LIMIT, { limit: -1 }, [
+          { stepId: 'step_1', rows: users },
+        ]),
+      ).to.throw(/Invalid limit/);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { executeLocalSql } from '../../packages/execution/local-sql';
+
+const users = [
+  { id: 1, email: 'a@example.com' },
+  { id: 2, email: 'b@example.com' },
+  { id: 3, email: 'c@example.com' },
+];
+
+const transactions = [
+  { userId: 1, amount: '100.50', createdAt: new Date('2024-01-01T00:00:00Z') },
+  { userId: 1, amount: '20', createdAt: new Date('2024-01-02T00:00:00Z') },
+  { userId: 2, amount: '300', createdAt: new Date('2024-01-03T00:00:00Z') },
+];
+
+describe('Local SQL', () => {
+  it('joins and aggregates results of several steps', async () => {
+    const rows = await executeLocalSql(
+      'SELECT u."email", SUM(t."amount") AS "total", COUNT(*) AS "count" ' +
+        'FROM "step_1" u JOIN "step_2" t ON t."userId" = u."id" ' +
+        'GROUP BY u."email" HAVING SUM(t."amount") > 50 ORDER BY "total" DESC',
+      { step_1: users, step_2: transactions },
+    );
+
+    expect(rows).to.deep.equal([
+      { email: 'b@example.com', total: 300, count: 1 },
+      { email: 'a@example.com', total: 120.5, count: 2 },
+    ]);
+  });
+
+  it('supports left joins, window functions and dates', async () => {
+    const rows = await executeLocalSql(
+      'SELECT u."id", MAX(t."createdAt") AS "lastAt", ' +
+        'RANK() OVER (ORDER BY COUNT(t."userId") DESC) AS "rank" ' +
+        'FROM "step_1" u LEFT JOIN "step_2" t ON t."userId" = u."id" GROUP BY u."id" ORDER BY u."id"',
+      { step_1: users, step_2: transactions },
+    );
+
+    expect(rows).to.deep.equal([
+      { id: 1, lastAt: '2024-01-02T00:00:00.000Z', rank: 1 },
+      { id: 2, lastAt: '2024-01-03T00:00:00.000Z', rank: 2 },
+      { id: 3, lastAt: null, rank: 3 },
+    ]);
+  });
+
+  it('creates tables for empty results', async () => {
+    const rows = await executeLocalSql('SELECT COUNT(*) AS "count" FROM "step_1"', { step_1: [] });
+    expect(rows).to.deep.equal([{ count: 0 }]);
+  });
+
+  it('rejects statements that are not read-only', async () => {
+    let error: Error | undefined;
+    try {
+      await executeLocalSql('DELETE FROM "step_1"', { step_1: users });
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.match(/SQL safety gate/);
+  });
+
+  it('stops reading rows at the row limit', async () => {
+    const rows = await executeLocalSql(
+      'WITH RECURSIVE r(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM r) SELECT x FROM r',
+      {},
+      { maxRows: 3 },
+    );
+
+    expect(rows).to.deep.equal([{ x: 1 }, { x: 2 }, { x: 3 }]);
+  });
+
+  it('stops a query that runs past its time limit or is cancelled', async () => {
+    const endless =
+      'WITH RECURSIVE r(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM r) SELECT count(*) FROM r';
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('stopped by user')), 50);
+
+    const messages = await Promise.all(
+      [{ timeoutMs: 50 }, { signal: controller.signal }].map(options =>
+        executeLocalSql(endless, {}, options).then(
+          () => 'finished',
+          error => (error as Error).message,
+        ),
+      ),
+    );
+
+    expect(messages).to.deep.equal([
+      'Local SQL did not finish within 50 ms',
+      'Query was cancelled: stopped by user',
+    ]);
+  });
+
+  it('does not start the query when it is cancelled while the tables load', async () => {
+    const controller = new AbortController();
+    const result = executeLocalSql(
+      'WITH RECURSIVE r(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM r) SELECT count(*) FROM r',
+      { step_1: [{ id: 1 }] },
+      { signal: controller.signal, timeoutMs: 60000 },
+    );
+    controller.abort(new Error('stopped by user'));
+
+    const message = await result.then(
+      () => 'finished',
+      error => (error as Error).message,
+    );
+    expect(message).to.equal('Query was cancelled: stopped by user');
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import {
+  bindParameters,
+  findPlaceholders,
+  findPositionalPlaceholders,
+  normalizePlaceholders,
+} from '../../packages/execution/parameter-binding';
+
+const sources = [
+  { stepId: 'step_1', rows: [{ userId: 'u1' }, { userId: "o'brien" }, { userId: 'u1' }] },
+];
+
+describe('Parameter binding', () => {
+  it('normalizes legacy placeholder forms to :name', () => {
+    expect(normalizePlaceholders('SELECT * FROM "User" WHERE "id" = :"userId"')).to.equal(
+      'SELECT * FROM "User" WHERE "id" = :userId',
+    );
+    expect(
+      normalizePlaceholders('WHERE a = @userId AND b = ${status} AND c = $1', ['userId']),
+    ).to.equal('WHERE a = :userId AND b = :status AND c = :userId');
+    expect(normalizePlaceholders("WHERE a = ? AND b = '?'", ['userId'])).to.equal(
+      "WHERE a = :userId AND b = '?'",
+    );
+  });
+
+  it('ignores casts, string literals and quoted identifiers', () => {
+    const placeholders = findPlaceholders(
+      'SELECT "createdAt"::date, \':notParam\', ":alsoNot" FROM "Bet" WHERE "userId" IN (:userId) AND "type" = :type',
+    );
+
+    expect(placeholders.map(placeholder => [placeholder.name, placeholder.mode])).to.deep.equal([
+      ['userId', 'list'],
+      ['type', 'scalar'],
+    ]);
+  });
+
+  it('skips escaped and dollar-quoted string literals', () => {
+    const [bound] = bindParameters(
+      `SELECT E'it\\'s :notParam', $$ :alsoNot $$, $body$ it's $$ :stillNot $body$ WHERE "userId" = :userId`,
+      sources,
+    );
+
+    expect(bound.sql).to.equal(
+      `SELECT E'it\\'s :notParam', $$ :alsoNot $$, $body$ it's $$ :stillNot $body$ WHERE "userId" = $1`,
+    );
+    expect(bound.values).to.deep.equal(['u1']);
+  });
+
+  it('finds positional placeholders compared with a column, but not jsonb operators', () => {
+    const placeholders = findPositionalPlaceholders(
+      `SELECT * FROM "Bet" WHERE data ? 'bonus' AND tags ?| array['a'] AND note = '= ?' AND "userId" = ? AND status IN ($2)`,
+    );
+
+    expect(placeholders.map(placeholder => placeholder.column)).to.deep.equal(['userId', 'status']);
+  });
+
+  it('does not rewrite dollar-quoted text as placeholders', () => {
+    expect(normalizePlaceholders('SELECT $tag$ @user ${name} $tag$ WHERE a = $name')).to.equal(
+      'SELECT $tag$ @user ${name} $tag$ WHERE a = :name',
+    );
+  });
+
+  it('binds scalars from the first row and lists from all rows', () => {
+    const [bound] = bindParameters(
+      'SELECT * FROM "User" WHERE "id" = :userId OR "id" IN (:userId)',
+      [{ stepId: 'step_1', rows: [{ userId: 'u1' }] }],
+    );
+    expect(bound.sql).to.equal('SELECT * FROM "User" WHERE "id" = $1 OR "id" IN ($2)');
+    expect(bound.values).to.deep.equal(['u1', 'u1']);
+
+    const [list] = bindParameters('SELECT * FROM "User" WHERE "id" IN (:userId)', sources);
+    expect(list.sql).to.equal('SELECT * FROM "User" WHERE "id" IN ($1, $2)');
+    expect(list.values).to.deep.equal(['u1', "o'brien"]);
+
+    const [array] = bindParameters('SELECT * FROM "User" WHERE "id" = ANY(:userId)', sources);
+    expect(array.sql).to.equal('SELECT * FROM "User" WHERE "id" = ANY($1)');
+    expect(array.values).to.deep.equal([['u1', "o'brien"]]);
+  });
+
+  it('matches nothing when the dependency returned no rows', () => {
+    const [bound] = bindParameters('SELECT * FROM "User" WHERE "id" IN (:userId)', [
+      { stepId: 'step_1', rows: [] },
+    ]);
+    expect(bound).to.deep.equal({ sql: 'SELECT * FROM "User" WHERE "id" IN (NULL)', values: [] });
+  });
+
+  it('fails when no dependency returns the parameter column', () => {
+    expect(() => bindParameters('SELECT * FROM "User" WHERE "id" = :playerId', sources)).to.throw(
+      /:playerId not found/,
+    );
+  });
+
+  it('splits large lists into batches for row-wise queries', () => {
+    const rows = Array.from({ length: 5 }, (_, index) => ({ userId: index }));
+    const batches = bindParameters(
+      'SELECT "id", "email" FROM "User" WHERE "id" IN (:userId)',
+      [{ stepId: 'step_1', rows }],
+      { batchSize: 2 },
+    );
+
+    expect(batches.map(batch => batch.values)).to.deep.equal([[0, 1], [2, 3], [4]]);
+    expect(batches[2].sql).to.equal('SELECT "id", "email" FROM "User" WHERE "id" IN ($1)');
+  });
+
+  it('binds large lists as one array when batching would change the result', () => {
+    const rows = Array.from({ length: 5 }, (_, index) => ({ userId: index }));
+    const [bound, extra] = bindParameters(
+      'SELECT COUNT(*) FROM "Bet" WHERE "userId" NOT IN (:userId)',
+      [{ stepId: 'step_1', rows }],
+      { batchSize: 2 },
+    );
+
+    expect(extra).to.equal(undefined);
+    expect(bound.sql).to.equal('SELECT COUNT(*) FROM "Bet" WHERE "userId" <> ALL($1)');
+  });
+
+  it('prefers provided values to the results of dependencies', () => {
+    const from = new Date('2024-05-01T00:00:00.000Z');
+    const [bound] = bindParameters(
+      'SELECT * FROM "Transaction" WHERE "userId" IN (:userId) AND "type" = ANY(:types) AND "createdAt" >= :from',
+      sources,
+      { values: { TYPES: 'DEPOSIT', from } },
+    );
+
+    expect(bound.sql).to.equal(
+      'SELECT * FROM "Transaction" WHERE "userId" IN ($1, $2) AND "type" = ANY($3) AND "createdAt" >= $4',
+    );
+    expect(bound.values).to.deep.equal(['u1', "o'brien", ['DEPOSIT'], from]);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { estimateTokens, safeJsonStringify } from '@common/utils';
+import { profileResult, profileResults } from '../../packages/execution/result-profiler';
+
+describe('Result profiler', () => {
+  const rows = [
+    { id: 1n, currency: 'EUR', amount: '10.50', createdAt: new Date('2024-03-01T10:00:00Z') },
+    { id: 2n, currency: 'USD', amount: '20', createdAt: new Date('2024-03-05T10:00:00Z') },
+    { id: 3n, currency: 'EUR', amount: null, createdAt: '2024-02-20T00:00:00.000Z' },
+    { id: 4n, currency: 'EUR', amount: '1.5', createdAt: null, meta: { vip: true } },
+  ];
+
+  it('summarizes every column by its type', () => {
+    const profile = profileResult(rows);
+    const columns = Object.fromEntries(profile.columns.map(column => [column.name, column]));
+
+    expect(profile.rowCount).to.equal(4);
+    expect(columns.id).to.deep.include({
+      type: 'number',
+      min: 1,
+      max: 4,
+      mean: 2.5,
+      distinctCount: 4,
+    });
+    expect(columns.id.topValues).to.equal(undefined);
+    expect(columns.currency).to.deep.include({ type: 'string', distinctCount: 2 });
+    expect(columns.currency.topValues).to.deep.equal([
+      { value: 'EUR', count: 3 },
+      { value: 'USD', count: 1 },
+    ]);
+    expect(columns.amount).to.deep.include({ type: 'number', nullPercent: 25, min: 1.5, max: 20 });
+    expect(columns.createdAt.type).to.equal('date');
+    expect(columns.createdAt.timeRange).to.deep.equal({
+      from: '2024-02-20T00:00:00.000Z',
+      to: '2024-03-05T10:00:00.000Z',
+    });
+    expect(columns.meta).to.deep.include({ type: 'json', nullPercent: 75 });
+  });
+
+  it('keeps a small result whole as the sample with JSON-safe values', () => {
+    const [first] = profileResult(rows).sample;
+
+    expect(first).to.deep.equal({
+      id: '1',
+      currency: 'EUR',
+      amount: '10.50',
+      createdAt: '2024-03-01T10:00:00.000Z',
+    });
+    expect(profileResult(rows).sample).to.have.length(4);
+  });
+
+  it('samples rows evenly over a large result, including the first and the last', () => {
+    const many = Array.from({ length: 1000 }, (_, index) => ({ index }));
+
+    expect(profileResult(many, { sampleRows: 3 }).sample).to.deep.equal([
+      { index: 0 },
+      { index: 500 },
+      { index: 999 },
+    ]);
+  });
+
+  it('shrinks the profiles of all results to the token budget', () => {
+    const wide = Array.from({ length: 500 }, (_, index) =>
+      Object.fromEntries(
+        Array.from({ length: 40 }, (_, column) => [
+          `column_${column}`,
+          `value ${index % 7} ${'x'.repeat(50)}`,
+        ]),
+      ),
+    );
+
+    const unlimited = profileResults({ step_1: wide, step_2: wide }, { tokenBudget: Infinity });
+    const fitted = profileResults({ step_1: wide, step_2: wide }, { tokenBudget: 2000 });
+
+    expect(unlimited.step_1.sample).to.have.length(10);
+    expect(estimateTokens(safeJsonStringify(fitted))).to.be.at.most(2000);
+    expect(fitted.step_1.rowCount).to.equal(500);
+    expect(fitted.step_1.sample).to.have.length(1);
+    expect(fitted.step_1.columns.length + (fitted.step_1.omittedColumns || 0)).to.equal(40);
+    expect(Object.keys(fitted.step_1.sample[0])).to.have.length(fitted.step_1.columns.length);
+  });
+});
@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { resultStore } from '@common/result-store';
+import {
+  DistributedQueryProcessor,
+  InMemoryOperation,
+} from '../../packages/execution/distributed-query';
+import {
+  applyRowLimit,
+  describeTruncation,
+  mergeRowCounts,
+  parseExplainRowEstimate,
+  truncateRows,
+} from '../../packages/execution/row-limits';
+import { validateReadOnlySql } from '../../packages/execution/sql-safety';
+import { StepOutcome } from '../../packages/execution/step-observer';
+
+describe('Row limits', () => {
+  describe('applyRowLimit', () => {
+    it('adds a LIMIT to a query without one', () => {
+      expect(applyRowLimit('SELECT id FROM users ORDER BY id', 101)).to.deep.equal({
+        sql: 'SELECT id FROM users ORDER BY id LIMIT 101',
+        fix: 'Added LIMIT 101',
+      });
+    });
+
+    it('keeps a smaller LIMIT and reduces a larger one', () => {
+      expect(applyRowLimit('SELECT id FROM users LIMIT 10', 101)).to.deep.equal({
+        sql: 'SELECT id FROM users LIMIT 10',
+      });
+      expect(applyRowLimit('SELECT id FROM users LIMIT 5000 OFFSET 10', 101)).to.deep.equal({
+        sql: 'SELECT id FROM users LIMIT 101 OFFSET 10',
+        fix: 'Reduced LIMIT 5000 to 101',
+      });
+    });
+
+    it('caps a parameterized LIMIT without dropping the parameter', () => {
+      expect(applyRowLimit('SELECT id FROM users LIMIT $1', 101).sql).to.equal(
+        'SELECT id FROM users LIMIT LEAST($1, 101)',
+      );
+    });
+
+    it('leaves aggregate queries alone', () => {
+      const queries = [
+        'SELECT count(*) FROM users',
+        'SELECT currency, sum(amount) FROM deposits GROUP BY currency',
+        'SELECT max(amount) FILTER (WHERE amount > 0) FROM deposits',
+      ];
+
+      queries.forEach(sql => expect(applyRowLimit(sql, 101)).to.deep.equal({ sql }));
+    });
+
+    it('limits queries whose aggregates are only in subqueries or windows', () => {
+      expect(applyRowLimit('SELECT id, count(*) OVER () AS total FROM users', 101).sql).to.match(
+        /LIMIT 101$/,
+      );
+      expect(
+        applyRowLimit('SELECT id, (SELECT max(amount) FROM deposits) AS top FROM users', 101).sql,
+      ).to.match(/LIMIT 101$/);
+    });
+
+    it('limits the whole UNION and the body of a WITH query', () => {
+      expect(applyRowLimit('SELECT id FROM a UNION ALL SELECT id FROM b', 11).sql).to.equal(
+        'SELECT id FROM a UNION ALL SELECT id FROM b LIMIT 11',
+      );
+      expect(
+        applyRowLimit('WITH t AS (SELECT id FROM a) SELECT id FROM t LIMIT 500', 11).sql,
+      ).to.equal('WITH t AS (SELECT id FROM a) SELECT id FROM t LIMIT 11');
+    });
+
+    it('inserts the LIMIT before a trailing semicolon and comment', () => {
+      expect(applyRowLimit('SELECT id FROM users; -- all users', 11).sql).to.equal(
+        'SELECT id FROM users LIMIT 11; -- all users',
+      );
+    });
+
+    it('adds the LIMIT after a trailing IN list or parenthesised condition', () => {
+      expect(applyRowLimit('SELECT * FROM "Bet" WHERE "userId" IN ($1, $2)', 11).sql).to.equal(
+        'SELECT * FROM "Bet" WHERE "userId" IN ($1, $2) LIMIT 11',
+      );
+      expect(applyRowLimit('SELECT id FROM users WHERE (a = 1 OR b = 2)\n', 11).sql).to.equal(
+        'SELECT id FROM users WHERE (a = 1 OR b = 2) LIMIT 11\n',
+      );
+    });
+
+    it('limits the outer query, not a trailing IN subquery', () => {
+      const { sql } = applyRowLimit('SELECT id FROM "A" WHERE id IN (SELECT id FROM "B")', 11);
+
+      expect(sql).to.equal('SELECT id FROM "A" WHERE id IN (SELECT id FROM "B") LIMIT 11');
+      expect(validateReadOnlySql(sql).isValid).to.equal(true);
+    });
+
+    it('does not touch queries it cannot parse', () => {
+      expect(applyRowLimit('SELECT FROM WHERE', 11)).to.deep.equal({ sql: 'SELECT FROM WHERE' });
+    });
+  });
+
+  describe('row counts', () => {
+    it('truncates rows and keeps the exact total', () => {
+      expect(truncateRows([1, 2, 3], 2)).to.deep.equal({
+        rows: [1, 2],
+        rowCount: { rowCount: 2, truncated: true, totalRows: 3 },
+      });
+      expect(truncateRows([1], 2).rowCount.truncated).to.equal(false);
+    });
+
+    it('reads the row estimate from EXPLAIN output', () => {
+      expect(
+        parseExplainRowEstimate([{ 'QUERY PLAN': [{ Plan: { 'Plan Rows': 1234.6 } }] }]),
+      ).to.equal(1235);
+      expect(parseExplainRowEstimate([])).to.equal(undefined);
+    });
+
+    it('sums batches and loses the total when a batch was skipped or has no total', () => {
+      const exact = { rowCount: 2, truncated: false, totalRows: 2 };
+      const estimated = { rowCount: 3, truncated: true, totalRows: 40, totalRowsEstimated: true };
+
+      expect(mergeRowCounts([exact, estimated])).to.deep.equal({
+        rowCount: 5,
+        truncated: true,
+        totalRows: 42,
+        totalRowsEstimated: true,
+      });
+      expect(mergeRowCounts([exact, exact], false)).to.deep.include({
+        truncated: true,
+        totalRows: undefined,
+      });
+      expect(mergeRowCounts([exact, { rowCount: 1, truncated: true }]).totalRows).to.equal(
+        undefined,
+      );
+    });
+
+    it('describes truncated results for the interpretation prompt', () => {
+      expect(
+        describeTruncation({
+          step_1: { rowCount: 10, truncated: true, totalRows: 900, totalRowsEstimated: true },
+          step_2: { rowCount: 3, truncated: false, totalRows: 3 },
+          step_3: { rowCount: 0, truncated: true },
+        }),
+      ).to.deep.equal(['step_1: 10 of ~900 rows', 'step_3: 0 of an unknown number of rows']);
+    });
+  });
+
+  describe('distributed plans', () => {
+    const processor = new DistributedQueryProcessor();
+
+    beforeEach(() => {
+      const stored = new Map<string, Record<string, unknown>[]>();
+      sinon.stub(resultStore, 'isConnected').returns(true);
+      sinon.stub(resultStore, 'clear').resolves();
+      sinon.stub(resultStore, 'store').callsFake(async (key, rows) => {
+        stored.set(key, rows);
+      });
+      sinon.stub(resultStore, 'get').callsFake(async key => stored.get(key) || []);
+    });
+
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('caps each step and the whole query and reports the truncated steps', async () => {
+      // Local SQL stops one row past the limit, so the total of a truncated step is unknown
+      const finished: StepOutcome[] = [];
+      const query = 'SELECT 1 AS id UNION ALL SELECT 2 UNION ALL SELECT 3';
+      const result = await processor.executeDistributedPlan(
+        {
+          id: `row-limits-test-${Date.now()}`,
+          requiredServices: ['pam'],
+          finalStepId: 'step_2',
+          steps: ['step_1', 'step_2'].map(id => ({
+            id,
+            service: 'pam',
+            description: id,
+            dependsOn: [],
+            isInMemory: true,
+            operation: InMemoryOperation.SQL,
+            operationParams: { query },
+          })),
+        },
+        {
+          rowLimits: { maxRowsPerStep: 2, maxRowsPerQuery: 3 },
+          observer: {
+            onStepFinished: (outcome): void => {
+              finished.push(outcome);
+            },
+          },
+        },
+      );
+
+      expect(result.finalResults).to.have.length(1);
+      expect(result.rowCounts).to.deep.equal({
+        step_1: { rowCount: 2, truncated: true, totalRows: undefined },
+        step_2: { rowCount: 1, truncated: true, totalRows: undefined },
+      });
+      expect(finished.map(outcome => [outcome.truncated, outcome.totalRows])).to.deep.equal([
+        [true, undefined],
+        [true, undefined],
+      ]);
+    });
+  });
+});
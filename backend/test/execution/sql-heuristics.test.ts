@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { databaseKnowledge, DatabaseDescription } from '@common/knowledge';
+import { applySchemaHeuristics } from '../../packages/execution/sql-heuristics';
+
+const database: DatabaseDescription = {
+  name: 'Bets history',
+  service: 'bets-history',
+  description: 'Bets of users',
+  tables: [
+    {
+      name: 'Bet',
+      description: 'Bets',
+      columns: [
+        { name: 'userId', type: 'text', description: 'User' },
+        { name: 'amount', type: 'numeric', description: 'Stake' },
+        { name: 'status', type: 'text', description: 'Status' },
+      ],
+    },
+  ],
+};
+
+describe('SQL heuristics', () => {
+  beforeEach(() => {
+    sinon.stub(databaseKnowledge, 'isLoaded').returns(true);
+    sinon.stub(databaseKnowledge, 'getDatabaseDescription').returns(database);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('quotes the userId column outside string literals', () => {
+    expect(
+      applySchemaHeuristics('bets-history', `SELECT userId FROM "Bet" WHERE "status" = 'userId'`),
+    ).to.deep.equal({
+      sql: `SELECT "userId" FROM "Bet" WHERE "status" = 'userId'`,
+      fixes: ['Quoted userId column'],
+    });
+  });
+
+  it('replaces a similar table name without quoting literals or parameters', () => {
+    const { sql, fixes } = applySchemaHeuristics(
+      'bets-history',
+      `SELECT amount, 'open bets' AS label FROM Bets WHERE status = 'won' AND amount > $1 ORDER BY amount`,
+    );
+
+    expect(sql).to.equal(
+      `SELECT "amount", 'open bets' AS label FROM "Bet" WHERE status = 'won' AND amount > $1 ORDER BY "amount"`,
+    );
+    expect(fixes).to.deep.equal([
+      'Fixed schema mismatch: Table "Bets" not found in service "bets-history" schema',
+    ]);
+  });
+
+  it('leaves a query it cannot fix unchanged', () => {
+    expect(applySchemaHeuristics('bets-history', 'SELECT 1')).to.deep.equal({
+      sql: 'SELECT 1',
+      fixes: [],
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { databaseKnowledge, DatabaseDescription } from '@common/knowledge';
+import { ErrorType, SqlRepairAttempt } from '@common/types';
+import { createTypedError } from '@common/utils';
+import { createSqlTrace } from '../../packages/execution/step-observer';
+import {
+  classifySqlError,
+  collectRepairContext,
+  repairSql,
+} from '../../packages/execution/sql-repair';
+
+const database: DatabaseDescription = {
+  name: 'Wallet',
+  service: 'wallet',
+  description: 'Balances and deposits',
+  tables: [
+    {
+      name: 'Deposit',
+      description: 'Deposits of users',
+      columns: [
+        { name: 'id', type: 'integer', description: 'Deposit id', isPrimaryKey: true },
+        { name: 'userId', type: 'integer', description: 'User' },
+        { name: 'amount', type: 'numeric', description: 'Amount' },
+      ],
+      relations: [
+        {
+          type: 'manyToOne',
+          table: 'User',
+          sourceColumn: 'userId',
+          targetColumn: 'id',
+          description: 'Owner of the deposit',
+        },
+      ],
+    },
+    {
+      name: 'User',
+      description: 'Users',
+      columns: [{ name: 'id', type: 'integer', description: 'User id', isPrimaryKey: true }],
+    },
+    {
+      name: 'AuditLog',
+      description: 'Changes of balances',
+      columns: [{ name: 'id', type: 'integer', description: 'Entry id', isPrimaryKey: true }],
+    },
+  ],
+};
+
+describe('SQL repair', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-repair-'));
+  const fixturesFile = path.join(directory, 'fixtures.json');
+  const environment = { ...process.env };
+
+  before(() => {
+    fs.writeFileSync(
+      fixturesFile,
+      JSON.stringify({
+        fixtures: [
+          {
+            stage: 'sql-repair',
+            match: 'column "userid" does not exist',
+            response: {
+              sql: 'SELECT "userId", SUM(amount) AS total FROM deposit GROUP BY "userId"',
+              explanation: 'Quoted the userId column',
+            },
+          },
+          {
+            stage: 'sql-repair',
+            match: 'relation "deposit" does not exist',
+            response: {
+              sql: 'SELECT "userId", SUM(amount) AS total FROM "Deposit" GROUP BY "userId"',
+              explanation: 'Quoted the Deposit table',
+            },
+          },
+        ],
+      }),
+    );
+  });
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fixture';
+    process.env.LLM_FIXTURES_FILE = fixturesFile;
+    sinon
+      .stub(databaseKnowledge, 'getDatabaseDescription')
+      .callsFake(service => (service === 'wallet' ? database : undefined));
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    sinon.restore();
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('classifies the database errors a corrected query can fix', () => {
+    expect(classifySqlError('relation "deposit" does not exist')).to.equal('missing-relation');
+    expect(
+      classifySqlError(
+        'Raw query failed. Code: `42703`. Message: `column "userid" does not exist`',
+      ),
+    ).to.equal('missing-column');
+    expect(classifySqlError('operator does not exist: text = integer')).to.equal('type-mismatch');
+    expect(classifySqlError('syntax error at or near "GROUP"')).to.equal('syntax-error');
+    expect(classifySqlError('column reference "id" is ambiguous')).to.equal('invalid-reference');
+    expect(classifySqlError('canceling statement due to statement timeout')).to.equal(undefined);
+    expect(classifySqlError("Can't reach database server")).to.equal(undefined);
+  });
+
+  it('sends the tables of the query, similar names and related tables', () => {
+    const tables = collectRepairContext({
+      service: 'wallet',
+      sql: 'SELECT userId FROM deposits',
+      error: 'relation "deposits" does not exist',
+    });
+
+    expect(tables.map(table => table.name)).to.deep.equal(['Deposit', 'User']);
+  });
+
+  it('leaves out the tables the caller may not read', () => {
+    const tables = collectRepairContext({
+      service: 'wallet',
+      sql: 'SELECT * FROM "AuditLog" JOIN "Deposit" ON true',
+      error: 'column "x" does not exist',
+      principal: { id: 'analyst', roles: [], method: 'api-key' },
+    });
+
+    expect(tables).to.deep.equal([]);
+  });
+
+  it('retries with the new error until a corrected query succeeds', async () => {
+    const trace = createSqlTrace(
+      'SELECT userId, SUM(amount) AS total FROM deposit GROUP BY userId',
+    );
+    const reported: SqlRepairAttempt[] = [];
+    const execute = sinon.stub();
+    execute.onFirstCall().rejects(new Error('relation "deposit" does not exist'));
+    execute.onSecondCall().resolves([{ userId: 1, total: 10 }]);
+
+    const repaired = await repairSql({
+      service: 'wallet',
+      sql: trace.sql,
+      error: 'column "userid" does not exist',
+      trace,
+      execute,
+      onAttempt: attempt => {
+        reported.push(attempt);
+      },
+    });
+
+    expect(repaired?.result).to.deep.equal([{ userId: 1, total: 10 }]);
+    expect(repaired?.sql).to.equal(
+      'SELECT "userId", SUM(amount) AS total FROM "Deposit" GROUP BY "userId"',
+    );
+    expect(execute.firstCall.args[0]).to.equal(
+      'SELECT "userId", SUM(amount) AS total FROM deposit GROUP BY "userId"',
+    );
+    expect(reported.map(({ attempt, succeeded }) => ({ attempt, succeeded }))).to.deep.equal([
+      { attempt: 1, succeeded: false },
+      { attempt: 2, succeeded: true },
+    ]);
+    expect(reported[0].failure).to.equal('relation "deposit" does not exist');
+    expect(reported[1].error).to.equal('relation "deposit" does not exist');
+    expect(trace.repairs).to.deep.equal(reported);
+  });
+
+  it('stops after the configured number of attempts', async () => {
+    const execute = sinon.stub().rejects(new Error('relation "deposit" does not exist'));
+
+    const repaired = await repairSql({
+      service: 'wallet',
+      sql: 'SELECT userId FROM deposit',
+      error: 'column "userid" does not exist',
+      execute,
+      maxAttempts: 1,
+    });
+
+    expect(repaired).to.equal(undefined);
+    expect(execute.callCount).to.equal(1);
+  });
+
+  it('does not replace the query with a correction the access policy rejects', async () => {
+    const trace = createSqlTrace('SELECT userId FROM deposit');
+    const execute = sinon
+      .stub()
+      .rejects(createTypedError(ErrorType.ACCESS_DENIED, 'Access denied to table Deposit'));
+
+    const repaired = await repairSql({
+      service: 'wallet',
+      sql: trace.sql,
+      error: 'column "userid" does not exist',
+      trace,
+      execute,
+      maxAttempts: 2,
+    });
+
+    expect(repaired).to.equal(undefined);
+    expect(trace.repairs?.map(attempt => attempt.error)).to.deep.equal([
+      'column "userid" does not exist',
+      'column "userid" does not exist',
+    ]);
+  });
+
+  it('does not call the LLM for errors a corrected query cannot fix', async () => {
+    const execute = sinon.stub();
+
+    const repaired = await repairSql({
+      service: 'wallet',
+      sql: 'SELECT 1',
+      error: 'canceling statement due to statement timeout',
+      execute,
+    });
+
+    expect(repaired).to.equal(undefined);
+    expect(execute.called).to.equal(false);
+  });
+});
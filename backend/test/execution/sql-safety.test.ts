@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import {
+  assertReadOnlySql,
+  extractTableReferences,
+  validateReadOnlySql,
+} from '../../packages/execution/sql-safety';
+import { ErrorType } from '../../packages/common/types';
+
+describe('SQL Safety Gate', () => {
+  describe('validateReadOnlySql', () => {
+    it('should accept a simple SELECT', () => {
+      const result = validateReadOnlySql('SELECT id, amount FROM "Transaction" WHERE "userId" = 1');
+      expect(result.isValid).to.equal(true);
+    });
+
+    it('should accept WITH queries and UNION', () => {
+      expect(
+        validateReadOnlySql(
+          'WITH t AS (SELECT "userId", SUM(amount) AS total FROM "Transaction" GROUP BY "userId") SELECT * FROM t',
+        ).isValid,
+      ).to.equal(true);
+      expect(validateReadOnlySql('SELECT 1 UNION ALL SELECT 2').isValid).to.equal(true);
+    });
+
+    it('should accept a single trailing semicolon', () => {
+      expect(validateReadOnlySql('SELECT * FROM "User";').isValid).to.equal(true);
+    });
+
+    it('should reject write and DDL statements', () => {
+      expect(validateReadOnlySql('DELETE FROM "User"').isValid).to.equal(false);
+      expect(validateReadOnlySql('UPDATE "Balance" SET amount = 0').isValid).to.equal(false);
+      expect(validateReadOnlySql('INSERT INTO "User" (id) VALUES (1)').isValid).to.equal(false);
+      expect(validateReadOnlySql('DROP TABLE "User"').isValid).to.equal(false);
+      expect(validateReadOnlySql('TRUNCATE "Transaction"').isValid).to.equal(false);
+    });
+
+    it('should reject multiple statements', () => {
+      const result = validateReadOnlySql('SELECT 1; DROP TABLE "User"');
+      expect(result.isValid).to.equal(false);
+      expect(result.error).to.include('Multiple statements');
+    });
+
+    it('should reject data-modifying CTEs', () => {
+      const result = validateReadOnlySql(
+        'WITH d AS (DELETE FROM "User" RETURNING id) SELECT * FROM d',
+      );
+      expect(result.isValid).to.equal(false);
+      expect(result.error).to.include('DELETE');
+    });
+
+    it('should reject deny-listed functions anywhere in the query', () => {
+      expect(validateReadOnlySql('SELECT pg_sleep(10)').isValid).to.equal(false);
+      expect(
+        validateReadOnlySql('SELECT * FROM "User" WHERE id IN (SELECT pg_sleep(1))').isValid,
+      ).to.equal(false);
+      expect(
+        validateReadOnlySql("SELECT * FROM dblink('host=x', 'SELECT 1') AS t(a int)").isValid,
+      ).to.equal(false);
+      expect(validateReadOnlySql("SELECT pg_read_file('/etc/passwd')").isValid).to.equal(false);
+    });
+
+    it('should reject locking clauses', () => {
+      expect(validateReadOnlySql('SELECT * FROM "Balance" FOR UPDATE').isValid).to.equal(false);
+    });
+
+    it('should reject SQL that cannot be parsed', () => {
+      const result = validateReadOnlySql('SELEC * FROM');
+      expect(result.isValid).to.equal(false);
+      expect(result.error).to.include('could not be parsed');
+    });
+  });
+
+  describe('assertReadOnlySql', () => {
+    it('should throw a typed UNSAFE_QUERY error', () => {
+      try {
+        assertReadOnlySql('DELETE FROM "User"', 'pam');
+        expect.fail('Expected assertReadOnlySql to throw');
+      } catch (error) {
+        expect((error as { type?: ErrorType }).type).to.equal(ErrorType.UNSAFE_QUERY);
+        expect((error as Error).message).to.include('pam');
+      }
+    });
+
+    it('should not throw for read-only queries', () => {
+      expect(() => assertReadOnlySql('SELECT COUNT(*) FROM "User"', 'pam')).to.not.throw();
+    });
+  });
+
+  describe('extractTableReferences', () => {
+    it('should collect tables from joins and subqueries but not CTE names', () => {
+      const tables = extractTableReferences(
+        'WITH recent AS (SELECT * FROM public."User" u JOIN "UserDevice" d ON d."userId" = u.id) ' +
+          'SELECT * FROM recent WHERE id IN (SELECT "userId" FROM "Favorites")',
+      );
+
+      expect(tables).to.deep.equal(['User', 'UserDevice', 'Favorites']);
+    });
+
+    it('should keep tables shadowed by a CTE of the same name', () => {
+      expect(
+        extractTableReferences(
+          'WITH "UserDevice" AS (SELECT * FROM "UserDevice") SELECT * FROM "UserDevice"',
+        ),
+      ).to.deep.equal(['UserDevice']);
+      expect(
+        extractTableReferences(
+          'WITH RECURSIVE "User"(id) AS (SELECT 1 UNION ALL SELECT id + 1 FROM "User") ' +
+            'SELECT * FROM "User"',
+        ),
+      ).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { resultStore } from '@common/result-store';
+import { ErrorType } from '@common/types';
+import {
+  DistributedQueryPlan,
+  DistributedQueryProcessor,
+  InMemoryOperation,
+} from '../../packages/execution/distributed-query';
+import {
+  ExecutedStep,
+  StepExecutionObserver,
+  StepOutcome,
+} from '../../packages/execution/step-observer';
+
+/**
+ * Creates a plan of local SQL steps, which run without any database
+ */
+const createLocalPlan = (queries: string[]): DistributedQueryPlan => ({
+  id: `observer-test-${Date.now()}`,
+  requiredServices: ['pam'],
+  finalStepId: `step_${queries.length}`,
+  steps: queries.map((query, index) => ({
+    id: `step_${index + 1}`,
+    service: 'pam',
+    description: `Local step ${index + 1}`,
+    dependsOn: index > 0 ? [`step_${index}`] : [],
+    isInMemory: true,
+    operation: InMemoryOperation.SQL,
+    operationParams: { query },
+  })),
+});
+
+/**
+ * Observer that records every notification
+ */
+const createRecorder = (): {
+  observer: StepExecutionObserver;
+  started: ExecutedStep[];
+  finished: StepOutcome[];
+} => {
+  const started: ExecutedStep[] = [];
+  const finished: StepOutcome[] = [];
+
+  return {
+    observer: {
+      onStepStarted: (step): void => {
+        started.push(step);
+      },
+      onStepFinished: (outcome): void => {
+        finished.push(outcome);
+      },
+    },
+    started,
+    finished,
+  };
+};
+
+describe('Step execution observer', () => {
+  const processor = new DistributedQueryProcessor();
+
+  beforeEach(() => {
+    // Step results are kept in memory instead of Redis
+    const stored = new Map<string, Record<string, unknown>[]>();
+    sinon.stub(resultStore, 'isConnected').returns(true);
+    sinon.stub(resultStore, 'clear').resolves();
+    sinon.stub(resultStore, 'store').callsFake(async (key, rows) => {
+      stored.set(key, rows);
+    });
+    sinon.stub(resultStore, 'get').callsFake(async key => stored.get(key) || []);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('reports every executed step with its row count and SQL', async () => {
+    const { observer, started, finished } = createRecorder();
+    const plan = createLocalPlan([
+      'SELECT 1 AS id UNION ALL SELECT 2 AS id',
+      'SELECT COUNT(*) AS total FROM step_1',
+    ]);
+
+    const result = await processor.executeDistributedPlan(plan, { observer });
+
+    expect(result.errors).to.equal(undefined);
+    expect(started.map(step => [step.stepId, step.stepNumber, step.totalSteps])).to.deep.equal([
+      ['step_1', 1, 2],
+      ['step_2', 2, 2],
+    ]);
+    expect(finished.map(outcome => outcome.rowCount)).to.deep.equal([2, 1]);
+    expect(finished[1].sql).to.equal('SELECT COUNT(*) AS total FROM step_1');
+    expect(finished[1].operation).to.equal(InMemoryOperation.SQL);
+    expect(finished[1].durationMs).to.be.at.least(0);
+    expect(finished[1].error).to.equal(undefined);
+  });
+
+  it('reports the error of a failed step', async () => {
+    const { observer, finished } = createRecorder();
+    const plan = createLocalPlan(['DELETE FROM step_0']);
+
+    const result = await processor.executeDistributedPlan(plan, { observer });
+
+    expect(result.errors).to.have.property('step_1');
+    expect(finished).to.have.length(1);
+    expect(finished[0].rowCount).to.equal(0);
+    expect(finished[0].errorType).to.equal(ErrorType.UNSAFE_QUERY);
+    expect(finished[0].error).to.contain('SQL safety gate');
+  });
+
+  it('keeps executing when the observer throws', async () => {
+    const plan = createLocalPlan(['SELECT 1 AS id']);
+
+    const result = await processor.executeDistributedPlan(plan, {
+      observer: {
+        onStepStarted: (): void => {
+          throw new Error('observer failure');
+        },
+      },
+    });
+
+    expect(result.errors).to.equal(undefined);
+    expect(result.finalResults).to.deep.equal([{ id: 1 }]);
+  });
+});
@@ -13,7 +13,7 @@ describe('Perception Module', () => {
   beforeEach(() => {
     // Мокаем LLM модель для тестирования
     modelStub = sinon.stub();
-    sinon.stub(llmModule, 'getOpenAIModel').returns({
+    sinon.stub(llmModule, 'getChatModel').returns({
       invoke: modelStub
     } as any);
   });
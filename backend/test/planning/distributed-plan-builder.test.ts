@@ -0,0 +1,212 @@
+import { expect } from 'chai';
+import { crossServiceKeys } from '../../packages/common/knowledge/cross-service-keys';
+import { InMemoryOperation } from '../../packages/execution/distributed-query';
+import { DistributedPlanBuilder } from '../../packages/planning/distributed-plan-builder';
+
+describe('Cross-service key registry', () => {
+  beforeEach(() => {
+    crossServiceKeys.setEntities([
+      {
+        name: 'user',
+        canonical: 'pam.User.id',
+        keys: ['wallet.Transaction.userId', 'bets-history.CasinoBet.userId', 'kyc.User.pamId'],
+      },
+    ]);
+  });
+
+  it('includes the canonical key among the equivalent keys', () => {
+    const [entity] = crossServiceKeys.getEntities();
+    expect(entity.keys).to.have.length(4);
+    expect(entity.keys[0]).to.deep.equal({ service: 'pam', table: 'User', column: 'id' });
+  });
+
+  it('rejects malformed key references', () => {
+    expect(() =>
+      crossServiceKeys.setEntities([{ name: 'x', canonical: 'pam.User', keys: [] }]),
+    ).to.throw(/service\.Table\.column/);
+  });
+
+  it('finds links between tables of different services', () => {
+    const link = crossServiceKeys.findLink(
+      { service: 'wallet', table: 'Transaction' },
+      { service: 'kyc', table: 'User' },
+    );
+
+    expect(link).to.deep.include({ entity: 'user' });
+    expect(link?.source.column).to.equal('userId');
+    expect(link?.target.column).to.equal('pamId');
+    expect(
+      crossServiceKeys.findLink(
+        { service: 'wallet', table: 'Balance' },
+        { service: 'pam', table: 'User' },
+      ),
+    ).to.equal(undefined);
+  });
+
+  it('describes key equivalences for the planning prompt', () => {
+    const description = crossServiceKeys.getDescriptionForLLM();
+    expect(description).to.contain('pam.User.id ≡ wallet.Transaction.userId');
+    expect(description).to.contain('Canonical key: pam.User.id');
+  });
+});
+
+describe('DistributedPlanBuilder', () => {
+  const builder = new DistributedPlanBuilder();
+
+  beforeEach(() => {
+    crossServiceKeys.setEntities([
+      {
+        name: 'user',
+        canonical: 'pam.User.id',
+        keys: ['wallet.Transaction.userId', 'bets-history.CasinoBet.userId'],
+      },
+    ]);
+  });
+
+  it('moves a subquery to another service into a dependent step', () => {
+    const plan = builder.convertToDQL(
+      {
+        steps: [
+          {
+            service: 'pam',
+            description: 'User with the biggest deposit',
+            sqlQuery:
+              'SELECT * FROM "User" WHERE id = (SELECT "userId" FROM "Transaction" WHERE "type" = \'DEPOSIT\' ORDER BY amount DESC LIMIT 1)',
+          },
+        ],
+        requiredServices: ['pam'],
+      },
+      'show the user with the biggest deposit',
+    );
+
+    const userStep = plan.steps.find(step => step.id === 'step_1');
+    const keyStep = plan.steps.find(step => step.service === 'wallet');
+
+    expect(keyStep?.sqlQuery).to.equal(
+      'SELECT "userId" FROM "Transaction" WHERE "type" = \'DEPOSIT\' ORDER BY amount DESC LIMIT 1',
+    );
+    expect(userStep?.sqlQuery).to.equal('SELECT * FROM "User" WHERE id = :userId');
+    expect(userStep?.parameters).to.deep.equal(['userId']);
+    expect(userStep?.dependsOn).to.deep.equal([keyStep?.id]);
+    expect(plan.requiredServices).to.include('wallet');
+    expect(plan.finalStepId).to.equal('step_1');
+  });
+
+  it('reuses an existing step that already runs the subquery', () => {
+    const subquery = 'SELECT "userId" FROM "CasinoBet" WHERE amount > 100';
+    const plan = builder.convertToDQL(
+      {
+        steps: [
+          { service: 'bets-history', description: 'Big bets', sqlQuery: subquery },
+          {
+            service: 'pam',
+            description: 'Users with big bets',
+            sqlQuery: `SELECT * FROM "User" WHERE "id" IN (${subquery})`,
+          },
+        ],
+        requiredServices: ['bets-history', 'pam'],
+      },
+      'users with big bets',
+    );
+
+    const userStep = plan.steps.find(step => step.id === 'step_2');
+    expect(plan.steps.filter(step => !step.isInMemory)).to.have.length(2);
+    expect(userStep?.sqlQuery).to.equal('SELECT * FROM "User" WHERE "id" IN (:userId)');
+    expect(userStep?.dependsOn).to.deep.equal(['step_1']);
+  });
+
+  it('joins results of different services on registered keys', () => {
+    const plan = builder.convertToDQL(
+      {
+        steps: [
+          { service: 'pam', description: 'Users', sqlQuery: 'SELECT "id", "email" FROM "User"' },
+          {
+            service: 'wallet',
+            description: 'Transactions',
+            sqlQuery: 'SELECT "userId", amount FROM "Transaction"',
+          },
+        ],
+        requiredServices: ['pam', 'wallet'],
+      },
+      'users and their transactions',
+    );
+
+    const joinStep = plan.steps.find(step => step.operation === InMemoryOperation.JOIN);
+    expect(joinStep?.dependsOn).to.deep.equal(['step_1', 'step_2']);
+    expect(joinStep?.operationParams).to.deep.equal({
+      type: 'inner',
+      on: [{ left: 'id', right: 'userId' }],
+    });
+  });
+
+  it('names positional placeholders after cross-service keys', () => {
+    const plan = builder.convertToDQL(
+      {
+        steps: [
+          { service: 'pam', description: 'Users', sqlQuery: 'SELECT "id" FROM "User"' },
+          {
+            service: 'wallet',
+            description: 'Bonus transactions',
+            sqlQuery: `SELECT * FROM "Transaction" WHERE "userId" = ? AND meta ? 'bonus'`,
+          },
+        ],
+        requiredServices: ['pam', 'wallet'],
+      },
+      'bonus transactions of users',
+    );
+
+    const step = plan.steps.find(candidate => candidate.id === 'step_2');
+    expect(step?.sqlQuery).to.equal(
+      `SELECT * FROM "Transaction" WHERE "userId" = :userId AND meta ? 'bonus'`,
+    );
+    expect(step?.parameters).to.deep.equal(['userId']);
+  });
+
+  it('rejects positional placeholders for columns that are not cross-service keys', () => {
+    expect(() =>
+      builder.convertToDQL(
+        {
+          steps: [
+            {
+              service: 'wallet',
+              description: 'Transactions',
+              sqlQuery: 'SELECT * FROM "Transaction" WHERE amount > ?',
+            },
+          ],
+          requiredServices: ['wallet', 'pam'],
+        },
+        'large transactions',
+      ),
+    ).to.throw(/amount is not a cross-service key/);
+  });
+
+  it('combines step results with local SQL instead of heuristic aggregation', () => {
+    const localSql =
+      'SELECT u."email", SUM(t."amount") AS "total" FROM "step_1" u JOIN "step_2" t ON t."userId" = u."id" GROUP BY u."email"';
+    const plan = builder.convertToDQL(
+      {
+        steps: [
+          { service: 'pam', description: 'Users', sqlQuery: 'SELECT "id", "email" FROM "User"' },
+          {
+            service: 'wallet',
+            description: 'Transactions',
+            sqlQuery: 'SELECT "userId", amount FROM "Transaction"',
+          },
+        ],
+        requiredServices: ['pam', 'wallet'],
+        localSql,
+      },
+      'total amount per user',
+    );
+
+    const inMemorySteps = plan.steps.filter(step => step.isInMemory);
+    expect(inMemorySteps).to.have.length(1);
+    expect(inMemorySteps[0]).to.deep.include({
+      id: 'local_sql',
+      operation: InMemoryOperation.SQL,
+      dependsOn: ['step_1', 'step_2'],
+      operationParams: { query: localSql },
+    });
+    expect(plan.finalStepId).to.equal('local_sql');
+  });
+});
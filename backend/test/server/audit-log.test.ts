@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StepOutcome } from '../../packages/execution/step-observer';
+import { AuditLog } from '../../src/services/AuditLog';
+import { AuditRecord } from '../../src/types/audit';
+
+/**
+ * Creates an executed step that sent the given SQL
+ */
+const createOutcome = (service: 'wallet' | 'pam', sql: string): StepOutcome => ({
+  stepId: `${service}-step`,
+  stepNumber: 1,
+  totalSteps: 1,
+  service,
+  description: `Read ${service}`,
+  durationMs: 5,
+  rowCount: 3,
+  parameterCount: 0,
+  fixes: [],
+  statements: [{ sql, fixes: [], durationMs: 5 }],
+});
+
+/**
+ * Builds a record started at the given time
+ */
+const createRecord = (
+  auditLog: AuditLog,
+  queryId: string,
+  userId: string,
+  outcome: StepOutcome,
+  startedAt: number,
+): AuditRecord => {
+  const trail = auditLog.begin(queryId, `query ${queryId}`, {
+    id: userId,
+    roles: ['analyst'],
+    method: 'api-key',
+  });
+  trail.addStep(outcome);
+  trail.complete({ data: {}, explanation: 'done', confidence: 0.9 });
+
+  return { ...trail.toRecord(), startedAt };
+};
+
+describe('AuditLog', () => {
+  let directory: string;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audit-log-'));
+    auditLog = new AuditLog(directory);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('records the services and tables read by the executed SQL', () => {
+    const trail = auditLog.begin('q-1', 'Top players', undefined);
+    trail.addStep(
+      createOutcome(
+        'wallet',
+        'SELECT t."userId" FROM "Transaction" t JOIN "Balance" b ON b."userId" = t."userId"',
+      ),
+    );
+    trail.fail('error', 'Database error', 'database_error');
+
+    const record = trail.toRecord();
+
+    expect(record.user).to.equal(null);
+    expect(record.status).to.equal('error');
+    expect(record.services).to.deep.equal(['wallet']);
+    expect(record.tables).to.have.members(['wallet.Transaction', 'wallet.Balance']);
+    expect(record.steps[0].statements).to.have.length(1);
+  });
+
+  it('appends one line per run to the file of its UTC day', async () => {
+    const day = Date.UTC(2024, 4, 1, 12);
+    await auditLog.write(
+      createRecord(auditLog, 'q-1', 'alice', createOutcome('wallet', 'SELECT 1'), day),
+    );
+    await auditLog.write(
+      createRecord(auditLog, 'q-2', 'bob', createOutcome('wallet', 'SELECT 2'), day + 1000),
+    );
+
+    const content = await fs.promises.readFile(
+      path.join(directory, 'audit-2024-05-01.jsonl'),
+      'utf-8',
+    );
+    expect(content.trim().split('\n')).to.have.length(2);
+  });
+
+  it('searches by user, service, table and time range, newest first', async () => {
+    const may1 = Date.UTC(2024, 4, 1, 12);
+    const may2 = Date.UTC(2024, 4, 2, 12);
+    const may3 = Date.UTC(2024, 4, 3, 12);
+
+    await Promise.all([
+      auditLog.write(
+        createRecord(
+          auditLog,
+          'q-1',
+          'alice',
+          createOutcome('wallet', 'SELECT * FROM "Transaction"'),
+          may1,
+        ),
+      ),
+      auditLog.write(
+        createRecord(auditLog, 'q-2', 'bob', createOutcome('pam', 'SELECT * FROM "User"'), may2),
+      ),
+      auditLog.write(
+        createRecord(auditLog, 'q-3', 'alice', createOutcome('pam', 'SELECT * FROM "User"'), may3),
+      ),
+    ]);
+
+    const ids = (records: AuditRecord[]): string[] => records.map(record => record.queryId);
+
+    expect(ids(await auditLog.search())).to.deep.equal(['q-3', 'q-2', 'q-1']);
+    expect(ids(await auditLog.search({ user: 'alice' }))).to.deep.equal(['q-3', 'q-1']);
+    expect(ids(await auditLog.search({ service: 'wallet' }))).to.deep.equal(['q-1']);
+    expect(ids(await auditLog.search({ table: 'pam.User' }))).to.deep.equal(['q-3', 'q-2']);
+    expect(ids(await auditLog.search({ table: 'transaction' }))).to.deep.equal(['q-1']);
+    expect(ids(await auditLog.search({ from: may2, to: may2 }))).to.deep.equal(['q-2']);
+    expect(ids(await auditLog.search({ limit: 1 }))).to.deep.equal(['q-3']);
+    expect((await auditLog.get('q-2'))?.user?.id).to.equal('bob');
+    expect(await auditLog.get('missing')).to.equal(undefined);
+  });
+
+  it('returns nothing before the first record is written', async () => {
+    const empty = new AuditLog(path.join(directory, 'missing'));
+    expect(await empty.search()).to.deep.equal([]);
+  });
+});
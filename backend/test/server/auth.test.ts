@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import crypto from 'crypto';
+import http, { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { accessControl, hashApiKey } from '../../packages/common/access-control';
+import { AuthService, verifyJwt } from '../../src/services/AuthService';
+import { WebSocketGateway } from '../../src/services/WebSocketGateway';
+
+const SECRET = 'test-secret';
+
+/**
+ * Signs an HS256 JWT with the given claims
+ */
+const signJwt = (claims: Record<string, unknown>, secret: string = SECRET): string => {
+  const encode = (value: Record<string, unknown>): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = crypto.createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+};
+
+/**
+ * Creates a request with the given URL and headers
+ */
+const createRequest = (url: string, headers: Record<string, string> = {}): IncomingMessage =>
+  ({ url, headers: { host: 'localhost', ...headers } }) as unknown as IncomingMessage;
+
+describe('Authentication', () => {
+  const auth = new AuthService({ enabled: true, jwtSecret: SECRET, anonymousRoles: [] });
+
+  before(() => {
+    accessControl.setPolicy({
+      roles: { analyst: { services: ['wallet'] } },
+      users: {
+        'analyst-1': { roles: ['analyst'], apiKeyHashes: [hashApiKey('analyst-key')] },
+        'jwt-user': { roles: ['analyst'] },
+      },
+    });
+  });
+
+  describe('verifyJwt', () => {
+    it('returns the claims of a valid token', () => {
+      const claims = verifyJwt(signJwt({ sub: 'alice', exp: 2000 }), SECRET, 1000);
+      expect(claims.sub).to.equal('alice');
+    });
+
+    it('rejects expired tokens, foreign signatures and other algorithms', () => {
+      expect(() => verifyJwt(signJwt({ sub: 'alice', exp: 1000 }), SECRET, 1000)).to.throw(
+        'Token has expired',
+      );
+      expect(() => verifyJwt(signJwt({ sub: 'alice' }, 'other'), SECRET)).to.throw(
+        'Invalid token signature',
+      );
+
+      const [, payload] = signJwt({ sub: 'alice' }).split('.');
+      const none = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${payload}.`;
+      expect(() => verifyJwt(none, SECRET)).to.throw('only HS256 is accepted');
+    });
+  });
+
+  describe('AuthService', () => {
+    it('authenticates API keys from the header and the query string', () => {
+      const expected = { id: 'analyst-1', roles: ['analyst'], method: 'api-key' };
+
+      expect(
+        auth.authenticate(createRequest('/api/query', { 'x-api-key': 'analyst-key' })).principal,
+      ).to.deep.equal(expected);
+      expect(
+        auth.authenticate(createRequest('/api/events/q1/stream?api_key=analyst-key')).principal,
+      ).to.deep.equal(expected);
+      expect(
+        auth.authenticate(createRequest('/api/query', { 'x-api-key': 'wrong' })).error,
+      ).to.equal('Invalid API key');
+    });
+
+    it('takes roles from the token or from the user in the policy', () => {
+      const withRoles = auth.authenticate(
+        createRequest('/api/query', {
+          authorization: `Bearer ${signJwt({ sub: 'bob', roles: ['compliance'] })}`,
+        }),
+      );
+      const withoutRoles = auth.authenticate(
+        createRequest(`/ws?access_token=${signJwt({ sub: 'jwt-user' })}`),
+      );
+
+      expect(withRoles.principal).to.deep.equal({
+        id: 'bob',
+        roles: ['compliance'],
+        method: 'jwt',
+      });
+      expect(withoutRoles.principal?.roles).to.deep.equal(['analyst']);
+    });
+
+    it('does not depend on the Host header', () => {
+      const request = createRequest('/api/query?api_key=analyst-key', { host: 'a b' });
+
+      expect(auth.authenticate(request).principal?.id).to.equal('analyst-1');
+    });
+
+    it('rejects requests without credentials unless authentication is disabled', () => {
+      const anonymous = new AuthService({ enabled: false, anonymousRoles: ['admin'] });
+
+      expect(auth.authenticate(createRequest('/api/query')).error).to.contain(
+        'Authentication required',
+      );
+      expect(anonymous.authenticate(createRequest('/api/query')).principal).to.deep.equal({
+        id: 'anonymous',
+        roles: ['admin'],
+        method: 'anonymous',
+      });
+    });
+  });
+
+  describe('WebSocket gateway', () => {
+    let server: http.Server;
+    let gateway: WebSocketGateway;
+    let port: number;
+
+    before(done => {
+      server = http.createServer();
+      gateway = new WebSocketGateway(server, '/ws', req => auth.authenticate(req));
+      server.listen(0, () => {
+        port = (server.address() as AddressInfo).port;
+        done();
+      });
+    });
+
+    after(async () => {
+      await gateway.close();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('rejects connections without credentials', async () => {
+      const ws = new WebSocket(`ws://localhost:${port}/ws`);
+      const status = await new Promise<number>(resolve =>
+        ws.on('unexpected-response', (_req, res) => resolve(res.statusCode || 0)),
+      );
+
+      expect(status).to.equal(401);
+    });
+
+    it('accepts connections with an API key', async () => {
+      const ws = new WebSocket(`ws://localhost:${port}/ws?api_key=analyst-key`);
+      await new Promise(resolve => ws.on('open', resolve));
+      ws.close();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { ConversationTurn } from '@common/types';
+import { ConversationStore } from '../../src/services/ConversationStore';
+
+/**
+ * Creates a turn of a conversation
+ */
+const createTurn = (index: number): ConversationTurn => ({
+  queryId: `q-${index}`,
+  query: `question ${index}`,
+  perception: { intent: 'get_deposits', confidence: 0.9, entities: null, requiredServices: [] },
+  timestamp: index,
+});
+
+describe('ConversationStore', () => {
+  it('keeps the turns in memory while Redis is unavailable', async () => {
+    // The store is not connected, as after a failed connection to Redis
+    const store = new ConversationStore('redis://localhost:1');
+
+    await store.addTurn('conversation-1', createTurn(1));
+    await store.addTurn('conversation-1', createTurn(2));
+    await store.addTurn('conversation-2', createTurn(3));
+
+    const conversation = await store.getConversation('conversation-1');
+    expect(conversation.conversationId).to.equal('conversation-1');
+    expect(conversation.turns.map(turn => turn.queryId)).to.deep.equal(['q-1', 'q-2']);
+    expect((await store.getConversation('unknown')).turns).to.deep.equal([]);
+  });
+
+  it('keeps only the latest turns of a long conversation', async () => {
+    const store = new ConversationStore('redis://localhost:1');
+
+    for (let index = 1; index <= 25; index++) {
+      await store.addTurn('conversation-1', createTurn(index));
+    }
+
+    const { turns } = await store.getConversation('conversation-1');
+    expect(turns).to.have.length(20);
+    expect(turns[0].queryId).to.equal('q-6');
+    expect(turns[19].queryId).to.equal('q-25');
+  });
+});
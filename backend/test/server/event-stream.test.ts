@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import sinon from 'sinon';
+import { handleEventRoutes } from '../../src/routes/eventRoutes';
+import { EventStore, getEventStore } from '../../src/services/EventStore';
+import { getQueryHistoryStore } from '../../src/services/QueryHistoryStore';
+import { EventStatus, EventType } from '../../src/types/events';
+
+/**
+ * Adds a query of a user to the query history
+ */
+const startQuery = (queryId: string, userId?: string): Promise<void> =>
+  getQueryHistoryStore().start({
+    queryId,
+    conversationId: `conversation-${queryId}`,
+    userId,
+    query: 'question',
+    language: 'en',
+    status: 'running',
+    startedAt: Date.now(),
+  });
+
+/**
+ * Reads an SSE stream until the server closes it and returns the "query-event" messages
+ */
+const readStream = (
+  port: number,
+  path: string,
+  headers: Record<string, string> = {},
+  onOpen?: () => void,
+): Promise<Array<{ id: string; data: { type: string; status: string } }>> =>
+  new Promise((resolve, reject) => {
+    const request = http.get({ port, path, headers }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        body += chunk;
+      });
+      response.on('end', () => {
+        const messages = body
+          .split('\n\n')
+          .filter(block => block.includes('event: query-event'))
+          .map(block => {
+            const lines = block.split('\n');
+            const id = lines.find(line => line.startsWith('id: '))?.slice(4) || '';
+            const data = lines.find(line => line.startsWith('data: '))?.slice(6) || '{}';
+            return { id, data: JSON.parse(data) };
+          });
+        resolve(messages);
+      });
+      if (onOpen) onOpen();
+    });
+    request.on('error', reject);
+  });
+
+describe('Event stream', () => {
+  const eventStore = getEventStore();
+  let server: http.Server;
+  let port: number;
+
+  before(done => {
+    server = http.createServer((req, res) => {
+      handleEventRoutes(req, res);
+    });
+    server.listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  after(done => {
+    server.close(() => done());
+  });
+
+  it('replays stored events and closes after completion', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId);
+    await eventStore.addEvent(eventStore.createEvent(queryId, EventType.QUERY_RECEIVED));
+    await eventStore.addEvent(eventStore.createEvent(queryId, EventType.PLANNING));
+    await eventStore.addEvent(
+      eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.COMPLETED),
+    );
+
+    const messages = await readStream(port, `/api/events/${queryId}/stream`);
+    expect(messages.map(message => message.data.type)).to.deep.equal([
+      EventType.QUERY_RECEIVED,
+      EventType.PLANNING,
+      EventType.COMPLETION,
+    ]);
+  });
+
+  it('pushes live events and replays only events after Last-Event-ID', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId);
+    const first = eventStore.createEvent(queryId, EventType.QUERY_RECEIVED);
+    await eventStore.addEvent(first);
+    await eventStore.addEvent(eventStore.createEvent(queryId, EventType.PLANNING));
+
+    const messages = await readStream(
+      port,
+      `/api/logs/stream/${queryId}`,
+      { 'Last-Event-ID': first.id },
+      () => {
+        setTimeout(async () => {
+          await eventStore.addEvent(eventStore.createEvent(queryId, EventType.STEP_EXECUTION));
+          await eventStore.addEvent(
+            eventStore.createEvent(queryId, EventType.COMPLETION, EventStatus.COMPLETED),
+          );
+        }, 20);
+      },
+    );
+
+    expect(messages.map(message => message.data.type)).to.deep.equal([
+      EventType.PLANNING,
+      EventType.STEP_EXECUTION,
+      EventType.COMPLETION,
+    ]);
+  });
+
+  it('does not disclose the events of another user', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId, 'someone-else');
+    await eventStore.addEvent(eventStore.createEvent(queryId, EventType.QUERY_RECEIVED));
+
+    const status = await new Promise<number>((resolve, reject) => {
+      http
+        .get({ port, path: `/api/events/${queryId}` }, response => {
+          response.resume();
+          resolve(response.statusCode || 0);
+        })
+        .on('error', reject);
+    });
+
+    expect(status).to.equal(404);
+  });
+
+  it('does not depend on the Host header', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId);
+
+    const status = await new Promise<number>((resolve, reject) => {
+      http
+        .get({ port, path: `/api/events/${queryId}`, headers: { host: 'bad host' } }, response => {
+          response.resume();
+          resolve(response.statusCode || 0);
+        })
+        .on('error', reject);
+    });
+
+    expect(status).to.equal(200);
+  });
+
+  it('drops events kept in memory once they expire', async () => {
+    const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const store = new EventStore();
+
+    try {
+      await store.addEvent(store.createEvent('q-expiring', EventType.QUERY_RECEIVED));
+      clock.tick(5 * 60 * 1000);
+      await store.addEvent(
+        store.createEvent('q-expiring', EventType.COMPLETION, EventStatus.COMPLETED),
+      );
+      clock.tick(9 * 60 * 1000);
+      expect(await store.getEvents('q-expiring')).to.have.length(2);
+
+      clock.tick(60 * 1000);
+      expect(await store.getEvents('q-expiring')).to.deep.equal([]);
+    } finally {
+      clock.restore();
+    }
+  });
+});
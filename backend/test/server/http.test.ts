@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { readBody } from '../../src/utils/http';
+
+/**
+ * Posts a body and returns the status and parsed JSON answer
+ */
+const post = (port: number, body: string): Promise<{ status: number; json: unknown }> =>
+  new Promise((resolve, reject) => {
+    const request = http.request({ port, method: 'POST', path: '/' }, response => {
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        data += chunk;
+      });
+      response.on('end', () =>
+        resolve({ status: response.statusCode || 0, json: JSON.parse(data) }),
+      );
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+
+describe('HTTP helpers', () => {
+  let server: http.Server;
+  let port: number;
+
+  before(done => {
+    server = http.createServer(async (req, res) => {
+      const body = await readBody<Record<string, unknown>>(req, res);
+      if (!body) {
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ body }));
+    });
+    server.listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  after(done => {
+    server.close(() => done());
+  });
+
+  it('reads a JSON object and treats an empty body as an empty object', async () => {
+    expect(await post(port, '{"name":"report"}')).to.deep.equal({
+      status: 200,
+      json: { body: { name: 'report' } },
+    });
+    expect(await post(port, '')).to.deep.equal({ status: 200, json: { body: {} } });
+  });
+
+  it('answers 400 when the body is not a JSON object', async () => {
+    for (const body of ['{"name":', 'null', '[1]', '"text"']) {
+      const { status, json } = await post(port, body);
+
+      expect(status).to.equal(400);
+      expect((json as { error: string }).error).to.match(/^Invalid request body: /);
+    }
+  });
+});
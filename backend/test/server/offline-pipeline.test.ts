@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { getPromptMessages, getLlmFixtureStore, recordFixtures } from '@common/llm-fixtures';
+import { getLlmConfig } from '@common/llm-config';
+import { resultStore } from '@common/result-store';
+import { EventType, QueryEvent } from '../../src/types/events';
+import * as databaseModule from '../../packages/execution/database';
+import { getEventStore } from '../../src/services/EventStore';
+import { startQueryPipeline } from '../../src/services/QueryPipeline';
+
+/**
+ * Waits for the completion event of a query
+ */
+const waitForCompletion = async (queryId: string): Promise<QueryEvent[]> => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const events = await getEventStore().getEvents(queryId);
+    if (events.some(event => event.type === EventType.COMPLETION)) {
+      return events;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Query ${queryId} did not complete`);
+};
+
+describe('Offline pipeline with the fixture LLM provider', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  const environment = { ...process.env };
+
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fixture';
+    process.env.LLM_FIXTURES_FILE = path.join(__dirname, '../../data/llm-fixtures.json');
+    sinon.stub(resultStore, 'store').resolves();
+    sinon.stub(resultStore, 'clear').resolves();
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    sinon.restore();
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('runs perception, planning and execution from the fixture file', async () => {
+    const executeSqlQuery = sinon.stub(databaseModule, 'executeSqlQuery').resolves([
+      { currency: 'EUR', deposits: 2, total: 30 },
+      { currency: 'USD', deposits: 1, total: 20 },
+    ]);
+
+    const { queryId } = startQueryPipeline({
+      query: 'Show deposits by currency for the last week',
+      language: 'en',
+    });
+    const events = await waitForCompletion(queryId);
+
+    const completion = events.find(event => event.type === EventType.COMPLETION);
+    expect(completion?.payload?.error).to.equal(undefined);
+    expect(executeSqlQuery.firstCall.args[0].service).to.equal('financial-history');
+    expect(executeSqlQuery.firstCall.args[0].query).to.contain('"FinancialTransaction"');
+
+    const response = events.find(event => event.type === EventType.RESPONSE_GENERATION);
+    expect(response?.payload?.explanation).to.contain('LLM fixture file');
+    expect(response?.payload?.data).to.have.property('financial-history').with.length(2);
+  });
+
+  it('records responses of another provider and replays them for the same prompt', async () => {
+    const file = path.join(directory, 'recorded.json');
+    const config = { ...getLlmConfig('planning', { LLM_PROVIDER: 'local' }), fixturesFile: file };
+    const prompt = [
+      { role: 'system', content: 'You are a planner' },
+      { role: 'user', content: 'Count users' },
+    ];
+
+    const recorder = recordFixtures({ invoke: async () => ({ content: '{"steps":[]}' }) }, config);
+    expect((await recorder.invoke(prompt)).content).to.equal('{"steps":[]}');
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    expect(saved.fixtures).to.have.length(1);
+    expect(saved.fixtures[0]).to.deep.include({ stage: 'planning', response: { steps: [] } });
+
+    const replayed = await getLlmFixtureStore(file).find('planning', prompt);
+    expect(replayed?.response).to.deep.equal({ steps: [] });
+    expect(
+      await getLlmFixtureStore(file).find('planning', [
+        { role: 'user', content: 'Other question' },
+      ]),
+    ).to.equal(undefined);
+  });
+
+  it('reads prompts given as LangChain messages', () => {
+    expect(
+      getPromptMessages([
+        { role: 'system', content: 'rules' },
+        { _getType: () => 'human', content: 'question' } as never,
+      ]),
+    ).to.deep.equal([
+      { role: 'system', content: 'rules' },
+      { role: 'user', content: 'question' },
+    ]);
+  });
+});
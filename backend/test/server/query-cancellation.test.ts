@@ -0,0 +1,176 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ErrorType } from '@common/types';
+import { isCancellationError, throwIfAborted } from '@common/utils';
+import { handleQueryRoutes } from '../../src/routes/queryRoutes';
+import { getQueryHistoryStore } from '../../src/services/QueryHistoryStore';
+import { getQueryRegistry, QueryRegistry } from '../../src/services/QueryRegistry';
+
+/**
+ * Adds a query of a user to the query history
+ */
+const startQuery = (queryId: string, userId?: string): Promise<void> =>
+  getQueryHistoryStore().start({
+    queryId,
+    conversationId: `conversation-${queryId}`,
+    userId,
+    query: 'question',
+    language: 'en',
+    status: 'running',
+    startedAt: Date.now(),
+  });
+
+/**
+ * Sends a POST request without a body and returns the status and parsed JSON body
+ */
+const post = (
+  port: number,
+  path: string,
+): Promise<{ status: number; body: Record<string, unknown> }> =>
+  new Promise((resolve, reject) => {
+    const request = http.request({ port, path, method: 'POST' }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        body += chunk;
+      });
+      response.on('end', () =>
+        resolve({ status: response.statusCode || 0, body: JSON.parse(body) }),
+      );
+    });
+    request.on('error', reject);
+    request.end();
+  });
+
+describe('Query cancellation', () => {
+  describe('QueryRegistry', () => {
+    it('aborts the signal when the deadline is exceeded', async () => {
+      const registry = new QueryRegistry(20);
+      const signal = registry.start('deadline-query');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(signal.aborted).to.equal(true);
+      expect(String(signal.reason)).to.contain('Deadline of 20ms exceeded');
+      registry.finish('deadline-query');
+    });
+
+    it('caps the requested deadline by the configured maximum', async () => {
+      const registry = new QueryRegistry(20);
+      const signal = registry.start('capped-query', 60000);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(signal.aborted).to.equal(true);
+      registry.finish('capped-query');
+    });
+
+    it('does not abort a query that finished before its deadline', async () => {
+      const registry = new QueryRegistry(20);
+      const signal = registry.start('finished-query');
+      registry.finish('finished-query');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(signal.aborted).to.equal(false);
+      expect(registry.isRunning('finished-query')).to.equal(false);
+    });
+
+    it('does not fire early for deadlines longer than setTimeout supports', async () => {
+      const registry = new QueryRegistry(0);
+      const signal = registry.start('long-query', 2 ** 31);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(signal.aborted).to.equal(false);
+      registry.finish('long-query');
+    });
+
+    it('rejects a query ID that is already running', async () => {
+      const registry = new QueryRegistry(0);
+      registry.start('duplicate-query', 20);
+
+      expect(() => registry.start('duplicate-query')).to.throw(
+        'Query duplicate-query is already running',
+      );
+      registry.finish('duplicate-query');
+      const restarted = registry.start('duplicate-query');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // The deadline of the first run does not reach the run that replaced it
+      expect(restarted.aborted).to.equal(false);
+      expect(registry.isRunning('duplicate-query')).to.equal(true);
+      registry.finish('duplicate-query');
+    });
+
+    it('turns an aborted signal into a typed cancellation error', () => {
+      const controller = new AbortController();
+      controller.abort('Cancelled by client');
+
+      try {
+        throwIfAborted(controller.signal);
+        expect.fail('throwIfAborted should throw');
+      } catch (error) {
+        expect((error as { type?: ErrorType }).type).to.equal(ErrorType.CANCELLED);
+        expect((error as Error).message).to.equal('Query was cancelled: Cancelled by client');
+        expect(isCancellationError(error)).to.equal(true);
+      }
+    });
+  });
+
+  describe('POST /api/query/:queryId/cancel', () => {
+    let server: http.Server;
+    let port: number;
+
+    before(async () => {
+      server = http.createServer(async (req, res) => {
+        const handled = await handleQueryRoutes(req, res);
+        if (!handled) {
+          res.writeHead(404);
+          res.end('{}');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    after(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('cancels a running query', async () => {
+      const registry = getQueryRegistry();
+      await startQuery('running-query');
+      const signal = registry.start('running-query');
+
+      const { status, body } = await post(port, '/api/query/running-query/cancel');
+
+      expect(status).to.equal(202);
+      expect(body).to.deep.equal({ queryId: 'running-query', cancelled: true });
+      expect(signal.aborted).to.equal(true);
+      expect(signal.reason).to.equal('Cancelled by client');
+      registry.finish('running-query');
+    });
+
+    it('does not cancel the query of another user', async () => {
+      const registry = getQueryRegistry();
+      await startQuery('foreign-query', 'someone-else');
+      const signal = registry.start('foreign-query');
+
+      const { status } = await post(port, '/api/query/foreign-query/cancel');
+
+      expect(status).to.equal(404);
+      expect(signal.aborted).to.equal(false);
+      registry.finish('foreign-query');
+    });
+
+    it('returns 404 for a query that is not running', async () => {
+      const { status, body } = await post(port, '/api/query/unknown-query/cancel');
+
+      expect(status).to.equal(404);
+      expect(body.error).to.equal('Query is not running');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ConversationTurn, Principal } from '@common/types';
+import { handleHistoryRoutes } from '../../src/routes/historyRoutes';
+import {
+  getQueryHistoryStore,
+  QueryHistoryStore,
+  summarizeHistoryEvents,
+} from '../../src/services/QueryHistoryStore';
+import { EventStatus, EventType, QueryEvent } from '../../src/types/events';
+import { QueryHistoryEntry } from '../../src/types/history';
+
+/**
+ * Creates a history entry of a query that has just started
+ */
+const createEntry = (queryId: string, userId?: string): QueryHistoryEntry => ({
+  queryId,
+  conversationId: `conversation-${queryId}`,
+  userId,
+  query: `question ${queryId}`,
+  language: 'en',
+  status: 'running',
+  startedAt: 1000,
+});
+
+/**
+ * Creates an event of a query
+ */
+const createEvent = (
+  type: EventType,
+  status: EventStatus,
+  payload: Record<string, unknown>,
+  timestamp: number,
+): QueryEvent =>
+  ({ id: `${type}-${status}`, queryId: 'q-1', type, status, payload, timestamp }) as QueryEvent;
+
+/**
+ * Sends a request and returns the status and parsed JSON body
+ */
+const request = (
+  port: number,
+  method: string,
+  path: string,
+): Promise<{ status: number; body: { entries?: QueryHistoryEntry[] } }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request({ port, path, method }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        body += chunk;
+      });
+      response.on('end', () =>
+        resolve({ status: response.statusCode || 0, body: JSON.parse(body) }),
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+describe('Query history', () => {
+  describe('summarizeHistoryEvents', () => {
+    it('takes the status, duration, confidence and row count from the events', () => {
+      const entry = summarizeHistoryEvents(createEntry('q-1'), [
+        createEvent(
+          EventType.RESPONSE_GENERATION,
+          EventStatus.COMPLETED,
+          { data: { wallet: [{ id: 1 }, { id: 2 }], pam: [{ id: 3 }] }, confidence: 0.8 },
+          1500,
+        ),
+        createEvent(EventType.COMPLETION, EventStatus.COMPLETED, { stepCount: 2 }, 1600),
+      ]);
+
+      expect(entry).to.include({
+        status: 'completed',
+        finishedAt: 1600,
+        durationMs: 600,
+        confidence: 0.8,
+        rowCount: 3,
+      });
+    });
+
+    it('marks cancelled, failed and unanswered queries', () => {
+      const cancelled = summarizeHistoryEvents(createEntry('q-1'), [
+        createEvent(EventType.COMPLETION, EventStatus.CANCELLED, { error: 'Cancelled' }, 1200),
+      ]);
+      const unanswered = summarizeHistoryEvents(createEntry('q-1'), [
+        createEvent(EventType.COMPLETION, EventStatus.COMPLETED, { error: 'Not confident' }, 1200),
+      ]);
+      const running = summarizeHistoryEvents(createEntry('q-1'), []);
+
+      expect(cancelled.status).to.equal('cancelled');
+      expect(unanswered).to.include({ status: 'error', error: 'Not confident' });
+      expect(running.status).to.equal('running');
+    });
+  });
+
+  describe('QueryHistoryStore', () => {
+    it('lists the queries of each user newest first and keeps their events', async () => {
+      const store = new QueryHistoryStore();
+      await store.start(createEntry('q-1', 'alice'));
+      await store.start(createEntry('q-2', 'bob'));
+      await store.start(createEntry('q-3', 'alice'));
+      await store.finish('q-1', [
+        createEvent(EventType.COMPLETION, EventStatus.ERROR, { error: 'Database error' }, 2000),
+      ]);
+
+      const entries = await store.list('alice');
+      const record = await store.get('q-1');
+
+      expect(entries.map(entry => entry.queryId)).to.deep.equal(['q-3', 'q-1']);
+      expect(entries[1]).to.include({ status: 'error', error: 'Database error' });
+      expect(record?.events).to.have.length(1);
+      expect((await store.list('alice', 1)).map(entry => entry.queryId)).to.deep.equal(['q-3']);
+    });
+
+    it('tells whether queries and conversations belong to a user', async () => {
+      const store = new QueryHistoryStore();
+      await store.start(createEntry('q-1', 'alice'));
+      await store.start(createEntry('q-2', 'bob'));
+      const turn = (queryId: string): ConversationTurn => ({
+        queryId,
+        query: `question ${queryId}`,
+        perception: { intent: 'list', confidence: 1, entities: null, requiredServices: [] },
+        timestamp: 1000,
+      });
+
+      expect(await store.isOwnedBy('q-1', 'alice')).to.equal(true);
+      expect(await store.isOwnedBy('q-2', 'alice')).to.equal(false);
+      expect(await store.isOwnedBy('unknown', undefined)).to.equal(false);
+      expect(
+        await store.isConversationOwnedBy({ conversationId: 'c', turns: [turn('q-1')] }, 'alice'),
+      ).to.equal(true);
+      expect(
+        await store.isConversationOwnedBy(
+          { conversationId: 'c', turns: [turn('q-1'), turn('q-2')] },
+          'alice',
+        ),
+      ).to.equal(false);
+    });
+
+    it('keeps a bounded number of queries in memory', async () => {
+      const store = new QueryHistoryStore();
+      for (let index = 0; index <= 5000; index++) {
+        await store.start(createEntry(`q-${index}`, `user-${index % 100}`));
+      }
+
+      expect(await store.get('q-0')).to.equal(undefined);
+      expect(await store.get('q-1')).to.not.equal(undefined);
+      expect((await store.list('user-0', 200)).map(entry => entry.queryId)).to.not.include('q-0');
+      expect(await store.list('user-0', 200)).to.have.length(50);
+    });
+  });
+
+  describe('routes', () => {
+    const alice: Principal = { id: 'alice', roles: ['analyst'], method: 'api-key' };
+    let server: http.Server;
+    let port: number;
+
+    before(async () => {
+      await getQueryHistoryStore().start(createEntry('alice-query', 'alice'));
+      await getQueryHistoryStore().start(createEntry('bob-query', 'bob'));
+
+      server = http.createServer(async (req, res) => {
+        if (!(await handleHistoryRoutes(req, res, alice))) {
+          res.writeHead(404);
+          res.end('{}');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    after(done => {
+      server.close(() => done());
+    });
+
+    it('lists only the queries of the caller', async () => {
+      const response = await request(port, 'GET', '/api/history');
+
+      expect(response.status).to.equal(200);
+      expect(response.body.entries?.map(entry => entry.queryId)).to.deep.equal(['alice-query']);
+    });
+
+    it('does not open or re-run queries of other users', async () => {
+      expect((await request(port, 'GET', '/api/history/alice-query')).status).to.equal(200);
+      expect((await request(port, 'GET', '/api/history/bob-query')).status).to.equal(404);
+      expect((await request(port, 'POST', '/api/history/bob-query/rerun')).status).to.equal(404);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { accessControl } from '@common/access-control';
+import { DatabaseService, Principal } from '@common/types';
+import { distributedQueryProcessor } from '@execution/distributed-query';
+import { getAuditLog } from '../../src/services/AuditLog';
+import { getRetryDelay, ReportScheduler } from '../../src/services/ReportScheduler';
+import { ReportStore } from '../../src/services/ReportStore';
+import { ScheduleStore } from '../../src/services/ScheduleStore';
+import { SavedReport } from '../../src/types/reports';
+
+/**
+ * Local receiver of webhook deliveries; answers with the queued status codes, then 200
+ */
+interface StubReceiver {
+  url: string;
+  requests: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+  statuses: number[];
+  close: () => Promise<void>;
+}
+
+const startReceiver = async (): Promise<StubReceiver> => {
+  const requests: StubReceiver['requests'] = [];
+  const statuses: number[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() || 200);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/reports`,
+    requests,
+    statuses,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('Report scheduler', () => {
+  let directory: string;
+  let receiver: StubReceiver;
+  let reports: ReportStore;
+  let store: ScheduleStore;
+  let scheduler: ReportScheduler;
+  let report: SavedReport;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'report-scheduler-'));
+    receiver = await startReceiver();
+    reports = new ReportStore(path.join(directory, 'reports.json'));
+    store = new ScheduleStore(path.join(directory, 'schedules.json'));
+    scheduler = new ReportScheduler(store, reports, {
+      retryBaseMs: 1000,
+      retryMaxMs: 5000,
+      defaultMaxAttempts: 3,
+      outputDir: path.join(directory, 'output'),
+    });
+
+    sinon.stub(getAuditLog(), 'write').resolves();
+    sinon.stub(distributedQueryProcessor, 'executeDistributedPlan').resolves({
+      planId: 'plan',
+      finalResults: [
+        { currency: 'EUR', total: 10 },
+        { currency: 'USD', total: 20 },
+      ],
+      executedSteps: ['step_1'],
+    });
+
+    report = await reports.create({
+      name: 'Deposits by currency',
+      parameters: [{ name: 'from', type: 'date' }],
+      plan: {
+        id: 'plan',
+        requiredServices: ['wallet' as DatabaseService],
+        finalStepId: 'step_1',
+        steps: [
+          {
+            id: 'step_1',
+            service: 'wallet' as DatabaseService,
+            description: 'Deposits',
+            sqlQuery:
+              'SELECT currency, SUM(amount) AS total FROM "Transaction" WHERE "createdAt" >= :from GROUP BY currency',
+            dependsOn: [],
+            isInMemory: false,
+          },
+        ],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    sinon.restore();
+    await scheduler.stop();
+    await receiver.close();
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('runs due schedules and writes CSV files', async () => {
+    const schedule = await scheduler.create({
+      reportId: report.id,
+      cron: '0 6 * * *',
+      parameters: { from: '2024-05-01' },
+      delivery: { type: 'file', format: 'csv', directory: 'daily' },
+    });
+
+    await scheduler.tick(schedule.nextRunAt! - 1);
+    expect(await store.listRuns()).to.have.length(0);
+
+    await scheduler.tick(schedule.nextRunAt!);
+    await scheduler.idle();
+
+    const [run] = await store.listRuns();
+    expect(run).to.include({ status: 'succeeded', rowCount: 2, scheduledAt: schedule.nextRunAt });
+    expect(await fs.promises.readFile(run.deliveredTo!, 'utf-8')).to.equal(
+      'currency,total\nEUR,10\nUSD,20',
+    );
+    expect(path.dirname(run.deliveredTo!)).to.equal(path.join(directory, 'output', 'daily'));
+    expect((await store.getSchedule(schedule.id))?.nextRunAt).to.equal(
+      schedule.nextRunAt! + 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it('posts JSON to a webhook and retries failed deliveries with backoff', async () => {
+    receiver.statuses.push(500, 503);
+    const schedule = await scheduler.create({
+      reportId: report.id,
+      cron: '@hourly',
+      parameters: { from: '2024-05-01' },
+      delivery: { type: 'webhook', format: 'json', url: receiver.url },
+    });
+
+    const started = await scheduler.trigger(schedule.id);
+    await scheduler.idle();
+
+    let [run] = await store.listRuns({ scheduleId: schedule.id });
+    expect(run).to.include({ id: started?.id, status: 'retrying' });
+    expect(run.attempts[0].error).to.match(/responded 500/);
+    const firstRetryAt = run.nextAttemptAt!;
+    expect(firstRetryAt - run.attempts[0].finishedAt).to.equal(1000);
+
+    await scheduler.tick(firstRetryAt);
+    await scheduler.idle();
+    [run] = await store.listRuns({ scheduleId: schedule.id });
+    expect(run.nextAttemptAt! - run.attempts[1].finishedAt).to.equal(2000);
+
+    await scheduler.tick(run.nextAttemptAt!);
+    await scheduler.idle();
+    [run] = await store.listRuns({ scheduleId: schedule.id });
+
+    expect(run).to.include({ status: 'succeeded', deliveredTo: receiver.url });
+    expect(run.attempts).to.have.length(3);
+    expect(receiver.requests).to.have.length(3);
+    expect(receiver.requests[2].headers['x-schedule-run-id']).to.equal(run.id);
+    expect(JSON.parse(receiver.requests[2].body)).to.include({
+      reportId: report.id,
+      rowCount: 2,
+    });
+  });
+
+  it('marks a run as failed when it runs out of attempts', async () => {
+    receiver.statuses.push(500, 500);
+    const schedule = await scheduler.create({
+      reportId: report.id,
+      cron: '@daily',
+      parameters: { from: '2024-05-01' },
+      delivery: { type: 'webhook', format: 'csv', url: receiver.url },
+      maxAttempts: 2,
+    });
+
+    await scheduler.trigger(schedule.id);
+    await scheduler.idle();
+    const [retrying] = await store.listRuns();
+    await scheduler.tick(retrying.nextAttemptAt!);
+    await scheduler.idle();
+
+    const failed = await store.listRuns({ status: 'failed' });
+    expect(failed).to.have.length(1);
+    expect(failed[0].attempts).to.have.length(2);
+    expect((await store.getSchedule(schedule.id))?.lastStatus).to.equal('failed');
+  });
+
+  it('rejects invalid schedules', async () => {
+    const create = async (input: Record<string, unknown>): Promise<string> => {
+      try {
+        await scheduler.create({
+          reportId: report.id,
+          cron: '@daily',
+          parameters: { from: '2024-05-01' },
+          delivery: { type: 'file', format: 'csv' },
+          ...input,
+        });
+        return 'created';
+      } catch (error) {
+        return (error as Error).message;
+      }
+    };
+
+    expect(await create({ cron: '61 * * * *' })).to.match(/Invalid minute value/);
+    expect(await create({ parameters: {} })).to.match(/:from is required/);
+    expect(await create({ reportId: 'missing' })).to.match(/Report missing not found/);
+    expect(
+      await create({ delivery: { type: 'file', format: 'csv', directory: '../outside' } }),
+    ).to.match(/outside of the report output directory/);
+    expect(
+      await create({ delivery: { type: 'webhook', format: 'json', url: 'file:///etc/passwd' } }),
+    ).to.match(/must use http or https/);
+  });
+
+  it('lets only the owner or an admin manage a schedule', async () => {
+    accessControl.setPolicy({
+      roles: {
+        admin: { services: ['*'], permissions: ['*'] },
+        analyst: { services: ['wallet'], permissions: ['reports'] },
+      },
+      users: { root: { roles: ['admin'] }, 'analyst-1': { roles: ['analyst'] } },
+    });
+    const admin: Principal = { id: 'root', roles: ['admin'], method: 'api-key' };
+    const analyst: Principal = { id: 'analyst-1', roles: ['analyst'], method: 'api-key' };
+    const input = {
+      reportId: report.id,
+      cron: '@daily',
+      parameters: { from: '2024-05-01' },
+      delivery: { type: 'file' as const, format: 'csv' as const },
+    };
+    const schedule = await scheduler.create(input, admin);
+    const own = await scheduler.create(input, analyst);
+
+    expect((await scheduler.list(analyst)).map(item => item.id)).to.deep.equal([own.id]);
+    expect(await scheduler.get(schedule.id, analyst)).to.equal(undefined);
+    expect(
+      await scheduler.update(
+        schedule.id,
+        { delivery: { type: 'webhook', format: 'json', url: receiver.url } },
+        analyst,
+      ),
+    ).to.equal(undefined);
+    expect(await scheduler.trigger(schedule.id, analyst)).to.equal(undefined);
+    expect(await scheduler.delete(schedule.id, analyst)).to.equal(false);
+    expect(await scheduler.listRuns({}, analyst)).to.deep.equal([]);
+
+    expect((await scheduler.list(admin)).map(item => item.id)).to.have.members([
+      schedule.id,
+      own.id,
+    ]);
+    expect(await scheduler.update(own.id, { cron: '@hourly' }, admin)).to.include({
+      cron: '@hourly',
+    });
+  });
+
+  it('runs a schedule with the current roles of its owner', async () => {
+    accessControl.setPolicy({
+      roles: { analyst: { services: ['wallet'], permissions: ['reports'] } },
+      users: { 'analyst-1': { roles: ['analyst'] } },
+    });
+    const analyst: Principal = { id: 'analyst-1', roles: ['analyst', 'admin'], method: 'jwt' };
+    const schedule = await scheduler.create(
+      {
+        reportId: report.id,
+        cron: '@daily',
+        parameters: { from: '2024-05-01' },
+        delivery: { type: 'file', format: 'csv' },
+      },
+      analyst,
+    );
+
+    await scheduler.trigger(schedule.id, analyst);
+    await scheduler.idle();
+
+    const execute = distributedQueryProcessor.executeDistributedPlan as sinon.SinonStub;
+    expect(execute.lastCall.args[1].principal).to.deep.equal({ ...analyst, roles: ['analyst'] });
+  });
+
+  it('computes exponential backoff with an upper bound', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay(attempt, 1000, 5000))).to.deep.equal([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sinon from 'sinon';
+import { accessControl } from '@common/access-control';
+import { DatabaseService, ErrorType, Principal } from '@common/types';
+import { DistributedQueryPlan, distributedQueryProcessor } from '@execution/distributed-query';
+import { getAuditLog } from '../../src/services/AuditLog';
+import { ReportStore } from '../../src/services/ReportStore';
+import { resolveReportParameters, runReport } from '../../src/services/ReportRunner';
+import { ReportParameter } from '../../src/types/reports';
+
+/**
+ * Creates a one-step plan reading wallet with the given SQL
+ */
+const createPlan = (sqlQuery: string): DistributedQueryPlan => ({
+  id: 'plan-1',
+  requiredServices: ['wallet' as DatabaseService],
+  finalStepId: 'step_1',
+  steps: [
+    {
+      id: 'step_1',
+      service: 'wallet' as DatabaseService,
+      description: 'Deposits of the period',
+      sqlQuery,
+      dependsOn: [],
+      isInMemory: false,
+    },
+  ],
+});
+
+const parameters: ReportParameter[] = [
+  { name: 'type', type: 'string', options: ['DEPOSIT', 'WITHDRAWAL'], default: 'DEPOSIT' },
+  { name: 'from', type: 'date' },
+  { name: 'minAmount', type: 'number', required: false },
+  { name: 'userIds', type: 'integer', list: true, required: false },
+];
+
+const sql =
+  'SELECT "userId", SUM(amount) AS total FROM "Transaction" WHERE type = :type AND "createdAt" >= :from AND amount >= :minAmount AND "userId" = ANY(:userIds) GROUP BY "userId"';
+
+describe('Saved reports', () => {
+  describe('resolveReportParameters', () => {
+    it('converts values to their types and applies defaults', () => {
+      const values = resolveReportParameters(parameters, {
+        from: '2024-05-01',
+        minAmount: '10.5',
+        userIds: '1, 2,3',
+      });
+
+      expect(values).to.deep.equal({
+        type: 'DEPOSIT',
+        from: new Date('2024-05-01T00:00:00.000Z'),
+        minAmount: 10.5,
+        userIds: [1, 2, 3],
+      });
+      expect(resolveReportParameters(parameters, { from: '2024-05-01' })).to.include({
+        minAmount: null,
+        userIds: null,
+      });
+    });
+
+    it('rejects missing, unknown and invalid values', () => {
+      expect(() => resolveReportParameters(parameters, {})).to.throw(/:from is required/);
+      expect(() => resolveReportParameters(parameters, { from: '2024-05-01', to: 'x' })).to.throw(
+        /Unknown parameters :to/,
+      );
+      expect(() => resolveReportParameters(parameters, { from: '05/01/2024' })).to.throw(
+        /YYYY-MM-DD/,
+      );
+      expect(() =>
+        resolveReportParameters(parameters, { from: '2024-05-01', type: 'BONUS' }),
+      ).to.throw(/expects one of DEPOSIT, WITHDRAWAL/);
+      expect(() =>
+        resolveReportParameters(parameters, { from: '2024-05-01', userIds: '1,2.5' }),
+      ).to.throw(/expects an integer/);
+    });
+  });
+
+  describe('ReportStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'reports-'));
+      filePath = path.join(directory, 'reports.json');
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('saves reports to the file and replaces the SQL of steps', async () => {
+      const store = new ReportStore(filePath);
+      const report = await store.create({
+        name: 'Deposits',
+        parameters,
+        plan: createPlan('SELECT 1'),
+        stepSql: { step_1: sql },
+      });
+
+      expect(report.plan.steps[0].sqlQuery).to.equal(sql);
+      expect(report.plan.steps[0].parameters).to.deep.equal([
+        'type',
+        'from',
+        'minAmount',
+        'userIds',
+      ]);
+
+      const reloaded = new ReportStore(filePath);
+      expect((await reloaded.get(report.id))?.name).to.equal('Deposits');
+
+      const updated = await reloaded.update(report.id, { name: 'Deposits by user' });
+      expect(updated?.plan.steps[0].sqlQuery).to.equal(sql);
+      expect(await reloaded.delete(report.id)).to.equal(true);
+      expect(await new ReportStore(filePath).list()).to.deep.equal([]);
+    });
+
+    it('lets only the author or an admin change or delete a report', async () => {
+      accessControl.setPolicy({
+        roles: {
+          admin: { services: ['*'], permissions: ['*'] },
+          analyst: { services: ['wallet'], permissions: ['reports'] },
+        },
+      });
+      const admin: Principal = { id: 'root', roles: ['admin'], method: 'api-key' };
+      const author: Principal = { id: 'analyst-1', roles: ['analyst'], method: 'api-key' };
+      const other: Principal = { id: 'analyst-2', roles: ['analyst'], method: 'api-key' };
+      const store = new ReportStore(filePath);
+      const report = await store.create(
+        { name: 'Deposits', parameters: [], plan: createPlan('SELECT 1') },
+        author,
+      );
+
+      for (const change of [
+        (): Promise<unknown> => store.update(report.id, { name: 'Mine now' }, other),
+        (): Promise<unknown> => store.delete(report.id, other),
+      ]) {
+        try {
+          await change();
+          expect.fail('Expected the change to be rejected');
+        } catch (error) {
+          expect((error as { type?: ErrorType }).type).to.equal(ErrorType.ACCESS_DENIED);
+        }
+      }
+
+      expect(await store.update(report.id, { name: 'Renamed' }, author)).to.include({
+        name: 'Renamed',
+      });
+      expect(await store.delete(report.id, admin)).to.equal(true);
+    });
+
+    it('rejects placeholders without a parameter and unused parameters', async () => {
+      const store = new ReportStore(filePath);
+
+      try {
+        await store.create({ name: 'Broken', parameters: [], plan: createPlan(sql) });
+        expect.fail('Expected the report to be rejected');
+      } catch (error) {
+        expect((error as Error).message).to.match(
+          /uses :type, which is neither a report parameter/,
+        );
+      }
+
+      try {
+        await store.create({ name: 'Unused', parameters, plan: createPlan('SELECT 1') });
+        expect.fail('Expected the report to be rejected');
+      } catch (error) {
+        expect((error as Error).message).to.match(
+          /:type, :from, :minAmount, :userIds are not used/,
+        );
+      }
+    });
+  });
+
+  describe('runReport', () => {
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('executes the saved plan with the converted values', async () => {
+      sinon.stub(getAuditLog(), 'write').resolves();
+      const execute = sinon.stub(distributedQueryProcessor, 'executeDistributedPlan').resolves({
+        planId: 'run-plan',
+        finalResults: [{ userId: 1, total: BigInt(20) }],
+        intermediateResults: { step_1: [{ userId: 1, total: BigInt(20) }] },
+        executedSteps: ['step_1'],
+      });
+      const plan = createPlan(sql);
+
+      const result = await runReport(
+        {
+          id: 'report-1',
+          name: 'Deposits',
+          parameters,
+          plan,
+          createdAt: 0,
+          updatedAt: 0,
+        },
+        { from: '2024-05-01' },
+      );
+
+      const [executedPlan, options] = execute.firstCall.args;
+      expect(executedPlan.id).to.not.equal(plan.id);
+      expect(options?.parameters).to.include({ type: 'DEPOSIT', minAmount: null });
+      expect(result.rows).to.deep.equal([{ userId: 1, total: '20' }]);
+      expect(result.reportId).to.equal('report-1');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { expect } from 'chai';
+import http from 'http';
+import sinon from 'sinon';
+import zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { resultStore } from '@common/result-store';
+import { ErrorType, Principal } from '@common/types';
+import { objectsToCsv, serializeBigInt } from '@common/utils';
+import { handleQueryRoutes } from '../../src/routes/queryRoutes';
+import { getQueryHistoryStore } from '../../src/services/QueryHistoryStore';
+import {
+  ExportFormat,
+  generateExport,
+  loadQueryResult,
+  saveQueryResults,
+} from '../../src/services/ResultExport';
+
+/**
+ * Decimal returned by Prisma for NUMERIC columns
+ */
+const decimal = (value: string): unknown => ({
+  d: [Number(value.replace('.', ''))],
+  e: 1,
+  s: 1,
+  toFixed: () => value,
+  toString: () => value,
+});
+
+/**
+ * Concatenates the chunks of an export
+ */
+const render = async (format: ExportFormat, rows: Record<string, unknown>[]): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of generateExport(format, rows, 'final')) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf-8'));
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Reads the files of a zip archive through its central directory
+ */
+const unzip = (archive: Buffer): Record<string, string> => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).to.equal(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = archive.readUInt32LE(end + 16);
+  for (let index = 0; index < archive.readUInt16LE(end + 10); index++) {
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf-8', position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(content.length).to.equal(archive.readUInt32LE(position + 24));
+    files[name] = content.toString('utf-8');
+
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('Result export', () => {
+  const rows = [
+    {
+      id: 12345678901234567890n,
+      amount: decimal('10.50'),
+      createdAt: new Date('2024-03-01T10:00:00.000Z'),
+      txIds: [1, 2],
+      note: 'says "hi", twice',
+    },
+    { id: 2n, amount: null, createdAt: null, txIds: [], note: 'line\nbreak', extra: true },
+  ];
+
+  describe('type handling', () => {
+    it('keeps dates and converts decimals when serializing BigInt values', () => {
+      const [row] = serializeBigInt(rows);
+
+      expect(row.id).to.equal('12345678901234567890');
+      expect(row.amount).to.equal('10.50');
+      expect(row.createdAt).to.be.instanceOf(Date);
+      expect(row.txIds).to.deep.equal([1, 2]);
+    });
+
+    it('quotes CSV cells only when needed and takes columns from every row', () => {
+      expect(objectsToCsv(rows)).to.equal(
+        [
+          'id,amount,createdAt,txIds,note,extra',
+          '12345678901234567890,10.50,2024-03-01T10:00:00.000Z,"[1,2]","says ""hi"", twice",',
+          '2,,,[],"line\nbreak",true',
+        ].join('\n'),
+      );
+    });
+
+    it('writes one typed JSON object per line', async () => {
+      const lines = (await render('jsonl', rows)).toString('utf-8').trim().split('\n');
+
+      expect(lines.map(line => JSON.parse(line))).to.deep.equal([
+        {
+          id: '12345678901234567890',
+          amount: '10.50',
+          createdAt: '2024-03-01T10:00:00.000Z',
+          txIds: [1, 2],
+          note: 'says "hi", twice',
+        },
+        { id: '2', amount: null, createdAt: null, txIds: [], note: 'line\nbreak', extra: true },
+      ]);
+    });
+
+    it('builds a valid XLSX workbook with numbers, dates and text cells', async () => {
+      const archive = await render('xlsx', rows);
+      const files = unzip(archive);
+
+      expect(archive.readUInt32LE(0)).to.equal(0x04034b50);
+      expect(Object.keys(files)).to.include.members([
+        '[Content_Types].xml',
+        'xl/workbook.xml',
+        'xl/styles.xml',
+        'xl/worksheets/sheet1.xml',
+      ]);
+
+      const sheet = files['xl/worksheets/sheet1.xml'];
+      expect(sheet).to.contain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">id</t>');
+      // 20 digits do not fit a spreadsheet number and stay text; the decimal becomes a number
+      expect(sheet).to.contain('<t xml:space="preserve">12345678901234567890</t>');
+      expect(sheet).to.contain('<c r="B2"><v>10.5</v></c>');
+      expect(sheet).to.contain('<c r="C2" s="1"><v>45352.41666');
+      expect(sheet).to.contain('<t xml:space="preserve">says &quot;hi&quot;, twice</t>');
+      expect(sheet).to.contain('<c r="F3" t="b"><v>1</v></c>');
+      expect(files['xl/workbook.xml']).to.contain('<sheet name="final"');
+    });
+  });
+
+  describe('stored results', () => {
+    const stored = new Map<string, Record<string, unknown>[]>();
+
+    beforeEach(() => {
+      stored.clear();
+      sinon.stub(resultStore, 'store').callsFake(async (key, data) => {
+        stored.set(key, JSON.parse(JSON.stringify(serializeBigInt(data))));
+      });
+      sinon.stub(resultStore, 'get').callsFake(async key => stored.get(key) || []);
+      sinon.stub(resultStore, 'exists').callsFake(async key => stored.has(key));
+      sinon.stub(resultStore, 'clear').callsFake(async prefix => {
+        [...stored.keys()]
+          .filter(key => key.startsWith(`${prefix}:`))
+          .forEach(key => stored.delete(key));
+      });
+    });
+
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('exports the final result by default and any step on request', async () => {
+      await saveQueryResults('q-1', { step1: [{ id: 1 }, { id: 2 }], final: [{ total: 2 }] });
+
+      expect((await loadQueryResult('q-1'))?.rows).to.deep.equal([{ total: 2 }]);
+      expect((await loadQueryResult('q-1', 'step1'))?.rows).to.deep.equal([{ id: 1 }, { id: 2 }]);
+      expect(await loadQueryResult('unknown')).to.equal(undefined);
+
+      const error = await loadQueryResult('q-1', 'step9').catch(caught => caught);
+      expect(error.type).to.equal(ErrorType.INVALID_QUERY);
+    });
+
+    it('uses the last service of a sequential plan and forgets steps of an earlier run', async () => {
+      await saveQueryResults('q-2', { wallet: [{ id: 1 }], 'bets-history': [{ id: 2 }] });
+      expect((await loadQueryResult('q-2'))?.step).to.equal('bets-history');
+
+      await saveQueryResults('q-2', { wallet: [{ id: 3 }] });
+      expect((await loadQueryResult('q-2'))?.steps).to.deep.equal(['wallet']);
+      expect(stored.has('export:q-2:bets-history')).to.equal(false);
+    });
+
+    it('reads dates stored as ISO strings back as spreadsheet dates', async () => {
+      await saveQueryResults('q-3', { final: [{ createdAt: new Date('2024-03-01T00:00:00Z') }] });
+      const result = await loadQueryResult('q-3');
+
+      const sheet = unzip(await render('xlsx', result?.rows || []))['xl/worksheets/sheet1.xml'];
+      expect(sheet).to.contain('<c r="A2" s="1"><v>45352</v></c>');
+    });
+
+    describe('route', () => {
+      const alice: Principal = { id: 'alice', roles: ['analyst'], method: 'api-key' };
+      let server: http.Server;
+      let port: number;
+
+      const get = (
+        path: string,
+      ): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> =>
+        new Promise((resolve, reject) => {
+          http
+            .get({ port, path }, response => {
+              let body = '';
+              response.setEncoding('utf8');
+              response.on('data', chunk => {
+                body += chunk;
+              });
+              response.on('end', () =>
+                resolve({ status: response.statusCode || 0, headers: response.headers, body }),
+              );
+            })
+            .on('error', reject);
+        });
+
+      before(async () => {
+        for (const userId of ['alice', 'bob']) {
+          await getQueryHistoryStore().start({
+            queryId: `export-${userId}`,
+            conversationId: `conversation-${userId}`,
+            userId,
+            query: 'Deposits by currency',
+            language: 'en',
+            status: 'running',
+            startedAt: 1000,
+          });
+        }
+
+        server = http.createServer(async (req, res) => {
+          if (!(await handleQueryRoutes(req, res, alice))) {
+            res.writeHead(404);
+            res.end('{}');
+          }
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        port = (server.address() as AddressInfo).port;
+      });
+
+      after(done => {
+        server.close(() => done());
+      });
+
+      it('streams the result of the caller as a file download', async () => {
+        await saveQueryResults('export-alice', { final: [{ currency: 'EUR', total: 10 }] });
+
+        const response = await get('/api/query/export-alice/export?format=csv');
+
+        expect(response.status).to.equal(200);
+        expect(response.headers['content-type']).to.equal('text/csv; charset=utf-8');
+        expect(response.headers['content-disposition']).to.equal(
+          'attachment; filename="query-export-alice-final.csv"',
+        );
+        expect(response.body).to.equal('\uFEFFcurrency,total\r\nEUR,10\r\n');
+      });
+
+      it('rejects unknown formats and steps and hides results of other users', async () => {
+        await saveQueryResults('export-alice', { final: [{ total: 1 }] });
+        await saveQueryResults('export-bob', { final: [{ total: 2 }] });
+
+        expect((await get('/api/query/export-alice/export?format=pdf')).status).to.equal(400);
+        expect((await get('/api/query/export-alice/export?step=missing')).status).to.equal(400);
+        expect((await get('/api/query/export-bob/export')).status).to.equal(404);
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { logInfo, runWithLogContext } from '../../packages/common/logger';
+import { getEventStore } from '../../src/services/EventStore';
+import { getQueryHistoryStore } from '../../src/services/QueryHistoryStore';
+import { getQueryRegistry } from '../../src/services/QueryRegistry';
+import { WebSocketGateway } from '../../src/services/WebSocketGateway';
+import { EventStatus, EventType } from '../../src/types/events';
+
+type Message = { type: string; queryId: string; payload: Record<string, unknown> };
+
+/**
+ * Adds a query of a user to the query history
+ */
+const startQuery = (queryId: string, userId?: string): Promise<void> =>
+  getQueryHistoryStore().start({
+    queryId,
+    conversationId: `conversation-${queryId}`,
+    userId,
+    query: 'question',
+    language: 'en',
+    status: 'running',
+    startedAt: Date.now(),
+  });
+
+/**
+ * Collects messages of a client and resolves once a message matches the predicate
+ */
+const waitFor = (
+  messages: Message[],
+  ws: WebSocket,
+  predicate: (m: Message) => boolean,
+): Promise<Message> =>
+  new Promise<Message>(resolve => {
+    const existing = messages.find(predicate);
+    if (existing) {
+      resolve(existing);
+      return;
+    }
+    const listener = (): void => {
+      const match = messages.find(predicate);
+      if (match) {
+        ws.off('message', listener);
+        resolve(match);
+      }
+    };
+    ws.on('message', listener);
+  });
+
+describe('WebSocket gateway', () => {
+  const eventStore = getEventStore();
+  let server: http.Server;
+  let gateway: WebSocketGateway;
+  let ws: WebSocket;
+  const messages: Message[] = [];
+
+  before(done => {
+    server = http.createServer();
+    gateway = new WebSocketGateway(server);
+    server.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      ws = new WebSocket(`ws://localhost:${port}/ws`);
+      ws.on('message', (data: Buffer) => messages.push(JSON.parse(data.toString())));
+      ws.on('open', () => done());
+    });
+  });
+
+  after(async () => {
+    ws.close();
+    await gateway.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('replays and pushes query events, progress and live logs to subscribers', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId);
+    await eventStore.addEvent(eventStore.createEvent(queryId, EventType.QUERY_RECEIVED));
+
+    ws.send(JSON.stringify({ type: 'subscribe', queryId }));
+    await waitFor(messages, ws, m => m.type === 'SUBSCRIPTION_CONFIRMED' && m.queryId === queryId);
+    await waitFor(
+      messages,
+      ws,
+      m => m.type === 'QUERY_EVENT' && m.payload.type === EventType.QUERY_RECEIVED,
+    );
+
+    await eventStore.addEvent(
+      eventStore.createEvent(queryId, EventType.STEP_EXECUTION, EventStatus.COMPLETED, {
+        stepId: 'step_1',
+        stepNumber: 1,
+        totalSteps: 2,
+      }),
+    );
+    const progress = await waitFor(messages, ws, m => m.type === 'PROGRESS');
+    expect(progress.payload).to.include({ step: 1, total: 2 });
+    await waitFor(messages, ws, m => m.type === 'PHASE_CHANGE' && m.payload.phase === 'execution');
+
+    runWithLogContext({ queryId }, () => logInfo('Executing step_2'));
+    const log = await waitFor(messages, ws, m => m.type === 'LOG' && m.payload.category === 'log');
+    expect(log.payload).to.include({ message: 'Executing step_2', level: 'info' });
+  });
+
+  it('cancels a running query on request', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId);
+    const signal = getQueryRegistry().start(queryId);
+
+    ws.send(JSON.stringify({ type: 'cancel', queryId }));
+    const reply = await waitFor(
+      messages,
+      ws,
+      m => m.type === 'CANCEL_ACCEPTED' && m.queryId === queryId,
+    );
+
+    expect(reply.payload).to.deep.equal({ cancelled: true });
+    expect(signal.aborted).to.equal(true);
+    getQueryRegistry().finish(queryId);
+  });
+
+  it('does not subscribe to or cancel the query of another user', async () => {
+    const queryId = eventStore.generateQueryId();
+    await startQuery(queryId, 'someone-else');
+    const signal = getQueryRegistry().start(queryId);
+
+    ws.send(JSON.stringify({ type: 'subscribe', queryId }));
+    const error = await waitFor(messages, ws, m => m.type === 'ERROR' && m.queryId === queryId);
+    ws.send(JSON.stringify({ type: 'cancel', queryId }));
+    const reply = await waitFor(
+      messages,
+      ws,
+      m => m.type === 'CANCEL_ACCEPTED' && m.queryId === queryId,
+    );
+
+    expect(error.payload.error).to.equal('Query not found');
+    expect(reply.payload).to.deep.equal({ cancelled: false });
+    expect(signal.aborted).to.equal(false);
+    getQueryRegistry().finish(queryId);
+  });
+
+  it('rejects messages without a queryId', async () => {
+    ws.send(JSON.stringify({ type: 'subscribe' }));
+    const error = await waitFor(messages, ws, m => m.type === 'ERROR' && m.queryId === '');
+    expect(error.payload.error).to.match(/requires a queryId/);
+  });
+
+  it('rejects messages that are not JSON objects', async () => {
+    ws.send('null');
+    const error = await waitFor(
+      messages,
+      ws,
+      m => m.type === 'ERROR' && m.payload.error === 'Message is not a JSON object',
+    );
+    expect(error.queryId).to.equal('');
+  });
+
+  it('accepts connections with a malformed Host header', async () => {
+    const { port } = server.address() as AddressInfo;
+    const client = new WebSocket(`ws://localhost:${port}/ws`, { headers: { host: 'a b' } });
+
+    await new Promise(resolve => client.on('open', resolve));
+    client.close();
+  });
+
+  it('closes upgrade requests to other paths, including ones that are not valid URLs', async () => {
+    const { port } = server.address() as AddressInfo;
+    const request = http.request({
+      port,
+      path: '//',
+      headers: { Connection: 'Upgrade', Upgrade: 'websocket' },
+    });
+
+    const error = await new Promise<Error>(resolve => request.on('error', resolve).end());
+    expect(error.message).to.equal('socket hang up');
+  });
+});
@@ -1,9 +1,22 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useLanguage } from './contexts/LanguageContext';
 import LanguageSwitcher from './components/LanguageSwitcher';
 import { Language } from './localization';
 import { languageInstructions } from './config/languageConfig';
-import QueryExecutionLog from './components/QueryExecutionLog';
+import QueryExecutionLog, { BaseEvent } from './components/QueryExecutionLog';
+import HistorySidebar, { HistoryEntry } from './components/HistorySidebar';
+import ReportsPanel from './components/ReportsPanel';
+import ResultDownloads from './components/ResultDownloads';
+import ColumnProfiles, { ResultProfile } from './components/ColumnProfiles';
+import { getCredential, setCredential, withAuthHeaders } from './utils/auth';
+
+// Число строк результата шага: truncated — строки обрезаны лимитом, totalRows — сколько их было
+type ResultRowCount = {
+  rowCount: number;
+  truncated: boolean;
+  totalRows?: number;
+  totalRowsEstimated?: boolean;
+};
 
 type QueryResult = {
   data: Record<string, unknown>;
@@ -14,51 +27,211 @@ type QueryResult = {
     type: 'table' | 'line' | 'bar' | 'pie';
     data: unknown;
   };
+  truncated?: boolean;
+  rowCounts?: Record<string, ResultRowCount>;
+  profiles?: Record<string, ResultProfile>;
 };
 
 type QueryRequest = {
   query: string;
   language: Language;
   queryId: string;
+  conversationId?: string;
+};
+
+// Один ход диалога: вопрос пользователя и ответ агента
+type ConversationTurn = {
+  queryId: string;
+  query: string;
+  result: QueryResult | null;
+  error?: string;
+  events?: BaseEvent[]; // События запроса, восстановленного из истории
 };
 
+// Общее число строк обрезанного результата; оценка планировщика помечается тильдой
+const formatTotalRows = (count: ResultRowCount, unknown: string): string =>
+  count.totalRows === undefined ? unknown : `${count.totalRowsEstimated ? '~' : ''}${count.totalRows}`;
+
+// Инструкция языка добавляется к тексту запроса; в истории показываем вопрос без нее
+const addLanguageInstruction = (text: string, language: Language): string =>
+  language === 'ru' && languageInstructions.ru ? `${text} ${languageInstructions.ru}` : text;
+
+const stripLanguageInstruction = (text: string): string =>
+  text.replace(` ${languageInstructions.ru}`, '');
+
 const App: React.FC = () => {
   const { t, language } = useLanguage();
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<QueryResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [queryId, setQueryId] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [activeQueryId, setActiveQueryId] = useState<string | null>(null);
+  const [credential, setCredentialState] = useState(getCredential);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
+  // Запрос из истории, который будет выполнен повторно с отредактированным вопросом
+  const [rerunSourceId, setRerunSourceId] = useState<string | null>(null);
+  const [showReports, setShowReports] = useState(false);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [turns]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const res = await fetch('/api/history?limit=50', { headers: withAuthHeaders() });
+      if (!res.ok) return;
+      const { entries } = await res.json();
+      setHistory(entries);
+    } catch (err) {
+      console.error('Failed to load query history:', err);
+    }
+  }, []);
+
+  // История принадлежит пользователю, поэтому перезагружается при смене ключа
+  useEffect(() => {
+    loadHistory();
+  }, [credential, loadHistory]);
+
+  const handleResult = (queryId: string, payload: QueryResult) => {
+    setTurns(prev => prev.map(turn => (turn.queryId === queryId ? { ...turn, result: payload } : turn)));
+  };
+
+  const handleComplete = (queryId: string, status: string, payload: Record<string, any>) => {
+    if (status === 'cancelled') {
+      setTurns(prev => prev.map(turn => (turn.queryId === queryId ? { ...turn, error: t.queryCancelled } : turn)));
+    } else if (payload.error) {
+      setTurns(prev => prev.map(turn => (turn.queryId === queryId ? { ...turn, error: payload.error } : turn)));
+    }
+    if (queryId === activeQueryId) {
+      loadHistory();
+    }
+    setActiveQueryId(current => (current === queryId ? null : current));
+  };
+
+  const handleCancel = async () => {
+    if (!activeQueryId) return;
+    try {
+      // Отмена асинхронна: запрос завершится событием completion со статусом cancelled
+      const res = await fetch(`/api/query/${activeQueryId}/cancel`, {
+        method: 'POST',
+        headers: withAuthHeaders(),
+      });
+      if (!res.ok && res.status !== 404) throw new Error(t.errorDefault);
+    } catch (err) {
+      setError((err as Error).message || t.errorDefault);
+    }
+  };
+
+  // Ключ API или JWT хранится в localStorage и добавляется ко всем запросам
+  const handleCredentialChange = (value: string) => {
+    setCredentialState(value);
+    setCredential(value);
+  };
+
+  const handleNewConversation = () => {
+    setConversationId(null);
+    setTurns([]);
+    setActiveQueryId(null);
+    setSelectedHistoryId(null);
+    setRerunSourceId(null);
+    setError(null);
+    setQuery('');
+  };
+
+  // Открываем прошлый запрос: лог выполнения и результат восстанавливаются из его событий,
+  // а уточняющие вопросы продолжают его диалог
+  const handleSelectHistory = async (entry: HistoryEntry) => {
+    if (activeQueryId) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/history/${entry.queryId}`, { headers: withAuthHeaders() });
+      if (!res.ok) throw new Error(t.errorDefault);
+      const { events } = await res.json();
+      setConversationId(entry.conversationId);
+      setTurns([{ queryId: entry.queryId, query: stripLanguageInstruction(entry.query), result: null, events }]);
+      setSelectedHistoryId(entry.queryId);
+      setRerunSourceId(null);
+    } catch (err) {
+      setError((err as Error).message || t.errorDefault);
+    }
+  };
+
+  // Повторный запуск начинает новый диалог; без editedQuery вопрос берется из истории
+  const startRerun = async (sourceQueryId: string, editedQuery?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/history/${sourceQueryId}/rerun`, {
+        method: 'POST',
+        headers: withAuthHeaders({
+          'Content-Type': 'application/json',
+        }),
+        body: JSON.stringify(
+          editedQuery ? { query: addLanguageInstruction(editedQuery, language), language } : {}
+        ),
+      });
+      if (res.status === 401) throw new Error(t.authRequired);
+      if (!res.ok) throw new Error(t.errorDefault);
+      const { queryId: newQueryId, conversationId: newConversationId, query: rerunQuery } = await res.json();
+      setConversationId(newConversationId);
+      setTurns([{ queryId: newQueryId, query: stripLanguageInstruction(rerunQuery), result: null }]);
+      setActiveQueryId(newQueryId);
+      setSelectedHistoryId(newQueryId);
+      setRerunSourceId(null);
+      setQuery('');
+      loadHistory();
+    } catch (err) {
+      setError((err as Error).message || t.errorDefault);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditHistory = (entry: HistoryEntry) => {
+    setRerunSourceId(entry.queryId);
+    setQuery(stripLanguageInstruction(entry.query));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim()) return;
+    if (!query.trim() || activeQueryId) return;
+    if (rerunSourceId) {
+      await startRerun(rerunSourceId, query);
+      return;
+    }
     setLoading(true);
     setError(null);
-    setResult(null);
     try {
       // 1. Получаем queryId
-      const initRes = await fetch('/api/query/init', { method: 'POST' });
+      const initRes = await fetch('/api/query/init', { method: 'POST', headers: withAuthHeaders() });
+      if (initRes.status === 401) throw new Error(t.authRequired);
       if (!initRes.ok) throw new Error('Failed to init query');
       const { queryId: newQueryId } = await initRes.json();
-      setQueryId(newQueryId);
-      // 2. Отправляем основной запрос с этим queryId
-      let modifiedQuery = query;
-      if (language === 'ru' && languageInstructions.ru) {
-        modifiedQuery = `${query} ${languageInstructions.ru}`;
-      }
+      // 2. Отправляем основной запрос с этим queryId в рамках текущего диалога
       const queryRequest: QueryRequest = {
-        query: modifiedQuery,
+        query: addLanguageInstruction(query, language),
         language,
-        queryId: newQueryId
+        queryId: newQueryId,
+        conversationId: conversationId || undefined
       };
-      await fetch('/api/query', {
+      const queryRes = await fetch('/api/query', {
         method: 'POST',
-        headers: {
+        headers: withAuthHeaders({
           'Content-Type': 'application/json',
-        },
+        }),
         body: JSON.stringify(queryRequest),
       });
+      if (!queryRes.ok) throw new Error(t.errorDefault);
+      const { conversationId: newConversationId } = await queryRes.json();
+      setConversationId(newConversationId);
+      setTurns(prev => [...prev, { queryId: newQueryId, query, result: null }]);
+      setActiveQueryId(newQueryId);
+      setSelectedHistoryId(newQueryId);
+      setQuery('');
+      loadHistory();
       // результат появится через onResult из событий
     } catch (err) {
       setError((err as Error).message || t.errorDefault);
@@ -76,69 +249,173 @@ const App: React.FC = () => {
         </div>
         <p>{t.subtitle}</p>
       </header>
-      
-      <form onSubmit={handleSubmit} className="query-form">
-        <div className="input-container">
-          <input
-            type="text"
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder={t.inputPlaceholder}
-            className="query-input"
-          />
-        </div>
-        <button 
-          type="submit" 
-          disabled={loading} 
-          className="submit-button"
-          key={`submit-btn-${language}`} 
-        >
-          {loading ? t.processingButton : t.askButton}
-        </button>
-      </form>
-      
-      {error && <div className="error-message">{error}</div>}
-      
-      {queryId && (
-        <QueryExecutionLog 
-          queryId={queryId} 
-          isActive={true}
-          onResult={payload => {
-            setResult(payload);
-          }}
+
+      <div className="app-layout">
+        <HistorySidebar
+          entries={history}
+          selectedQueryId={selectedHistoryId}
+          disabled={loading || !!activeQueryId}
+          formatQuery={stripLanguageInstruction}
+          onSelect={handleSelectHistory}
+          onRerun={entry => startRerun(entry.queryId)}
+          onEdit={handleEditHistory}
         />
-      )}
-      
-      {result && result.data && (
-        <div className="result-container">
-          <div className="explanation">
-            <h2>{t.explanationTitle}</h2>
-            <p>{result.explanation}</p>
-            <div className="confidence">
-              {t.confidenceLabel}: {(result.confidence * 100).toFixed(0)}%
-            </div>
+
+        <main className="app-main">
+          <div className="conversation-toolbar">
+            <input
+              type="password"
+              className="credential-input"
+              value={credential}
+              onChange={(e) => handleCredentialChange(e.target.value)}
+              placeholder={t.credentialPlaceholder}
+              autoComplete="off"
+            />
+            {activeQueryId && (
+              <button
+                type="button"
+                className="new-conversation-button cancel-query-button"
+                onClick={handleCancel}
+              >
+                {t.cancelButton}
+              </button>
+            )}
+            <button
+              type="button"
+              className={`new-conversation-button ${showReports ? 'active' : ''}`}
+              onClick={() => setShowReports(current => !current)}
+            >
+              {t.reportsButton}
+            </button>
+            <button
+              type="button"
+              className="new-conversation-button"
+              onClick={handleNewConversation}
+              disabled={turns.length === 0 || !!activeQueryId}
+            >
+              {t.newConversationButton}
+            </button>
           </div>
-          
-          {result.sql && (
-            <div className="sql-query">
-              <h3>{t.sqlQueryTitle}</h3>
-              <pre>{result.sql}</pre>
-            </div>
-          )}
-          
-          <div className="data-section">
-            <h3>{t.dataTitle}</h3>
-            {Object.entries(result.data).map(([service, data]) => (
-              <div key={service} className="service-data">
-                <h4>{service}</h4>
-                <pre>{JSON.stringify(data, null, 2)}</pre>
+
+          {showReports && <ReportsPanel />}
+
+          <div className="conversation-thread">
+            {turns.length === 0 && (
+              <div className="conversation-empty">{t.conversationEmpty}</div>
+            )}
+
+            {turns.map(turn => (
+              <div key={turn.queryId} className="conversation-turn">
+                <div className="chat-message user-message">{turn.query}</div>
+
+                {turn.queryId === activeQueryId && (
+                  <QueryExecutionLog
+                    queryId={turn.queryId}
+                    isActive={true}
+                    onResult={payload => handleResult(turn.queryId, payload)}
+                    onComplete={(status, payload) => handleComplete(turn.queryId, status, payload)}
+                  />
+                )}
+
+                {turn.events && (
+                  <QueryExecutionLog
+                    queryId={turn.queryId}
+                    isActive={false}
+                    initialEvents={turn.events}
+                    onResult={payload => handleResult(turn.queryId, payload)}
+                    onComplete={(status, payload) => handleComplete(turn.queryId, status, payload)}
+                  />
+                )}
+
+                {turn.error && !turn.result && (
+                  <div className="chat-message agent-message error-message">{turn.error}</div>
+                )}
+
+                {turn.result && turn.result.data && (
+                  <div className="chat-message agent-message result-container">
+                    <div className="explanation">
+                      <h2>{t.explanationTitle}</h2>
+                      <p>{turn.result.explanation}</p>
+                      <div className="confidence">
+                        {t.confidenceLabel}: {(turn.result.confidence * 100).toFixed(0)}%
+                      </div>
+                    </div>
+
+                    {turn.result.sql && (
+                      <div className="sql-query">
+                        <h3>{t.sqlQueryTitle}</h3>
+                        <pre>{turn.result.sql}</pre>
+                      </div>
+                    )}
+
+                    <div className="data-section">
+                      <h3>{t.dataTitle}</h3>
+                      <ResultDownloads queryId={turn.queryId} />
+                      {Object.entries(turn.result.data).map(([service, data]) => (
+                        <div key={service} className="service-data">
+                          <h4>{service}</h4>
+                          <ResultDownloads queryId={turn.queryId} step={service} />
+                          {turn.result?.rowCounts?.[service]?.truncated && (
+                            <div className="truncation-notice">
+                              {t.truncatedNotice}: {turn.result.rowCounts[service].rowCount}{' '}
+                              {t.truncatedOf} {formatTotalRows(turn.result.rowCounts[service], t.truncatedUnknownTotal)}
+                            </div>
+                          )}
+                          {turn.result?.profiles?.[service] && (
+                            <ColumnProfiles profile={turn.result.profiles[service]} />
+                          )}
+                          <pre>{JSON.stringify(data, null, 2)}</pre>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             ))}
+            <div ref={threadEndRef} />
           </div>
-        </div>
-      )}
+
+          {error && <div className="error-message">{error}</div>}
+
+          {rerunSourceId && (
+            <div className="rerun-hint">
+              <span>{t.editingRerun}</span>
+              <button
+                type="button"
+                className="new-conversation-button"
+                onClick={() => {
+                  setRerunSourceId(null);
+                  setQuery('');
+                }}
+              >
+                {t.discardRerunButton}
+              </button>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="query-form">
+            <div className="input-container">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={turns.length > 0 ? t.followUpPlaceholder : t.inputPlaceholder}
+                className="query-input"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || !!activeQueryId}
+              className="submit-button"
+              key={`submit-btn-${language}`}
+            >
+              {loading || activeQueryId ? t.processingButton : t.askButton}
+            </button>
+          </form>
+        </main>
+      </div>
     </div>
   );
 };
 
-export default App; 
\ No newline at end of file
+export default App;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+type ProfileValue = string | number | boolean;
+
+// Column summary built by the backend result profiler
+export type ColumnProfile = {
+  name: string;
+  type: string;
+  nullPercent: number;
+  distinctCount: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  timeRange?: { from: string; to: string };
+  topValues?: Array<{ value: ProfileValue; count: number }>;
+};
+
+export type ResultProfile = {
+  rowCount: number;
+  columns: ColumnProfile[];
+  omittedColumns?: number;
+  sample: Record<string, unknown>[];
+};
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+// Range of a numeric or date column
+const formatRange = (column: ColumnProfile): string => {
+  if (column.timeRange) {
+    return `${column.timeRange.from} — ${column.timeRange.to}`;
+  }
+  if (column.min !== undefined && column.max !== undefined) {
+    return `${formatNumber(column.min)} — ${formatNumber(column.max)}`;
+  }
+  return '';
+};
+
+/**
+ * Collapsible summary of a result: type, null share, distinct count, range, mean
+ * and most frequent values of each column
+ */
+const ColumnProfiles: React.FC<{ profile: ResultProfile }> = ({ profile }) => {
+  const { t } = useLanguage();
+
+  if (profile.columns.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="column-profiles">
+      <summary>
+        {t.profileTitle} · {t.reportRowCount}: {profile.rowCount}
+      </summary>
+      <div className="report-table-wrapper">
+        <table className="report-table">
+          <thead>
+            <tr>
+              <th>{t.profileColumn}</th>
+              <th>{t.profileType}</th>
+              <th>{t.profileNulls}</th>
+              <th>{t.profileDistinct}</th>
+              <th>{t.profileRange}</th>
+              <th>{t.profileMean}</th>
+              <th>{t.profileTopValues}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.columns.map(column => (
+              <tr key={column.name}>
+                <td>{column.name}</td>
+                <td>{column.type}</td>
+                <td>{column.nullPercent}%</td>
+                <td>{column.distinctCount}</td>
+                <td>{formatRange(column)}</td>
+                <td>{column.mean !== undefined ? formatNumber(column.mean) : ''}</td>
+                <td>
+                  {(column.topValues || [])
+                    .map(({ value, count }) => `${String(value)} (${count})`)
+                    .join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {profile.omittedColumns ? (
+        <div className="report-result-meta">
+          {t.profileOmittedColumns}: {profile.omittedColumns}
+        </div>
+      ) : null}
+    </details>
+  );
+};
+
+export default ColumnProfiles;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export type HistoryStatus = 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface HistoryEntry {
+  queryId: string;
+  conversationId: string;
+  query: string;
+  language: string;
+  rerunOf?: string;
+  status: HistoryStatus;
+  startedAt: number;
+  finishedAt?: number;
+  durationMs?: number;
+  confidence?: number;
+  rowCount?: number;
+  error?: string;
+}
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  selectedQueryId: string | null;
+  disabled: boolean;
+  formatQuery: (query: string) => string;
+  onSelect: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onEdit: (entry: HistoryEntry) => void;
+}
+
+// Status colors, the same as in the execution log
+const statusColors: Record<HistoryStatus, string> = {
+  running: '#64b5f6',
+  completed: '#81c784',
+  error: '#e57373',
+  cancelled: '#9e9e9e'
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  entries,
+  selectedQueryId,
+  disabled,
+  formatQuery,
+  onSelect,
+  onRerun,
+  onEdit
+}) => {
+  const { t } = useLanguage();
+
+  return (
+    <aside className="history-sidebar">
+      <h2>{t.historyTitle}</h2>
+      {entries.length === 0 && <div className="history-empty">{t.historyEmpty}</div>}
+      <ul className="history-list">
+        {entries.map(entry => (
+          <li
+            key={entry.queryId}
+            className={`history-entry ${entry.queryId === selectedQueryId ? 'selected' : ''}`}
+          >
+            <button
+              type="button"
+              className="history-entry-query"
+              onClick={() => onSelect(entry)}
+              disabled={disabled || entry.status === 'running'}
+              title={entry.error || formatQuery(entry.query)}
+            >
+              {formatQuery(entry.query)}
+            </button>
+            <div className="history-entry-meta">
+              <span
+                className="event-status-indicator"
+                style={{ backgroundColor: statusColors[entry.status] }}
+              />
+              <span>{t.historyStatuses[entry.status]}</span>
+              {typeof entry.durationMs === 'number' && (
+                <span>{(entry.durationMs / 1000).toFixed(1)}s</span>
+              )}
+              {typeof entry.confidence === 'number' && (
+                <span>{(entry.confidence * 100).toFixed(0)}%</span>
+              )}
+              <span>{new Date(entry.startedAt).toLocaleString()}</span>
+            </div>
+            <div className="history-entry-actions">
+              <button type="button" onClick={() => onRerun(entry)} disabled={disabled}>
+                {t.rerunButton}
+              </button>
+              <button type="button" onClick={() => onEdit(entry)} disabled={disabled}>
+                {t.editRerunButton}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
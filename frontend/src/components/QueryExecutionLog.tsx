@@ -1,7 +1,8 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { formatDistanceToNow } from 'date-fns';
+import { withAuthHeaders, withAuthParam } from '../utils/auth';
 
-type EventStatus = 'started' | 'in_progress' | 'completed' | 'error';
+type EventStatus = 'started' | 'in_progress' | 'completed' | 'error' | 'cancelled';
 
 type EventType = 
   | 'query_received'
@@ -11,11 +12,13 @@ type EventType =
   | 'conflict_resolution'
   | 'sql_execution'
   | 'step_execution'
+  | 'sql_repair'
   | 'result_processing'
   | 'response_generation'
+  | 'access_denied'
   | 'completion';
 
-interface BaseEvent {
+export interface BaseEvent {
   id: string;
   queryId: string;
   timestamp: number;
@@ -27,7 +30,9 @@ interface BaseEvent {
 interface QueryExecutionLogProps {
   queryId: string | null;
   isActive: boolean;
+  initialEvents?: BaseEvent[]; // Events of a past query restored from history; nothing is fetched
   onResult?: (result: any) => void;
+  onComplete?: (status: EventStatus, payload: Record<string, any>) => void;
 }
 
 // Map event types to human-readable names
@@ -39,8 +44,10 @@ const eventNames: Record<EventType, string> = {
   conflict_resolution: 'Resolving Conflicts',
   sql_execution: 'Executing SQL Query',
   step_execution: 'Executing Step',
+  sql_repair: 'Repairing SQL',
   result_processing: 'Processing Results',
   response_generation: 'Generating Response',
+  access_denied: 'Access Denied',
   completion: 'Query Completed'
 };
 
@@ -49,16 +56,17 @@ const statusColors: Record<EventStatus, string> = {
   started: '#ffb74d', // Orange
   in_progress: '#64b5f6', // Blue
   completed: '#81c784', // Green
-  error: '#e57373' // Red
+  error: '#e57373', // Red
+  cancelled: '#9e9e9e' // Grey
 };
 
-const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive, onResult }) => {
+const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive, initialEvents, onResult, onComplete }) => {
   const [events, setEvents] = useState<BaseEvent[]>([]);
-  const [lastTimestamp, setLastTimestamp] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const logContainerRef = useRef<HTMLDivElement>(null);
   const lastResultEventRef = useRef<string | null>(null);
+  const completionEventRef = useRef<string | null>(null);
   const [visibleEvent, setVisibleEvent] = useState<BaseEvent | null>(null);
   const [fade, setFade] = useState(false);
   const prevEventId = useRef<string | null>(null);
@@ -77,7 +85,7 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
       setLoading(true);
       setError(null);
       
-      const response = await fetch(`/api/events/${queryId}`);
+      const response = await fetch(`/api/events/${queryId}`, { headers: withAuthHeaders() });
       
       if (!response.ok) {
         throw new Error(`Error: ${response.status} ${response.statusText}`);
@@ -85,12 +93,6 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
       
       const data = await response.json();
       setEvents(data.events);
-      
-      // Update the timestamp of the last event
-      if (data.events.length > 0) {
-        const timestamps = data.events.map((event: BaseEvent) => event.timestamp);
-        setLastTimestamp(Math.max(...timestamps));
-      }
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -98,61 +100,63 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
     }
   };
   
-  // Poll for new events
-  const pollEvents = async () => {
-    if (!queryId || !isActive || lastTimestamp === 0) return;
-    
-    try {
-      const response = await fetch(`/api/events/${queryId}/poll?since=${lastTimestamp}`);
-      
-      if (!response.ok) {
-        throw new Error(`Error: ${response.status} ${response.statusText}`);
+  // Merge an event from the stream, replacing an earlier version of the same event
+  const mergeEvent = (event: BaseEvent) => {
+    setEvents(prevEvents => {
+      const index = prevEvents.findIndex(e => e.id === event.id);
+      if (index === -1) {
+        return [...prevEvents, event];
       }
-      
-      const data = await response.json();
-      
-      if (data.hasNewEvents) {
-        setEvents(prevEvents => {
-          // Merge existing events with new ones based on ID
-          const existingIds = new Set(prevEvents.map(e => e.id));
-          const newEvents = data.events.filter((e: BaseEvent) => !existingIds.has(e.id));
-          return [...prevEvents, ...newEvents];
-        });
-        
-        // Update the timestamp
-        setLastTimestamp(data.currentTimestamp);
-        
-        // Scroll to bottom to show latest events
-        if (logContainerRef.current) {
-          logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
-        }
-      }
-    } catch (err) {
-      console.error('Error polling events:', err);
-      // Don't set error state to avoid disrupting the UI during polling
-    }
+      const updated = [...prevEvents];
+      updated[index] = event;
+      return updated;
+    });
   };
   
-  // Initial fetch of events
+  // Initial fetch of events for a finished query
   useEffect(() => {
-    if (queryId) {
+    if (queryId && !isActive && initialEvents) {
+      setEvents(initialEvents);
+    } else if (queryId && !isActive) {
       fetchEvents();
-    } else {
+    } else if (!queryId) {
       setEvents([]);
-      setLastTimestamp(0);
     }
   }, [queryId]);
   
-  // Set up polling for new events
+  // Receive events of an active query over Server-Sent Events.
+  // The stream replays earlier events, and EventSource resumes from Last-Event-ID after reconnects
   useEffect(() => {
     if (!isActive || !queryId) return;
     
-    const pollInterval = setInterval(pollEvents, 1000); // Poll every second
+    setEvents([]);
+    setError(null);
+    const eventSource = new EventSource(withAuthParam(`/api/events/${queryId}/stream`));
+    
+    eventSource.addEventListener('query-event', (message) => {
+      try {
+        const event = JSON.parse((message as MessageEvent).data) as BaseEvent;
+        mergeEvent(event);
+        
+        // The server closes the stream after completion; stop EventSource from reconnecting
+        if (event.type === 'completion') {
+          eventSource.close();
+        }
+      } catch (err) {
+        console.error('Failed to parse query event:', err);
+      }
+    });
+    
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setError('Event stream connection failed');
+      }
+    };
     
     return () => {
-      clearInterval(pollInterval);
+      eventSource.close();
     };
-  }, [isActive, queryId, lastTimestamp]);
+  }, [isActive, queryId]);
   
   // Scroll to bottom when new events are added
   useEffect(() => {
@@ -173,6 +177,16 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
     }
   }, [events, onResult]);
   
+  // Call onComplete when the completion event (successful or not) is added
+  useEffect(() => {
+    if (!onComplete) return;
+    const completionEvent = events.find(e => e.type === 'completion');
+    if (completionEvent && completionEvent.id !== completionEventRef.current) {
+      completionEventRef.current = completionEvent.id;
+      onComplete(completionEvent.status, completionEvent.payload);
+    }
+  }, [events, onComplete]);
+  
   useEffect(() => {
     if (events.length === 0) return;
     const lastEvent = events[events.length - 1];
@@ -218,6 +232,25 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
               {visibleEvent.type === 'step_execution' && visibleEvent.payload.stepNumber && (
                 <div className="step-info">
                   Step {visibleEvent.payload.stepNumber} of {visibleEvent.payload.totalSteps}: {visibleEvent.payload.description || 'Executing step'}
+                  {typeof visibleEvent.payload.durationMs === 'number' && (
+                    <div>
+                      {visibleEvent.payload.rowCount} rows in {(visibleEvent.payload.durationMs / 1000).toFixed(2)}s
+                    </div>
+                  )}
+                  {visibleEvent.payload.fixes?.length > 0 && (
+                    <div>Fixes: {visibleEvent.payload.fixes.join('; ')}</div>
+                  )}
+                  {visibleEvent.payload.error && <div>Error: {visibleEvent.payload.error}</div>}
+                  {visibleEvent.payload.sql && <pre>{visibleEvent.payload.sql}</pre>}
+                </div>
+              )}
+              {visibleEvent.type === 'sql_repair' && (
+                <div className="step-info">
+                  Step {visibleEvent.payload.stepNumber} of {visibleEvent.payload.totalSteps}, attempt {visibleEvent.payload.attempt} ({visibleEvent.payload.method})
+                  <div>Error: {visibleEvent.payload.error}</div>
+                  {visibleEvent.payload.explanation && <div>Fix: {visibleEvent.payload.explanation}</div>}
+                  {visibleEvent.payload.failure && <div>Failed: {visibleEvent.payload.failure}</div>}
+                  {visibleEvent.payload.sql && <pre>{visibleEvent.payload.sql}</pre>}
                 </div>
               )}
               {visibleEvent.type === 'sql_execution' && visibleEvent.payload.sql && (
@@ -226,6 +259,9 @@ const QueryExecutionLog: React.FC<QueryExecutionLogProps> = ({ queryId, isActive
                   <pre>{visibleEvent.payload.sql}</pre>
                 </div>
               )}
+              {visibleEvent.type === 'access_denied' && (
+                <div className="access-denied-info">{visibleEvent.payload.error}</div>
+              )}
               {visibleEvent.type === 'completion' && visibleEvent.status === 'completed' && (
                 <div className="completion-info">
                   <div>Total Time: {((visibleEvent.payload.totalTime || 0) / 1000).toFixed(2)}s</div>
@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { withAuthHeaders } from '../utils/auth';
+
+export type ReportParameterType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'timestamp';
+
+export interface ReportParameter {
+  name: string;
+  type: ReportParameterType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  list?: boolean;
+  options?: Array<string | number>;
+}
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  description?: string;
+  question?: string;
+  parameters: ReportParameter[];
+}
+
+interface ReportRunResult {
+  runId: string;
+  rows: Record<string, unknown>[];
+  sql: string[];
+  durationMs: number;
+  errors?: Record<string, string>;
+}
+
+// Initial form values: defaults as the inputs expect them
+const getInitialValues = (report: SavedReport): Record<string, string | boolean> =>
+  Object.fromEntries(
+    report.parameters.map(parameter => {
+      if (parameter.type === 'boolean') {
+        return [parameter.name, parameter.default === true];
+      }
+      const value = parameter.default;
+      if (Array.isArray(value)) {
+        return [parameter.name, value.join(', ')];
+      }
+      return [parameter.name, value === undefined ? '' : String(value)];
+    })
+  );
+
+// Input type for a parameter type
+const inputTypes: Record<Exclude<ReportParameterType, 'boolean'>, string> = {
+  string: 'text',
+  integer: 'number',
+  number: 'number',
+  date: 'date',
+  timestamp: 'datetime-local'
+};
+
+const ReportsPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const [reports, setReports] = useState<SavedReport[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ReportRunResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = reports.find(report => report.id === selectedId);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const res = await fetch('/api/reports', { headers: withAuthHeaders() });
+      if (!res.ok) return;
+      const body = await res.json();
+      setReports(body.reports || []);
+    } catch (e) {
+      console.error('Failed to load reports:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleSelect = (reportId: string) => {
+    const report = reports.find(candidate => candidate.id === reportId);
+    setSelectedId(reportId);
+    setValues(report ? getInitialValues(report) : {});
+    setResult(null);
+    setError(null);
+  };
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    setRunning(true);
+    setError(null);
+    setResult(null);
+
+    // Пустые поля не передаются: сервер подставит значение по умолчанию
+    const parameters = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== '')
+    );
+
+    try {
+      const res = await fetch(`/api/reports/${selected.id}/run`, {
+        method: 'POST',
+        headers: withAuthHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ parameters })
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error || t.reportRunFailed);
+        return;
+      }
+      setResult(body);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t.reportRunFailed);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderInput = (parameter: ReportParameter) => {
+    const value = values[parameter.name];
+    const setValue = (next: string | boolean) =>
+      setValues(current => ({ ...current, [parameter.name]: next }));
+
+    if (parameter.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={e => setValue(e.target.checked)}
+        />
+      );
+    }
+
+    if (parameter.options?.length && !parameter.list) {
+      return (
+        <select value={String(value ?? '')} onChange={e => setValue(e.target.value)}>
+          <option value="" />
+          {parameter.options.map(option => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    // Список вводится через запятую
+    return (
+      <input
+        type={parameter.list ? 'text' : inputTypes[parameter.type]}
+        step={parameter.type === 'number' ? 'any' : undefined}
+        value={String(value ?? '')}
+        onChange={e => setValue(e.target.value)}
+        placeholder={parameter.list ? t.reportListHint : parameter.description}
+        required={parameter.required ?? parameter.default === undefined}
+      />
+    );
+  };
+
+  const columns = result && result.rows.length > 0 ? Object.keys(result.rows[0]) : [];
+
+  return (
+    <section className="reports-panel">
+      <h2>{t.reportsTitle}</h2>
+      {reports.length === 0 ? (
+        <div className="history-empty">{t.reportsEmpty}</div>
+      ) : (
+        <select
+          className="reports-select"
+          value={selectedId}
+          onChange={e => handleSelect(e.target.value)}
+        >
+          <option value="">{t.reportSelectPlaceholder}</option>
+          {reports.map(report => (
+            <option key={report.id} value={report.id}>
+              {report.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {selected && (
+        <form className="report-form" onSubmit={handleRun}>
+          {selected.description && <p className="report-description">{selected.description}</p>}
+          {selected.parameters.map(parameter => (
+            <label key={parameter.name} className="report-parameter" title={parameter.description}>
+              <span>{parameter.label || parameter.name}</span>
+              {renderInput(parameter)}
+            </label>
+          ))}
+          <button type="submit" className="submit-button" disabled={running}>
+            {running ? t.processingButton : t.runReportButton}
+          </button>
+        </form>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      {result && (
+        <div className="report-result">
+          <div className="report-result-meta">
+            {t.reportRowCount}: {result.rows.length} · {(result.durationMs / 1000).toFixed(1)}s
+          </div>
+          {result.errors &&
+            Object.entries(result.errors).map(([stepId, stepError]) => (
+              <div key={stepId} className="error-message">
+                {stepId}: {stepError}
+              </div>
+            ))}
+          {columns.length > 0 && (
+            <div className="report-table-wrapper">
+              <table className="report-table">
+                <thead>
+                  <tr>
+                    {columns.map(column => (
+                      <th key={column}>{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row, index) => (
+                    <tr key={index}>
+                      {columns.map(column => (
+                        <td key={column}>
+                          {typeof row[column] === 'object' && row[column] !== null
+                            ? JSON.stringify(row[column])
+                            : String(row[column] ?? '')}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {result.sql.length > 0 && (
+            <div className="sql-query">
+              <h3>{t.sqlQueryTitle}</h3>
+              <pre>{result.sql.join('\n\n')}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ReportsPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { withAuthHeaders } from '../utils/auth';
+
+type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+const formats: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'jsonl', label: 'JSONL' },
+  { format: 'xlsx', label: 'XLSX' }
+];
+
+interface ResultDownloadsProps {
+  queryId: string;
+  step?: string; // Step or service of the plan; by default the final result is downloaded
+}
+
+// File name suggested by the server in Content-Disposition
+const getFileName = (response: Response, fallback: string): string => {
+  const match = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '');
+  return match ? match[1] : fallback;
+};
+
+/**
+ * Buttons that download a query result as CSV, JSON Lines or an Excel workbook.
+ * The request needs the auth headers, so the file is fetched and saved from a blob
+ */
+const ResultDownloads: React.FC<ResultDownloadsProps> = ({ queryId, step }) => {
+  const { t } = useLanguage();
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    setDownloading(format);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ format });
+      if (step) params.set('step', step);
+
+      const res = await fetch(`/api/query/${queryId}/export?${params}`, { headers: withAuthHeaders() });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        setError(body.error || t.downloadFailed);
+        return;
+      }
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName(res, `query-${queryId}.${format}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t.downloadFailed);
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="result-downloads">
+      <span>{t.downloadLabel}:</span>
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          className="download-button"
+          disabled={downloading !== null}
+          onClick={() => download(format)}
+        >
+          {downloading === format ? '…' : label}
+        </button>
+      ))}
+      {error && <span className="download-error">{error}</span>}
+    </div>
+  );
+};
+
+export default ResultDownloads;
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { LogEntry } from '../components/execution/LogViewer';
+import { withAuthParam } from '../utils/auth';
 
 type UseLogStreamOptions = {
   queryId?: string;
@@ -19,7 +20,7 @@ const useLogStream = ({ queryId, autoConnect = true }: UseLogStreamOptions) => {
 
     try {
       // Create SSE connection to backend
-      const eventSource = new EventSource(`/api/logs/stream/${queryId}`);
+      const eventSource = new EventSource(withAuthParam(`/api/logs/stream/${queryId}`));
 
       // Handle connection open
       eventSource.onopen = () => {
@@ -37,6 +38,19 @@ const useLogStream = ({ queryId, autoConnect = true }: UseLogStreamOptions) => {
         }
       });
 
+      // The server closes the stream after the completion event; stop EventSource from reconnecting
+      eventSource.addEventListener('query-event', (event) => {
+        try {
+          const queryEvent = JSON.parse((event as MessageEvent).data) as { type: string };
+          if (queryEvent.type === 'completion') {
+            eventSource.close();
+            setIsConnected(false);
+          }
+        } catch (err) {
+          console.error('Failed to parse query event:', err);
+        }
+      });
+
       // Handle errors
       eventSource.onerror = () => {
         setIsConnected(false);
@@ -6,6 +6,7 @@ import { languageInstructions } from '../config/languageConfig';
 import { v4 as uuidv4 } from 'uuid';
 import useWebSocketEvents, { WebSocketEvent } from './useWebSocketEvents';
 import { detectDataTypes, DataTypeFlags } from '../utils/dataTypeDetector';
+import { withAuthHeaders } from '../utils/auth';
 
 type QueryResult = {
   data: Record<string, unknown>;
@@ -196,9 +197,9 @@ const useQueryExecution = (): UseQueryExecutionReturn => {
       // Actually execute the query
       const response = await fetch('/api/query', {
         method: 'POST',
-        headers: {
+        headers: withAuthHeaders({
           'Content-Type': 'application/json',
-        },
+        }),
         body: JSON.stringify(queryRequest),
       });
       
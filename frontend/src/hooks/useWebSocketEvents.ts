@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { withAuthParam } from '../utils/auth';
 
 export type WebSocketEvent = {
   type: string;
@@ -13,6 +14,7 @@ type UseWebSocketEventsReturn = {
   connected: boolean;
   error: string | null;
   on: (eventType: string, callback: WebSocketEventCallback) => () => void;
+  cancel: () => void;
 };
 
 /**
@@ -29,7 +31,7 @@ const useWebSocketEvents = (queryId?: string): UseWebSocketEventsReturn => {
     if (!queryId) return;
     
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    const wsUrl = withAuthParam(`${protocol}//${window.location.host}/ws`);
     
     // Create WebSocket connection
     const ws = new WebSocket(wsUrl);
@@ -95,10 +97,22 @@ const useWebSocketEvents = (queryId?: string): UseWebSocketEventsReturn => {
     };
   };
   
+  // Ask the server to cancel the running query
+  const cancel = () => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !queryId) return;
+    
+    ws.send(JSON.stringify({
+      type: 'cancel',
+      queryId
+    }));
+  };
+  
   return {
     connected,
     error,
-    on
+    on,
+    cancel
   };
 };
 
@@ -9,7 +9,48 @@ export const en = {
   sqlQueryTitle: "SQL Query",
   dataTitle: "Data",
   errorDefault: "Failed to process query",
-  languageHint: "Instruction \"Отвечай на русском\" will be added to your query"
+  languageHint: "Instruction \"Отвечай на русском\" will be added to your query",
+  newConversationButton: "New conversation",
+  followUpPlaceholder: "Ask a follow-up, e.g. \"now only for last week\" or \"break that down by currency\"",
+  conversationEmpty: "Start a conversation by asking a question about your data",
+  cancelButton: "Cancel query",
+  queryCancelled: "The query was cancelled",
+  credentialPlaceholder: "API key or access token",
+  authRequired: "Authentication required: enter your API key or access token",
+  historyTitle: "History",
+  historyEmpty: "Your past queries will appear here",
+  historyStatuses: {
+    running: "Running",
+    completed: "Completed",
+    error: "Failed",
+    cancelled: "Cancelled"
+  },
+  rerunButton: "Re-run",
+  editRerunButton: "Edit",
+  editingRerun: "Editing a past query: it will be re-run with your changes",
+  discardRerunButton: "Discard",
+  reportsButton: "Reports",
+  reportsTitle: "Saved reports",
+  reportsEmpty: "No saved reports yet",
+  reportSelectPlaceholder: "Choose a report",
+  runReportButton: "Run report",
+  reportListHint: "Several values, separated by commas",
+  reportRowCount: "Rows",
+  reportRunFailed: "Failed to run report",
+  downloadLabel: "Download",
+  downloadFailed: "Failed to download the result",
+  truncatedNotice: "Cut by the row limit, rows shown",
+  truncatedOf: "of",
+  truncatedUnknownTotal: "unknown",
+  profileTitle: "Column summary",
+  profileColumn: "Column",
+  profileType: "Type",
+  profileNulls: "Nulls",
+  profileDistinct: "Distinct",
+  profileRange: "Range",
+  profileMean: "Mean",
+  profileTopValues: "Top values",
+  profileOmittedColumns: "Columns not summarized"
 };
 
 export default en; 
\ No newline at end of file
@@ -9,7 +9,48 @@ export const ru = {
   sqlQueryTitle: "SQL Запрос",
   dataTitle: "Данные",
   errorDefault: "Не удалось обработать запрос",
-  languageHint: "К вашему запросу будет добавлена инструкция \"Отвечай на русском\""
+  languageHint: "К вашему запросу будет добавлена инструкция \"Отвечай на русском\"",
+  newConversationButton: "Новый диалог",
+  followUpPlaceholder: "Задайте уточняющий вопрос, например \"теперь только за последнюю неделю\" или \"разбей по валютам\"",
+  conversationEmpty: "Начните диалог, задав вопрос о ваших данных",
+  cancelButton: "Отменить запрос",
+  queryCancelled: "Запрос был отменен",
+  credentialPlaceholder: "API ключ или токен доступа",
+  authRequired: "Требуется аутентификация: укажите API ключ или токен доступа",
+  historyTitle: "История",
+  historyEmpty: "Здесь появятся ваши прошлые запросы",
+  historyStatuses: {
+    running: "Выполняется",
+    completed: "Выполнен",
+    error: "Ошибка",
+    cancelled: "Отменен"
+  },
+  rerunButton: "Повторить",
+  editRerunButton: "Изменить",
+  editingRerun: "Редактирование прошлого запроса: он будет выполнен повторно с вашими изменениями",
+  discardRerunButton: "Отменить",
+  reportsButton: "Отчеты",
+  reportsTitle: "Сохраненные отчеты",
+  reportsEmpty: "Сохраненных отчетов пока нет",
+  reportSelectPlaceholder: "Выберите отчет",
+  runReportButton: "Выполнить отчет",
+  reportListHint: "Несколько значений через запятую",
+  reportRowCount: "Строк",
+  reportRunFailed: "Не удалось выполнить отчет",
+  downloadLabel: "Скачать",
+  downloadFailed: "Не удалось скачать результат",
+  truncatedNotice: "Обрезано лимитом строк, показано строк",
+  truncatedOf: "из",
+  truncatedUnknownTotal: "неизвестно",
+  profileTitle: "Сводка по колонкам",
+  profileColumn: "Колонка",
+  profileType: "Тип",
+  profileNulls: "Пустые",
+  profileDistinct: "Уникальные",
+  profileRange: "Диапазон",
+  profileMean: "Среднее",
+  profileTopValues: "Частые значения",
+  profileOmittedColumns: "Колонки без сводки"
 };
 
 export default ru; 
\ No newline at end of file
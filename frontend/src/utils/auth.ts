@@ -0,0 +1,55 @@
+/**
+ * Key of the stored credential in localStorage
+ */
+const STORAGE_KEY = 'chat-with-sql:credential';
+
+/**
+ * Returns the stored API key or JWT (empty string when not set)
+ */
+export const getCredential = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  } catch (e) {
+    return '';
+  }
+};
+
+/**
+ * Stores the API key or JWT used for API requests
+ */
+export const setCredential = (credential: string): void => {
+  const value = credential.trim();
+  if (value) {
+    localStorage.setItem(STORAGE_KEY, value);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+/**
+ * Checks whether a credential is a JWT rather than an API key
+ */
+const isJwt = (credential: string): boolean => credential.split('.').length === 3;
+
+/**
+ * Adds the stored credential to request headers
+ */
+export const withAuthHeaders = (headers: Record<string, string> = {}): Record<string, string> => {
+  const credential = getCredential();
+  if (!credential) return headers;
+
+  return isJwt(credential)
+    ? { ...headers, Authorization: `Bearer ${credential}` }
+    : { ...headers, 'X-API-Key': credential };
+};
+
+/**
+ * Adds the stored credential to a URL; EventSource and WebSocket cannot send headers
+ */
+export const withAuthParam = (url: string): string => {
+  const credential = getCredential();
+  if (!credential) return url;
+
+  const param = isJwt(credential) ? 'access_token' : 'api_key';
+  return `${url}${url.includes('?') ? '&' : '?'}${param}=${encodeURIComponent(credential)}`;
+};